@@ -1,12 +1,143 @@
 // electron/main.cjs
 // Minimal Electron main process to package your Vite React debate map as a desktop app.
-const { app, BrowserWindow, shell } = require('electron')
+// Besides the window it owns native file handling: open/save dialogs, .debatemap files
+// opened from the OS, the recent-files list and the "save changes?" prompt on close.
+const { app, BrowserWindow, dialog, ipcMain, shell } = require('electron')
+const fs = require('fs')
 const path = require('path')
 
 const isDev = !!process.env.VITE_DEV_SERVER_URL
 
+const EXTENSION = 'debatemap'
+const MAX_RECENT = 10
+const OPEN_FILTERS = [
+  { name: 'Debate maps', extensions: [EXTENSION, 'json'] },
+  { name: 'All files', extensions: ['*'] }
+]
+
+let win = null
+// what the renderer last reported about its document, for the title and the close prompt
+let docState = { title: 'Debate Map', dirty: false }
+// set once the user chose to close without (or after) saving
+let closeConfirmed = false
+// a file the OS asked us to open before the renderer was ready to take it
+let pendingPath = null
+let rendererReady = false
+
+// One window owns the documents: opening a .debatemap file while the app runs reuses it
+const isPrimary = app.requestSingleInstanceLock()
+if (!isPrimary) app.quit()
+
+const documentArg = argv => argv.slice(1).find(a => !a.startsWith('-') && a.toLowerCase().endsWith('.' + EXTENSION))
+
+// ---------- Recent files ----------
+const recentFile = () => path.join(app.getPath('userData'), 'recent-files.json')
+
+function readRecent() {
+  try {
+    const list = JSON.parse(fs.readFileSync(recentFile(), 'utf8'))
+    return Array.isArray(list) ? list.filter(p => typeof p === 'string') : []
+  } catch { return [] }
+}
+
+function addRecent(filePath) {
+  const list = [filePath, ...readRecent().filter(p => p !== filePath)].slice(0, MAX_RECENT)
+  try { fs.writeFileSync(recentFile(), JSON.stringify(list, null, 2)) } catch { /* the list is a convenience */ }
+  // also shows up in the taskbar jump list / dock menu
+  app.addRecentDocument(filePath)
+}
+
+// ---------- Files ----------
+async function readDocument(filePath) {
+  const text = await fs.promises.readFile(filePath, 'utf8')
+  addRecent(filePath)
+  return { path: filePath, name: path.basename(filePath), text }
+}
+
+function openPath(filePath) {
+  if (win && rendererReady) {
+    readDocument(filePath).then(
+      file => win.webContents.send('file:opened', file),
+      e => dialog.showErrorBox('Could not open file', `${filePath}\n\n${e.message}`)
+    )
+    if (win.isMinimized()) win.restore()
+    win.focus()
+  } else {
+    pendingPath = filePath
+  }
+}
+
+ipcMain.handle('file:open', async () => {
+  const res = await dialog.showOpenDialog(win, { properties: ['openFile'], filters: OPEN_FILTERS })
+  if (res.canceled || !res.filePaths[0]) return null
+  return readDocument(res.filePaths[0])
+})
+
+// The renderer names a file only to reopen a recent one: anything else must at least be a map,
+// so the page has no way to read arbitrary files
+const mayOpen = filePath => typeof filePath === 'string' && (
+  filePath === pendingPath ||
+  readRecent().includes(filePath) ||
+  OPEN_FILTERS[0].extensions.includes(path.extname(filePath).slice(1).toLowerCase())
+)
+
+ipcMain.handle('file:open-path', (_e, filePath) => {
+  if (!mayOpen(filePath)) throw new Error('Only debate map files (.debatemap or .json) can be opened.')
+  return readDocument(filePath)
+})
+
+// Saves to `path`, or asks where when there is none (new document, Save As)
+ipcMain.handle('file:save', async (_e, { path: target, text, suggestedName }) => {
+  let filePath = target
+  if (!filePath) {
+    const res = await dialog.showSaveDialog(win, {
+      defaultPath: `${suggestedName}.${EXTENSION}`,
+      filters: [{ name: 'Debate map', extensions: [EXTENSION] }]
+    })
+    if (res.canceled || !res.filePath) return null
+    filePath = res.filePath
+  }
+  await fs.promises.writeFile(filePath, text, 'utf8')
+  addRecent(filePath)
+  return { path: filePath, name: path.basename(filePath) }
+})
+
+ipcMain.handle('file:take-pending', async () => {
+  rendererReady = true
+  const filePath = pendingPath
+  pendingPath = null
+  return filePath ? readDocument(filePath) : null
+})
+
+ipcMain.handle('recent:list', () => readRecent().filter(p => fs.existsSync(p)))
+
+ipcMain.handle('recent:clear', () => {
+  try { fs.unlinkSync(recentFile()) } catch { /* already empty */ }
+  app.clearRecentDocuments()
+})
+
+// ---------- Window title and close prompt ----------
+ipcMain.on('window:state', (_e, state) => {
+  docState = state
+  if (!win) return
+  win.setTitle(`${state.dirty ? '● ' : ''}${state.title} — Debate Map`)
+  if (process.platform === 'darwin') {
+    win.setDocumentEdited(state.dirty)
+    win.setRepresentedFilename(state.path || '')
+  }
+})
+
+ipcMain.on('window:close-after-save', (_e, saved) => {
+  if (!saved || !win) return
+  closeConfirmed = true
+  win.close()
+})
+
 function createWindow() {
-  const win = new BrowserWindow({
+  rendererReady = false
+  closeConfirmed = false
+  docState = { title: 'Debate Map', dirty: false }
+  win = new BrowserWindow({
     width: 1240,
     height: 800,
     webPreferences: {
@@ -34,9 +165,54 @@ function createWindow() {
     shell.openExternal(url)
     return { action: 'deny' }
   })
+
+  // the title follows the document, not the page's <title>
+  win.on('page-title-updated', e => e.preventDefault())
+  // a reload starts a new renderer, which asks for pending files again
+  win.webContents.on('did-start-loading', () => { rendererReady = false })
+
+  win.on('close', e => {
+    if (closeConfirmed || !docState.dirty) return
+    e.preventDefault()
+    const choice = dialog.showMessageBoxSync(win, {
+      type: 'warning',
+      buttons: ['Save', "Don't Save", 'Cancel'],
+      defaultId: 0,
+      cancelId: 2,
+      message: `Save changes to “${docState.title}”?`,
+      detail: "Your changes will be lost if you don't save them."
+    })
+    if (choice === 0) {
+      // the renderer saves (asking where if needed) and answers with window:close-after-save
+      win.webContents.send('app:save-before-close')
+    } else if (choice === 1) {
+      closeConfirmed = true
+      win.close()
+    }
+  })
+  win.on('closed', () => { win = null })
 }
 
+// macOS hands files over with an event, possibly before the app is ready
+app.on('open-file', (e, filePath) => {
+  e.preventDefault()
+  openPath(filePath)
+})
+
+// Windows/Linux start a second instance with the file as an argument; it hands over and quits
+app.on('second-instance', (_e, argv) => {
+  const filePath = documentArg(argv)
+  if (filePath) openPath(filePath)
+  else if (win) {
+    if (win.isMinimized()) win.restore()
+    win.focus()
+  }
+})
+
 app.whenReady().then(() => {
+  if (!isPrimary) return
+  const filePath = documentArg(process.argv)
+  if (filePath) pendingPath = filePath
   createWindow()
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) createWindow()
@@ -1,4 +1,28 @@
 // electron/preload.cjs
-// Keeping this minimal: no Node.js APIs are exposed by default.
-const { contextBridge } = require('electron')
-contextBridge.exposeInMainWorld('__app', { version: '1.0.0' })
+// Keeping this minimal: no Node.js APIs are exposed, only the file handling in main.cjs.
+const { contextBridge, ipcRenderer, webUtils } = require('electron')
+
+// subscribe to a message from the main process; returns the unsubscribe function
+const listen = (channel, cb) => {
+  const handler = (_e, ...args) => cb(...args)
+  ipcRenderer.on(channel, handler)
+  return () => ipcRenderer.removeListener(channel, handler)
+}
+
+contextBridge.exposeInMainWorld('__app', {
+  version: '1.0.0',
+  // lets the renderer remember where an attached media file lives, so it reopens offline
+  getPathForFile: file => webUtils ? webUtils.getPathForFile(file) : file.path,
+  files: {
+    open: () => ipcRenderer.invoke('file:open'),
+    openPath: filePath => ipcRenderer.invoke('file:open-path', filePath),
+    save: request => ipcRenderer.invoke('file:save', request),
+    takePending: () => ipcRenderer.invoke('file:take-pending'),
+    recent: () => ipcRenderer.invoke('recent:list'),
+    clearRecent: () => ipcRenderer.invoke('recent:clear'),
+    setWindowState: state => ipcRenderer.send('window:state', state),
+    closeAfterSave: saved => ipcRenderer.send('window:close-after-save', saved),
+    onOpened: cb => listen('file:opened', cb),
+    onSaveBeforeClose: cb => listen('app:save-before-close', cb)
+  }
+})
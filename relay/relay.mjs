@@ -0,0 +1,239 @@
+// relay/relay.mjs
+// Self-hostable relay for live collaboration (see src/store/collab.ts). Plain Node, no
+// dependencies: run `npm run relay` (or `node relay/relay.mjs --port 8787 --data ./rooms`).
+//
+// Clients connect to ws://host:port/<room>?client=<id>. The relay forwards operations and
+// presence to everyone else in the room and keeps, per room, the newest operation for every
+// field, which is all a late joiner needs to rebuild the map. With --data, rooms are written
+// to disk and survive a restart; without it they live as long as the process.
+import http from 'node:http'
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+
+const args = process.argv.slice(2)
+const arg = (name, fallback) => {
+  const i = args.indexOf('--' + name)
+  return i >= 0 && args[i + 1] ? args[i + 1] : fallback
+}
+const PORT = Number(arg('port', process.env.PORT || 8787))
+const HOST = arg('host', process.env.HOST || '0.0.0.0')
+const DATA_DIR = arg('data', process.env.RELAY_DATA || '')
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+const MAX_MESSAGE = 16 * 1024 * 1024
+const PING_MS = 30000
+const SAVE_DELAY_MS = 2000
+
+// ---------- Rooms ----------
+/** @type {Map<string, { ops: Map<string, any>, clients: Map<string, Connection>, presence: Map<string, any>, saveTimer?: NodeJS.Timeout }>} */
+const rooms = new Map()
+
+const later = (a, b) => a.c - b.c || (a.by < b.by ? -1 : a.by > b.by ? 1 : 0)
+const roomFile = name => path.join(DATA_DIR, encodeURIComponent(name) + '.json')
+
+function roomOf(name) {
+  let room = rooms.get(name)
+  if (room) return room
+  room = { ops: new Map(), clients: new Map(), presence: new Map() }
+  if (DATA_DIR) {
+    try {
+      for (const op of JSON.parse(fs.readFileSync(roomFile(name), 'utf8'))) room.ops.set(`${op.coll}:${op.id}:${op.field}`, op)
+    } catch (e) {
+      if (e.code !== 'ENOENT') console.error(`room ${name}: could not read saved operations:`, e.message)
+    }
+  }
+  rooms.set(name, room)
+  return room
+}
+
+// keeps only the newest operation per field; returns those that were news
+function record(room, ops) {
+  const fresh = []
+  for (const op of ops) {
+    if (!op || typeof op.coll !== 'string' || typeof op.id !== 'string' || typeof op.field !== 'string' ||
+        !op.stamp || typeof op.stamp.c !== 'number' || typeof op.stamp.by !== 'string') continue
+    const key = `${op.coll}:${op.id}:${op.field}`
+    const prev = room.ops.get(key)
+    if (prev && later(op.stamp, prev.stamp) <= 0) continue
+    room.ops.set(key, op)
+    fresh.push(op)
+  }
+  return fresh
+}
+
+function scheduleSave(name, room) {
+  if (!DATA_DIR || room.saveTimer) return
+  room.saveTimer = setTimeout(() => {
+    room.saveTimer = undefined
+    const file = roomFile(name)
+    fs.promises.mkdir(DATA_DIR, { recursive: true })
+      .then(() => fs.promises.writeFile(file + '.tmp', JSON.stringify([...room.ops.values()])))
+      .then(() => fs.promises.rename(file + '.tmp', file))
+      .catch(e => console.error(`room ${name}: could not save:`, e.message))
+  }, SAVE_DELAY_MS)
+}
+
+function broadcast(room, from, msg) {
+  const text = JSON.stringify(msg)
+  for (const [id, conn] of room.clients) if (id !== from) conn.send(text)
+}
+
+function onMessage(name, room, client, text) {
+  let msg
+  try { msg = JSON.parse(text) } catch { return }
+  if (msg.type === 'ops' && Array.isArray(msg.ops)) {
+    const fresh = record(room, msg.ops)
+    if (!fresh.length) return
+    broadcast(room, client, { type: 'ops', ops: fresh })
+    scheduleSave(name, room)
+  } else if (msg.type === 'presence' && msg.presence && typeof msg.presence === 'object') {
+    room.presence.set(client, msg.presence)
+    broadcast(room, client, { type: 'presence', client, presence: msg.presence })
+  }
+}
+
+// ---------- WebSocket (RFC 6455, text frames only) ----------
+class Connection {
+  constructor(socket, onText, onClose) {
+    this.socket = socket
+    this.onText = onText
+    this.onClose = onClose
+    this.buffer = Buffer.alloc(0)
+    this.fragments = []
+    this.alive = true
+    this.closed = false
+    socket.on('data', chunk => this.read(chunk))
+    socket.on('close', () => this.finish())
+    socket.on('error', () => this.finish())
+  }
+
+  read(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    while (this.buffer.length >= 2) {
+      const b0 = this.buffer[0], b1 = this.buffer[1]
+      const fin = (b0 & 0x80) !== 0, opcode = b0 & 0x0f, masked = (b1 & 0x80) !== 0
+      let len = b1 & 0x7f, offset = 2
+      if (len === 126) {
+        if (this.buffer.length < 4) return
+        len = this.buffer.readUInt16BE(2); offset = 4
+      } else if (len === 127) {
+        if (this.buffer.length < 10) return
+        len = Number(this.buffer.readBigUInt64BE(2)); offset = 10
+      }
+      // clients must mask; anything too large is refused outright
+      if (!masked) return this.close(1002)
+      if (len > MAX_MESSAGE) return this.close(1009)
+      if (this.buffer.length < offset + 4 + len) return
+      const mask = this.buffer.subarray(offset, offset + 4)
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + len))
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3]
+      this.buffer = this.buffer.subarray(offset + 4 + len)
+      this.frame(fin, opcode, payload)
+      if (this.closed) return
+    }
+  }
+
+  frame(fin, opcode, payload) {
+    if (opcode === 0x8) return this.close(1000)
+    if (opcode === 0x9) return this.write(0xA, payload)
+    if (opcode === 0xA) { this.alive = true; return }
+    if (opcode === 0x2) return this.close(1003)
+    if (opcode === 0x1 || opcode === 0x0) {
+      this.fragments.push(payload)
+      if (this.fragments.reduce((n, f) => n + f.length, 0) > MAX_MESSAGE) return this.close(1009)
+      if (!fin) return
+      const text = Buffer.concat(this.fragments).toString('utf8')
+      this.fragments = []
+      this.onText(text)
+    }
+  }
+
+  write(opcode, payload) {
+    if (this.closed) return
+    const len = payload.length
+    const header = len < 126 ? Buffer.from([0x80 | opcode, len])
+      : len < 65536 ? Buffer.from([0x80 | opcode, 126, len >> 8, len & 0xff])
+        : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(len)); return b })()])
+    this.socket.write(Buffer.concat([header, payload]))
+  }
+
+  send(text) { this.write(0x1, Buffer.from(text, 'utf8')) }
+
+  ping() {
+    if (!this.alive) return this.socket.destroy()
+    this.alive = false
+    this.write(0x9, Buffer.alloc(0))
+  }
+
+  close(code) {
+    if (this.closed) return
+    const body = Buffer.alloc(2)
+    body.writeUInt16BE(code)
+    this.write(0x8, body)
+    this.finish()
+    this.socket.end()
+  }
+
+  finish() {
+    if (this.closed) return
+    this.closed = true
+    this.onClose()
+  }
+}
+
+// ---------- Server ----------
+const server = http.createServer((req, res) => {
+  // plain GET: a health check
+  const people = [...rooms.values()].reduce((n, r) => n + r.clients.size, 0)
+  res.writeHead(200, { 'Content-Type': 'text/plain' })
+  res.end(`Debate map relay: ${rooms.size} room(s), ${people} connected\n`)
+})
+
+server.on('upgrade', (req, socket) => {
+  let url, name
+  try {
+    url = new URL(req.url || '/', 'http://relay')
+    name = decodeURIComponent(url.pathname.slice(1))
+  } catch {
+    // a malformed path or escape: refuse this request, keep serving the others
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+    return
+  }
+  const client = url.searchParams.get('client') || crypto.randomUUID()
+  const key = req.headers['sec-websocket-key']
+  if (!name || !key || String(req.headers.upgrade).toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+    return
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64')
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', '',
+  ].join('\r\n'))
+  socket.setNoDelay(true)
+
+  const room = roomOf(name)
+  const conn = new Connection(socket, text => onMessage(name, room, client, text), () => {
+    if (room.clients.get(client) !== conn) return
+    room.clients.delete(client)
+    room.presence.delete(client)
+    broadcast(room, client, { type: 'leave', client })
+    console.log(`room ${name}: ${client} left (${room.clients.size} connected)`)
+  })
+  // the same client reconnecting replaces its old connection
+  room.clients.get(client)?.close(1000)
+  room.clients.set(client, conn)
+  conn.send(JSON.stringify({ type: 'sync', ops: [...room.ops.values()] }))
+  for (const [id, presence] of room.presence) if (id !== client) conn.send(JSON.stringify({ type: 'presence', client: id, presence }))
+  console.log(`room ${name}: ${client} joined (${room.clients.size} connected)`)
+})
+
+setInterval(() => { for (const room of rooms.values()) for (const conn of room.clients.values()) conn.ping() }, PING_MS).unref()
+
+server.listen(PORT, HOST, () => {
+  console.log(`Debate map relay on ws://${HOST === '0.0.0.0' ? 'localhost' : HOST}:${PORT}` + (DATA_DIR ? `, rooms saved in ${path.resolve(DATA_DIR)}` : ''))
+})
@@ -4,16 +4,65 @@ import React from 'react'
 import ReactFlow, {
   Background,
   useNodesState, useEdgesState, addEdge, Connection, NodeTypes,
-  applyNodeChanges, NodeChange, EdgeTypes
+  applyNodeChanges, NodeChange, EdgeTypes, ReactFlowInstance
 } from 'reactflow'
 import 'reactflow/dist/style.css'
 
 import NodeCard from './components/NodeCard'
 import ThickEdge from './components/ThickEdge'
 import LinkEdge from './components/LinkEdge' // dashed edge for Type 2 links
+import ImportReport from './components/ImportReport'
+import ProblemsPanel from './components/ProblemsPanel'
+import DeleteDialog from './components/DeleteDialog'
+import ScorePanel from './components/ScorePanel'
+import ScoreBreakdown from './components/ScoreBreakdown'
+import TranscriptPanel from './components/TranscriptPanel'
+import MediaPlayer from './components/MediaPlayer'
+import TimelineView from './components/TimelineView'
+import ReplayControls from './components/ReplayControls'
+import OutlineImportDialog, { OutlineImportMode } from './components/OutlineImportDialog'
+import ConversionReport from './components/ConversionReport'
 import { useGraphStore } from './store/useGraphStore'
-import type { DebateNode, DebateEdge } from './graph/types'
-import { computeLayout } from './graph/layout'
+import type { DebateNode, DebateEdge, Snapshot } from './graph/types'
+import { buildLayoutTree, sizeOf, NodeSize, Pos } from './graph/layout'
+import { LAYOUT_ENGINES, LayoutEngineId } from './graph/layoutEngines'
+import { buildChildrenPairs } from './graph/tree'
+import { matches, parseQuery } from './graph/search'
+import type { DeleteMode } from './graph/delete'
+import { readSnapshot, toSavedSnapshot, SnapshotIssue } from './graph/snapshot'
+import { lintSnapshot, LintIssue } from './graph/lint'
+import { labelArguments, ArgLabel, ArgSemantics, SupportReading } from './graph/semantics'
+import { scoreMap } from './graph/scoring'
+import { parseTranscript, speakerLabels, guessSpeakers, cueWindow, nodesMentionedBetween, formatClock, parseTimestamp } from './graph/transcript'
+import { isElectron, pathForFile, fileUrl, desktopFiles, OpenedFile } from './platform'
+import { replayOrder, revealedEdges } from './graph/replay'
+import { exportMarkdownOutline } from './graph/outline'
+import { importFormatOf, importText, ImportFormat, IMPORT_FORMAT_LABELS } from './graph/importFormats'
+import { exportKialo } from './graph/kialo'
+import { exportArgdown } from './graph/argdown'
+import { AifKindHeuristic, DEFAULT_AIF_HEURISTIC, exportAif, isAifDocument } from './graph/aif'
+import AifHeuristicOptions from './components/AifHeuristicOptions'
+import Legend from './components/Legend'
+import { buildSharedHtml } from './graph/sharedHtml'
+import { deleteDocument, documentTitle, duplicateDocument, lastDocument, LibraryEntry, listDocuments, loadDocument, renameDocument, saveDocument, setLastDocument } from './library'
+import LibraryPanel from './components/LibraryPanel'
+import RecoveryDialog from './components/RecoveryDialog'
+import CollabPanel, { CollabSettings, peerColor } from './components/CollabPanel'
+import { startCollab, CollabSession, CollabStatus, Peer } from './store/collab'
+import DiffPanel from './components/DiffPanel'
+import MergeDialog from './components/MergeDialog'
+import { diffSnapshots } from './graph/diff'
+import HistoryPanel from './components/HistoryPanel'
+import CommentsPanel from './components/CommentsPanel'
+import { commentCounts, Thread, threadsOf, threadTarget } from './graph/comments'
+import SourcesPanel, { SourceExport } from './components/SourcesPanel'
+import CitationsEditor from './components/CitationsEditor'
+import { citingNodes, exportBibtex, exportCslJson, exportReferenceList, importSources, SOURCE_FORMAT_LABELS, sourceFormatOf } from './graph/sources'
+import RevisionPreviewBar from './components/RevisionPreviewBar'
+import { addRevision, deleteRevision, DocHistory, EMPTY_HISTORY, historyFromFile, historyUntil, renameRevision, revisionContent, withHistory } from './graph/history'
+import { canvasMeasure, ImageNode, ImageRect, renderMapSvg, svgToPng } from './graph/mapImage'
+import type { ConversionNote, ExportResult } from './graph/interchange'
+import type { MediaRef } from './graph/types'
 const preloads = import.meta.glob('./preloads/*.json', { eager: true, import: 'default' });
 import './styles.css'
 
@@ -29,45 +78,6 @@ const participantColor = (participantId: string, ids: string[]) => {
   return PALETTE[idx % PALETTE.length]
 }
 
-function buildChildrenPairs(edges: DebateEdge[]) {
-  const pairs: Array<[string, string]> = []
-  edges.forEach(e => {
-    const kind = (e.data as any)?.kind
-    if (kind === 'supports') pairs.push([e.source, e.target])
-    else if (kind === 'evidence-of' || kind === 'agrees-with') pairs.push([e.target, e.source])
-    else if (kind === 'attacks') pairs.push([e.target, e.source])
-    // t2-link has no parent/child relation
-  })
-  return pairs
-}
-
-function parseQuery(q: string): string[] {
-  const terms: string[] = [];
-  const lower = q.toLowerCase();
-  let i = 0;
-  while (i < lower.length) {
-    if (lower[i] === ' ') { i++; continue; }
-    if (lower[i] === '"') {
-      const start = ++i;
-      while (i < lower.length && lower[i] !== '"') i++;
-      if (i > start) terms.push(lower.slice(start, i));
-      if (lower[i] === '"') i++;
-    } else {
-      const start = i;
-      while (i < lower.length && lower[i] !== ' ' && lower[i] !== '"') i++;
-      if (i > start) terms.push(lower.slice(start, i));
-    }
-  }
-  return terms;
-}
-
-function matches(node: DebateNode, terms: string[]): boolean {
-  if (terms.length === 0) return false
-  const title = (node.data.title || '').toLowerCase()
-  const body = (node.data.body || '').toLowerCase()
-  return terms.some(t => title.includes(t) || body.includes(t))
-}
-
 function boundsFor(nodes: DebateNode[]) {
   if (!nodes.length) return { minX: -1000, minY: -1000, maxX: 1000, maxY: 1000 }
   let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
@@ -84,19 +94,32 @@ function boundsFor(nodes: DebateNode[]) {
   return { minX, minY, maxX, maxY }
 }
 
-function kindColor(kind: string) {
-  switch (kind) {
-    case 'Thesis': return '#60a5fa'
-    case 'Argument': return '#a78bfa'
-    case 'Argument Summary': return '#86efac'
-    case 'Counter': return '#f472b6'
-    case 'Evidence': return '#f59e0b'
-    case 'Agreement': return '#22d3ee'
-    default: return '#94a3b8'
-  }
-}
 const titleKindLabel = (n: DebateNode) => `${n.data.title || '(Untitled)'} — [${n.data.kind}]`
 
+// pause between two statements in a replay at 1× speed
+const REPLAY_STEP_MS = 1500
+
+// quiet time after the last change before the map is written to the library
+const AUTOSAVE_DELAY_MS = 1000
+// the parts of the store that make up the document; autosave runs when one of them changes
+// and compares them by reference
+const documentParts = (s: Snapshot & { history?: DocHistory }) => [s.nodes, s.edges, s.participants, s.transcript, s.media, s.comments, s.sources, s.history]
+
+// Offer text as a file download
+function downloadText(text: string, fileName: string, type: string) {
+  downloadBlob(new Blob([text], { type }), fileName)
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url; a.download = fileName
+  document.body.appendChild(a); a.click(); a.remove(); URL.revokeObjectURL(url)
+}
+
+// e.g. "debate-map-2024-01-01T10-00-00-000Z"
+const exportBaseName = () => `debate-map-${new Date().toISOString().replace(/[:.]/g, '-')}`
+
 function toSeconds(t: string): number {
   if (!t) return 0
   const parts = t.split(':').map(Number)
@@ -123,6 +146,10 @@ export default function App() {
   const [showOnlyMatches, setShowOnlyMatches] = React.useState(false)
   const [searchFilterMode, setSearchFilterMode] = React.useState<'dim' | 'hide'>('dim')
   const [timeHighlight, setTimeHighlight] = React.useState('')
+  // statements first mentioned in the transcript line clicked last
+  const [cueHitIds, setCueHitIds] = React.useState<Set<string>>(new Set())
+  const [transcriptOpen, setTranscriptOpen] = React.useState(true)
+  const [mainView, setMainView] = React.useState<'graph' | 'timeline'>('graph')
 
   React.useEffect(() => {
     store.setAllCollapsed(true)
@@ -140,8 +167,15 @@ export default function App() {
   const [addStrength, setAddStrength] = React.useState<StrengthType | ''>('') // required for Arg/Counter/Evidence
   const [addT2Links, setAddT2Links] = React.useState<string[]>([]) // optional visual links (Type 2)
 
+  // Last layout result: incremental layouts start from it, and store syncs keep nodes where it put them
+  const lastLayout = React.useRef<{ positions: Map<string, Pos>, parents: Map<string, string> } | null>(null)
+  const withViewPositions = (list: DebateNode[]) => list.map(n => ({
+    ...n,
+    position: n.data.pinned ? n.position : (lastLayout.current?.positions.get(n.id) ?? n.position)
+  }))
+
   const syncFromStore = () => {
-    setNodes(store.nodes.map(n => ({ ...n })))
+    setNodes(withViewPositions(store.nodes))
     setEdges(store.edges.map(e => ({ ...e })))
   }
 
@@ -149,7 +183,7 @@ export default function App() {
   const storeEdges = useGraphStore(s => s.edges)
 
   React.useEffect(() => {
-    setNodes(storeNodes.map(n => ({ ...n })))
+    setNodes(withViewPositions(storeNodes))
   }, [storeNodes])
 
   React.useEffect(() => {
@@ -262,6 +296,7 @@ export default function App() {
   }
   const onPaneClick = () => {
     setSelectedId('');
+    setCueHitIds(new Set())
     setActiveEdgeId('');
     setAttachmentSelectionActive(false);
     setActiveAttachmentField('')
@@ -299,32 +334,34 @@ export default function App() {
       }
 
       let newId = ''
-      if (formType === 'Thesis') newId = store.addThesis(participantId, title || 'New Thesis', body, firstMention || undefined)
-      else if (formType === 'Argument') newId = store.addArgument(participantId, title || 'New Argument', body, parentId || undefined, addStrength as StrengthType, firstMention || undefined)
-      else if (formType === 'Argument Summary') {
-        if (!parentId) throw new Error('Choose the Thesis this Summary belongs to')
-        newId = store.addArgumentSummary(participantId, parentId, title || 'Argument Summary', body, firstMention || undefined)
-      }
-      else if (formType === 'Counter') {
-        if (!targetId) throw new Error('Choose a target to counter')
-        newId = store.addCounter(participantId, targetId, title || 'New Counter', body, addStrength as StrengthType, firstMention || undefined)
-      }
-      else if (formType === 'Evidence') {
-        if (!targetId) throw new Error('Choose a target (Argument / Counter / Summary)')
-        newId = store.addEvidence(participantId, targetId, title || 'Evidence', body, addStrength as StrengthType, firstMention || undefined)
-      }
-      else if (formType === 'Agreement') {
-        if (!targetId) throw new Error('Choose an opponent Argument or Counter to agree with')
-        newId = store.addAgreement(participantId, targetId, title || 'Agreement', body, firstMention || undefined)
-      }
+      store.transact(() => {
+        if (formType === 'Thesis') newId = store.addThesis(participantId, title || 'New Thesis', body, firstMention || undefined)
+        else if (formType === 'Argument') newId = store.addArgument(participantId, title || 'New Argument', body, parentId || undefined, addStrength as StrengthType, firstMention || undefined)
+        else if (formType === 'Argument Summary') {
+          if (!parentId) throw new Error('Choose the Thesis this Summary belongs to')
+          newId = store.addArgumentSummary(participantId, parentId, title || 'Argument Summary', body, firstMention || undefined)
+        }
+        else if (formType === 'Counter') {
+          if (!targetId) throw new Error('Choose a target to counter')
+          newId = store.addCounter(participantId, targetId, title || 'New Counter', body, addStrength as StrengthType, firstMention || undefined)
+        }
+        else if (formType === 'Evidence') {
+          if (!targetId) throw new Error('Choose a target (Argument / Counter / Summary)')
+          newId = store.addEvidence(participantId, targetId, title || 'Evidence', body, addStrength as StrengthType, firstMention || undefined)
+        }
+        else if (formType === 'Agreement') {
+          if (!targetId) throw new Error('Choose an opponent Argument or Counter to agree with')
+          newId = store.addAgreement(participantId, targetId, title || 'Agreement', body, firstMention || undefined)
+        }
 
-      // Add Type 2 peer links (optional, visual only)
-      if (newId && addStrength === 'Type 2' && (formType === 'Argument' || formType === 'Counter' || formType === 'Evidence') && addT2Links.length) {
-        store.addT2Links(newId, addT2Links)
-      }
+        // Add Type 2 peer links (optional, visual only)
+        if (newId && addStrength === 'Type 2' && (formType === 'Argument' || formType === 'Counter' || formType === 'Evidence') && addT2Links.length) {
+          store.addT2Links(newId, addT2Links)
+        }
+      })
 
       setTitle(''); setBody(''); setFirstMention(''); setTargetId(''); setParentId(''); setAddStrength(''); setAddT2Links([])
-      syncFromStore(); await relayout()
+      requestLayout()
     } catch (e) { alert((e as any).message || String(e)) }
   }
 
@@ -358,18 +395,34 @@ export default function App() {
     return new Set(store.nodes.filter(n => !matchedIds.has(n.id)).map(n => n.id))
   }, [showOnlyMatches, searchFilterMode, store.nodes, matchedIds])
 
+  const argSemantics = useGraphStore(s => s.argSemantics)
+  const supportReading = useGraphStore(s => s.supportReading)
+  const argumentation = React.useMemo(
+    () => argSemantics === 'off' ? null : labelArguments(store.nodes, store.edges, argSemantics, supportReading),
+    [store.nodes, store.edges, argSemantics, supportReading]
+  )
+  const argLabelOf = (id: string) => argumentation?.labels.get(id)
+
+  const scoringRules = useGraphStore(s => s.scoringRules)
+  const showScores = useGraphStore(s => s.showScores)
+  const scores = React.useMemo(() => scoreMap(store.nodes, store.edges, scoringRules), [store.nodes, store.edges, scoringRules])
+  const nodesById = React.useMemo(() => new Map(store.nodes.map(n => [n.id, n])), [store.nodes])
+
   const { participants: activeParticipants, kinds: activeKinds, strengths: activeStrengths } = store.filters
+  // the IN/OUT/UNDEC filter only applies while labels are computed
+  const activeLabels = argumentation ? store.filters.labels : new Set<ArgLabel>()
   const filterMode = store.filterMode
-  const hasFilters = activeParticipants.size > 0 || activeKinds.size > 0 || activeStrengths.size > 0
+  const hasFilters = activeParticipants.size > 0 || activeKinds.size > 0 || activeStrengths.size > 0 || activeLabels.size > 0
 
   const hiddenDueToFilters = React.useMemo(() => {
     if (filterMode !== 'hide' || !hasFilters) return new Set<string>()
     return new Set(store.nodes.filter(n =>
       !((activeParticipants.size === 0 || activeParticipants.has(n.data.participantId)) &&
         (activeKinds.size === 0 || activeKinds.has(n.data.kind)) &&
-        (activeStrengths.size === 0 || !n.data.strengthType || activeStrengths.has(n.data.strengthType)))
+        (activeStrengths.size === 0 || !n.data.strengthType || activeStrengths.has(n.data.strengthType)) &&
+        (activeLabels.size === 0 || activeLabels.has(argLabelOf(n.id)!)))
     ).map(n => n.id))
-  }, [store.nodes, activeParticipants, activeKinds, activeStrengths, filterMode, hasFilters])
+  }, [store.nodes, activeParticipants, activeKinds, activeStrengths, activeLabels, argumentation, filterMode, hasFilters])
 
   const baseVisible = React.useMemo(
     () => nodes.filter(n => !hiddenDueToCollapse.has(n.id) && !hiddenDueToFilters.has(n.id) && !hiddenDueToSearch.has(n.id)),
@@ -405,6 +458,35 @@ export default function App() {
     return new Set([lower?.id, higher?.id].filter(Boolean))
   }, [store.nodes, timeHighlight])
 
+  // collaborators' presence, shown on the cards they are on (see Live collaboration)
+  const [peers, setPeers] = React.useState<Peer[]>([])
+  const peersByNode = React.useMemo(() => {
+    const m = new Map<string, Peer[]>()
+    for (const p of peers) if (p.nodeId) m.set(p.nodeId, [...(m.get(p.nodeId) || []), p])
+    return m
+  }, [peers])
+
+  // differences from a compared file, shown on cards and edges (see Compare & merge)
+  const [comparison, setComparison] = React.useState<{ fileName: string, snapshot: Snapshot }>()
+  const diff = React.useMemo(() => comparison && diffSnapshots(comparison.snapshot, store.getSnapshot()),
+    [comparison, store.nodes, store.edges, store.participants])
+  const diffStatus = React.useMemo(() => {
+    const nodes = new Map<string, 'added' | 'changed' | 'moved'>()
+    const edges = new Map<string, 'added' | 'changed' | 'moved'>()
+    for (const d of diff?.nodes || []) {
+      if (d.status === 'added') nodes.set(d.id, 'added')
+      else if (d.status === 'changed') nodes.set(d.id, d.fields.length ? 'changed' : 'moved')
+      if (d.moved?.to) edges.set(d.moved.to.edgeId, 'moved')
+    }
+    for (const e of diff?.edges || []) if (e.status !== 'removed') edges.set(e.id, e.status)
+    return { nodes, edges }
+  }, [diff])
+
+  // review threads, and how many each statement or edge has for its badge
+  const threads = React.useMemo(() => threadsOf({ nodes: store.nodes, edges: store.edges, participants: store.participants, comments: store.comments }),
+    [store.nodes, store.edges, store.comments])
+  const commentCountById = React.useMemo(() => commentCounts(threads), [threads])
+
   const renderNodes = React.useMemo(() => {
     const linkHighlight = store.linkHighlight;
     return visibleNodesForLayout.map(n => ({
@@ -412,7 +494,7 @@ export default function App() {
       draggable: !(n.data.isEditing ?? false),
       data: {
         ...n.data,
-        hit: matchedIds.has(n.id) || timeHighlightedIds.has(n.id),
+        hit: matchedIds.has(n.id) || timeHighlightedIds.has(n.id) || cueHitIds.has(n.id),
         edgeActive: activeNodeIds.has(n.id),
         searchTerms,
         dimmed: ((showOnlyMatches && searchFilterMode === 'dim') && !matchedIds.has(n.id)) ||
@@ -426,10 +508,16 @@ export default function App() {
           (filterMode === 'dim' && hasFilters &&
             ((activeParticipants.size > 0 && !activeParticipants.has(n.data.participantId)) ||
               (activeKinds.size > 0 && !activeKinds.has(n.data.kind)) ||
-              (activeStrengths.size > 0 && (!n.data.strengthType || !activeStrengths.has(n.data.strengthType)))))
+              (activeStrengths.size > 0 && (!n.data.strengthType || !activeStrengths.has(n.data.strengthType))) ||
+              (activeLabels.size > 0 && !activeLabels.has(argLabelOf(n.id)!)))),
+        argLabel: argLabelOf(n.id),
+        score: showScores ? scores.get(n.id)?.score : undefined,
+        peers: peersByNode.get(n.id),
+        diff: diffStatus.nodes.get(n.id),
+        comments: commentCountById.get(n.id)
       }
     }))
-  }, [visibleNodesForLayout, matchedIds, searchTerms, activeNodeIds,
+  }, [visibleNodesForLayout, matchedIds, cueHitIds, searchTerms, activeNodeIds, argumentation, activeLabels, scores, showScores, peersByNode, diffStatus, commentCountById,
   showOnlyMatches, searchFilterMode, store.eligibleAttachTargets, selectedId, attachmentSelectionActive,
   store.linkHighlight, store.filters, filterMode, hasFilters, activeEdge, timeHighlight, timeHighlightedIds]) // Add filters dependency
 
@@ -442,29 +530,67 @@ export default function App() {
       return ({
         ...e,
         type,
-        data: { ...(e.data || {}), active: e.id === activeEdgeId || e.id === hoverEdgeId, dimmed }
+        data: { ...(e.data || {}), active: e.id === activeEdgeId || e.id === hoverEdgeId, dimmed, diff: diffStatus.edges.get(e.id), comments: commentCountById.get(e.id) }
       })
     })
-  }, [visibleEdgesForLayout, activeEdgeId, hoverEdgeId, showOnlyMatches, searchFilterMode, matchedIds, activeEdge])
+  }, [visibleEdgesForLayout, activeEdgeId, hoverEdgeId, showOnlyMatches, searchFilterMode, matchedIds, activeEdge, diffStatus, commentCountById])
+
+  // Card sizes as measured by React Flow; kept here because store syncs drop node.width/height
+  const measuredSizes = React.useRef(new Map<string, NodeSize>())
+  const layoutEngine = useGraphStore(s => s.layoutEngine)
+  const layoutDirection = useGraphStore(s => s.layoutDirection)
 
-  const relayout = React.useCallback(async () => {
+  const incrementalLayout = useGraphStore(s => s.incrementalLayout)
+
+  // full: ignore the previous layout (pins are still honoured)
+  const relayout = React.useCallback(async (opts: { full?: boolean } = {}) => {
     const prevPos = new Map(nodes.map(n => [n.id, n.position]))
-    const layout = computeLayout(visibleNodesForLayout, visibleEdgesForLayout)
+    const engine = LAYOUT_ENGINES[layoutEngine] || LAYOUT_ENGINES.tree
+    const pinned = new Map(visibleNodesForLayout.filter(n => n.data.pinned).map(n => [n.id, n.position]))
+    const previous = !opts.full && incrementalLayout && lastLayout.current ? lastLayout.current : undefined
+    const layout = await engine.run(visibleNodesForLayout, visibleEdgesForLayout, {
+      direction: layoutDirection, sizes: measuredSizes.current, previous, pinned
+    })
 
+    // a full re-layout keeps the first thesis where it was, unless pins already anchor the map
     const firstThesis = visibleNodesForLayout.find(n => n.data.kind === 'Thesis') || visibleNodesForLayout[0]
     let dx = 0
-    if (firstThesis) {
+    if (firstThesis && !previous && !pinned.size) {
       const prev = prevPos.get(firstThesis.id)
       const next = layout.get(firstThesis.id)
       if (prev && next) dx = prev.x - next.x
     }
 
+    const positions = new Map<string, Pos>()
+    for (const [id, p] of layout) positions.set(id, { x: p.x + dx, y: p.y })
+    lastLayout.current = { positions, parents: buildLayoutTree(visibleNodesForLayout, visibleEdgesForLayout).parentOf }
+
     setNodes(nds => nds.map(n => {
-      const p = layout.get(n.id)
+      const p = positions.get(n.id)
       if (!p) return n
-      return { ...n, position: { x: p.x + dx, y: p.y } }
+      return { ...n, position: p }
     }))
-  }, [visibleNodesForLayout, visibleEdgesForLayout, setNodes, nodes])
+  }, [visibleNodesForLayout, visibleEdgesForLayout, setNodes, nodes, layoutEngine, layoutDirection, incrementalLayout])
+
+  // Store mutations reach React Flow's node state one render later, so layouts are requested
+  // here and run once `nodes`/`edges` match the store again
+  const [layoutTick, setLayoutTick] = React.useState(0)
+  const pendingLayout = React.useRef<{ full: boolean } | null>(null)
+  const requestLayout = (full = false) => {
+    pendingLayout.current = { full: full || !!pendingLayout.current?.full }
+    setLayoutTick(t => t + 1)
+  }
+  React.useEffect(() => {
+    const pending = pendingLayout.current
+    if (!pending) return
+    const inSync = nodes.length === storeNodes.length && nodes.every((n, i) => n.data === storeNodes[i].data) &&
+      edges.length === storeEdges.length && edges.every((e, i) => e.source === storeEdges[i].source && e.target === storeEdges[i].target)
+    if (!inSync) return
+    pendingLayout.current = null
+    relayout(pending)
+  }, [nodes, edges, storeNodes, storeEdges, layoutTick])
+
+  React.useEffect(() => { requestLayout(true) }, [layoutEngine, layoutDirection])
 
   const handleNodesChange = React.useCallback((changes: NodeChange[]) => {
     const pairs = buildChildrenPairs(visibleEdgesForLayout as any)
@@ -487,6 +613,7 @@ export default function App() {
     }
 
     for (const ch of changes) {
+      if (ch.type === 'dimensions' && ch.dimensions) measuredSizes.current.set(ch.id, ch.dimensions)
       if (ch.type === 'position' && ch.position && ch.dragging) {
         const old = pos.get(ch.id)
         if (!old) continue
@@ -508,21 +635,28 @@ export default function App() {
       }
     }
 
+    // dragged positions become the baseline for the next incremental layout
+    for (const ch of augmented) {
+      if (ch.type === 'position' && ch.position) lastLayout.current?.positions.set(ch.id, ch.position)
+    }
     setNodes(nds => applyNodeChanges(augmented, nds))
   }, [nodes, setNodes, visibleEdgesForLayout])
 
+  // a node the user dragged stays where it was dropped
+  const onNodeDragStop = (_evt: any, n: any) => {
+    store.setPinned(n.id, true, n.position)
+  }
+
   const collapseSignature = React.useMemo(
     () => store.nodes.map(n => (n.data.collapsed ? n.id : '')).join('|'),
     [store.nodes]
   )
   React.useEffect(() => {
-    syncFromStore()
-    const t = setTimeout(() => { relayout() }, 0)
-    return () => clearTimeout(t)
+    requestLayout()
   }, [collapseSignature])
 
-  const expandAll = async () => { store.setAllCollapsed(false); syncFromStore(); await relayout() }
-  const collapseAll = async () => { store.setAllCollapsed(true); syncFromStore(); await relayout() }
+  const expandAll = () => { store.setAllCollapsed(false); requestLayout() }
+  const collapseAll = () => { store.setAllCollapsed(true); requestLayout() }
 
   const extentMargin = 800
   const extent = React.useMemo(() => {
@@ -530,11 +664,27 @@ export default function App() {
     return [[minX - extentMargin, minY - extentMargin], [maxX + extentMargin, maxY + extentMargin]] as [[number, number], [number, number]]
   }, [renderNodes])
 
+  const [importReport, setImportReport] = React.useState<{ fileName: string, issues: SnapshotIssue[], migratedFrom?: number } | null>(null)
+
+  // Migrate + validate before anything reaches the store; returns false (and shows a report) if invalid
+  const loadValidated = (raw: unknown, fileName: string) => {
+    const res = readSnapshot(raw)
+    if (!res.ok) {
+      setImportReport({ fileName, issues: res.issues, migratedFrom: res.migratedFrom })
+      return false
+    }
+    flushAutosave()
+    store.loadSnapshot(res.snapshot)
+    store.setHistory(historyFromFile(res.history, res.snapshot))
+    setDocument(undefined)
+    return true
+  }
+
   const loadPreload = (name: string) => {
     const path = `./preloads/${name}.json`
     const data = preloads[path]
-    if (data) {
-      store.loadSnapshot(data)
+    if (data && loadValidated(data, name)) {
+      requestLayout(true)
     }
   }
 
@@ -595,19 +745,23 @@ export default function App() {
       alert('Please select a Type (1–4) for this statement.')
       return false
     }
-    // Update T2 links if Type 2
-    if ((node.data.kind === 'Argument' || node.data.kind === 'Counter' || node.data.kind === 'Evidence') && editStrength === 'Type 2') {
-      store.setT2Links(node.id, editT2Links)
-    } else {
-      store.setT2Links(node.id, [])
-    }
-    store.setRefLinks(node.id, editRefLinks)
-    store.updateNode(node.id, { title: editTitle, body: editBody, participantId: editParticipant, strengthType: editStrength || undefined, firstMention: editFirstMention || undefined })
-    syncFromStore(); await relayout()
+    store.transact(() => {
+      // Update T2 links if Type 2
+      if ((node.data.kind === 'Argument' || node.data.kind === 'Counter' || node.data.kind === 'Evidence') && editStrength === 'Type 2') {
+        store.setT2Links(node.id, editT2Links)
+      } else {
+        store.setT2Links(node.id, [])
+      }
+      store.setRefLinks(node.id, editRefLinks)
+      store.updateNode(node.id, { title: editTitle, body: editBody, participantId: editParticipant, strengthType: editStrength || undefined, firstMention: editFirstMention || undefined })
+    })
+    requestLayout()
     return true
   }
-  const deleteSelected = async () => {
-    if (!selectedId) return; store.deleteNode(selectedId); setSelectedId(''); syncFromStore(); await relayout()
+  const [deleteDialogOpen, setDeleteDialogOpen] = React.useState(false)
+  const deleteSelected = async (mode: DeleteMode) => {
+    setDeleteDialogOpen(false)
+    if (!selectedId) return; store.deleteNode(selectedId, mode); setSelectedId(''); requestLayout()
   }
 
   // ---------- Reparenting (Selected Statement) ----------
@@ -703,29 +857,625 @@ export default function App() {
       const clearReparent = useGraphStore.getState().setReparentTargetId
       clearReparent('')
       setAttachmentSelectionActive(false)
-      syncFromStore(); await relayout()
+      requestLayout()
     } catch (e) {
       alert((e as any).message || String(e))
     }
   }
 
+  // ---------- Undo / redo ----------
+  const canUndo = useGraphStore(s => s.past.length > 0)
+  const canRedo = useGraphStore(s => s.future.length > 0)
+  const doUndo = () => { store.undo(); requestLayout() }
+  const doRedo = () => { store.redo(); requestLayout() }
+
+  React.useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      const key = e.key.toLowerCase()
+      // the desktop app's file shortcuts work from anywhere, text fields included
+      if (desktopFiles && key === 's') { e.preventDefault(); saveToFile(e.shiftKey); return }
+      if (desktopFiles && key === 'o' && !e.shiftKey) { e.preventDefault(); openFromDisk(); return }
+      // leave text fields to their native undo
+      const el = e.target as HTMLElement | null
+      if (el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable)) return
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); doUndo() }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); doRedo() }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  })
+
   const fileInputRef = React.useRef<HTMLInputElement | null>(null)
   const doExport = () => {
     try {
       const snap = store.getSnapshot()
-      const blob = new Blob([JSON.stringify(snap, null, 2)], { type: 'application/json' })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      const ts = new Date().toISOString().replace(/[:.]/g, '-')
-      a.href = url; a.download = `debate-map-${ts}.json`
-      document.body.appendChild(a); a.click(); a.remove(); URL.revokeObjectURL(url)
+      const history = addRevision(store.history, snap, { kind: 'auto' })
+      store.setHistory(history)
+      downloadText(JSON.stringify(withHistory(toSavedSnapshot(snap), history), null, 2), `${exportBaseName()}.json`, 'application/json')
+    } catch (e) { alert('Failed to export: ' + ((e as any)?.message || String(e))) }
+  }
+  // the map alone, for handing on: no review comments and no revision history
+  const doExportClean = () => {
+    try {
+      downloadText(JSON.stringify(toSavedSnapshot({ ...store.getSnapshot(), comments: undefined }), null, 2), `${exportBaseName()}-clean.json`, 'application/json')
+    } catch (e) { alert('Failed to export: ' + ((e as any)?.message || String(e))) }
+  }
+  const [outlineParticipant, setOutlineParticipant] = React.useState('')
+  const [outlineDepth, setOutlineDepth] = React.useState(0)
+  const doExportMarkdown = () => {
+    try {
+      const md = exportMarkdownOutline(store.getSnapshot(), { participantId: outlineParticipant || undefined, maxDepth: outlineDepth })
+      const who = store.participants.find(p => p.id === outlineParticipant)?.name
+      const suffix = who ? '-' + who.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') : ''
+      downloadText(md, `${exportBaseName()}${suffix}.md`, 'text/markdown')
+    } catch (e) { alert('Failed to export: ' + ((e as any)?.message || String(e))) }
+  }
+  const [kialoTags, setKialoTags] = React.useState(true)
+  const [conversionReport, setConversionReport] = React.useState<{ format: string, fileName: string, notes: ConversionNote[] } | null>(null)
+  // formats that cannot hold everything report what was left out
+  const doExportInterchange = (format: string, ext: string, run: () => ExportResult, type = 'text/plain') => {
+    try {
+      const { text, notes } = run()
+      const fileName = `${exportBaseName()}.${ext}`
+      downloadText(text, fileName, type)
+      if (notes.length) setConversionReport({ format, fileName, notes })
     } catch (e) { alert('Failed to export: ' + ((e as any)?.message || String(e))) }
   }
-  const handleImportedFile = async (file: File) => {
-    try { const text = await file.text(); const parsed = JSON.parse(text); store.loadSnapshot(parsed); syncFromStore(); await relayout() }
-    catch (e) { alert('Failed to load file: ' + ((e as any)?.message || String(e))) }
+  const [imageScope, setImageScope] = React.useState<'all' | 'viewport' | 'subtree'>('all')
+  const [imageScale, setImageScale] = React.useState(2)
+  const [imageLegend, setImageLegend] = React.useState(true)
+  const rfWrapperRef = React.useRef<HTMLDivElement | null>(null)
+  // draws what the canvas shows: laid-out, visible cards at their measured widths
+  const doExportImage = async (format: 'svg' | 'png') => {
+    const inst = rfInstance.current
+    if (!inst) return
+    try {
+      let nodes = inst.getNodes() as ImageNode[]
+      let clip: ImageRect | undefined
+      if (imageScope === 'subtree') {
+        const keep = descendantsOf(selectedId)
+        keep.add(selectedId)
+        nodes = nodes.filter(n => keep.has(n.id))
+      } else if (imageScope === 'viewport') {
+        const { x, y, zoom } = inst.getViewport()
+        const box = rfWrapperRef.current?.getBoundingClientRect()
+        if (!box) return
+        clip = { x: -x / zoom, y: -y / zoom, width: box.width / zoom, height: box.height / zoom }
+      }
+      const ids = new Set(nodes.map(n => n.id))
+      const edges = inst.getEdges().filter(e => ids.has(e.source) && ids.has(e.target))
+      const image = renderMapSvg(nodes, edges, {
+        participants: store.participants,
+        measure: canvasMeasure(),
+        horizontal: layoutDirection === 'LR' && layoutEngine !== 'radial',
+        clip,
+        legend: imageLegend,
+        scale: imageScale,
+      })
+      const name = `${exportBaseName()}${imageScope === 'all' ? '' : '-' + imageScope}`
+      if (format === 'svg') {
+        downloadText(image.svg, `${name}.svg`, 'image/svg+xml')
+        return
+      }
+      const { blob, scaledDown } = await svgToPng(image)
+      downloadBlob(blob, `${name}.png`)
+      if (scaledDown) alert('The map is too large for a PNG at this scale; it was saved at the largest size this browser allows. SVG keeps full detail.')
+    } catch (e) { alert('Failed to export image: ' + ((e as any)?.message || String(e))) }
+  }
+  // a single .html file with the read-only viewer and the map, positions as laid out now
+  const doExportHtml = async () => {
+    try {
+      const { default: template } = await import('virtual:viewer-html')
+      // review comments stay with the working copy
+      const snapshot = toSavedSnapshot({ ...store.getSnapshot(), comments: undefined })
+      const positions = Object.fromEntries(nodes.map(n => [n.id, n.position]))
+      const title = store.nodes.find(n => n.data.kind === 'Thesis')?.data.title || 'Debate map'
+      const html = buildSharedHtml(template, {
+        title, exportedAt: new Date().toISOString(), snapshot, positions, direction: layoutDirection, engine: layoutEngine,
+      })
+      downloadText(html, `${exportBaseName()}.html`, 'text/html')
+    } catch (e) { alert('Failed to export: ' + ((e as any)?.message || String(e))) }
+  }
+  const handleImportedFile = async (file: File) => { openMapText(await file.text(), file.name) }
+  // returns true when the text became the current map
+  const openMapText = (text: string, fileName: string) => {
+    let parsed: unknown
+    try { parsed = JSON.parse(text) }
+    catch (e) {
+      setImportReport({ fileName, issues: [{ path: '', field: 'file', problem: 'not valid JSON: ' + ((e as any)?.message || String(e)) }] })
+      return false
+    }
+    // AIF is not a saved map: its statements go through the import dialog
+    if (isAifDocument(parsed)) {
+      setOutlineImport({ fileName, text, format: 'aif', mode: 'merge' })
+      return false
+    }
+    if (!loadValidated(parsed, fileName)) return false
+    requestLayout(true)
+    return true
+  }
+
+  // ---------- Library (autosave) ----------
+  // Each opened or loaded map is one library document, created on its first change. Saves
+  // are queued in order and tagged with the document generation they were taken from, so a
+  // save that finishes after another map was opened still lands in its own document.
+  const docGen = React.useRef(0)
+  const docIds = React.useRef(new Map<number, string>())
+  const [currentDocId, setCurrentDocId] = React.useState<string>()
+  const openedDoc = React.useRef(documentParts(useGraphStore.getState()))
+  const [library, setLibrary] = React.useState<LibraryEntry[]>([])
+  const [autosave, setAutosave] = React.useState<{ savedAt?: string, error?: string }>({})
+  const [recovery, setRecovery] = React.useState<LibraryEntry | null>(null)
+  const saveTimer = React.useRef<number | undefined>(undefined)
+  const saveChain = React.useRef<Promise<void>>(Promise.resolve())
+
+  const refreshLibrary = () => listDocuments().then(setLibrary, e => setAutosave({ error: e?.message || String(e) }))
+  // call right after the store holds the new document; autosave waits for its first change
+  const setDocument = (id: string | undefined) => {
+    docGen.current++
+    if (id) docIds.current.set(docGen.current, id)
+    setCurrentDocId(id)
+    openedDoc.current = documentParts(useGraphStore.getState())
+    setFile(undefined)
+    savedDoc.current = openedDoc.current
+  }
+  const queueSave = () => {
+    window.clearTimeout(saveTimer.current)
+    saveTimer.current = undefined
+    const { history } = useGraphStore.getState()
+    const snap = useGraphStore.getState().getSnapshot()
+    const gen = docGen.current
+    saveChain.current = saveChain.current.then(async () => {
+      try {
+        const id = await saveDocument(docIds.current.get(gen), snap, history)
+        docIds.current.set(gen, id)
+        if (gen === docGen.current) {
+          setCurrentDocId(id)
+          setLastDocument({ id, closedCleanly: false })
+        }
+        setAutosave({ savedAt: new Date().toISOString() })
+        await refreshLibrary()
+      } catch (e) { setAutosave({ error: (e as any)?.message || String(e) }) }
+    })
+    return saveChain.current
+  }
+  // write pending changes now, before the store moves on to another map
+  const flushAutosave = () => { if (saveTimer.current !== undefined) queueSave() }
+
+  React.useEffect(() => {
+    // nothing is written while the previous session's map may still be restored
+    if (recovery) return
+    if (documentParts(store).every((part, i) => part === openedDoc.current[i])) return
+    window.clearTimeout(saveTimer.current)
+    saveTimer.current = window.setTimeout(queueSave, AUTOSAVE_DELAY_MS)
+  }, [...documentParts(store), recovery])
+
+  React.useEffect(() => {
+    const last = lastDocument()
+    listDocuments().then(entries => {
+      setLibrary(entries)
+      const entry = last && !last.closedCleanly && entries.find(e => e.id === last.id)
+      if (entry) setRecovery(entry)
+    }, e => setAutosave({ error: e?.message || String(e) }))
+    // a clean close is only recorded when nothing was left unsaved
+    const onPageHide = () => {
+      const id = docIds.current.get(docGen.current)
+      if (saveTimer.current !== undefined) queueSave()
+      else if (id) setLastDocument({ id, closedCleanly: true })
+    }
+    const onPageShow = () => {
+      const id = docIds.current.get(docGen.current)
+      if (id) setLastDocument({ id, closedCleanly: false })
+    }
+    const onVisibility = () => { if (document.visibilityState === 'hidden') flushAutosave() }
+    window.addEventListener('pagehide', onPageHide)
+    window.addEventListener('pageshow', onPageShow)
+    document.addEventListener('visibilitychange', onVisibility)
+    return () => {
+      window.removeEventListener('pagehide', onPageHide)
+      window.removeEventListener('pageshow', onPageShow)
+      document.removeEventListener('visibilitychange', onVisibility)
+    }
+  }, [])
+
+  const openFromLibrary = async (id: string) => {
+    try {
+      const raw = await loadDocument(id)
+      if (!raw) {
+        alert('That map is no longer in the library.')
+        refreshLibrary()
+        return
+      }
+      const title = library.find(e => e.id === id)?.title || 'saved map'
+      if (!loadValidated(raw, title)) return
+      setDocument(id)
+      setLastDocument({ id, closedCleanly: false })
+      requestLayout(true)
+    } catch (e) { alert('Failed to open: ' + ((e as any)?.message || String(e))) }
+  }
+  const libraryAction = async (action: () => Promise<unknown>) => {
+    try { await action() } catch (e) { alert('Library: ' + ((e as any)?.message || String(e))) }
+    refreshLibrary()
+  }
+
+  // ---------- Desktop files ----------
+  // In the desktop shell maps are also saved as .debatemap files. A map is dirty when it
+  // changed since it was opened or last written to its file; the window title shows it and
+  // closing asks to save. In the browser none of this applies: Save downloads, Load uploads.
+  const [file, setFile] = React.useState<{ path: string, name: string }>()
+  const savedDoc = React.useRef(openedDoc.current)
+  const [recentFiles, setRecentFiles] = React.useState<string[]>([])
+  const dirty = !!desktopFiles && documentParts(store).some((part, i) => part !== savedDoc.current[i])
+  const windowTitle = file ? file.name.replace(/\.(debatemap|json)$/i, '') : documentTitle(store)
+
+  const refreshRecent = () => { desktopFiles?.recent().then(setRecentFiles, () => setRecentFiles([])) }
+  // resolves to false when cancelled or failed, so closing can wait for it
+  const saveToFile = async (saveAs = false): Promise<boolean> => {
+    if (!desktopFiles) return false
+    try {
+      const snap = useGraphStore.getState().getSnapshot()
+      // the revision is kept only once the file is written
+      const history = addRevision(useGraphStore.getState().history, snap, { kind: 'auto' })
+      const saved = await desktopFiles.save({
+        path: saveAs ? undefined : file?.path,
+        text: JSON.stringify(withHistory(toSavedSnapshot(snap), history), null, 2),
+        suggestedName: file ? windowTitle : documentTitle(snap).replace(/[\\/:*?"<>|]+/g, ' ').trim().slice(0, 80) || 'Untitled map',
+      })
+      if (!saved) return false
+      useGraphStore.getState().setHistory(history)
+      savedDoc.current = documentParts({ ...snap, history })
+      setFile(saved)
+      refreshRecent()
+      return true
+    } catch (e) {
+      alert('Failed to save: ' + ((e as any)?.message || String(e)))
+      return false
+    }
+  }
+  const openOnDisk = (opened: OpenedFile | null) => {
+    if (opened && openMapText(opened.text, opened.name)) setFile({ path: opened.path, name: opened.name })
+    refreshRecent()
+  }
+  const openFromDisk = () => desktopFiles?.open().then(openOnDisk, e => alert('Failed to open: ' + (e?.message || String(e))))
+  const openRecent = (path: string) => desktopFiles?.openPath(path).then(openOnDisk, e => {
+    alert('Failed to open: ' + (e?.message || String(e)))
+    refreshRecent()
+  })
+
+  React.useEffect(() => {
+    desktopFiles?.setWindowState({ title: windowTitle, dirty, path: file?.path })
+  }, [windowTitle, dirty, file])
+  // re-subscribed on every render so the handlers see the current map
+  React.useEffect(() => {
+    if (!desktopFiles) return
+    const offOpened = desktopFiles.onOpened(openOnDisk)
+    const offClose = desktopFiles.onSaveBeforeClose(() => { saveToFile().then(saved => desktopFiles?.closeAfterSave(saved)) })
+    return () => { offOpened(); offClose() }
+  })
+  React.useEffect(() => {
+    refreshRecent()
+    desktopFiles?.takePending().then(openOnDisk, e => alert('Failed to open: ' + (e?.message || String(e))))
+  }, [])
+
+  // ---------- Live collaboration ----------
+  // While in a room the store's statements, edges and participants are shared (store/collab.ts);
+  // leaving keeps the map as it is. Presence says which statement is selected or being edited.
+  const collab = React.useRef<CollabSession | null>(null)
+  const [collabStatus, setCollabStatus] = React.useState<{ state: CollabStatus, error?: string }>()
+  const joinRoom = ({ url, room, name }: CollabSettings) => {
+    collab.current?.stop()
+    flushAutosave()
+    collab.current = startCollab({
+      url,
+      room,
+      presence: { name, color: peerColor(name), nodeId: selectedId || undefined },
+      onStatus: (state, error) => setCollabStatus({ state, error }),
+      onPeers: setPeers,
+      onJoined: replaced => {
+        if (!replaced) return
+        // the room's map is a new document for the library, without this one's history
+        store.setHistory(EMPTY_HISTORY)
+        setDocument(undefined)
+        requestLayout(true)
+      },
+      onRemoteChange: () => requestLayout(),
+    })
+  }
+  const leaveRoom = () => {
+    collab.current?.stop()
+    collab.current = null
+    setCollabStatus(undefined)
+    setPeers([])
+  }
+  React.useEffect(() => () => collab.current?.stop(), [])
+  const selectedEditing = !!selectedNode?.data.isEditing
+  React.useEffect(() => {
+    collab.current?.setPresence({ nodeId: selectedId || undefined, editing: selectedEditing })
+  }, [selectedId, selectedEditing])
+
+  // ---------- Compare & merge ----------
+  // Comparing highlights what the map on screen changed since a saved copy; merging brings in
+  // another copy's changes against the version both started from (graph/diff.ts, graph/merge.ts).
+  const compareInputRef = React.useRef<HTMLInputElement | null>(null)
+  const handleCompareFile = async (file: File) => {
+    let raw: unknown
+    try { raw = JSON.parse(await file.text()) }
+    catch (e) {
+      setImportReport({ fileName: file.name, issues: [{ path: '', field: 'file', problem: 'not valid JSON: ' + ((e as any)?.message || String(e)) }] })
+      return
+    }
+    const res = readSnapshot(raw)
+    if (!res.ok) {
+      setImportReport({ fileName: file.name, issues: res.issues, migratedFrom: res.migratedFrom })
+      return
+    }
+    setComparison({ fileName: file.name, snapshot: res.snapshot })
+  }
+  // the map on screen when the dialog opened
+  const [mergeOurs, setMergeOurs] = React.useState<Snapshot | null>(null)
+  const applyMerge = (merged: Snapshot) => {
+    // one undoable step; the merged map stays the same library document
+    store.loadSnapshot(merged)
+    setMergeOurs(null)
+    requestLayout(true)
+  }
+
+  // ---------- Transcript ----------
+  const outlineInputRef = React.useRef<HTMLInputElement | null>(null)
+  const [outlineImport, setOutlineImport] = React.useState<{ fileName: string, text: string, format: ImportFormat, mode: OutlineImportMode } | null>(null)
+  const handleOutlineFile = async (file: File) => {
+    const text = await file.text()
+    setOutlineImport({ fileName: file.name, text, format: importFormatOf(file.name, text), mode: 'merge' })
+  }
+  const [aifHeuristic, setAifHeuristic] = React.useState<AifKindHeuristic>(DEFAULT_AIF_HEURISTIC)
+  // re-read whenever the target changes: participants resolve against the current map only when merging
+  const outlineResult = React.useMemo(() => outlineImport &&
+    importText(outlineImport.text, outlineImport.format, outlineImport.mode === 'merge' ? store.participants : [], aifHeuristic),
+  [outlineImport, store.participants, aifHeuristic])
+  const applyOutlineImport = () => {
+    if (!outlineImport || !outlineResult) return
+    const { nodes, edges, newParticipants } = outlineResult
+    if (outlineImport.mode === 'merge') {
+      store.mergeIntoDocument({ nodes, edges, participants: newParticipants })
+      requestLayout()
+    } else {
+      flushAutosave()
+      store.loadSnapshot({ nodes, edges, participants: newParticipants })
+      store.setHistory(EMPTY_HISTORY)
+      setDocument(undefined)
+      requestLayout(true)
+    }
+    setOutlineImport(null)
+  }
+
+  const transcriptInputRef = React.useRef<HTMLInputElement | null>(null)
+  const handleTranscriptFile = async (file: File) => {
+    const { format, cues, errors } = parseTranscript(await file.text())
+    const errorLines = errors.slice(0, 5).map(e => `Line ${e.line}: ${e.message}`).join('\n')
+    if (!cues.length) {
+      alert(`No transcript lines found in “${file.name}”.` + (errorLines ? '\n' + errorLines : ''))
+      return
+    }
+    if (store.transcript && !confirm('Replace the transcript already in this document?')) return
+    const speakers = guessSpeakers(speakerLabels(cues), store.participants)
+    store.setTranscript({ cues, speakers, source: file.name })
+    setTranscriptOpen(true)
+    if (errors.length) alert(`Imported ${cues.length} lines (${format.toUpperCase()}); skipped ${errors.length}:\n${errorLines}`)
+  }
+
+  const cueMentions = React.useMemo(() => {
+    const m = new Map<string, number>()
+    const t = store.transcript
+    if (!t) return m
+    t.cues.forEach((c, i) => {
+      const { start, end } = cueWindow(t, i)
+      const n = nodesMentionedBetween(store.nodes, start, end).length
+      if (n) m.set(c.id, n)
+    })
+    return m
+  }, [store.transcript, store.nodes])
+
+  const onCueClick = (index: number) => {
+    const t = store.transcript
+    if (!t) return
+    const { start, end } = cueWindow(t, index)
+    const hits = nodesMentionedBetween(store.nodes, start, end)
+    setCueHitIds(new Set(hits.map(n => n.id)))
+    if (hits.length) focusNode(hits[0].id)
+  }
+
+  // ---------- Media playback ----------
+  const mediaElRef = React.useRef<HTMLMediaElement | null>(null)
+  const [followPlayback, setFollowPlayback] = React.useState(true)
+  // the reference created by the last pick; its blob: source must survive the media effect below
+  const pickedMedia = React.useRef<MediaRef | null>(null)
+  const onPickMedia = (file: File) => {
+    const ref: MediaRef = { name: file.name, type: file.type || 'audio/mpeg', path: pathForFile(file) }
+    pickedMedia.current = ref
+    store.setMediaSrc(URL.createObjectURL(file))
+    store.setMedia(ref)
+  }
+  // another document (or undo) brought different media: reopen it from disk in the desktop app
+  React.useEffect(() => {
+    const m = store.media
+    if (m && m === pickedMedia.current) return
+    store.setMediaSrc(m?.path && isElectron ? fileUrl(m.path) : null)
+  }, [store.media])
+  const onPlaybackTime = (sec: number) => {
+    if (followPlayback) setTimeHighlight(formatClock(sec))
+  }
+  const stampNow = () => formatClock(mediaElRef.current?.currentTime || 0)
+
+  // ---------- Replay: a derived, read-only view; nothing here writes to the store ----------
+  const [replay, setReplay] = React.useState<{
+    order: string[], positions: Map<string, Pos>, step: number, playing: boolean, speed: number
+  } | null>(null)
+  const startReplay = async () => {
+    const engine = LAYOUT_ENGINES[layoutEngine] || LAYOUT_ENGINES.tree
+    // final positions of the fully expanded map, so nodes never move once revealed
+    const positions = await engine.run(store.nodes, store.edges, { direction: layoutDirection, sizes: measuredSizes.current })
+    setMainView('graph')
+    setPreview(null)
+    setReplay({ order: replayOrder(store.nodes, store.edges), positions, step: 0, playing: true, speed: 1 })
+  }
+  const stepReplay = (step: number) => setReplay(r => r && { ...r, step: Math.max(0, Math.min(r.order.length, step)), playing: false })
+
+  React.useEffect(() => {
+    if (!replay?.playing) return
+    if (replay.step >= replay.order.length) { setReplay(r => r && { ...r, playing: false }); return }
+    const t = setTimeout(() => setReplay(r => r && { ...r, step: r.step + 1 }), REPLAY_STEP_MS / replay.speed)
+    return () => clearTimeout(t)
+  }, [replay?.playing, replay?.step, replay?.speed])
+
+  const replayRevealed = React.useMemo(() => new Set(replay ? replay.order.slice(0, replay.step) : []), [replay?.order, replay?.step])
+  const replayNewest = replay && replay.step ? replay.order[replay.step - 1] : ''
+  const replayNodes = React.useMemo(() => {
+    if (!replay) return []
+    return store.nodes.filter(n => replayRevealed.has(n.id)).map(n => ({
+      ...n,
+      position: replay.positions.get(n.id) ?? n.position,
+      draggable: false,
+      selectable: false,
+      data: { ...n.data, collapsed: false, isEditing: false, readOnly: true, hit: n.id === replayNewest }
+    }))
+  }, [replay?.positions, replayRevealed, replayNewest, store.nodes])
+  const replayEdges = React.useMemo(() => revealedEdges(store.edges, replayRevealed).map(e => {
+    const eKind = (e.data as any)?.kind
+    return { ...e, type: eKind === 't2-link' || eKind === 'refers-to' ? 't2' : 'thick', data: { ...(e.data || {}) } }
+  }), [store.edges, replayRevealed])
+
+  // the camera follows the newest statement
+  React.useEffect(() => {
+    const p = replay?.positions.get(replayNewest)
+    const inst = rfInstance.current
+    if (!p || !inst) return
+    const sz = sizeOf(store.nodes.find(n => n.id === replayNewest), measuredSizes.current)
+    inst.setCenter(p.x + sz.width / 2, p.y + sz.height / 2, { zoom: inst.getZoom(), duration: 500 })
+  }, [replayNewest])
+
+  // ---------- Revision history (graph/history.ts) ----------
+  // Saving adds a revision and checkpoints are added by hand; both travel inside the document.
+  // A preview is, like a replay, a read-only view of a revision laid out on its own.
+  const [preview, setPreview] = React.useState<{ index: number, id: string, title: string, at: string, snapshot: Snapshot, positions: Map<string, Pos> } | null>(null)
+  const revisionTitle = (index: number) => {
+    const r = store.history.revisions[index]
+    return r.name || (r.kind === 'auto' ? 'Saved' : 'Checkpoint') + ' ' + new Date(r.at).toLocaleString()
+  }
+  const addCheckpoint = (name: string) => store.setHistory(addRevision(store.history, store.getSnapshot(), { kind: 'checkpoint', name }))
+  const previewRevision = async (index: number) => {
+    const r = store.history.revisions[index]
+    const snapshot = revisionContent(store.history, index)
+    const engine = LAYOUT_ENGINES[layoutEngine] || LAYOUT_ENGINES.tree
+    const positions = await engine.run(snapshot.nodes, snapshot.edges, { direction: layoutDirection, sizes: measuredSizes.current })
+    setMainView('graph')
+    setReplay(null)
+    setPreview({ index, id: r.id, title: revisionTitle(index), at: r.at, snapshot, positions })
+  }
+  // in place and undoable; unsaved work is kept as a revision first
+  const restoreRevision = (index: number) => {
+    const content = revisionContent(store.history, index)
+    store.setHistory(addRevision(store.history, store.getSnapshot(), { kind: 'auto', name: `Before restoring “${revisionTitle(index)}”` }))
+    store.loadSnapshot(content)
+    setPreview(null)
+    requestLayout(true)
+  }
+  // a new document holding the revision and the history up to it; the current one is left alone
+  const branchRevision = (index: number) => {
+    const history = historyUntil(store.history, index)
+    if (!loadValidated(withHistory(toSavedSnapshot(history.newest!), history), revisionTitle(index))) return
+    setPreview(null)
+    requestLayout(true)
+  }
+  // a preview ends when its revision goes away, e.g. when another map is opened
+  React.useEffect(() => {
+    if (preview && store.history.revisions[preview.index]?.id !== preview.id) setPreview(null)
+  }, [store.history])
+  const previewNodes = React.useMemo(() => (preview?.snapshot.nodes || []).map(n => ({
+    ...n,
+    position: preview!.positions.get(n.id) ?? n.position,
+    draggable: false,
+    selectable: false,
+    data: { ...n.data, readOnly: true }
+  })), [preview])
+  const previewEdges = React.useMemo(() => (preview?.snapshot.edges || []).map(e => {
+    const eKind = (e.data as any)?.kind
+    return { ...e, type: eKind === 't2-link' || eKind === 'refers-to' ? 't2' : 'thick', data: { ...(e.data || {}) } }
+  }), [preview])
+  const readOnlyView = !!replay || !!preview
+
+  // ---------- Problems (integrity lint) ----------
+  const rfInstance = React.useRef<ReactFlowInstance | null>(null)
+  const thesisIds = React.useMemo(() => store.nodes.filter(n => n.data.kind === 'Thesis').map(n => n.id), [store.nodes])
+
+  // ---------- Sources ----------
+  const citedBy = React.useMemo(() => citingNodes(store.nodes), [store.nodes])
+  const sourceInputRef = React.useRef<HTMLInputElement | null>(null)
+  const handleSourceFile = async (file: File) => {
+    try {
+      const text = await file.text()
+      const format = sourceFormatOf(file.name, text)
+      const { sources, problems } = importSources(text, format)
+      const { added, duplicates } = store.importSources(sources)
+      const lines = [`${added} source${added === 1 ? '' : 's'} added from ${SOURCE_FORMAT_LABELS[format]}.`]
+      if (duplicates) lines.push(`${duplicates} already in the bibliography, skipped.`)
+      if (problems.length) lines.push('', ...problems.slice(0, 10), ...(problems.length > 10 ? [`…and ${problems.length - 10} more.`] : []))
+      alert(lines.join('\n'))
+    } catch (e) { alert('Failed to import sources: ' + ((e as any)?.message || String(e))) }
+  }
+  const exportSources = (format: SourceExport) => {
+    if (format === 'bibtex') doExportInterchange('BibTeX', 'bib', () => exportBibtex(store.getSnapshot()))
+    else if (format === 'csl-json') doExportInterchange('CSL-JSON', 'csl.json', () => exportCslJson(store.getSnapshot()), 'application/json')
+    else doExportInterchange('Markdown', 'references.md', () => exportReferenceList(store.getSnapshot()), 'text/markdown')
+  }
+  const citeSource = (sourceId: string) => {
+    if (!selectedNode) return
+    store.updateNode(selectedNode.id, { citations: [...(selectedNode.data.citations || []), { sourceId }] })
   }
 
+  const lintIssues = React.useMemo(
+    () => lintSnapshot({ nodes: store.nodes, edges: store.edges, participants: store.participants }),
+    [store.nodes, store.edges, store.participants]
+  )
+
+  const commentLabel = (id: string) => {
+    const titleOf = (nodeId: string) => `“${store.nodes.find(n => n.id === nodeId)?.data.title || 'Untitled'}”`
+    const edge = store.edges.find(e => e.id === id)
+    return edge ? `${titleOf(edge.source)} → ${titleOf(edge.target)}` : titleOf(id)
+  }
+  const focusThread = (t: Thread) => {
+    const edge = t.root.edgeId && store.edges.find(e => e.id === t.root.edgeId)
+    if (!edge) { focusNode(threadTarget(t)); return }
+    focusNode(edge.target)
+    setSelectedId('')
+    setActiveEdgeId(edge.id)
+  }
+
+  // Select a node and bring it into view, expanding any collapsed ancestors first
+  const focusNode = (id: string) => {
+    const parentsOf = new Map<string, string>()
+    for (const [p, c] of allPairs) if (!parentsOf.has(c)) parentsOf.set(c, p)
+    const seen = new Set<string>()
+    let cur = parentsOf.get(id)
+    while (cur && !seen.has(cur)) {
+      seen.add(cur)
+      if (store.nodes.find(n => n.id === cur)?.data.collapsed) store.updateNode(cur, { collapsed: false })
+      cur = parentsOf.get(cur)
+    }
+    setSelectedId(id)
+    setTimeout(() => {
+      const n = rfInstance.current?.getNode(id)
+      if (!n) return
+      const w = n.width ?? 320, h = n.height ?? 120
+      rfInstance.current?.setCenter(n.position.x + w / 2, n.position.y + h / 2, { zoom: Math.max(rfInstance.current.getZoom(), 0.6), duration: 400 })
+    }, 50)
+  }
+
+  const applyFix = async (issue: LintIssue) => {
+    if (!issue.fix) return
+    store.loadSnapshot(issue.fix.apply(store.getSnapshot()))
+    requestLayout()
+  }
 
   const [participantsOpen, setParticipantsOpen] = React.useState(false)
 
@@ -746,13 +1496,23 @@ export default function App() {
   const [editRefId, setEditRefId] = React.useState('')
 
   return (
-    <div className="app">
+    <div className={`app ${store.transcript && transcriptOpen ? 'app--with-transcript' : ''}`}>
       <div className="sidebar">
         <fieldset>
           <legend>Save / Load</legend>
           <div className="toolbar">
-            <button onClick={doExport}>Save (Export)</button>
-            <button className="secondary" onClick={() => fileInputRef.current?.click()}>Load (Import)</button>
+            {desktopFiles ? (
+              <>
+                <button onClick={() => saveToFile()} title="Ctrl+S">Save</button>
+                <button className="secondary" onClick={() => saveToFile(true)} title="Ctrl+Shift+S">Save As…</button>
+                <button className="secondary" onClick={openFromDisk} title="Ctrl+O">Open…</button>
+              </>
+            ) : (
+              <>
+                <button onClick={doExport}>Save (Export)</button>
+                <button className="secondary" onClick={() => fileInputRef.current?.click()}>Load (Import)</button>
+              </>
+            )}
             <select value="" onChange={e => { if (e.target.value) loadPreload(e.target.value) }}>
               <option value="">Load sample...</option>
               {Object.keys(preloads).map(path => {
@@ -761,18 +1521,194 @@ export default function App() {
               })}
             </select>
           </div>
-          <input type="file" accept="application/json" ref={fileInputRef} style={{ display: 'none' }}
+          {desktopFiles && recentFiles.length > 0 && (
+            <div className="toolbar">
+              <select value="" onChange={e => {
+                const v = e.target.value
+                if (v === '-clear') desktopFiles?.clearRecent().then(refreshRecent)
+                else if (v) openRecent(v)
+              }}>
+                <option value="">Open recent...</option>
+                {recentFiles.map(p => <option key={p} value={p} title={p}>{p.split(/[\\/]/).pop()}</option>)}
+                <option value="-clear">Clear recent files</option>
+              </select>
+            </div>
+          )}
+          <input type="file" accept=".debatemap,.json,application/json" ref={fileInputRef} style={{ display: 'none' }}
             onChange={e => { const f = e.target.files?.[0]; if (f) { handleImportedFile(f) }; e.currentTarget.value = '' }} />
+          <div className="toolbar">
+            <button className="secondary" onClick={() => outlineInputRef.current?.click()}
+              title="Indented Markdown list or OPML (e.g. “- [Alice][Counter][T2] title @12:34”), a Kialo export, an Argdown file or AIF JSON">
+              Import outline / Kialo / Argdown / AIF
+            </button>
+            <button className="secondary" onClick={() => transcriptInputRef.current?.click()} title="SRT, WebVTT or “HH:MM:SS Speaker: text” lines">
+              Import transcript
+            </button>
+            {store.transcript && !transcriptOpen && (
+              <button className="secondary" onClick={() => setTranscriptOpen(true)}>Show transcript</button>
+            )}
+          </div>
+          <input type="file" accept=".md,.markdown,.txt,.opml,.xml,.argdown,.ad,.json,text/markdown,text/plain,text/x-opml" ref={outlineInputRef} style={{ display: 'none' }}
+            onChange={e => { const f = e.target.files?.[0]; if (f) { handleOutlineFile(f) }; e.currentTarget.value = '' }} />
+          <input type="file" accept=".srt,.vtt,.txt,text/plain,text/vtt" ref={transcriptInputRef} style={{ display: 'none' }}
+            onChange={e => { const f = e.target.files?.[0]; if (f) { handleTranscriptFile(f) }; e.currentTarget.value = '' }} />
+        </fieldset>
+
+        <LibraryPanel
+          entries={library}
+          currentId={currentDocId}
+          status={autosave}
+          onOpen={openFromLibrary}
+          onDuplicate={id => libraryAction(() => duplicateDocument(id))}
+          onRename={(id, title) => libraryAction(() => renameDocument(id, title))}
+          onDelete={id => libraryAction(async () => {
+            await deleteDocument(id)
+            // the map stays on screen; its next change starts a new library document
+            if (id === currentDocId) setDocument(undefined)
+          })}
+        />
+
+        <HistoryPanel
+          history={store.history}
+          previewId={preview?.id}
+          onCheckpoint={addCheckpoint}
+          onPreview={previewRevision}
+          onRestore={restoreRevision}
+          onBranch={branchRevision}
+          onRename={(id, name) => store.setHistory(renameRevision(store.history, id, name))}
+          onDelete={index => store.setHistory(deleteRevision(store.history, index))}
+        />
+
+        <CollabPanel
+          status={collabStatus}
+          peers={peers}
+          titleOf={id => store.nodes.find(n => n.id === id)?.data.title}
+          onJoin={joinRoom}
+          onLeave={leaveRoom}
+        />
+
+        <DiffPanel
+          fileName={comparison?.fileName}
+          diff={diff}
+          titleOf={id => store.nodes.find(n => n.id === id)?.data.title}
+          onCompare={() => compareInputRef.current?.click()}
+          onMerge={() => setMergeOurs(store.getSnapshot())}
+          onClear={() => setComparison(undefined)}
+          onFocus={focusNode}
+        />
+        <input type="file" accept=".debatemap,.json,application/json" ref={compareInputRef} style={{ display: 'none' }}
+          onChange={e => { const f = e.target.files?.[0]; if (f) { handleCompareFile(f) }; e.currentTarget.value = '' }} />
+
+        <fieldset>
+          <legend>Export</legend>
+          <div className="toolbar" style={{ marginTop: 0 }}>
+            <button className="secondary" onClick={doExportMarkdown} disabled={!store.nodes.length} title="Nested Markdown outline of the argument tree">
+              Markdown
+            </button>
+            <select value={outlineParticipant} onChange={e => setOutlineParticipant(e.target.value)} title="Whose statements to export">
+              <option value="">All participants</option>
+              {store.participants.map(p => (<option key={p.id} value={p.id}>{p.name}</option>))}
+            </select>
+            <select value={outlineDepth} onChange={e => setOutlineDepth(Number(e.target.value))} title="How many levels to export">
+              <option value={0}>All levels</option>
+              {[1, 2, 3, 4, 5].map(d => <option key={d} value={d}>{d} level{d === 1 ? '' : 's'}</option>)}
+            </select>
+          </div>
+          <div className="toolbar">
+            <button className="secondary" disabled={!store.nodes.length}
+              onClick={() => doExportInterchange('Kialo', 'txt', () => exportKialo(store.getSnapshot(), { tags: kialoTags }))}>
+              Kialo
+            </button>
+            <label className="filter-item" title="Speakers, kinds, strength types and times written as [tags] in the claim text">
+              <input type="checkbox" checked={kialoTags} onChange={e => setKialoTags(e.target.checked)} />
+              Keep details as [tags]
+            </label>
+          </div>
+          <div className="toolbar">
+            <button className="secondary" disabled={!store.nodes.length}
+              onClick={() => doExportInterchange('Argdown', 'argdown', () => exportArgdown(store.getSnapshot()))}>
+              Argdown
+            </button>
+            <button className="secondary" disabled={!store.nodes.length} title="Argument Interchange Format, as used by AIFdb and OVA"
+              onClick={() => doExportInterchange('AIF', 'aif.json', () => exportAif(store.getSnapshot()), 'application/json')}>
+              AIF
+            </button>
+          </div>
+          <div className="toolbar">
+            <select value={imageScope} onChange={e => setImageScope(e.target.value as typeof imageScope)} title="Which part of the map to draw">
+              <option value="all">Whole map</option>
+              <option value="viewport">Current view</option>
+              <option value="subtree" disabled={!selectedId}>Selected subtree</option>
+            </select>
+            <select value={imageScale} onChange={e => setImageScale(Number(e.target.value))} title="Pixels per canvas pixel">
+              {[1, 2, 3, 4].map(s => <option key={s} value={s}>{s}×</option>)}
+            </select>
+            <label className="filter-item">
+              <input type="checkbox" checked={imageLegend} onChange={e => setImageLegend(e.target.checked)} />
+              Legend
+            </label>
+          </div>
+          <div className="toolbar">
+            <button className="secondary" disabled={!store.nodes.length || (imageScope === 'subtree' && !selectedId)} onClick={() => doExportImage('svg')}>SVG</button>
+            <button className="secondary" disabled={!store.nodes.length || (imageScope === 'subtree' && !selectedId)} onClick={() => doExportImage('png')}>PNG</button>
+          </div>
+          <div className="toolbar">
+            <button className="secondary" onClick={doExportHtml} disabled={!store.nodes.length}
+              title="One .html file that opens in any browser, without the app or a network connection">
+              Shareable HTML (read-only)
+            </button>
+            <button className="secondary" onClick={doExportClean} disabled={!store.nodes.length}
+              title="The map as JSON without review comments or revision history">
+              Clean copy (JSON)
+            </button>
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend>History</legend>
+          <div className="toolbar" style={{ marginTop: 0 }}>
+            <button className="secondary" onClick={doUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">Undo</button>
+            <button className="secondary" onClick={doRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">Redo</button>
+          </div>
         </fieldset>
 
         <fieldset>
           <legend>View</legend>
           <div className="toolbar">
-            <button className="secondary" onClick={async () => { store.setAllCollapsed(true); syncFromStore(); await relayout() }}>Collapse all</button>
-            <button className="secondary" onClick={async () => await (store.setAllCollapsed(false), syncFromStore(), relayout())}>Expand all</button>
-            <button className="secondary" onClick={async () => { await relayout() }}>Auto-layout</button>
+            <button className="secondary" onClick={collapseAll}>Collapse all</button>
+            <button className="secondary" onClick={expandAll}>Expand all</button>
+            <button className="secondary" onClick={() => requestLayout(true)} title="Re-layout everything except pinned statements">Auto-layout</button>
+            <button className="secondary" onClick={startReplay} disabled={!store.nodes.length || !!replay} title="Build the map up in the order it was said">Replay</button>
+          </div>
+          <div className="row" style={{ marginTop: 10 }}>
+            <select value={layoutEngine} onChange={e => store.setLayoutEngine(e.target.value as LayoutEngineId)} title="Layout engine">
+              {Object.values(LAYOUT_ENGINES).map(eng => <option key={eng.id} value={eng.id}>{eng.label}</option>)}
+            </select>
+            <select
+              value={layoutDirection}
+              onChange={e => store.setLayoutDirection(e.target.value as 'TB' | 'LR')}
+              disabled={!LAYOUT_ENGINES[layoutEngine].directional}
+              title="Orientation"
+            >
+              <option value="TB">Top-down</option>
+              <option value="LR">Left-to-right</option>
+            </select>
           </div>
-          <div className="small">Tip: single-click selects; double-click collapses/expands children.</div>
+          <label className="filter-item" style={{ marginTop: 6 }} title="Only re-layout branches that changed; off re-lays out the whole map">
+            <input type="checkbox" checked={incrementalLayout} onChange={e => store.setIncrementalLayout(e.target.checked)} />
+            Keep layout stable on edits
+          </label>
+          <div className="row" style={{ marginTop: 6 }}>
+            <label className="filter-item">
+              <input type="radio" style={{ width: 'auto' }} checked={mainView === 'graph'} onChange={() => setMainView('graph')} />
+              Graph
+            </label>
+            <label className="filter-item">
+              <input type="radio" style={{ width: 'auto' }} checked={mainView === 'timeline'} onChange={() => setMainView('timeline')} />
+              Timeline
+            </label>
+          </div>
+          <div className="small">Tip: single-click selects; double-click collapses/expands children. Dragging a statement pins it; click 📌 to release.</div>
         </fieldset>
 
         <fieldset>
@@ -814,6 +1750,21 @@ export default function App() {
           <div className="small" style={{ marginTop: 6 }}>Dims all except nearest lower and higher timestamps.</div>
         </fieldset>
 
+        <fieldset>
+          <legend>Recording</legend>
+          <MediaPlayer
+            media={store.media}
+            src={store.mediaSrc}
+            mediaRef={mediaElRef}
+            seek={store.mediaSeek}
+            follow={followPlayback}
+            onFollowChange={setFollowPlayback}
+            onTime={onPlaybackTime}
+            onPick={onPickMedia}
+            onDetach={() => { pickedMedia.current = null; store.setMedia(undefined) }}
+          />
+        </fieldset>
+
         <fieldset className="collapsible">
           <legend className="collapsible-title" onClick={() => setAddOpen(v => !v)} style={{ cursor: 'pointer' }}>
             {addOpen ? '▼' : '▶'} Add Statement
@@ -847,7 +1798,10 @@ export default function App() {
               <textarea placeholder="Details / reasoning / citation" value={body} onChange={e => setBody(e.target.value)} />
 
               <label>First Mention (optional)</label>
-              <input placeholder="e.g., 00:12:34 or 2025-10-20 14:03" value={firstMention} onChange={e => setFirstMention(e.target.value)} />
+              <div className="row">
+                <input placeholder="e.g., 00:12:34 or 2025-10-20 14:03" value={firstMention} onChange={e => setFirstMention(e.target.value)} />
+                {store.mediaSrc && <button className="secondary" onClick={() => setFirstMention(stampNow())} title="Use the current playback time">Stamp now</button>}
+              </div>
 
               {(formType === 'Argument' || formType === 'Counter' || formType === 'Evidence') && (
                 <>
@@ -1022,7 +1976,10 @@ export default function App() {
               <textarea value={editBody} onChange={e => setEditBody(e.target.value)} />
 
               <label>First Mention (optional)</label>
-              <input placeholder="e.g., 00:12:34 or 2025-10-20 14:03" value={editFirstMention} onChange={e => setEditFirstMention(e.target.value)} />
+              <div className="row">
+                <input placeholder="e.g., 00:12:34 or 2025-10-20 14:03" value={editFirstMention} onChange={e => setEditFirstMention(e.target.value)} />
+                {store.mediaSrc && <button className="secondary" onClick={() => setEditFirstMention(stampNow())} title="Use the current playback time">Stamp now</button>}
+              </div>
 
               {(selectedNode.data.kind === 'Argument' || selectedNode.data.kind === 'Counter' || selectedNode.data.kind === 'Evidence') && (
                 <>
@@ -1104,6 +2061,14 @@ export default function App() {
               </div>
               <div className="small">Optional visual links; no effect on hierarchy.</div>
 
+              {(selectedNode.data.kind === 'Evidence' || !!selectedNode.data.citations?.length) && (
+                <CitationsEditor
+                  citations={selectedNode.data.citations || []}
+                  sources={store.sources}
+                  onChange={citations => store.updateNode(selectedNode.id, { citations: citations.length ? citations : undefined }, { coalesceKey: 'citations:' + selectedNode.id })}
+                />
+              )}
+
               {/* Reattach: show eligible parent/target selector if available */}
               {(() => {
                 const eligible = (() => {
@@ -1170,8 +2135,12 @@ export default function App() {
 
               <div className="toolbar">
                 <button onClick={saveEdit}>Save</button>
-                <button className="secondary" onClick={deleteSelected}>Delete</button>
+                <button className="secondary" onClick={() => setDeleteDialogOpen(true)}>Delete…</button>
               </div>
+
+              {showScores && scores.get(selectedNode.id) && (
+                <ScoreBreakdown score={scores.get(selectedNode.id)!} nodesById={nodesById} onFocus={focusNode} />
+              )}
             </>
           ) : (
             <div className="small">No statement selected. Click any statement card in the canvas to edit it.</div>
@@ -1198,6 +2167,73 @@ export default function App() {
           )}
         </fieldset>
 
+        <ProblemsPanel issues={lintIssues} onFocus={focusNode} onFix={applyFix} />
+
+        <CommentsPanel
+          threads={threads}
+          target={selectedId ? { nodeId: selectedId, label: commentLabel(selectedId) }
+            : activeEdgeId ? { edgeId: activeEdgeId, label: commentLabel(activeEdgeId) } : undefined}
+          labelOf={commentLabel}
+          onAdd={(on, author, text) => { store.addComment(on, author, text) }}
+          onEdit={store.editComment}
+          onDelete={store.deleteComment}
+          onResolve={store.setThreadResolved}
+          onFocus={focusThread}
+        />
+
+        <SourcesPanel
+          sources={store.sources}
+          citedBy={citedBy}
+          selected={selectedNode}
+          onAdd={fields => { store.addSource(fields) }}
+          onUpdate={store.updateSource}
+          onDelete={store.deleteSource}
+          onCite={citeSource}
+          onImport={() => sourceInputRef.current?.click()}
+          onExport={exportSources}
+          onFocus={focusNode}
+        />
+        <input type="file" accept=".bib,.bibtex,.json,.csl,application/json" ref={sourceInputRef} style={{ display: 'none' }}
+          onChange={e => { const f = e.target.files?.[0]; if (f) { handleSourceFile(f) }; e.currentTarget.value = '' }} />
+
+        <ScorePanel
+          theses={store.nodes.filter(n => n.data.kind === 'Thesis')}
+          scores={scores}
+          rules={scoringRules}
+          onRulesChange={store.setScoringRules}
+          showOnCards={showScores}
+          onShowOnCardsChange={store.setShowScores}
+          onFocus={focusNode}
+        />
+
+        <fieldset>
+          <legend>Argumentation</legend>
+          <div className="row">
+            <select value={argSemantics} onChange={e => store.setArgSemantics(e.target.value as ArgSemantics | 'off')} title="Semantics">
+              <option value="off">Labels off</option>
+              <option value="grounded">Grounded</option>
+              <option value="preferred">Preferred (sceptical)</option>
+            </select>
+            <select
+              value={supportReading}
+              onChange={e => store.setSupportReading(e.target.value as SupportReading)}
+              disabled={argSemantics === 'off'}
+              title="How support edges affect acceptance"
+            >
+              <option value="deductive">Deductive support</option>
+              <option value="necessary">Necessary support</option>
+              <option value="ignore">Attacks only</option>
+            </select>
+          </div>
+          {argumentation && (
+            <div className="small" style={{ marginTop: 6 }}>
+              Theses standing: {thesisIds.filter(id => argLabelOf(id) === 'IN').length} of {thesisIds.length}
+              {argumentation.extensions !== undefined && !argumentation.truncated && <> · {argumentation.extensions} preferred extension{argumentation.extensions === 1 ? '' : 's'}</>}
+              {argumentation.truncated && <> · too many cycles to search; undecided labels are grounded</>}
+            </div>
+          )}
+        </fieldset>
+
         {/* Add after other fieldsets but before Legend */}
         <fieldset className="collapsible">
           <legend className="collapsible-title" onClick={() => setFiltersOpen(v => !v)} style={{ cursor: 'pointer' }}>
@@ -1247,6 +2283,22 @@ export default function App() {
                 ))}
               </div>
 
+              {argumentation && (
+                <div className="filter-section" style={{ marginTop: 12 }}>
+                  <div className="filter-heading">Show only these {argSemantics} labels:</div>
+                  {(['IN', 'OUT', 'UNDEC'] as ArgLabel[]).map(label => (
+                    <label key={label} className="filter-item">
+                      <input
+                        type="checkbox"
+                        checked={store.filters.labels.has(label)}
+                        onChange={e => store.setLabelFilter(label, e.target.checked)}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              )}
+
               <div className="filter-section" style={{ marginTop: 12 }}>
                 <div className="filter-heading">Filter Mode:</div>
                 <label className="filter-item">
@@ -1267,7 +2319,7 @@ export default function App() {
                 </label>
               </div>
 
-              {(store.filters.participants.size > 0 || store.filters.kinds.size > 0 || store.filters.strengths.size > 0) && (
+              {(store.filters.participants.size > 0 || store.filters.kinds.size > 0 || store.filters.strengths.size > 0 || store.filters.labels.size > 0) && (
                 <div className="toolbar">
                   <button className="secondary" onClick={() => store.clearFilters()}>
                     Clear Filters
@@ -1279,58 +2331,84 @@ export default function App() {
         </fieldset>
 
         {/* Legend: added at bottom of sidebar */}
-        <div className="legend" aria-hidden={false}>
-          <div className="legend__title">Legend — colors</div>
-          <div className="legend__list">
-            {['Thesis','Argument','Argument Summary','Counter','Evidence','Agreement'].map(k => (
-              <div key={k} className="legend__item">
-                <div className="legend__swatch" style={{ background: kindColor(k) }} />
-                <div className="legend__label">{k}</div>
-              </div>
-            ))}
-
-            <div className="legend__item" style={{ marginTop: 6 }}>
-              <div className="legend__swatch" style={{ background: '#ecfdf5', borderRadius: 8, border: '1px solid #a7f3d0' }} />
-              <div className="legend__label">Type 1 - If this is true, than the parent claim is true</div>
-            </div>
-            <div className="legend__item">
-              <div className="legend__swatch" style={{ background: '#eff6ff', borderRadius: 8, border: '1px solid #bfdbfe' }} />
-              <div className="legend__label">Type 2 — If this and the specifically described other claim are true, than the parent claim is true (dashed link connects to sister claim)</div>
-            </div>
-            <div className="legend__item">
-              <div className="legend__swatch" style={{ background: '#f8fafc', borderRadius: 8, border: '1px solid #cbd5e1' }} />
-              <div className="legend__label">Type 3 - Only adds general support</div>
-            </div>
-            <div className="legend__item">
-              <div className="legend__swatch" style={{ background: 'repeating-linear-gradient(135deg,#f3f4f6, #f3f4f6 6px,#e5e7eb 6px,#e5e7eb 12px)', borderRadius: 8, border: '1px solid #9ca3af' }} />
-              <div className="legend__label">Type 4 — Adds no meaningful support</div>
-            </div>
-          </div>
-        </div>
+        <Legend />
 
         {/* (legend retained elsewhere in your project) */}
       </div>
 
+      {deleteDialogOpen && selectedNode && (
+        <DeleteDialog
+          snapshot={store.getSnapshot()}
+          nodeId={selectedNode.id}
+          onConfirm={deleteSelected}
+          onCancel={() => setDeleteDialogOpen(false)}
+        />
+      )}
+
+      {conversionReport && (
+        <ConversionReport
+          format={conversionReport.format}
+          fileName={conversionReport.fileName}
+          notes={conversionReport.notes}
+          onClose={() => setConversionReport(null)}
+        />
+      )}
+      {recovery && (
+        <RecoveryDialog
+          entry={recovery}
+          onRestore={() => { setRecovery(null); openFromLibrary(recovery.id) }}
+          onDismiss={() => { setRecovery(null); setLastDocument(undefined) }}
+        />
+      )}
+      {outlineImport && outlineResult && (
+        <OutlineImportDialog
+          fileName={outlineImport.fileName}
+          formatLabel={IMPORT_FORMAT_LABELS[outlineImport.format]}
+          result={outlineResult}
+          mode={outlineImport.mode}
+          onModeChange={mode => setOutlineImport({ ...outlineImport, mode })}
+          onImport={applyOutlineImport}
+          onCancel={() => setOutlineImport(null)}
+        >
+          {outlineImport.format === 'aif' && <AifHeuristicOptions value={aifHeuristic} onChange={setAifHeuristic} />}
+        </OutlineImportDialog>
+      )}
+      {mergeOurs && (
+        <MergeDialog ours={mergeOurs} onApply={applyMerge} onClose={() => setMergeOurs(null)} />
+      )}
+      {importReport && (
+        <ImportReport
+          fileName={importReport.fileName}
+          issues={importReport.issues}
+          migratedFrom={importReport.migratedFrom}
+          onClose={() => setImportReport(null)}
+        />
+      )}
+
       <div className="rf-outer">
-        <div className="rf-wrapper">
+        <div className="rf-wrapper" ref={rfWrapperRef}>
           <ReactFlow
             style={{ width: '100%', height: '100%' }}
-            nodes={renderNodes}
-            edges={renderEdges}
-            onNodesChange={handleNodesChange}
-            onEdgesChange={onEdgesChange}
-            onConnect={onConnect}
+            nodes={replay ? replayNodes : preview ? previewNodes : renderNodes}
+            edges={replay ? replayEdges : preview ? previewEdges : renderEdges}
+            onNodesChange={readOnlyView ? undefined : handleNodesChange}
+            onEdgesChange={readOnlyView ? undefined : onEdgesChange}
+            onConnect={readOnlyView ? undefined : onConnect}
+            nodesDraggable={!readOnlyView}
+            nodesConnectable={!readOnlyView}
             nodeTypes={nodeTypes}
             edgeTypes={edgeTypes}
             fitView
             minZoom={0.02}
             translateExtent={extent}
             nodeExtent={extent}
-            onNodeClick={onNodeClick}
-            onPaneClick={onPaneClick}
-            onEdgeClick={onEdgeClick}
-            onEdgeMouseEnter={onEdgeMouseEnter}
-            onEdgeMouseLeave={onEdgeMouseLeave}
+            onInit={inst => { rfInstance.current = inst }}
+            onNodeDragStop={readOnlyView ? undefined : onNodeDragStop}
+            onNodeClick={readOnlyView ? undefined : onNodeClick}
+            onPaneClick={readOnlyView ? undefined : onPaneClick}
+            onEdgeClick={readOnlyView ? undefined : onEdgeClick}
+            onEdgeMouseEnter={readOnlyView ? undefined : onEdgeMouseEnter}
+            onEdgeMouseLeave={readOnlyView ? undefined : onEdgeMouseLeave}
             panOnDrag={!isAnyEditing}
             zoomOnScroll={!isAnyEditing}
             zoomOnPinch={!isAnyEditing}
@@ -1339,7 +2417,53 @@ export default function App() {
             <Background />
           </ReactFlow>
         </div>
+        {replay && (
+          <ReplayControls
+            step={replay.step}
+            total={replay.order.length}
+            playing={replay.playing}
+            speed={replay.speed}
+            current={replayNewest ? (n => n && { title: n.data.title, firstMention: n.data.firstMention })(store.nodes.find(n => n.id === replayNewest)) : undefined}
+            onPlayPause={() => setReplay(r => r && { ...r, playing: !r.playing, step: !r.playing && r.step >= r.order.length ? 0 : r.step })}
+            onStep={stepReplay}
+            onSpeed={speed => setReplay(r => r && { ...r, speed })}
+            onExit={() => setReplay(null)}
+          />
+        )}
+        {preview && (
+          <RevisionPreviewBar
+            title={preview.title}
+            at={preview.at}
+            onRestore={() => restoreRevision(preview.index)}
+            onBranch={() => branchRevision(preview.index)}
+            onExit={() => setPreview(null)}
+          />
+        )}
+        {mainView === 'timeline' && (
+          <TimelineView
+            nodes={store.nodes}
+            edges={store.edges}
+            participants={store.participants}
+            selectedId={selectedId}
+            playhead={parseTimestamp(timeHighlight)}
+            onSelect={setSelectedId}
+            onOpen={id => { setMainView('graph'); focusNode(id) }}
+          />
+        )}
       </div>
+
+      {store.transcript && transcriptOpen && (
+        <TranscriptPanel
+          transcript={store.transcript}
+          participants={store.participants}
+          mentions={cueMentions}
+          reveal={store.transcriptReveal}
+          onCueClick={onCueClick}
+          onSpeakerChange={store.setSpeakerParticipant}
+          onRemove={() => { if (confirm('Remove the transcript from this document?')) store.setTranscript(undefined) }}
+          onClose={() => setTranscriptOpen(false)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+import React from 'react'
+import { AifKindHeuristic, DEFAULT_AIF_HEURISTIC } from '../graph/aif'
+
+type Props = {
+  value: AifKindHeuristic
+  onChange: (value: AifKindHeuristic) => void
+}
+
+const PATTERNS: Array<{ key: 'evidencePattern' | 'agreementPattern' | 'summaryPattern', label: string }> = [
+  { key: 'evidencePattern', label: 'Evidence schemes' },
+  { key: 'agreementPattern', label: 'Agreement schemes' },
+  { key: 'summaryPattern', label: 'Argument Summary schemes' },
+]
+
+export default function AifHeuristicOptions({ value, onChange }: Props) {
+  const patch = (p: Partial<AifKindHeuristic>) => onChange({ ...value, ...p })
+  return (
+    <div className="score-rules">
+      <div className="small">How statement kinds are chosen (Counter: premise of a conflict)</div>
+      <label className="score-rule">
+        <span>Premise of nothing</span>
+        <select value={value.topLevel} onChange={e => patch({ topLevel: e.target.value as AifKindHeuristic['topLevel'] })}>
+          <option value="Thesis">Thesis</option>
+          <option value="Argument">Argument</option>
+        </select>
+      </label>
+      {PATTERNS.map(({ key, label }) => (
+        <label key={key} className="score-rule" title="Regular expression matched against the inference scheme, ignoring case">
+          <span>{label}</span>
+          <input style={{ width: 200 }} value={value[key]} onChange={e => patch({ [key]: e.target.value })} />
+        </label>
+      ))}
+      <label className="score-rule" title="Inference with no matching scheme whose premise was asserted by someone else than its conclusion">
+        <span>Support from another speaker</span>
+        <select value={value.crossSpeakerSupport} onChange={e => patch({ crossSpeakerSupport: e.target.value as AifKindHeuristic['crossSpeakerSupport'] })}>
+          <option value="Agreement">Agreement</option>
+          <option value="Argument">Argument</option>
+        </select>
+      </label>
+      <div className="toolbar">
+        <button className="secondary" onClick={() => onChange(DEFAULT_AIF_HEURISTIC)}>Reset to defaults</button>
+      </div>
+    </div>
+  )
+}
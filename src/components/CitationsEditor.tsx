@@ -0,0 +1,47 @@
+import React from 'react'
+import type { Citation, Source } from '../graph/types'
+import { referenceText, shortCitation } from '../graph/sources'
+
+type Props = {
+  citations: Citation[]
+  sources: Source[]
+  /** Called on every change; the caller coalesces typing into one undo step */
+  onChange: (citations: Citation[]) => void
+}
+
+/** The sources a statement cites, each with the page or timecode and the quote it draws on */
+export default function CitationsEditor({ citations, sources, onChange }: Props) {
+  const byId = new Map(sources.map(s => [s.id, s]))
+  const update = (i: number, patch: Partial<Citation>) =>
+    onChange(citations.map((c, j) => j === i ? { ...c, ...patch } : c))
+
+  return (
+    <>
+      <label>Sources cited</label>
+      <select
+        value=""
+        onChange={e => { if (e.target.value) onChange([...citations, { sourceId: e.target.value }]) }}
+        disabled={!sources.length}
+        title={sources.length ? undefined : 'Add sources in the Sources panel first'}
+      >
+        <option value="">{sources.length ? '-- cite a source --' : '-- no sources yet --'}</option>
+        {sources.filter(s => !citations.some(c => c.sourceId === s.id)).map(s => (
+          <option key={s.id} value={s.id}>{shortCitation(s)}: {s.title}</option>
+        ))}
+      </select>
+      {citations.map((c, i) => {
+        const source = byId.get(c.sourceId)
+        return (
+          <div key={c.sourceId} className="citation-edit">
+            <div className="row" style={{ justifyContent: 'space-between' }}>
+              <strong className="small" title={source && referenceText(source)}>{source ? shortCitation(source) : 'Deleted source'}</strong>
+              <button className="secondary" style={{ padding: '2px 6px', fontSize: 12 }} onClick={() => onChange(citations.filter((_, j) => j !== i))}>Remove</button>
+            </div>
+            <input placeholder="Page, section or timecode" value={c.locator || ''} onChange={e => update(i, { locator: e.target.value || undefined })} />
+            <textarea rows={2} placeholder="Quote (optional)" value={c.quote || ''} onChange={e => update(i, { quote: e.target.value || undefined })} />
+          </div>
+        )
+      })}
+    </>
+  )
+}
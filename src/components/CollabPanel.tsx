@@ -0,0 +1,92 @@
+import React from 'react'
+import type { CollabStatus, Peer } from '../store/collab'
+
+export type CollabSettings = { url: string, room: string, name: string }
+
+type Props = {
+  /** undefined while not collaborating */
+  status?: { state: CollabStatus, error?: string }
+  peers: Peer[]
+  /** Title of the statement a collaborator is on */
+  titleOf: (nodeId: string) => string | undefined
+  onJoin: (settings: CollabSettings) => void
+  onLeave: () => void
+}
+
+const SETTINGS_KEY = 'debate-map:collab'
+const PEER_COLORS = ['#e11d48', '#7c3aed', '#0891b2', '#65a30d', '#ea580c', '#db2777', '#2563eb', '#ca8a04']
+
+/** Stable colour for a collaborator's name */
+export function peerColor(name: string) {
+  let h = 0
+  for (const ch of name) h = (h * 31 + ch.charCodeAt(0)) >>> 0
+  return PEER_COLORS[h % PEER_COLORS.length]
+}
+
+function savedSettings(): CollabSettings {
+  const fallback = { url: 'ws://localhost:8787', room: '', name: '' }
+  try { return { ...fallback, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') } }
+  catch { return fallback }
+}
+
+export default function CollabPanel({ status, peers, titleOf, onJoin, onLeave }: Props) {
+  const [open, setOpen] = React.useState(false)
+  const [settings, setSettings] = React.useState(savedSettings)
+  const set = (patch: Partial<CollabSettings>) => setSettings(s => ({ ...s, ...patch }))
+
+  const join = () => {
+    try { localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings)) } catch { /* not remembered, still works */ }
+    onJoin({ url: settings.url.trim(), room: settings.room.trim(), name: settings.name.trim() })
+  }
+
+  return (
+    <fieldset className="collapsible">
+      <legend className="collapsible-title" onClick={() => setOpen(v => !v)} style={{ cursor: 'pointer' }}>
+        {open ? '▼' : '▶'} Collaborate
+      </legend>
+      <div className="small">
+        {!status ? <>Edit this map together with others through a relay.</>
+          : status.state === 'live' ? <>Live in “{settings.room}” with {peers.length} other{peers.length === 1 ? '' : 's'}.</>
+            : status.state === 'connecting' ? <>Connecting…</>
+              : <>Offline{status.error ? `: ${status.error}` : ''}. Your changes are sent when the relay is back.</>}
+      </div>
+      {open && (
+        <>
+          {!status ? (
+            <>
+              <input style={{ marginTop: 6 }} value={settings.url} onChange={e => set({ url: e.target.value })} placeholder="Relay, e.g. ws://localhost:8787" title="Start one with: npm run relay" />
+              <div className="row" style={{ marginTop: 6 }}>
+                <input value={settings.room} onChange={e => set({ room: e.target.value })} placeholder="Room" title="Everyone in the same room edits the same map" />
+                <input value={settings.name} onChange={e => set({ name: e.target.value })} placeholder="Your name" />
+              </div>
+              <div className="toolbar">
+                <button onClick={join} disabled={!settings.url.trim() || !settings.room.trim() || !settings.name.trim()}
+                  title="An empty room starts with the map on screen; otherwise the room's map replaces it">
+                  Join room
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="collab-peers">
+                {peers.map(p => {
+                  const title = p.nodeId ? titleOf(p.nodeId) : undefined
+                  return (
+                    <div key={p.client} className="collab-peer">
+                      <span className="collab-peer__dot" style={{ background: p.color }} />
+                      <strong>{p.name}</strong>
+                      <span className="collab-peer__where">{title ? `${p.editing ? 'editing' : 'on'} “${title}”` : ''}</span>
+                    </div>
+                  )
+                })}
+              </div>
+              <div className="toolbar">
+                <button className="secondary" onClick={onLeave} title="Stop sharing; the map stays on screen">Leave room</button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </fieldset>
+  )
+}
@@ -0,0 +1,148 @@
+import React from 'react'
+import type { Comment } from '../graph/types'
+import { Thread, threadTarget } from '../graph/comments'
+
+/** A statement or an edge, as comments refer to it */
+export type CommentTarget = { nodeId: string } | { edgeId: string }
+
+type Props = {
+  threads: Thread[]
+  /** What is selected on the canvas, and how to name it */
+  target?: CommentTarget & { label: string }
+  labelOf: (id: string) => string
+  onAdd: (on: CommentTarget | { threadId: string }, author: string, text: string) => void
+  onEdit: (id: string, text: string) => void
+  onDelete: (id: string) => void
+  onResolve: (threadId: string, resolved: boolean, by: string) => void
+  onFocus: (thread: Thread) => void
+}
+
+const AUTHOR_KEY = 'debate-map:comment-author'
+
+function savedAuthor() {
+  try { return localStorage.getItem(AUTHOR_KEY) || '' } catch { return '' }
+}
+
+function CommentView({ comment, onEdit, onDelete }: { comment: Comment, onEdit: (text: string) => void, onDelete: () => void }) {
+  const [editing, setEditing] = React.useState<string | null>(null)
+  return (
+    <div className="comment">
+      <div className="comment__meta">
+        <strong>{comment.author || 'Anonymous'}</strong> · {new Date(comment.at).toLocaleString()}
+        <span className="comment__actions">
+          <button onClick={() => setEditing(comment.text)}>Edit</button>
+          <button onClick={onDelete}>Delete</button>
+        </span>
+      </div>
+      {editing === null ? <div className="comment__text">{comment.text}</div> : (
+        <>
+          <textarea rows={3} value={editing} onChange={e => setEditing(e.target.value)} autoFocus />
+          <div className="toolbar" style={{ marginTop: 4 }}>
+            <button onClick={() => { if (editing.trim()) onEdit(editing.trim()); setEditing(null) }} disabled={!editing.trim()}>Save</button>
+            <button className="secondary" onClick={() => setEditing(null)}>Cancel</button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default function CommentsPanel({ threads, target, labelOf, onAdd, onEdit, onDelete, onResolve, onFocus }: Props) {
+  const [open, setOpen] = React.useState(false)
+  const [author, setAuthor] = React.useState(savedAuthor)
+  const [draft, setDraft] = React.useState('')
+  const [replies, setReplies] = React.useState<Record<string, string>>({})
+  const [showResolved, setShowResolved] = React.useState(false)
+
+  const openThreads = threads.filter(t => !t.root.resolved)
+  const targetId = target && ('nodeId' in target ? target.nodeId : target.edgeId)
+  const here = targetId ? threads.filter(t => threadTarget(t) === targetId) : []
+  const listed = showResolved ? threads : openThreads
+
+  const changeAuthor = (name: string) => {
+    setAuthor(name)
+    try { localStorage.setItem(AUTHOR_KEY, name) } catch { /* not remembered, still works */ }
+  }
+  const add = (on: CommentTarget | { threadId: string }, text: string) => {
+    if (!text.trim()) return false
+    onAdd(on, author.trim(), text.trim())
+    return true
+  }
+  const deleteComment = (c: Comment) => {
+    if (confirm(c.threadId ? 'Delete this reply?' : 'Delete this thread and its replies?')) onDelete(c.id)
+  }
+
+  return (
+    <fieldset className="collapsible">
+      <legend className="collapsible-title" onClick={() => setOpen(v => !v)} style={{ cursor: 'pointer' }}>
+        {open ? '▼' : '▶'} Comments ({openThreads.length} open)
+      </legend>
+      {open && (
+        <>
+          <input value={author} onChange={e => changeAuthor(e.target.value)} placeholder="Your name" title="Shown with your comments" />
+
+          {!target ? (
+            <div className="small" style={{ marginTop: 6 }}>Select a statement or click an edge to comment on it.</div>
+          ) : (
+            <div className="comment-target">
+              <div className="small">On {target.label}</div>
+              {here.map(t => (
+                <div key={t.root.id} className={`comment-thread ${t.root.resolved ? 'comment-thread--resolved' : ''}`}>
+                  {[t.root, ...t.replies].map(c => (
+                    <CommentView key={c.id} comment={c} onEdit={text => onEdit(c.id, text)} onDelete={() => deleteComment(c)} />
+                  ))}
+                  {t.root.resolved ? (
+                    <div className="toolbar" style={{ marginTop: 4 }}>
+                      <span className="small">Resolved{t.root.resolvedBy ? ` by ${t.root.resolvedBy}` : ''}</span>
+                      <button className="secondary" onClick={() => onResolve(t.root.id, false, author.trim())}>Reopen</button>
+                    </div>
+                  ) : (
+                    <>
+                      <textarea rows={2} placeholder="Reply…" value={replies[t.root.id] || ''}
+                        onChange={e => setReplies(r => ({ ...r, [t.root.id]: e.target.value }))} />
+                      <div className="toolbar" style={{ marginTop: 4 }}>
+                        <button className="secondary" disabled={!replies[t.root.id]?.trim()}
+                          onClick={() => { if (add({ threadId: t.root.id }, replies[t.root.id] || '')) setReplies(r => ({ ...r, [t.root.id]: '' })) }}>
+                          Reply
+                        </button>
+                        <button className="secondary" onClick={() => onResolve(t.root.id, true, author.trim())}>Resolve</button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+              <textarea rows={3} placeholder="Start a thread…" value={draft} onChange={e => setDraft(e.target.value)} />
+              <div className="toolbar" style={{ marginTop: 4 }}>
+                <button disabled={!draft.trim()}
+                  onClick={() => { if (add('nodeId' in target ? { nodeId: target.nodeId } : { edgeId: target.edgeId }, draft)) setDraft('') }}>
+                  Comment
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="row" style={{ marginTop: 10 }}>
+            <strong className="small">{showResolved ? 'All threads' : 'Open threads'} ({listed.length})</strong>
+            <label className="filter-item">
+              <input type="checkbox" checked={showResolved} onChange={e => setShowResolved(e.target.checked)} />
+              Show resolved
+            </label>
+          </div>
+          <div className="comment-list">
+            {!listed.length && <div className="small">No {showResolved ? '' : 'open '}threads.</div>}
+            {listed.map(t => (
+              <div key={t.root.id} className={`comment-list__item ${t.root.resolved ? 'comment-thread--resolved' : ''}`}
+                onClick={() => onFocus(t)} title="Show in map">
+                <div className="comment-list__target">{labelOf(threadTarget(t))}</div>
+                <div className="comment-list__text">
+                  <strong>{t.root.author || 'Anonymous'}:</strong> {t.root.text}
+                </div>
+                {t.replies.length > 0 && <div className="small">{t.replies.length} repl{t.replies.length === 1 ? 'y' : 'ies'}</div>}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </fieldset>
+  )
+}
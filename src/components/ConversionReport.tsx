@@ -0,0 +1,33 @@
+import React from 'react'
+import type { ConversionNote } from '../graph/interchange'
+
+type Props = {
+  /** e.g. "Kialo" */
+  format: string
+  fileName: string
+  notes: ConversionNote[]
+  onClose: () => void
+}
+
+const MAX_SHOWN = 200
+
+export default function ConversionReport({ format, fileName, notes, onClose }: Props) {
+  const shown = notes.slice(0, MAX_SHOWN)
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal import-report" onClick={e => e.stopPropagation()} role="dialog" aria-label="Conversion report">
+        <h3>Exported “{fileName}”</h3>
+        <div className="small">
+          {notes.length} thing{notes.length === 1 ? '' : 's'} could not be represented exactly in {format}:
+        </div>
+        <ul className="conversion-notes">
+          {shown.map((n, i) => <li key={i}>{n.message}</li>)}
+        </ul>
+        {notes.length > shown.length && <div className="small">…and {notes.length - shown.length} more.</div>}
+        <div className="toolbar">
+          <button onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  )
+}
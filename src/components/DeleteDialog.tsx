@@ -0,0 +1,73 @@
+import React from 'react'
+import type { Snapshot } from '../graph/types'
+import { planDelete, countByKind, DeleteMode } from '../graph/delete'
+
+type Props = {
+  snapshot: Snapshot
+  nodeId: string
+  onConfirm: (mode: DeleteMode) => void
+  onCancel: () => void
+}
+
+const MODES: Array<{ mode: DeleteMode, label: string }> = [
+  { mode: 'cascade', label: 'Delete the statement and everything under it' },
+  { mode: 'reparent', label: 'Delete only this statement; move its children up to its parent' },
+  { mode: 'orphan', label: 'Delete only this statement; keep its children unattached' },
+]
+
+function describe(counts: Array<[string, number]>) {
+  if (!counts.length) return 'none'
+  return counts.map(([k, n]) => `${n} ${k}`).join(', ')
+}
+
+export default function DeleteDialog({ snapshot, nodeId, onConfirm, onCancel }: Props) {
+  const node = snapshot.nodes.find(n => n.id === nodeId)
+  const plans = React.useMemo(
+    () => new Map(MODES.map(m => [m.mode, planDelete(snapshot, nodeId, m.mode)])),
+    [snapshot, nodeId]
+  )
+  const hasChildren = (plans.get('orphan')?.orphaned.length || 0) > 0
+  const [mode, setMode] = React.useState<DeleteMode>(hasChildren ? 'cascade' : 'orphan')
+  if (!node) return null
+  const plan = plans.get(mode)!
+
+  return (
+    <div className="modal-backdrop" onClick={onCancel}>
+      <div className="modal" onClick={e => e.stopPropagation()} role="dialog" aria-label="Delete statement">
+        <h3>Delete “{node.data.title || 'Untitled'}” ({node.data.kind})?</h3>
+        {hasChildren ? (
+          <div className="filter-section" style={{ marginTop: 10 }}>
+            {MODES.map(m => (
+              <label key={m.mode} className="filter-item">
+                <input type="radio" style={{ width: 'auto' }} checked={mode === m.mode} onChange={() => setMode(m.mode)} />
+                {m.label} ({plans.get(m.mode)!.removedNodeIds.length} deleted)
+              </label>
+            ))}
+          </div>
+        ) : (
+          <div className="small">This statement has no children.</div>
+        )}
+
+        <div className="delete-preview">
+          <div><b>Deleted:</b> {describe(countByKind(snapshot, plan.removedNodeIds))}</div>
+          {plan.reparented.length > 0 && (
+            <div><b>Moved to parent:</b> {describe(countByKind(snapshot, plan.reparented.map(r => r.childId)))}</div>
+          )}
+          {plan.orphaned.length > 0 && (
+            <div><b>Left unattached:</b> {describe(countByKind(snapshot, plan.orphaned.map(o => o.childId)))}</div>
+          )}
+          {plan.orphaned.filter(o => o.reason).map(o => {
+            const c = snapshot.nodes.find(n => n.id === o.childId)
+            return <div key={o.childId} className="small">“{c?.data.title || 'Untitled'}” cannot move up: {o.reason}</div>
+          })}
+          <div className="small">Links (Type 2, refers-to) touching deleted statements are removed too. Undo restores everything.</div>
+        </div>
+
+        <div className="toolbar">
+          <button onClick={() => onConfirm(mode)}>Delete</button>
+          <button className="secondary" onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+import React from 'react'
+import { DIFF_FIELD_LABELS, NodeDiff, SnapshotDiff } from '../graph/diff'
+import { edgeKindOf } from '../graph/tree'
+import { diffColor, labelFor } from './ThickEdge'
+
+type Props = {
+  /** File the map on screen is compared with; undefined while not comparing */
+  fileName?: string
+  diff?: SnapshotDiff
+  titleOf: (nodeId: string) => string | undefined
+  onCompare: () => void
+  onMerge: () => void
+  onClear: () => void
+  onFocus: (nodeId: string) => void
+}
+
+const MAX_SHOWN = 100
+
+const Swatch = ({ status }: { status: Parameters<typeof diffColor>[0] }) =>
+  <span className="diff-swatch" style={{ background: diffColor(status) }} />
+
+function describeNode(d: NodeDiff) {
+  const parts = d.fields.map(f => DIFF_FIELD_LABELS[f.field])
+  if (d.moved) {
+    const { from, to } = d.moved
+    parts.push(from && to ? `moved from “${from.parentTitle}” to “${to.parentTitle}”`
+      : to ? `attached to “${to.parentTitle}”` : `detached from “${from!.parentTitle}”`)
+  }
+  return parts.join(', ')
+}
+
+export default function DiffPanel({ fileName, diff, titleOf, onCompare, onMerge, onClear, onFocus }: Props) {
+  const [open, setOpen] = React.useState(false)
+  const count = (pred: (d: NodeDiff) => boolean) => diff?.nodes.filter(pred).length ?? 0
+  const added = count(d => d.status === 'added')
+  const removed = count(d => d.status === 'removed')
+  const changed = count(d => d.status === 'changed' && d.fields.length > 0)
+  const moved = count(d => d.status === 'changed' && !d.fields.length)
+  // edges that came or went with a statement are already covered by it
+  const edges = diff?.edges.filter(e => !e.withNode) ?? []
+  const total = (diff?.nodes.length ?? 0) + edges.length
+  const endTitle = (id: string) => `“${titleOf(id) || id}”`
+
+  return (
+    <fieldset className="collapsible">
+      <legend className="collapsible-title" onClick={() => setOpen(v => !v)} style={{ cursor: 'pointer' }}>
+        {open ? '▼' : '▶'} Compare & merge{diff ? ` (${total} difference${total === 1 ? '' : 's'})` : ''}
+      </legend>
+      {diff && (
+        <div className="small">
+          Changes since “{fileName}”: <Swatch status="added" /> {added} added, <Swatch status="changed" /> {changed} changed,
+          {' '}<Swatch status="moved" /> {moved} moved, <Swatch status="removed" /> {removed} removed.
+        </div>
+      )}
+      {open && (
+        <>
+          <div className="toolbar">
+            <button className="secondary" onClick={onCompare} title="Highlight what the map on screen changed compared with a saved copy">
+              Compare with a file…
+            </button>
+            <button className="secondary" onClick={onMerge} title="Bring in the changes of another copy that started from the same map">
+              Three-way merge…
+            </button>
+            {diff && <button className="secondary" onClick={onClear}>Stop comparing</button>}
+          </div>
+          {diff && (
+            <div className="diff-list">
+              {total === 0 && <div className="small">No differences.</div>}
+              {diff.nodes.slice(0, MAX_SHOWN).map(d => (
+                <div key={d.id} className={`diff-item diff-item--${d.status}`}
+                  onClick={() => d.status !== 'removed' && onFocus(d.id)}
+                  title={d.status === 'removed' ? 'Only in the file' : 'Show in map'}>
+                  <Swatch status={d.status === 'changed' && !d.fields.length ? 'moved' : d.status} />
+                  <span className="diff-item__title">{d.title || 'Untitled'}</span>
+                  {d.status === 'changed' && <span className="diff-item__what">{describeNode(d)}</span>}
+                </div>
+              ))}
+              {edges.slice(0, MAX_SHOWN).map(e => (
+                <div key={e.id} className={`diff-item diff-item--${e.status}`}
+                  onClick={() => e.status !== 'removed' && onFocus(e.edge.target)}>
+                  <Swatch status={e.status} />
+                  <span className="diff-item__what">
+                    {labelFor(edgeKindOf(e.edge) || '') || edgeKindOf(e.edge)} link {endTitle(e.edge.source)} → {endTitle(e.edge.target)} {e.status}
+                  </span>
+                </div>
+              ))}
+              {(diff.nodes.length > MAX_SHOWN || edges.length > MAX_SHOWN) && <div className="small">…and more.</div>}
+            </div>
+          )}
+        </>
+      )}
+    </fieldset>
+  )
+}
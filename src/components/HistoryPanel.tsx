@@ -0,0 +1,86 @@
+import React from 'react'
+import { DocHistory, statementsIn } from '../graph/history'
+
+type Props = {
+  history: DocHistory
+  /** Revision shown on the canvas, if any */
+  previewId?: string
+  onCheckpoint: (name: string) => void
+  onPreview: (index: number) => void
+  onRestore: (index: number) => void
+  onBranch: (index: number) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (index: number) => void
+}
+
+export default function HistoryPanel({ history, previewId, onCheckpoint, onPreview, onRestore, onBranch, onRename, onDelete }: Props) {
+  const [open, setOpen] = React.useState(false)
+  const [name, setName] = React.useState('')
+  const [renaming, setRenaming] = React.useState<{ id: string, name: string } | null>(null)
+  const { revisions } = history
+
+  const addCheckpoint = () => {
+    if (!name.trim()) return
+    onCheckpoint(name.trim())
+    setName('')
+  }
+  const commitRename = () => {
+    if (renaming) onRename(renaming.id, renaming.name)
+    setRenaming(null)
+  }
+
+  return (
+    <fieldset className="collapsible">
+      <legend className="collapsible-title" onClick={() => setOpen(v => !v)} style={{ cursor: 'pointer' }}>
+        {open ? '▼' : '▶'} History ({revisions.length})
+      </legend>
+      <div className="small">Saving adds a revision. Checkpoints mark moments worth going back to.</div>
+      {open && (
+        <>
+          <div className="row" style={{ marginTop: 6 }}>
+            <input value={name} onChange={e => setName(e.target.value)} placeholder="e.g. before fact-check pass"
+              onKeyDown={e => { if (e.key === 'Enter') addCheckpoint() }} />
+            <button onClick={addCheckpoint} disabled={!name.trim()}>Add checkpoint</button>
+          </div>
+          <div className="library-list">
+            {!revisions.length && <div className="small">No revisions yet.</div>}
+            {revisions.map((r, i) => ({ r, i })).reverse().map(({ r, i }) => {
+              // what this revision changed, seen from the one before it
+              const changed = i > 0 ? statementsIn(revisions[i - 1].delta) : undefined
+              return (
+                <div key={r.id} className={`library-item ${r.id === previewId ? 'library-item--current' : ''}`}>
+                  {renaming?.id === r.id ? (
+                    <input
+                      autoFocus
+                      value={renaming.name}
+                      placeholder="Name"
+                      onChange={ev => setRenaming({ id: r.id, name: ev.target.value })}
+                      onBlur={commitRename}
+                      onKeyDown={ev => { if (ev.key === 'Enter') commitRename(); else if (ev.key === 'Escape') setRenaming(null) }}
+                    />
+                  ) : (
+                    <div className="library-item__title">
+                      {r.name || (r.kind === 'auto' ? 'Saved' : 'Checkpoint')}
+                      {r.kind === 'checkpoint' && <span className="small"> (checkpoint)</span>}
+                    </div>
+                  )}
+                  <div className="small">
+                    {new Date(r.at).toLocaleString()}
+                    {changed !== undefined && <> · {changed} statement{changed === 1 ? '' : 's'} changed</>}
+                  </div>
+                  <div className="toolbar" style={{ marginTop: 4 }}>
+                    <button className="secondary" onClick={() => onPreview(i)} disabled={r.id === previewId} title="Show it on the canvas, read-only">Preview</button>
+                    <button className="secondary" onClick={() => onRestore(i)} title="Make the map on screen this revision (Undo brings it back)">Restore</button>
+                    <button className="secondary" onClick={() => onBranch(i)} title="Open this revision as a new document; this one stays as it is">Branch</button>
+                    <button className="secondary" onClick={() => setRenaming({ id: r.id, name: r.name || '' })}>Rename</button>
+                    <button className="secondary" onClick={() => { if (confirm('Delete this revision? The revisions around it are kept.')) onDelete(i) }}>Delete</button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+    </fieldset>
+  )
+}
@@ -0,0 +1,49 @@
+import React from 'react'
+import type { SnapshotIssue } from '../graph/snapshot'
+
+type Props = {
+  fileName: string
+  issues: SnapshotIssue[]
+  migratedFrom?: number
+  onClose: () => void
+}
+
+const MAX_SHOWN = 200
+
+export default function ImportReport({ fileName, issues, migratedFrom, onClose }: Props) {
+  const shown = issues.slice(0, MAX_SHOWN)
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal import-report" onClick={e => e.stopPropagation()} role="dialog" aria-label="Import problems">
+        <h3>Could not load “{fileName}”</h3>
+        <div className="small">
+          {issues.length} problem{issues.length === 1 ? '' : 's'} found
+          {migratedFrom !== undefined && <> after upgrading from file format v{migratedFrom}</>}.
+          Nothing was changed in the current map.
+        </div>
+        <table className="issue-table">
+          <thead>
+            <tr><th>Where</th><th>Field</th><th>Problem</th></tr>
+          </thead>
+          <tbody>
+            {shown.map((iss, i) => (
+              <tr key={i}>
+                <td>
+                  {iss.nodeId ? <>node <code>{iss.nodeId}</code></> :
+                    iss.edgeId ? <>edge <code>{iss.edgeId}</code></> :
+                      <code>{iss.path || '(file)'}</code>}
+                </td>
+                <td>{iss.field}</td>
+                <td>{iss.problem}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {issues.length > shown.length && <div className="small">…and {issues.length - shown.length} more.</div>}
+        <div className="toolbar">
+          <button onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  )
+}
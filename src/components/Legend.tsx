@@ -0,0 +1,38 @@
+import React from 'react'
+import type { StatementKind } from '../graph/types'
+import { kindColor } from './NodeCard'
+
+const KINDS: StatementKind[] = ['Thesis', 'Argument', 'Argument Summary', 'Counter', 'Evidence', 'Agreement']
+
+export default function Legend() {
+  return (
+    <div className="legend" aria-hidden={false}>
+      <div className="legend__title">Legend — colors</div>
+      <div className="legend__list">
+        {KINDS.map(k => (
+          <div key={k} className="legend__item">
+            <div className="legend__swatch" style={{ background: kindColor(k) }} />
+            <div className="legend__label">{k}</div>
+          </div>
+        ))}
+
+        <div className="legend__item" style={{ marginTop: 6 }}>
+          <div className="legend__swatch" style={{ background: '#ecfdf5', borderRadius: 8, border: '1px solid #a7f3d0' }} />
+          <div className="legend__label">Type 1 - If this is true, than the parent claim is true</div>
+        </div>
+        <div className="legend__item">
+          <div className="legend__swatch" style={{ background: '#eff6ff', borderRadius: 8, border: '1px solid #bfdbfe' }} />
+          <div className="legend__label">Type 2 — If this and the specifically described other claim are true, than the parent claim is true (dashed link connects to sister claim)</div>
+        </div>
+        <div className="legend__item">
+          <div className="legend__swatch" style={{ background: '#f8fafc', borderRadius: 8, border: '1px solid #cbd5e1' }} />
+          <div className="legend__label">Type 3 - Only adds general support</div>
+        </div>
+        <div className="legend__item">
+          <div className="legend__swatch" style={{ background: 'repeating-linear-gradient(135deg,#f3f4f6, #f3f4f6 6px,#e5e7eb 6px,#e5e7eb 12px)', borderRadius: 8, border: '1px solid #9ca3af' }} />
+          <div className="legend__label">Type 4 — Adds no meaningful support</div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import React from 'react'
+import type { LibraryEntry } from '../library'
+
+type Props = {
+  entries: LibraryEntry[]
+  currentId?: string
+  /** Last autosave, or why autosave is not working */
+  status: { savedAt?: string, error?: string }
+  onOpen: (id: string) => void
+  onDuplicate: (id: string) => void
+  onRename: (id: string, title: string) => void
+  onDelete: (id: string) => void
+}
+
+export default function LibraryPanel({ entries, currentId, status, onOpen, onDuplicate, onRename, onDelete }: Props) {
+  const [open, setOpen] = React.useState(false)
+  const [renaming, setRenaming] = React.useState<{ id: string, title: string } | null>(null)
+
+  const commitRename = () => {
+    if (renaming) onRename(renaming.id, renaming.title)
+    setRenaming(null)
+  }
+
+  return (
+    <fieldset className="collapsible">
+      <legend className="collapsible-title" onClick={() => setOpen(v => !v)} style={{ cursor: 'pointer' }}>
+        {open ? '▼' : '▶'} Library
+      </legend>
+      <div className="small">
+        {status.error ? <>Autosave unavailable: {status.error}</>
+          : status.savedAt ? <>Autosaved {new Date(status.savedAt).toLocaleTimeString()}</>
+            : <>Changes are saved in this browser automatically.</>}
+      </div>
+      {open && (
+        <div className="library-list">
+          {!entries.length && <div className="small">No saved maps yet.</div>}
+          {entries.map(e => (
+            <div key={e.id} className={`library-item ${e.id === currentId ? 'library-item--current' : ''}`}>
+              {renaming?.id === e.id ? (
+                <input
+                  autoFocus
+                  value={renaming.title}
+                  placeholder="Name (empty: use the thesis title)"
+                  onChange={ev => setRenaming({ id: e.id, title: ev.target.value })}
+                  onBlur={commitRename}
+                  onKeyDown={ev => { if (ev.key === 'Enter') commitRename(); else if (ev.key === 'Escape') setRenaming(null) }}
+                />
+              ) : (
+                <div className="library-item__title">{e.title}{e.id === currentId && <span className="small"> (open)</span>}</div>
+              )}
+              <div className="small">
+                {e.participants.join(', ') || 'No participants'} · {e.nodeCount} statement{e.nodeCount === 1 ? '' : 's'} · {new Date(e.modifiedAt).toLocaleString()}
+              </div>
+              <div className="toolbar" style={{ marginTop: 4 }}>
+                <button className="secondary" onClick={() => onOpen(e.id)} disabled={e.id === currentId}>Open</button>
+                <button className="secondary" onClick={() => onDuplicate(e.id)}>Duplicate</button>
+                <button className="secondary" onClick={() => setRenaming({ id: e.id, title: e.named ? e.title : '' })}>Rename</button>
+                <button className="secondary" onClick={() => { if (confirm(`Delete “${e.title}” from this browser? This cannot be undone.`)) onDelete(e.id) }}>Delete</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </fieldset>
+  )
+}
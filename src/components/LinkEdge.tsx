@@ -1,9 +1,10 @@
 import React from 'react'
-import { BaseEdge, getBezierPath, EdgeProps } from 'reactflow'
+import { BaseEdge, EdgeLabelRenderer, getBezierPath, EdgeProps } from 'reactflow'
+import { diffColor } from './ThickEdge'
 
 export default function LinkEdge(props: EdgeProps) {
   const { id, sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition, data } = props
-  const [path] = getBezierPath({ sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition })
+  const [path, labelX, labelY] = getBezierPath({ sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition })
 
   const active = data?.active
   const dimmed = data?.dimmed
@@ -13,6 +14,23 @@ export default function LinkEdge(props: EdgeProps) {
   const width = active ? 5 : 3
 
   return (
-    <BaseEdge id={id} path={path} style={{ stroke, strokeWidth: width, opacity, strokeDasharray: '6 6' }} />
+    <g>
+      {data?.diff && (
+        <path d={path} fill="none" className="edge-diff"
+          style={{ stroke: diffColor(data.diff), strokeWidth: width + 10, opacity: .45 }} />
+      )}
+      <BaseEdge id={id} path={path} style={{ stroke, strokeWidth: width, opacity, strokeDasharray: '6 6' }} />
+      {!!data?.comments?.comments && (
+        <EdgeLabelRenderer>
+          <span
+            className={`comment-badge ${data.comments.open ? 'comment-badge--open' : ''}`}
+            style={{ position: 'absolute', transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`, opacity }}
+            title={`${data.comments.comments} comment${data.comments.comments === 1 ? '' : 's'} on this link`}
+          >
+            💬 {data.comments.comments}
+          </span>
+        </EdgeLabelRenderer>
+      )}
+    </g>
   )
 }
@@ -0,0 +1,159 @@
+import React from 'react'
+import ReactFlow, { Background, Controls, EdgeTypes, NodeChange, NodeTypes, ReactFlowInstance } from 'reactflow'
+import NodeCard from './NodeCard'
+import ThickEdge from './ThickEdge'
+import LinkEdge from './LinkEdge'
+import Legend from './Legend'
+import { useGraphStore } from '../store/useGraphStore'
+import { childrenMapOf, descendantsOf } from '../graph/tree'
+import { computeLayout, NodeSize, Pos } from '../graph/layout'
+import { matches, parseQuery } from '../graph/search'
+
+const nodeTypes: NodeTypes = { nodeCard: NodeCard }
+const edgeTypes: EdgeTypes = { thick: ThickEdge, t2: LinkEdge }
+
+type Props = {
+  title: string
+  exportedAt: string
+  /** Positions from the editor; used until a branch is folded or unfolded */
+  positions: Record<string, Pos>
+}
+
+/**
+ * Read-only map for shared HTML files: pan/zoom, collapse/expand and search, nothing else.
+ * Folding re-lays the map out with the tree layout, the only engine bundled into the file.
+ */
+export default function MapViewer({ title, exportedAt, positions: initial }: Props) {
+  const store = useGraphStore()
+  const [query, setQuery] = React.useState('')
+  const [matchIndex, setMatchIndex] = React.useState(0)
+  const [positions, setPositions] = React.useState(() => new Map(Object.entries(initial)))
+  const rfInstance = React.useRef<ReactFlowInstance | null>(null)
+  const sizes = React.useRef(new Map<string, NodeSize>())
+  const [sizeTick, setSizeTick] = React.useState(0)
+  const relaidOut = React.useRef(false)
+
+  const childMap = React.useMemo(() => childrenMapOf(store.edges), [store.edges])
+  const hidden = React.useMemo(() => {
+    const out = new Set<string>()
+    for (const n of store.nodes) if (n.data.collapsed) descendantsOf(n.id, childMap).forEach(id => out.add(id))
+    return out
+  }, [store.nodes, childMap])
+  const visibleNodes = React.useMemo(() => store.nodes.filter(n => !hidden.has(n.id)), [store.nodes, hidden])
+  const visibleEdges = React.useMemo(() => store.edges.filter(e => !hidden.has(e.source) && !hidden.has(e.target)), [store.edges, hidden])
+
+  const relayout = () => {
+    const layout = computeLayout(visibleNodes, visibleEdges, { direction: store.layoutDirection, sizes: sizes.current })
+    // keep the first thesis where it was, as the editor does
+    const anchor = visibleNodes.find(n => n.data.kind === 'Thesis') || visibleNodes[0]
+    const before = anchor && positions.get(anchor.id), after = anchor && layout.get(anchor.id)
+    const dx = before && after ? before.x - after.x : 0
+    const dy = before && after ? before.y - after.y : 0
+    setPositions(new Map([...layout].map(([id, p]) => [id, { x: p.x + dx, y: p.y + dy }])))
+  }
+  // the first fold leaves the editor's layout behind; after that, newly measured cards re-run it
+  const firstHidden = React.useRef(hidden)
+  React.useEffect(() => {
+    if (hidden === firstHidden.current) return
+    if (!relaidOut.current) {
+      relaidOut.current = true
+      if (store.layoutEngine !== 'tree') store.setLayoutEngine('tree')
+    }
+    relayout()
+  }, [hidden])
+  React.useEffect(() => { if (relaidOut.current) relayout() }, [sizeTick])
+
+  const onNodesChange = (changes: NodeChange[]) => {
+    let grew = false
+    for (const ch of changes) {
+      if (ch.type !== 'dimensions' || !ch.dimensions) continue
+      const prev = sizes.current.get(ch.id)
+      if (!prev || prev.height !== ch.dimensions.height || prev.width !== ch.dimensions.width) grew = true
+      sizes.current.set(ch.id, ch.dimensions)
+    }
+    if (grew) setSizeTick(t => t + 1)
+  }
+
+  const terms = React.useMemo(() => parseQuery(query), [query])
+  const matchedIds = React.useMemo(() => new Set(store.nodes.filter(n => matches(n, terms)).map(n => n.id)), [store.nodes, terms])
+  const visibleMatches = visibleNodes.filter(n => matchedIds.has(n.id))
+  const hiddenMatches = matchedIds.size - visibleMatches.length
+
+  const showMatch = (step: number) => {
+    if (!visibleMatches.length) return
+    const i = ((matchIndex + step) % visibleMatches.length + visibleMatches.length) % visibleMatches.length
+    setMatchIndex(i)
+    const n = rfInstance.current?.getNode(visibleMatches[i].id)
+    if (!n || !rfInstance.current) return
+    rfInstance.current.setCenter(n.position.x + (n.width ?? 320) / 2, n.position.y + (n.height ?? 120) / 2, { zoom: Math.max(rfInstance.current.getZoom(), 0.6), duration: 400 })
+  }
+
+  const rfNodes = React.useMemo(() => visibleNodes.map(n => ({
+    ...n,
+    position: positions.get(n.id) || n.position,
+    draggable: false,
+    selectable: false,
+    data: { ...n.data, readOnly: true, collapsible: true, searchTerms: terms, hit: matchedIds.has(n.id) },
+  })), [visibleNodes, positions, terms, matchedIds])
+  const rfEdges = React.useMemo(() => visibleEdges.map(e => {
+    const eKind = (e.data as any)?.kind
+    return { ...e, type: eKind === 't2-link' || eKind === 'refers-to' ? 't2' : 'thick', data: { ...(e.data || {}) } }
+  }), [visibleEdges])
+
+  return (
+    <div className="app">
+      <div className="sidebar">
+        <fieldset>
+          <legend>{title}</legend>
+          <div className="small">
+            Read-only copy, exported {new Date(exportedAt).toLocaleString()}. Click the bottom edge of a card to fold or unfold its branch.
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend>Search</legend>
+          <input
+            value={query}
+            placeholder='Words or "a phrase"'
+            onChange={e => { setQuery(e.target.value); setMatchIndex(-1) }}
+            onKeyDown={e => { if (e.key === 'Enter') showMatch(e.shiftKey ? -1 : 1) }}
+          />
+          {terms.length > 0 && (
+            <div className="toolbar">
+              <button className="secondary" disabled={!visibleMatches.length} onClick={() => showMatch(-1)}>Previous</button>
+              <button className="secondary" disabled={!visibleMatches.length} onClick={() => showMatch(1)}>Next</button>
+              <span className="small">
+                {visibleMatches.length} match{visibleMatches.length === 1 ? '' : 'es'}
+                {hiddenMatches > 0 && <>, {hiddenMatches} in folded branches</>}
+              </span>
+            </div>
+          )}
+        </fieldset>
+
+        <Legend />
+      </div>
+
+      <div className="rf-outer">
+        <div className="rf-wrapper">
+          <ReactFlow
+            style={{ width: '100%', height: '100%' }}
+            nodes={rfNodes}
+            edges={rfEdges}
+            onNodesChange={onNodesChange}
+            nodeTypes={nodeTypes}
+            edgeTypes={edgeTypes}
+            nodesDraggable={false}
+            nodesConnectable={false}
+            elementsSelectable={false}
+            fitView
+            minZoom={0.02}
+            onInit={inst => { rfInstance.current = inst }}
+          >
+            <Background />
+            <Controls showInteractive={false} />
+          </ReactFlow>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+import React from 'react'
+import type { MediaRef } from '../graph/types'
+
+type Props = {
+  media?: MediaRef
+  src: string | null
+  /** Shared with the "Stamp now" buttons, which read currentTime */
+  mediaRef: React.MutableRefObject<HTMLMediaElement | null>
+  seek: { seconds: number } | null
+  follow: boolean
+  onFollowChange: (v: boolean) => void
+  /** Playback position in whole seconds, reported when it changes */
+  onTime: (seconds: number) => void
+  onPick: (file: File) => void
+  onDetach: () => void
+}
+
+export default function MediaPlayer({ media, src, mediaRef, seek, follow, onFollowChange, onTime, onPick, onDetach }: Props) {
+  const inputRef = React.useRef<HTMLInputElement | null>(null)
+  const [failed, setFailed] = React.useState(false)
+  const lastSecond = React.useRef(-1)
+
+  React.useEffect(() => { setFailed(false) }, [src])
+
+  React.useEffect(() => {
+    const el = mediaRef.current
+    if (!seek || !el) return
+    el.currentTime = seek.seconds
+    if (el.paused) el.play().catch(() => {})
+  }, [seek])
+
+  const picker = (
+    <input type="file" accept="audio/*,video/*" ref={inputRef} style={{ display: 'none' }}
+      onChange={e => { const f = e.target.files?.[0]; if (f) onPick(f); e.currentTarget.value = '' }} />
+  )
+
+  if (!media) {
+    return (
+      <>
+        <div className="toolbar" style={{ marginTop: 0 }}>
+          <button className="secondary" onClick={() => inputRef.current?.click()}>Attach audio/video…</button>
+        </div>
+        <div className="small" style={{ marginTop: 6 }}>The file stays on this computer; the map only remembers which file it was.</div>
+        {picker}
+      </>
+    )
+  }
+
+  const isVideo = media.type.startsWith('video/')
+  const onTimeUpdate = (e: React.SyntheticEvent<HTMLMediaElement>) => {
+    const sec = Math.floor(e.currentTarget.currentTime)
+    if (sec === lastSecond.current) return
+    lastSecond.current = sec
+    onTime(sec)
+  }
+  const common = {
+    src: src || undefined,
+    controls: true,
+    preload: 'metadata' as const,
+    onTimeUpdate,
+    onError: () => setFailed(true),
+    className: 'media-player__element',
+  }
+
+  return (
+    <div className="media-player">
+      <div className="media-player__name" title={media.path || media.name}>{media.name}</div>
+      {src && !failed ? (
+        isVideo
+          ? <video ref={el => { mediaRef.current = el }} {...common} />
+          : <audio ref={el => { mediaRef.current = el }} {...common} />
+      ) : (
+        <div className="small">
+          {failed ? 'Could not open the file at its saved location.' : 'Not loaded on this computer yet.'} Locate it to play it here.
+        </div>
+      )}
+      <label className="filter-item">
+        <input type="checkbox" checked={follow} onChange={e => onFollowChange(e.target.checked)} />
+        Time highlight follows playback
+      </label>
+      <div className="toolbar">
+        <button className="secondary" onClick={() => inputRef.current?.click()}>{src && !failed ? 'Replace…' : 'Locate file…'}</button>
+        <button className="secondary" onClick={onDetach}>Detach</button>
+      </div>
+      {picker}
+    </div>
+  )
+}
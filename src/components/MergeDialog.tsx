@@ -0,0 +1,123 @@
+import React from 'react'
+import type { Snapshot } from '../graph/types'
+import { readSnapshot } from '../graph/snapshot'
+import { DIFF_FIELD_LABELS } from '../graph/diff'
+import { mergeSnapshots, MergeSide } from '../graph/merge'
+
+type Props = {
+  /** The map on screen ("ours") */
+  ours: Snapshot
+  onApply: (merged: Snapshot) => void
+  onClose: () => void
+}
+
+type Loaded = { fileName: string, snapshot?: Snapshot, error?: string }
+
+async function readMapFile(file: File): Promise<Loaded> {
+  let raw: unknown
+  try { raw = JSON.parse(await file.text()) }
+  catch (e) { return { fileName: file.name, error: 'not valid JSON: ' + ((e as any)?.message || String(e)) } }
+  const res = readSnapshot(raw)
+  if (!res.ok) {
+    const [first] = res.issues
+    return { fileName: file.name, error: `${first.path || first.field}: ${first.problem}` + (res.issues.length > 1 ? ` (and ${res.issues.length - 1} more problems)` : '') }
+  }
+  return { fileName: file.name, snapshot: res.snapshot }
+}
+
+const shown = (v?: string) => v === undefined ? <span className="small">(none)</span> : v === '' ? <span className="small">(empty)</span> : v
+
+export default function MergeDialog({ ours, onApply, onClose }: Props) {
+  const [base, setBase] = React.useState<Loaded>()
+  const [theirs, setTheirs] = React.useState<Loaded>()
+  const [choices, setChoices] = React.useState<Record<string, MergeSide>>({})
+
+  const result = React.useMemo(
+    () => base?.snapshot && theirs?.snapshot ? mergeSnapshots(base.snapshot, ours, theirs.snapshot, choices) : undefined,
+    [base, theirs, ours, choices])
+  const chooseAll = (side: MergeSide) => setChoices(Object.fromEntries((result?.conflicts || []).map(c => [c.key, side])))
+
+  const picker = (label: string, loaded: Loaded | undefined, set: (l: Loaded) => void, title: string) => (
+    <label className="merge-file" title={title}>
+      <span>{label}</span>
+      <input type="file" accept=".debatemap,.json,application/json"
+        onChange={async e => {
+          const f = e.target.files?.[0]
+          if (f) { set(await readMapFile(f)); setChoices({}) }
+        }} />
+      {loaded?.error && <span className="merge-file__error">{loaded.error}</span>}
+    </label>
+  )
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal import-report" onClick={e => e.stopPropagation()} role="dialog" aria-label="Three-way merge">
+        <h3>Three-way merge</h3>
+        <div className="small">
+          Brings another copy's changes into the map on screen. Pick the version both copies started from, so changes can be told apart from what was there before.
+        </div>
+        {picker('Common ancestor', base, setBase, 'The saved map both copies were made from')}
+        {picker('Their copy', theirs, setTheirs, 'The copy whose changes to bring in')}
+
+        {result && (
+          <>
+            <div className="small" style={{ marginTop: 10 }}>
+              {result.fromTheirs} change{result.fromTheirs === 1 ? '' : 's'} from their copy merge cleanly.{' '}
+              {result.conflicts.length
+                ? <>{result.conflicts.length} conflict{result.conflicts.length === 1 ? '' : 's'}: both copies changed the same thing. Choose which to keep.</>
+                : <>No conflicts.</>}
+            </div>
+            {result.conflicts.length > 0 && (
+              <>
+                <table className="issue-table merge-conflicts">
+                  <thead>
+                    <tr><th>Where</th><th>Ancestor</th><th>Ours</th><th>Theirs</th></tr>
+                  </thead>
+                  <tbody>
+                    {result.conflicts.map(c => {
+                      const side = choices[c.key] || 'ours'
+                      const choice = (s: MergeSide) => (
+                        <label className={side === s ? 'merge-choice merge-choice--on' : 'merge-choice'}>
+                          <input type="radio" name={c.key} checked={side === s} onChange={() => setChoices(prev => ({ ...prev, [c.key]: s }))} />
+                          {shown(s === 'ours' ? c.ours : c.theirs)}
+                        </label>
+                      )
+                      return (
+                        <tr key={c.key}>
+                          <td>
+                            <strong>{c.title || 'Untitled'}</strong>
+                            <div className="small">
+                              {c.what === 'field' ? DIFF_FIELD_LABELS[c.field!]
+                                : c.what === 'attachment' ? 'Parent'
+                                  : c.what === 'deleted' ? 'Deleted on one side'
+                                    : c.what === 'participant' ? 'Name' : 'Document'}
+                            </div>
+                          </td>
+                          <td>{shown(c.base)}</td>
+                          <td>{choice('ours')}</td>
+                          <td>{choice('theirs')}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+                <div className="toolbar">
+                  <button className="secondary" onClick={() => chooseAll('ours')}>Use ours for all</button>
+                  <button className="secondary" onClick={() => chooseAll('theirs')}>Use theirs for all</button>
+                </div>
+              </>
+            )}
+          </>
+        )}
+
+        <div className="toolbar">
+          <button onClick={() => result && onApply(result.merged)} disabled={!result}
+            title="Replace the map on screen with the merged map (Undo brings it back)">
+            Merge
+          </button>
+          <button className="secondary" onClick={onClose}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  )
+}
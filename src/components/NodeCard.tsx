@@ -2,6 +2,11 @@
 import React, { Fragment } from 'react'  
 import { Handle, Position, NodeProps } from 'reactflow'  
 import { useGraphStore } from '../store/useGraphStore'  
+import { parseTimestamp } from '../graph/transcript'  
+import type { Citation } from '../graph/types'  
+import { referenceText, shortCitation } from '../graph/sources'  
+
+function nid() { return Math.random().toString(36).slice(2, 10) }  
 
 type Data = {  
   id: string  
@@ -16,6 +21,15 @@ type Data = {
   searchTerms?: string[]  
   strengthType?: 'Type 1' | 'Type 2' | 'Type 3' | 'Type 4'  
   firstMention?: string            // NEW: optional timestamp shown on card  
+  pinned?: boolean  
+  citations?: Citation[]           // sources this statement draws on (see Sources)  
+  argLabel?: 'IN' | 'OUT' | 'UNDEC'  // set while argumentation labels are on  
+  score?: number                     // support score 0..1 while scores are shown  
+  readOnly?: boolean                 // replay view: no selection, editing or collapsing  
+  collapsible?: boolean              // read-only views that still fold subtrees (shared HTML)  
+  peers?: Array<{ client: string, name: string, color: string, editing?: boolean }>  // collaborators on this card  
+  diff?: 'added' | 'changed' | 'moved'  // while comparing with another version of the map  
+  comments?: { comments: number, open: number }  // review threads on this statement  
 }  
 
 const PALETTE = [  
@@ -29,12 +43,12 @@ const PALETTE = [
   '#999999',  
 ]  
 
-function participantColor(participantId: string, ids: string[]) {  
+export function participantColor(participantId: string, ids: string[]) {  
   const idx = Math.max(0, ids.indexOf(participantId))  
   return PALETTE[idx % PALETTE.length]  
 }  
 
-function kindColor(kind: Data['kind']) {  
+export function kindColor(kind: Data['kind']) {  
   switch (kind) {  
     case 'Thesis': return '#60a5fa'  
     case 'Argument': return '#a78bfa'  
@@ -123,6 +137,8 @@ export default function NodeCard({ id, data }: NodeProps<Data>) {
   const store = useGraphStore()  
   // Add state for inline editing  
   const [editBodyText, setEditBodyText] = React.useState(data.body || '')  
+  const bodyBeforeEdit = React.useRef(data.body || '')  
+  const [editSession, setEditSession] = React.useState('')  
   const textareaRef = React.useRef<HTMLTextAreaElement>(null)  
   const bodyRef = React.useRef<HTMLParagraphElement>(null);  
   const [bodyHeight, setBodyHeight] = React.useState<number>(0);  
@@ -145,6 +161,9 @@ export default function NodeCard({ id, data }: NodeProps<Data>) {
   const isEligible = eligibleTargets.includes(id)  
   const isAttachSelected = reparentSelectedId === id  
 
+  // edges enter/leave on the sides when the layout runs left-to-right  
+  const horizontal = store.layoutDirection === 'LR' && store.layoutEngine !== 'radial'  
+
   const speakerCol = participantColor(data.participantId, participantIds)  
   const kindCol = kindColor(data.kind)  
   const borderStyle = {  
@@ -154,7 +173,11 @@ export default function NodeCard({ id, data }: NodeProps<Data>) {
     borderBottom: `5px solid ${kindCol}`,  
   }  
 
+  // a collaborator on this card rings it in their colour  
+  const peerRing = data.peers?.length ? { boxShadow: `0 0 0 3px ${data.peers[0].color}` } : undefined  
+
   const onMouseDown = (e: React.MouseEvent) => {  
+    if (data.readOnly) return  
     if (e.metaKey || e.ctrlKey) {  
       store.setSelectedNodeId(store.selectedNodeId === id ? '' : id)  
       e.stopPropagation()  
@@ -195,13 +218,16 @@ export default function NodeCard({ id, data }: NodeProps<Data>) {
 
   const handleBodyDoubleClick = (e: React.MouseEvent) => {  
     e.stopPropagation();  
-    if (!data.isEditing) {  
+    if (!data.isEditing && !data.readOnly) {  
       store.updateNode(id, { isEditing: true });  
     }  
   };  
 
   React.useEffect(() => {  
     if (data.isEditing) {  
+      bodyBeforeEdit.current = data.body || '';  
+      // a new id per session, so a remounted card never reuses an earlier session's key  
+      setEditSession(nid());  
       setEditBodyText(data.body || '');  
       // Focus and select all text after render  
       setTimeout(() => {  
@@ -214,16 +240,25 @@ export default function NodeCard({ id, data }: NodeProps<Data>) {
     }  
   }, [data.isEditing]);  
 
+  // Inline edits go straight to the store; all keystrokes of one editing session share  
+  // a coalesce key so they undo as a single history entry  
+  const inlineEditKey = `inline-body:${id}:${editSession}`  
+
+  const handleBodyChange = (text: string) => {  
+    setEditBodyText(text);  
+    store.updateNode(id, { body: text }, { coalesceKey: inlineEditKey });  
+  };  
+
   const handleBodySave = (e?: React.MouseEvent) => {  
     e?.stopPropagation();  
-    store.updateNode(id, { body: editBodyText, isEditing: false });  
+    store.updateNode(id, { body: editBodyText, isEditing: false }, { coalesceKey: inlineEditKey });  
     document.body.focus();  
   };  
 
   const handleBodyCancel = (e?: React.MouseEvent) => {  
     e?.stopPropagation();  
-    store.updateNode(id, { isEditing: false });  
-    setEditBodyText(data.body || '');  
+    store.revertNode(id, { body: bodyBeforeEdit.current, isEditing: false }, inlineEditKey);  
+    setEditBodyText(bodyBeforeEdit.current);  
     document.body.focus();  
   };  
 
@@ -238,12 +273,21 @@ export default function NodeCard({ id, data }: NodeProps<Data>) {
   return (  
     <div  
       className={`node-card ${data.edgeActive ? 'edge-on' : ''} ${data.dimmed ? 'dimmed' : ''}   
-        ${isEligible ? 'eligible-target' : ''} ${isAttachSelected ? 'eligible-selected' : ''}`}  
-      style={borderStyle}  
+        ${isEligible ? 'eligible-target' : ''} ${isAttachSelected ? 'eligible-selected' : ''} ${data.diff ? 'diff-' + data.diff : ''}`}  
+      style={{ ...borderStyle, ...peerRing }}  
       onMouseDown={onMouseDown}  
     >  
-      <Handle type="target" position={Position.Top} style={{ opacity: .0, width: 10, height: 10 }} />  
-      <Handle type="source" position={Position.Bottom} style={{ opacity: .0, width: 10, height: 10 }} />  
+      {!!data.peers?.length && (  
+        <div className="presence-tags">  
+          {data.peers.map(p => (  
+            <span key={p.client} className="presence-tag" style={{ background: p.color }} title={`${p.name} ${p.editing ? 'is editing' : 'is on'} this statement`}>  
+              {p.name}{p.editing ? ' ✎' : ''}  
+            </span>  
+          ))}  
+        </div>  
+      )}  
+      <Handle type="target" position={horizontal ? Position.Left : Position.Top} style={{ opacity: .0, width: 10, height: 10 }} />  
+      <Handle type="source" position={horizontal ? Position.Right : Position.Bottom} style={{ opacity: .0, width: 10, height: 10 }} />  
 
       <div className="node-meta">  
         {/* type badge first (left), then speaker */}  
@@ -258,6 +302,43 @@ export default function NodeCard({ id, data }: NodeProps<Data>) {
             {data.strengthType}  
           </span>  
         )}  
+        {data.argLabel && (  
+          <span  
+            className={`arg-badge arg-${data.argLabel.toLowerCase()}`}  
+            title={data.argLabel === 'IN' ? 'Accepted: every attack on it is answered' : data.argLabel === 'OUT' ? 'Defeated by an accepted attack' : 'Undecided'}  
+          >  
+            {data.argLabel}  
+          </span>  
+        )}  
+        {data.score !== undefined && (  
+          <span className="score-badge" title="Support score (see Support score panel)">  
+            {Math.round(data.score * 100)}  
+          </span>  
+        )}  
+        {data.pinned && (  
+          <span  
+            className="pin-badge"  
+            onClick={(e) => {  
+              e.stopPropagation();  
+              if (!data.readOnly) store.setPinned(id, false);  
+            }}  
+            title="Pinned by hand — click to let the layout place it again"  
+          >  
+            📌  
+          </span>  
+        )}  
+        {!!data.comments?.comments && (  
+          <span  
+            className={`comment-badge ${data.comments.open ? 'comment-badge--open' : ''}`}  
+            onClick={(e) => {  
+              e.stopPropagation();  
+              if (!data.readOnly) store.setSelectedNodeId(id);  
+            }}  
+            title={`${data.comments.comments} comment${data.comments.comments === 1 ? '' : 's'}, ${data.comments.open} open thread${data.comments.open === 1 ? '' : 's'} (see Comments)`}  
+          >  
+            💬 {data.comments.comments}  
+          </span>  
+        )}  
         {data.collapsed && <span className="small" style={{ marginLeft: 'auto', opacity: .7 }}>(collapsed)</span>}  
         {data.hit && <span className="small" style={{ marginLeft: 'auto', color: '#b45309', fontWeight: 700 }}>match</span>}  
         {/* Add nodeId display after badges */}  
@@ -282,11 +363,48 @@ export default function NodeCard({ id, data }: NodeProps<Data>) {
 
       {/* NEW: first mention pill (optional) */}  
       {data.firstMention && (  
-        <div className="first-mention" title="First time this statement was mentioned">  
+        <div  
+          className={`first-mention ${store.transcript || store.mediaSrc ? 'first-mention--link' : ''}`}  
+          title={store.mediaSrc ? 'Play from here' : store.transcript ? 'Show in transcript' : 'First time this statement was mentioned'}  
+          onClick={(e) => {  
+            const sec = parseTimestamp(data.firstMention!);  
+            if ((!store.transcript && !store.mediaSrc) || sec === undefined) return;  
+            e.stopPropagation();  
+            if (store.transcript) store.revealInTranscript(sec);  
+            if (store.mediaSrc) store.seekMedia(sec);  
+          }}  
+        >  
           First mention: {data.firstMention}  
         </div>  
       )}  
 
+      {/* citation chips: the sources this statement cites, linked when they have a URL */}  
+      {!!data.citations?.length && (  
+        <div className="citation-chips">  
+          {data.citations.map((c, i) => {  
+            const source = store.sources.find(s => s.id === c.sourceId);  
+            if (!source) return null;  
+            return (  
+              <a  
+                key={i}  
+                className="citation-chip"  
+                href={source.url || undefined}  
+                target="_blank"  
+                rel="noopener noreferrer"  
+                onClick={(e) => {  
+                  e.stopPropagation();  
+                  if (!source.url) e.preventDefault();  
+                }}  
+                title={referenceText(source) + (c.quote ? `\n\n“${c.quote}”` : '')}  
+              >  
+                📚 {shortCitation(source)}{c.locator ? `, ${c.locator}` : ''}  
+              </a>  
+            );  
+          })}  
+        </div>  
+      )}  
+  
+
       {data.body && !data.isEditing && (  
         <p   
           ref={bodyRef}  
@@ -308,7 +426,7 @@ export default function NodeCard({ id, data }: NodeProps<Data>) {
           <textarea  
             ref={textareaRef}  
             value={editBodyText}  
-            onChange={e => setEditBodyText(e.target.value)}  
+            onChange={e => handleBodyChange(e.target.value)}  
             className="inline-edit-textarea"  
             style={{  
               width: '100%',  
@@ -334,11 +452,13 @@ export default function NodeCard({ id, data }: NodeProps<Data>) {
         </div>  
       )}  
 
-      <div   
-        className="collapse-region bottom"  
-        onClick={handleBottomClick}  
-        title="Click to collapse/expand children"  
-      />  
+      {(!data.readOnly || data.collapsible) && (  
+        <div   
+          className="collapse-region bottom"  
+          onClick={handleBottomClick}  
+          title="Click to collapse/expand children"  
+        />  
+      )}  
     </div>  
   )  
 }  
\ No newline at end of file
@@ -0,0 +1,76 @@
+import React from 'react'
+import type { OutlineImportResult } from '../graph/outlineImport'
+
+export type OutlineImportMode = 'merge' | 'new'
+
+type Props = {
+  fileName: string
+  /** e.g. "Kialo export" */
+  formatLabel: string
+  result: OutlineImportResult
+  mode: OutlineImportMode
+  onModeChange: (mode: OutlineImportMode) => void
+  onImport: () => void
+  onCancel: () => void
+  /** Format-specific options, shown above the problems */
+  children?: React.ReactNode
+}
+
+const MAX_SHOWN = 200
+
+export default function OutlineImportDialog({ fileName, formatLabel, result, mode, onModeChange, onImport, onCancel, children }: Props) {
+  const { nodes, edges, newParticipants, errors } = result
+  const shown = errors.slice(0, MAX_SHOWN)
+  return (
+    <div className="modal-backdrop" onClick={onCancel}>
+      <div className="modal import-report" onClick={e => e.stopPropagation()} role="dialog" aria-label="Import outline">
+        <h3>Import “{fileName}”</h3>
+        <div className="small">
+          Read as {formatLabel}:{' '}
+          {nodes.length} statement{nodes.length === 1 ? '' : 's'} and {edges.length} edge{edges.length === 1 ? '' : 's'} read
+          {newParticipants.length > 0 && <>, new participants: {newParticipants.map(p => p.name).join(', ')}</>}.
+        </div>
+
+        <div className="toolbar">
+          <label className="filter-item">
+            <input type="radio" checked={mode === 'merge'} onChange={() => onModeChange('merge')} />
+            Add to the current map
+          </label>
+          <label className="filter-item">
+            <input type="radio" checked={mode === 'new'} onChange={() => onModeChange('new')} />
+            Start a new map
+          </label>
+        </div>
+
+        {children}
+
+        {errors.length > 0 && (
+          <>
+            <div className="small" style={{ marginTop: 8 }}>
+              {errors.length} problem{errors.length === 1 ? '' : 's'}; those lines will not be imported as written.
+            </div>
+            <table className="issue-table">
+              <thead>
+                <tr><th>Line</th><th>Problem</th></tr>
+              </thead>
+              <tbody>
+                {shown.map((err, i) => (
+                  <tr key={i}>
+                    <td>{err.line}</td>
+                    <td>{err.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {errors.length > shown.length && <div className="small">…and {errors.length - shown.length} more.</div>}
+          </>
+        )}
+
+        <div className="toolbar">
+          <button onClick={onImport} disabled={!nodes.length}>Import {nodes.length} statement{nodes.length === 1 ? '' : 's'}</button>
+          <button className="secondary" onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+import React from 'react'
+import type { LintIssue } from '../graph/lint'
+
+type Props = {
+  issues: LintIssue[]
+  onFocus: (nodeId: string) => void
+  onFix: (issue: LintIssue) => void
+}
+
+export default function ProblemsPanel({ issues, onFocus, onFix }: Props) {
+  const [open, setOpen] = React.useState(false)
+  const [showWarnings, setShowWarnings] = React.useState(true)
+  const errors = issues.filter(i => i.severity === 'error').length
+  const warnings = issues.length - errors
+  const shown = showWarnings ? issues : issues.filter(i => i.severity === 'error')
+
+  return (
+    <fieldset className="collapsible">
+      <legend className="collapsible-title" onClick={() => setOpen(v => !v)} style={{ cursor: 'pointer' }}>
+        {open ? '▼' : '▶'} Problems ({errors} error{errors === 1 ? '' : 's'}, {warnings} warning{warnings === 1 ? '' : 's'})
+      </legend>
+      {open && (
+        <div className="problems">
+          <label className="filter-item">
+            <input type="checkbox" checked={showWarnings} onChange={e => setShowWarnings(e.target.checked)} />
+            Show warnings
+          </label>
+          {shown.length === 0 && <div className="small">No problems found.</div>}
+          {shown.map(issue => (
+            <div key={issue.id} className={`problem problem--${issue.severity}`}>
+              <div
+                className="problem__message"
+                onClick={() => issue.nodeIds[0] && onFocus(issue.nodeIds[0])}
+                title={issue.nodeIds[0] ? 'Show in map' : undefined}
+              >
+                <span className="problem__rule">{issue.rule}</span> {issue.message}
+              </div>
+              {issue.fix && (
+                <button className="secondary" onClick={() => onFix(issue)}>{issue.fix.label}</button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </fieldset>
+  )
+}
@@ -0,0 +1,27 @@
+import React from 'react'
+import type { LibraryEntry } from '../library'
+
+type Props = {
+  entry: LibraryEntry
+  onRestore: () => void
+  onDismiss: () => void
+}
+
+export default function RecoveryDialog({ entry, onRestore, onDismiss }: Props) {
+  return (
+    <div className="modal-backdrop" onClick={onDismiss}>
+      <div className="modal" onClick={e => e.stopPropagation()} role="dialog" aria-label="Restore autosave">
+        <h3>Restore your last map?</h3>
+        <div className="small">
+          The app did not close normally last time. The last autosave of “{entry.title}”
+          ({entry.nodeCount} statement{entry.nodeCount === 1 ? '' : 's'}) is from {new Date(entry.modifiedAt).toLocaleString()}.
+          If you start fresh, it stays in the Library.
+        </div>
+        <div className="toolbar">
+          <button onClick={onRestore}>Restore</button>
+          <button className="secondary" onClick={onDismiss}>Start fresh</button>
+        </div>
+      </div>
+    </div>
+  )
+}
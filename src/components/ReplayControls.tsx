@@ -0,0 +1,40 @@
+import React from 'react'
+
+type Props = {
+  step: number
+  total: number
+  playing: boolean
+  speed: number
+  /** Title and time of the statement revealed last */
+  current?: { title: string, firstMention?: string }
+  onPlayPause: () => void
+  onStep: (step: number) => void
+  onSpeed: (speed: number) => void
+  onExit: () => void
+}
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4]
+
+export default function ReplayControls({ step, total, playing, speed, current, onPlayPause, onStep, onSpeed, onExit }: Props) {
+  return (
+    <div className="replay-controls" role="toolbar" aria-label="Replay">
+      <button className="secondary" onClick={() => onStep(step - 1)} disabled={step <= 0} title="Step back">⏮</button>
+      <button onClick={onPlayPause} title={playing ? 'Pause' : 'Play'}>{playing ? '⏸' : '▶'}</button>
+      <button className="secondary" onClick={() => onStep(step + 1)} disabled={step >= total} title="Step forward">⏭</button>
+      <input
+        type="range" min={0} max={total} value={step}
+        onChange={e => onStep(Number(e.target.value))}
+        className="replay-controls__scrubber"
+        aria-label="Replay position"
+      />
+      <span className="replay-controls__count">{step} / {total}</span>
+      <select value={speed} onChange={e => onSpeed(Number(e.target.value))} title="Speed">
+        {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+      </select>
+      <span className="replay-controls__current" title={current?.title}>
+        {current ? <>{current.firstMention && <b>{current.firstMention} </b>}{current.title}</> : 'Press play to start'}
+      </span>
+      <button className="secondary" onClick={onExit}>Exit replay</button>
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+import React from 'react'
+
+type Props = {
+  /** Name and time of the revision on the canvas */
+  title: string
+  at: string
+  onRestore: () => void
+  onBranch: () => void
+  onExit: () => void
+}
+
+export default function RevisionPreviewBar({ title, at, onRestore, onBranch, onExit }: Props) {
+  return (
+    <div className="replay-controls revision-preview" role="toolbar" aria-label="Revision preview">
+      <span className="revision-preview__title" title={title}>
+        Previewing <b>{title}</b> · {new Date(at).toLocaleString()} · read-only
+      </span>
+      <button onClick={onRestore} title="Make the map this revision (Undo brings it back)">Restore</button>
+      <button className="secondary" onClick={onBranch} title="Open this revision as a new document">Branch</button>
+      <button className="secondary" onClick={onExit}>Exit preview</button>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import React from 'react'
+import type { DebateNode } from '../graph/types'
+import type { NodeScore } from '../graph/scoring'
+
+type Props = {
+  score: NodeScore
+  nodesById: Map<string, DebateNode>
+  onFocus: (nodeId: string) => void
+}
+
+const pct = (v: number) => `${Math.round(v * 100)}`
+
+export default function ScoreBreakdown({ score, nodesById, onFocus }: Props) {
+  const name = (id: string) => nodesById.get(id)?.data.title || 'Untitled'
+  return (
+    <div className="score-breakdown">
+      <div className="score-breakdown__total">
+        Score <span className="score-value">{pct(score.score)}</span>
+        <span className="small"> · own {pct(score.base)} · support {pct(score.support)} · {pct(score.attackFactor)}% kept after counters</span>
+      </div>
+      {score.contributions.length === 0 && <div className="small">Nothing supports or attacks this statement.</div>}
+      {score.contributions.map(c => (
+        <div key={c.role + c.ids.join('+')} className={`score-contribution score-contribution--${c.role}`}>
+          <span className="score-contribution__role">{c.role === 'attack' ? '−' : c.role === 'conjunction' ? '∧' : '+'}</span>
+          <span className="score-contribution__names">
+            {c.ids.map((id, i) => (
+              <React.Fragment key={id}>
+                {i > 0 && ' & '}
+                <a onClick={() => onFocus(id)}>{name(id)}</a>
+              </React.Fragment>
+            ))}
+          </span>
+          <span className="small" title="contribution = weight × score">weight {c.weight} → {pct(c.value)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
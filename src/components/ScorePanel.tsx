@@ -0,0 +1,103 @@
+import React from 'react'
+import type { DebateNode, StatementKind, StrengthType } from '../graph/types'
+import { DEFAULT_SCORING_RULES, NodeScore, ScoringRules } from '../graph/scoring'
+
+type Props = {
+  theses: DebateNode[]
+  scores: Map<string, NodeScore>
+  rules: ScoringRules
+  onRulesChange: (rules: ScoringRules) => void
+  showOnCards: boolean
+  onShowOnCardsChange: (v: boolean) => void
+  onFocus: (nodeId: string) => void
+}
+
+const STRENGTHS: StrengthType[] = ['Type 1', 'Type 2', 'Type 3', 'Type 4']
+const KINDS: StatementKind[] = ['Argument', 'Counter', 'Evidence', 'Agreement', 'Argument Summary', 'Thesis']
+
+function Weight({ label, value, onChange, title }: { label: string, value: number, onChange: (v: number) => void, title?: string }) {
+  return (
+    <label className="score-rule" title={title}>
+      <span>{label}</span>
+      <input
+        type="number" min={0} max={1} step={0.05} value={value}
+        onChange={e => {
+          const v = Number(e.target.value)
+          if (Number.isFinite(v)) onChange(Math.max(0, Math.min(1, v)))
+        }}
+      />
+    </label>
+  )
+}
+
+export default function ScorePanel({ theses, scores, rules, onRulesChange, showOnCards, onShowOnCardsChange, onFocus }: Props) {
+  const [open, setOpen] = React.useState(false)
+  const [rulesOpen, setRulesOpen] = React.useState(false)
+  const patch = (p: Partial<ScoringRules>) => onRulesChange({ ...rules, ...p })
+
+  return (
+    <fieldset className="collapsible">
+      <legend className="collapsible-title" onClick={() => setOpen(v => !v)} style={{ cursor: 'pointer' }}>
+        {open ? '▼' : '▶'} Support score
+      </legend>
+      {open && (
+        <div className="scores">
+          <label className="filter-item">
+            <input type="checkbox" checked={showOnCards} onChange={e => onShowOnCardsChange(e.target.checked)} />
+            Show scores on cards
+          </label>
+          {theses.length === 0 && <div className="small">No theses yet.</div>}
+          {theses.map(t => {
+            const sc = scores.get(t.id)
+            return (
+              <div key={t.id} className="score-row" onClick={() => onFocus(t.id)} title="Show in map">
+                <span className="score-row__title">{t.data.title || 'Untitled'}</span>
+                <span className="score-value">{sc ? Math.round(sc.score * 100) : 0}</span>
+              </div>
+            )
+          })}
+
+          <div className="filter-heading" style={{ marginTop: 10, cursor: 'pointer' }} onClick={() => setRulesOpen(v => !v)}>
+            {rulesOpen ? '▼' : '▶'} Rules
+          </div>
+          {rulesOpen && (
+            <div className="score-rules">
+              <div className="small">Support weight per statement Type</div>
+              {STRENGTHS.map(st => (
+                <Weight key={st} label={st} value={rules.weights[st]} onChange={v => patch({ weights: { ...rules.weights, [st]: v } })} />
+              ))}
+              <Weight label="No Type" value={rules.untypedWeight} onChange={v => patch({ untypedWeight: v })} />
+              <Weight label="Agreement" value={rules.agreementWeight} onChange={v => patch({ agreementWeight: v })} />
+              <Weight label="Argument Summary" value={rules.summaryWeight} onChange={v => patch({ summaryWeight: v })} />
+              <Weight
+                label="Type 2 without sister" value={rules.loneType2Factor} onChange={v => patch({ loneType2Factor: v })}
+                title="Share of the Type 2 weight a statement keeps when no linked sister backs the same parent"
+              />
+              <Weight
+                label="Counter discount" value={rules.attackDiscount} onChange={v => patch({ attackDiscount: v })}
+                title="How much a fully standing Counter takes off the statement it attacks"
+              />
+
+              <div className="small" style={{ marginTop: 6 }}>Standing on its own (before support)</div>
+              {KINDS.map(k => (
+                <Weight key={k} label={k} value={rules.base[k]} onChange={v => patch({ base: { ...rules.base, [k]: v } })} />
+              ))}
+
+              <label className="score-rule">
+                <span>Combine supports</span>
+                <select value={rules.combine} onChange={e => patch({ combine: e.target.value as ScoringRules['combine'] })}>
+                  <option value="noisy-or">Noisy-or</option>
+                  <option value="max">Strongest only</option>
+                  <option value="sum">Sum (capped)</option>
+                </select>
+              </label>
+              <div className="toolbar">
+                <button className="secondary" onClick={() => onRulesChange(DEFAULT_SCORING_RULES)}>Reset to defaults</button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </fieldset>
+  )
+}
@@ -0,0 +1,159 @@
+import React from 'react'
+import type { DebateNode, Source, SourceKind } from '../graph/types'
+import { referenceText, shortCitation, SOURCE_KIND_LABELS } from '../graph/sources'
+
+export type SourceExport = 'references' | 'bibtex' | 'csl-json'
+type SourceFields = Omit<Source, 'id'>
+
+type Props = {
+  sources: Source[]
+  /** Statements citing each source */
+  citedBy: Map<string, DebateNode[]>
+  /** The selected statement, which "Cite" adds a source to */
+  selected?: DebateNode
+  onAdd: (fields: SourceFields) => void
+  onUpdate: (id: string, patch: Partial<SourceFields>) => void
+  onDelete: (id: string) => void
+  onCite: (sourceId: string) => void
+  onImport: () => void
+  onExport: (format: SourceExport) => void
+  onFocus: (nodeId: string) => void
+}
+
+const EMPTY: SourceFields = { kind: 'article', title: '' }
+
+function SourceForm({ value, onChange }: { value: SourceFields, onChange: (v: SourceFields) => void }) {
+  const field = (k: 'title' | 'author' | 'publisher' | 'date' | 'url', label: string, placeholder: string) => (
+    <>
+      <label>{label}</label>
+      <input value={value[k] || ''} placeholder={placeholder} onChange={e => onChange({ ...value, [k]: k === 'title' ? e.target.value : e.target.value || undefined })} />
+    </>
+  )
+  return (
+    <div className="source-form">
+      <label>Kind</label>
+      <select value={value.kind || 'other'} onChange={e => onChange({ ...value, kind: e.target.value as SourceKind })}>
+        {(Object.keys(SOURCE_KIND_LABELS) as SourceKind[]).map(k => <option key={k} value={k}>{SOURCE_KIND_LABELS[k]}</option>)}
+      </select>
+      {field('title', 'Title', 'Title of the article, book, video…')}
+      {field('author', 'Authors', 'Family, Given; Family, Given')}
+      {field('publisher', 'Publisher', 'Journal, publisher, site or channel')}
+      {field('date', 'Date', 'e.g. 2024 or 2024-03-18')}
+      {field('url', 'URL', 'https://…')}
+    </div>
+  )
+}
+
+export default function SourcesPanel({ sources, citedBy, selected, onAdd, onUpdate, onDelete, onCite, onImport, onExport, onFocus }: Props) {
+  const [open, setOpen] = React.useState(false)
+  const [draft, setDraft] = React.useState<SourceFields | null>(null)
+  const [editing, setEditing] = React.useState<Source | null>(null)
+  const [expanded, setExpanded] = React.useState<string | null>(null)
+  const [filter, setFilter] = React.useState('')
+  const [exportFormat, setExportFormat] = React.useState<SourceExport>('references')
+
+  const q = filter.trim().toLowerCase()
+  const shown = q ? sources.filter(s => referenceText(s).toLowerCase().includes(q)) : sources
+  const cites = (sourceId: string) => !!selected?.data.citations?.some(c => c.sourceId === sourceId)
+
+  const addDraft = () => {
+    if (!draft?.title.trim()) return
+    onAdd({ ...draft, title: draft.title.trim() })
+    setDraft(null)
+  }
+  const saveEditing = () => {
+    if (!editing?.title.trim()) return
+    const { id, ...fields } = editing
+    onUpdate(id, { ...fields, title: fields.title.trim() })
+    setEditing(null)
+  }
+
+  return (
+    <fieldset className="collapsible">
+      <legend className="collapsible-title" onClick={() => setOpen(v => !v)} style={{ cursor: 'pointer' }}>
+        {open ? '▼' : '▶'} Sources ({sources.length})
+      </legend>
+      {open && (
+        <>
+          <div className="toolbar" style={{ marginTop: 0 }}>
+            <button className="secondary" onClick={() => { setDraft({ ...EMPTY }); setEditing(null) }} disabled={!!draft}>Add source</button>
+            <button className="secondary" onClick={onImport} title="Add the references from a BibTeX (.bib) or CSL-JSON file; ones already here are skipped">
+              Import BibTeX / CSL-JSON…
+            </button>
+          </div>
+          <div className="toolbar">
+            <select value={exportFormat} onChange={e => setExportFormat(e.target.value as SourceExport)} title="Format of the exported bibliography">
+              <option value="references">Reference list (Markdown)</option>
+              <option value="bibtex">BibTeX</option>
+              <option value="csl-json">CSL-JSON</option>
+            </select>
+            <button className="secondary" onClick={() => onExport(exportFormat)} disabled={!sources.length}>Export</button>
+          </div>
+
+          {draft && (
+            <div className="library-item" style={{ marginTop: 6 }}>
+              <SourceForm value={draft} onChange={setDraft} />
+              <div className="toolbar" style={{ marginTop: 4 }}>
+                <button onClick={addDraft} disabled={!draft.title.trim()}>Add</button>
+                <button className="secondary" onClick={() => setDraft(null)}>Cancel</button>
+              </div>
+            </div>
+          )}
+
+          {sources.length > 5 && (
+            <input value={filter} onChange={e => setFilter(e.target.value)} placeholder="Filter by author, title, year…" style={{ marginTop: 6 }} />
+          )}
+          <div className="library-list">
+            {!sources.length && <div className="small">No sources yet. Add one, or import a reference collection.</div>}
+            {sources.length > 0 && !shown.length && <div className="small">No source matches.</div>}
+            {shown.map(s => {
+              const nodes = citedBy.get(s.id) || []
+              if (editing?.id === s.id) {
+                return (
+                  <div key={s.id} className="library-item">
+                    <SourceForm value={editing} onChange={v => setEditing({ ...v, id: s.id })} />
+                    <div className="toolbar" style={{ marginTop: 4 }}>
+                      <button onClick={saveEditing} disabled={!editing.title.trim()}>Save</button>
+                      <button className="secondary" onClick={() => setEditing(null)}>Cancel</button>
+                    </div>
+                  </div>
+                )
+              }
+              return (
+                <div key={s.id} className="library-item">
+                  <div className="library-item__title">{shortCitation(s)}</div>
+                  <div className="small source-reference">
+                    {referenceText(s)}
+                  </div>
+                  <div
+                    className={`small ${nodes.length ? 'source-cited' : ''}`}
+                    onClick={() => nodes.length && setExpanded(x => x === s.id ? null : s.id)}
+                    title={nodes.length ? 'Show the statements citing it' : undefined}
+                  >
+                    {nodes.length ? <>{expanded === s.id ? '▼' : '▶'} Cited by {nodes.length} statement{nodes.length === 1 ? '' : 's'}</> : 'Not cited yet'}
+                  </div>
+                  {expanded === s.id && nodes.map(n => (
+                    <div key={n.id} className="source-citing" onClick={() => onFocus(n.id)} title="Show in map">
+                      “{n.data.title || 'Untitled'}”
+                    </div>
+                  ))}
+                  <div className="toolbar" style={{ marginTop: 4 }}>
+                    <button className="secondary" onClick={() => onCite(s.id)} disabled={!selected || cites(s.id)}
+                      title={!selected ? 'Select a statement first' : cites(s.id) ? 'The selected statement already cites it' : `Cite it in “${selected.data.title || 'Untitled'}”`}>
+                      Cite
+                    </button>
+                    <button className="secondary" onClick={() => { setEditing(s); setDraft(null) }}>Edit</button>
+                    <button className="secondary"
+                      onClick={() => { if (confirm(nodes.length ? `Delete this source? ${nodes.length} statement${nodes.length === 1 ? '' : 's'} will no longer cite it.` : 'Delete this source?')) onDelete(s.id) }}>
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+    </fieldset>
+  )
+}
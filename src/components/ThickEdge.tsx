@@ -3,7 +3,7 @@ import { BaseEdge, EdgeLabelRenderer, getBezierPath, EdgeProps } from 'reactflow
 
 type Kind = 'supports' | 'evidence-of' | 'attacks' | 'agrees-with' | string
 
-function colorFor(kind: Kind) {
+export function colorFor(kind: Kind) {
   switch (kind) {
     case 'supports': return '#1d4ed8'
     case 'evidence-of': return '#b45309'
@@ -12,7 +12,7 @@ function colorFor(kind: Kind) {
     default: return '#64748b'
   }
 }
-function labelFor(kind: Kind) {
+export function labelFor(kind: Kind) {
   switch (kind) {
     case 'supports': return 'Supports'
     case 'evidence-of': return 'Evidence of'
@@ -22,6 +22,16 @@ function labelFor(kind: Kind) {
   }
 }
 
+/** Overlay colour while comparing with another version of the map */
+export function diffColor(status: 'added' | 'changed' | 'moved' | 'removed') {
+  switch (status) {
+    case 'added': return '#16a34a'
+    case 'changed': return '#f59e0b'
+    case 'moved': return '#2563eb'
+    default: return '#dc2626'
+  }
+}
+
 export default function ThickEdge(props: EdgeProps) {
   const { id, sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition, data } = props
   const kind: Kind = (data?.kind as Kind) || 'supports'
@@ -39,6 +49,10 @@ export default function ThickEdge(props: EdgeProps) {
 
   return (
     <g>
+      {data?.diff && (
+        <path d={path} fill="none" className="edge-diff"
+          style={{ stroke: diffColor(data.diff), strokeWidth: w + 12, opacity: .45 }} />
+      )}
       <BaseEdge id={id} path={path}
         style={{ stroke, strokeWidth: w, pointerEvents: 'stroke', opacity }}
         className={cls}
@@ -54,6 +68,11 @@ export default function ThickEdge(props: EdgeProps) {
           }}
         >
           {labelFor(kind)}
+          {!!data?.comments?.comments && (
+            <span className={`comment-badge ${data.comments.open ? 'comment-badge--open' : ''}`} title={`${data.comments.comments} comment${data.comments.comments === 1 ? '' : 's'} on this edge`}>
+              💬 {data.comments.comments}
+            </span>
+          )}
         </div>
       </EdgeLabelRenderer>
     </g>
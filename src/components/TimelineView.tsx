@@ -0,0 +1,147 @@
+import React from 'react'
+import type { DebateEdge, DebateNode, Participant } from '../graph/types'
+import { KIND_COLORS } from '../graph/types'
+import { layoutTimeline, tickStep, TIMELINE_CARD_H, TIMELINE_CARD_W } from '../graph/timeline'
+import { formatTimestamp } from '../graph/transcript'
+import { colorFor } from './ThickEdge'
+
+type Props = {
+  nodes: DebateNode[]
+  edges: DebateEdge[]
+  participants: Participant[]
+  selectedId: string
+  /** Seconds of the time highlight / playback position, drawn as a vertical line */
+  playhead?: number
+  onSelect: (id: string) => void
+  /** Double-click: show the statement in the graph view */
+  onOpen: (id: string) => void
+}
+
+const AXIS_H = 28
+const ZOOMS = [0.25, 0.5, 1, 2, 4, 8]
+
+export default function TimelineView({ nodes, edges, participants, selectedId, playhead, onSelect, onOpen }: Props) {
+  const [zoom, setZoom] = React.useState(2)
+  const pxPerSecond = ZOOMS[zoom]
+  const layout = React.useMemo(
+    () => layoutTimeline(nodes, edges, participants, pxPerSecond),
+    [nodes, edges, participants, pxPerSecond]
+  )
+  const byId = React.useMemo(() => new Map(nodes.map(n => [n.id, n])), [nodes])
+  const scrollRef = React.useRef<HTMLDivElement>(null)
+
+  // keep the selection in view when it changes from elsewhere (graph, transcript, problems)
+  React.useEffect(() => {
+    const c = layout.cards.get(selectedId)
+    const el = scrollRef.current
+    if (!c || !el) return
+    if (c.x < el.scrollLeft || c.x + TIMELINE_CARD_W > el.scrollLeft + el.clientWidth) {
+      el.scrollTo({ left: Math.max(0, c.x - el.clientWidth / 3), behavior: 'smooth' })
+    }
+  }, [selectedId])
+
+  const step = tickStep(pxPerSecond)
+  const ticks: number[] = []
+  for (let t = layout.start; t <= layout.end + step; t += step) ticks.push(t)
+  const height = layout.height + AXIS_H
+
+  return (
+    <div className="timeline">
+      <div className="timeline__toolbar">
+        <b>Timeline</b>
+        <span className="small">{layout.cards.size} timed · {layout.untimed.length} without time</span>
+        <button className="secondary" onClick={() => setZoom(z => Math.max(0, z - 1))} disabled={zoom === 0} title="Zoom out">−</button>
+        <button className="secondary" onClick={() => setZoom(z => Math.min(ZOOMS.length - 1, z + 1))} disabled={zoom === ZOOMS.length - 1} title="Zoom in">+</button>
+      </div>
+
+      <div className="timeline__scroll" ref={scrollRef}>
+        <svg width={Math.max(layout.width, 600)} height={height} className="timeline__svg">
+          <defs>
+            {['attacks', 'supports', 'evidence-of'].map(k => (
+              <marker key={k} id={`tl-arrow-${k}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={colorFor(k)} />
+              </marker>
+            ))}
+          </defs>
+
+          {/* axis */}
+          {ticks.map(t => (
+            <g key={t}>
+              <line x1={layout.x(t)} x2={layout.x(t)} y1={AXIS_H - 6} y2={height} className="timeline__tick" />
+              <text x={layout.x(t) + 3} y={AXIS_H - 10} className="timeline__tick-label">{formatTimestamp(t)}</text>
+            </g>
+          ))}
+
+          <g transform={`translate(0, ${AXIS_H})`}>
+            {layout.lanes.map((lane, i) => (
+              <g key={lane.participant.id}>
+                <rect x={0} y={lane.y} width={Math.max(layout.width, 600)} height={lane.height} className={i % 2 ? 'timeline__lane timeline__lane--odd' : 'timeline__lane'} />
+                <text x={10} y={lane.y + 22} className="timeline__lane-label">{lane.participant.name}</text>
+              </g>
+            ))}
+
+            {layout.edges.map(e => {
+              const x1 = e.from.x + TIMELINE_CARD_W / 2, y1 = e.from.y + TIMELINE_CARD_H / 2
+              const x2 = e.to.x + TIMELINE_CARD_W / 2, y2 = e.to.y + TIMELINE_CARD_H / 2
+              const dy = Math.max(30, Math.abs(y2 - y1) / 2)
+              const up = y2 < y1 ? -1 : 1
+              return (
+                <path
+                  key={e.id}
+                  d={`M ${x1} ${y1} C ${x1} ${y1 + up * dy}, ${x2} ${y2 - up * dy}, ${x2} ${y2}`}
+                  className="timeline__edge"
+                  stroke={colorFor(e.kind)}
+                  markerEnd={`url(#tl-arrow-${e.kind})`}
+                />
+              )
+            })}
+
+            {Array.from(layout.cards.values()).map(c => {
+              const n = byId.get(c.id)!
+              return (
+                <g
+                  key={c.id}
+                  transform={`translate(${c.x}, ${c.y})`}
+                  className={`timeline__card ${c.id === selectedId ? 'timeline__card--selected' : ''}`}
+                  onClick={() => onSelect(c.id)}
+                  onDoubleClick={() => onOpen(c.id)}
+                >
+                  <title>{`${n.data.kind} · ${n.data.firstMention}\n${n.data.title}`}</title>
+                  <rect width={TIMELINE_CARD_W} height={TIMELINE_CARD_H} rx={8} fill={KIND_COLORS[n.data.kind] || '#fff'} />
+                  <text x={8} y={16} className="timeline__card-kind">{n.data.kind} · {formatTimestamp(c.seconds)}</text>
+                  <text x={8} y={33} className="timeline__card-title">
+                    {(n.data.title || 'Untitled').length > 24 ? (n.data.title || '').slice(0, 23) + '…' : (n.data.title || 'Untitled')}
+                  </text>
+                </g>
+              )
+            })}
+
+            {playhead !== undefined && playhead >= layout.start && (
+              <line x1={layout.x(playhead)} x2={layout.x(playhead)} y1={-AXIS_H} y2={layout.height} className="timeline__playhead" />
+            )}
+          </g>
+        </svg>
+      </div>
+
+      {layout.untimed.length > 0 && (
+        <div className="timeline__tray">
+          <div className="filter-heading">Without a first-mention time</div>
+          <div className="timeline__tray-items">
+            {layout.untimed.map(n => (
+              <button
+                key={n.id}
+                className={`timeline__tray-item ${n.id === selectedId ? 'timeline__card--selected' : ''}`}
+                style={{ background: KIND_COLORS[n.data.kind] }}
+                onClick={() => onSelect(n.id)}
+                onDoubleClick={() => onOpen(n.id)}
+                title={n.data.firstMention ? `“${n.data.firstMention}” is not a time` : n.data.kind}
+              >
+                {n.data.title || 'Untitled'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import React from 'react'
+import type { Participant, Transcript } from '../graph/types'
+import { cueIndexAt, formatTimestamp, speakerLabels } from '../graph/transcript'
+
+type Props = {
+  transcript: Transcript
+  participants: Participant[]
+  /** Statements first mentioned during each cue, by cue id */
+  mentions: Map<string, number>
+  /** Scroll request coming from a node's timestamp */
+  reveal: { seconds: number } | null
+  onCueClick: (index: number) => void
+  onSpeakerChange: (label: string, participantId: string) => void
+  onRemove: () => void
+  onClose: () => void
+}
+
+export default function TranscriptPanel({ transcript, participants, mentions, reveal, onCueClick, onSpeakerChange, onRemove, onClose }: Props) {
+  const listRef = React.useRef<HTMLDivElement>(null)
+  const [activeIndex, setActiveIndex] = React.useState(-1)
+  const [speakersOpen, setSpeakersOpen] = React.useState(false)
+  const labels = React.useMemo(() => speakerLabels(transcript.cues), [transcript.cues])
+  const nameOf = (label?: string) => {
+    if (!label) return ''
+    const pid = transcript.speakers[label]
+    return participants.find(p => p.id === pid)?.name || label
+  }
+
+  React.useEffect(() => {
+    if (!reveal) return
+    const i = cueIndexAt(transcript, reveal.seconds)
+    setActiveIndex(i)
+    const el = listRef.current?.querySelector(`[data-cue="${i}"]`) as HTMLElement | null
+    el?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+  }, [reveal])
+
+  return (
+    <div className="transcript">
+      <div className="transcript__header">
+        <b>Transcript</b>
+        <span className="small" title={transcript.source}>{transcript.cues.length} lines</span>
+        <button className="secondary" onClick={() => setSpeakersOpen(v => !v)}>Speakers</button>
+        <button className="secondary" onClick={onRemove} title="Remove the transcript from this document">Remove</button>
+        <button className="secondary" onClick={onClose} title="Hide panel">×</button>
+      </div>
+
+      {speakersOpen && (
+        <div className="transcript__speakers">
+          {labels.length === 0 && <div className="small">This transcript has no speaker labels.</div>}
+          {labels.map(label => (
+            <label key={label} className="score-rule">
+              <span>{label}</span>
+              <select value={transcript.speakers[label] || ''} onChange={e => onSpeakerChange(label, e.target.value)}>
+                <option value="">— not mapped —</option>
+                {participants.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="transcript__lines" ref={listRef}>
+        {transcript.cues.map((c, i) => {
+          const count = mentions.get(c.id) || 0
+          return (
+            <div
+              key={c.id}
+              data-cue={i}
+              className={`transcript__line ${i === activeIndex ? 'transcript__line--active' : ''}`}
+              onClick={() => { setActiveIndex(i); onCueClick(i) }}
+              title={count ? `${count} statement${count === 1 ? '' : 's'} first mentioned here` : 'No statements first mentioned here'}
+            >
+              <span className="transcript__time">{formatTimestamp(c.start)}</span>
+              <span className="transcript__text">
+                {c.speaker && <b>{nameOf(c.speaker)}: </b>}
+                {c.text}
+              </span>
+              {count > 0 && <span className="transcript__count">{count}</span>}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import type { DebateEdge, DebateNode, Snapshot, StatementKind } from './types'
+import { buildChildrenPairs } from './tree'
+import { DEFAULT_AIF_HEURISTIC, exportAif, importAif } from './aif'
+
+const PARTICIPANTS = [{ id: 'A', name: 'A' }, { id: 'B', name: 'B' }]
+const doc = (extra: Record<string, unknown> = {}) => ({
+  nodes: [
+    { nodeID: 1, type: 'I', text: 'Claim' },
+    { nodeID: 2, type: 'I', text: 'Reason' },
+    { nodeID: 3, type: 'RA', text: 'Default Inference' },
+  ],
+  edges: [{ fromID: 2, toID: 3 }, { fromID: 3, toID: 1 }],
+  ...extra,
+})
+
+describe('importAif on malformed input', () => {
+  for (const list of ['edges', 'participants', 'locutions']) {
+    it(`reports a null entry in ${list} instead of throwing`, () => {
+      const raw = doc()
+      const res = importAif({ ...raw, [list]: [...(list === 'edges' ? raw.edges : []), null] }, PARTICIPANTS)
+      expect(res.nodes.map(n => n.data.title)).toEqual(['Claim', 'Reason'])
+      expect(res.errors).toContainEqual(expect.objectContaining({ message: expect.stringContaining(`of "${list}" is not an object`) }))
+    })
+  }
+
+  it('reads a text that is not a string as empty and reports it', () => {
+    const raw = doc()
+    raw.nodes[1] = { nodeID: 2, type: 'I', text: 42 as unknown as string }
+    const res = importAif(raw, PARTICIPANTS)
+    expect(res.nodes.map(n => n.data.title)).toEqual(['Claim'])
+    expect(res.errors).toContainEqual({ line: 2, message: 'Node text is not a string; read as empty.' })
+  })
+
+  it('rejects a document without AIF nodes', () => {
+    const res = importAif({ nodes: [] }, PARTICIPANTS)
+    expect(res.nodes).toEqual([])
+    expect(res.errors).toHaveLength(1)
+  })
+})
+
+const statement = (id: string, kind: StatementKind, participantId: string, extra: Partial<DebateNode['data']> = {}): DebateNode =>
+  ({ id, type: 'nodeCard', position: { x: 0, y: 0 }, data: { id, title: `About ${id}`, kind, participantId, ...extra } })
+const edge = (kind: NonNullable<DebateEdge['data']>['kind'], source: string, target: string): DebateEdge =>
+  ({ id: `${source}-${target}`, source, target, data: { kind } })
+
+// two linked sister Arguments, Evidence for one, an attack on it and an agreement with the attack
+const MAP: Snapshot = {
+  nodes: [
+    statement('t', 'Thesis', 'A', { body: 'Why it matters.' }),
+    statement('a1', 'Argument', 'A', { strengthType: 'Type 2', firstMention: '00:01:30' }),
+    statement('a2', 'Argument', 'A', { strengthType: 'Type 2' }),
+    statement('e', 'Evidence', 'A'),
+    statement('c', 'Counter', 'B'),
+    statement('g', 'Agreement', 'A'),
+  ],
+  edges: [
+    edge('supports', 't', 'a1'), edge('supports', 't', 'a2'), edge('t2-link', 'a1', 'a2'),
+    edge('evidence-of', 'e', 'a1'), edge('attacks', 'c', 'a1'), edge('agrees-with', 'g', 'c'),
+  ],
+  participants: [{ id: 'A', name: 'Alice Ames' }, { id: 'B', name: 'Bob' }],
+}
+
+// statements by title, with what they respond to and their Type 2 sisters
+function shape(snap: Pick<Snapshot, 'nodes' | 'edges'>) {
+  const title = new Map(snap.nodes.map(n => [n.id, n.data.title]))
+  const parent = new Map(buildChildrenPairs(snap.edges).map(([p, c]) => [c, title.get(p)]))
+  const sisters = (id: string) => snap.edges.filter(e => e.data?.kind === 't2-link' && (e.source === id || e.target === id))
+    .map(e => title.get(e.source === id ? e.target : e.source))
+  return snap.nodes.map(n => [n.data.title, n.data.kind, n.data.participantId, n.data.strengthType, n.data.firstMention, parent.get(n.id), sisters(n.id)])
+    .sort((a, b) => String(a[0]).localeCompare(String(b[0])))
+}
+
+describe('AIF round trip', () => {
+  it('keeps statements, speakers, times and linked premises', () => {
+    const { text, notes } = exportAif(MAP)
+    const res = importAif(JSON.parse(text), MAP.participants)
+    expect(res.errors).toEqual([])
+    expect(res.newParticipants).toEqual([])
+    expect(shape(res)).toEqual(shape(MAP))
+    expect(res.nodes.find(n => n.data.title === 'About t')?.data.body).toBe('Why it matters.')
+    expect(notes).toContainEqual({ message: '2 strength types left out: AIF has no place for them.' })
+  })
+
+  it('reads kinds with the heuristic it is given', () => {
+    const raw = JSON.parse(exportAif(MAP).text)
+    const res = importAif(raw, MAP.participants, { ...DEFAULT_AIF_HEURISTIC, evidencePattern: 'nothing matches this' })
+    expect(res.nodes.find(n => n.data.title === 'About e')?.data.kind).toBe('Argument')
+  })
+})
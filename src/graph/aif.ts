@@ -0,0 +1,306 @@
+// src/graph/aif.ts
+//
+// Argument Interchange Format, in the JSON form AIFdb and OVA use:
+// { nodes, edges, locutions, participants }.
+//
+// Mapping
+//   statement                    ⇄ I-node (text: title, then a blank line and the body)
+//   Argument, Argument Summary,
+//   Evidence, Agreement          ⇄ premise → RA-node → the statement it responds to (scheme per kind, see AIF_SCHEMES)
+//   Counter                      ⇄ premise → CA-node → the statement it attacks
+//   Type 2 linked sister Arguments ⇄ premises of one shared RA-node
+//   participant                  ⇄ locutor: L-node → YA "Asserting" → I-node, with a locution entry
+//   firstMention                 ⇄ timestamp of that locution
+// Strength types and refers-to links have no AIF equivalent. On import the
+// kind of each I-node is chosen by an AifKindHeuristic.
+import type { DebateEdge, DebateNode, Participant, Snapshot, StatementKind } from './types'
+import { outlineTree } from './outline'
+import { buildStatements, OutlineImportResult, OutlineItem } from './outlineImport'
+import { ConversionNote, ExportResult, documentNotes } from './interchange'
+
+export type AifNodeType = 'I' | 'L' | 'RA' | 'CA' | 'MA' | 'YA' | 'TA'
+export type AifNode = { nodeID: string, text: string, type: AifNodeType, timestamp?: string, scheme?: string }
+export type AifEdge = { edgeID: string, fromID: string, toID: string, formEdgeID?: string | null }
+export type AifLocution = { nodeID: string, personID: string, timestamp?: string }
+export type AifParticipant = { participantID: string, firstname: string, surname: string }
+export type AifDocument = {
+  nodes: AifNode[]
+  edges: AifEdge[]
+  locutions: AifLocution[]
+  participants: AifParticipant[]
+}
+
+/** The S-node each responding kind is written as */
+export const AIF_SCHEMES: Record<Exclude<StatementKind, 'Thesis'>, { type: 'RA' | 'CA', text: string }> = {
+  Argument: { type: 'RA', text: 'Default Inference' },
+  'Argument Summary': { type: 'RA', text: 'Summary Inference' },
+  Evidence: { type: 'RA', text: 'Argument From Evidence To Hypothesis' },
+  Agreement: { type: 'RA', text: 'Default Agreement' },
+  Counter: { type: 'CA', text: 'Default Conflict' },
+}
+
+/** How imported I-nodes get a statement kind; patterns are case-insensitive regular expressions */
+export type AifKindHeuristic = {
+  /** I-nodes that are premises of nothing */
+  topLevel: 'Thesis' | 'Argument'
+  /** RA schemes whose premises are Evidence */
+  evidencePattern: string
+  /** RA schemes whose premises are Agreements */
+  agreementPattern: string
+  /** RA schemes whose premises are Argument Summaries */
+  summaryPattern: string
+  /** Premise of an RA with no matching scheme, asserted by someone other than the conclusion's speaker */
+  crossSpeakerSupport: 'Agreement' | 'Argument'
+}
+
+// the defaults read AIF_SCHEMES back to the kinds they came from
+export const DEFAULT_AIF_HEURISTIC: AifKindHeuristic = {
+  topLevel: 'Thesis',
+  evidencePattern: 'evidence|witness|expert|sign',
+  agreementPattern: 'agree',
+  summaryPattern: 'summary',
+  crossSpeakerSupport: 'Agreement',
+}
+
+const splitName = (name: string) => {
+  const [first, ...rest] = name.trim().split(/\s+/)
+  return { firstname: first || '', surname: rest.join(' ') }
+}
+
+export function exportAif(snap: Snapshot): ExportResult {
+  const { children, roots } = outlineTree(snap.nodes, snap.edges)
+  const notes: ConversionNote[] = []
+  const doc: AifDocument = { nodes: [], edges: [], locutions: [], participants: [] }
+  let nextEdge = 1, nextS = 1
+  const link = (fromID: string, toID: string) => doc.edges.push({ edgeID: String(nextEdge++), fromID, toID, formEdgeID: null })
+
+  const personOf = new Map<string, string>()
+  snap.participants.forEach((p, i) => {
+    personOf.set(p.id, String(i + 1))
+    doc.participants.push({ participantID: String(i + 1), ...splitName(p.name) })
+  })
+  const nameOf = (pid: string) => snap.participants.find(p => p.id === pid)?.name || pid
+
+  // statements, each asserted by its participant
+  const written = new Set<string>()
+  const visit = (n: DebateNode) => {
+    if (written.has(n.id)) return
+    written.add(n.id)
+    const d = n.data
+    doc.nodes.push({ nodeID: n.id, type: 'I', text: [d.title || 'Untitled', d.body?.trim()].filter(Boolean).join('\n\n') })
+    const lId = `L${n.id}`, yaId = `YA${n.id}`
+    doc.nodes.push({ nodeID: lId, type: 'L', text: `${nameOf(d.participantId)}: ${d.title || 'Untitled'}`, timestamp: d.firstMention })
+    doc.nodes.push({ nodeID: yaId, type: 'YA', text: 'Asserting' })
+    link(lId, yaId); link(yaId, n.id)
+    const personID = personOf.get(d.participantId)
+    if (personID) doc.locutions.push({ nodeID: lId, personID, timestamp: d.firstMention })
+    for (const c of children.get(n.id) || []) visit(c)
+  }
+  roots.forEach(visit)
+
+  // Type 2 links between sister Arguments make one linked RA
+  const t2 = new Map<string, Set<string>>()
+  const usedT2 = new Set<string>()
+  for (const e of snap.edges as DebateEdge[]) {
+    if (e.data?.kind !== 't2-link') continue
+    if (!t2.has(e.source)) t2.set(e.source, new Set())
+    if (!t2.has(e.target)) t2.set(e.target, new Set())
+    t2.get(e.source)!.add(e.target); t2.get(e.target)!.add(e.source)
+  }
+
+  for (const [parentId, kids] of children) {
+    const grouped = new Set<string>()
+    for (const c of kids) {
+      if (grouped.has(c.id) || c.data.kind === 'Thesis') continue
+      const scheme = AIF_SCHEMES[c.data.kind]
+      // linked premises: Arguments under the same parent joined by Type 2 links
+      const group = [c]
+      grouped.add(c.id)
+      if (c.data.kind === 'Argument') {
+        for (let i = 0; i < group.length; i++) {
+          for (const other of t2.get(group[i].id) || []) {
+            const sister = kids.find(k => k.id === other && k.data.kind === 'Argument')
+            if (sister && !grouped.has(sister.id)) {
+              group.push(sister); grouped.add(sister.id)
+              usedT2.add([group[i].id, sister.id].sort().join('|'))
+            }
+          }
+        }
+      }
+      const sId = `${scheme.type}${nextS++}`
+      doc.nodes.push({ nodeID: sId, type: scheme.type, text: scheme.text })
+      group.forEach(g => link(g.id, sId))
+      link(sId, parentId)
+    }
+  }
+
+  const byId = new Map(snap.nodes.map(n => [n.id, n]))
+  const title = (id: string) => `“${byId.get(id)?.data.title || 'Untitled'}”`
+  for (const e of snap.edges as DebateEdge[]) {
+    const kind = e.data?.kind
+    if (kind === 't2-link' && !usedT2.has([e.source, e.target].sort().join('|'))) {
+      notes.push({ nodeId: e.source, message: `Type 2 link between ${title(e.source)} and ${title(e.target)} is not between sister Arguments, so it has no linked RA and was left out.` })
+    } else if (kind === 'refers-to') {
+      notes.push({ nodeId: e.source, message: `Refers-to link between ${title(e.source)} and ${title(e.target)} has no AIF equivalent and was left out.` })
+    }
+  }
+  const strengths = snap.nodes.filter(n => n.data.strengthType).length
+  if (strengths) notes.push({ message: `${strengths} strength type${strengths === 1 ? '' : 's'} left out: AIF has no place for them.` })
+  notes.push(...documentNotes(snap, 'AIF'))
+  return { text: JSON.stringify(doc, null, 2), notes }
+}
+
+/** Does parsed JSON look like an AIF document rather than a saved map? */
+export function isAifDocument(raw: unknown): raw is AifDocument {
+  const nodes = (raw as any)?.nodes
+  return Array.isArray(nodes) && nodes.length > 0 && nodes.every((n: any) => n && typeof n.nodeID !== 'undefined' && typeof n.type === 'string')
+}
+
+/**
+ * Rebuild statements from AIF. Each I-node hangs under the conclusion of the first
+ * RA/CA it is a premise of; problems are reported by position in the `nodes` list.
+ */
+export function importAif(raw: unknown, participants: Participant[], heuristic: AifKindHeuristic = DEFAULT_AIF_HEURISTIC): OutlineImportResult {
+  const errors: OutlineImportResult['errors'] = []
+  if (!isAifDocument(raw)) {
+    return { nodes: [], edges: [], newParticipants: [], errors: [{ line: 1, message: 'Not an AIF document: expected "nodes" with nodeID and type.' }] }
+  }
+  // entries of the other lists that are not objects are reported and left out
+  const entries = <T>(list: unknown, name: string): T[] => !Array.isArray(list) ? [] : list.filter((x, i) => {
+    if (x && typeof x === 'object') return true
+    errors.push({ line: 1, message: `Entry ${i + 1} of "${name}" is not an object and was left out.` })
+    return false
+  })
+  const aifNodes = raw.nodes.map((n, i) => {
+    if (n.text !== undefined && typeof n.text !== 'string') errors.push({ line: i + 1, message: 'Node text is not a string; read as empty.' })
+    return { ...n, nodeID: String(n.nodeID), text: typeof n.text === 'string' ? n.text : '' }
+  })
+  const aifEdges = entries<AifEdge>(raw.edges, 'edges').map(e => ({ from: String(e.fromID), to: String(e.toID) }))
+  const byId = new Map(aifNodes.map(n => [n.nodeID, n]))
+  const position = new Map(aifNodes.map((n, i) => [n.nodeID, i + 1]))
+  const outOf = (id: string) => aifEdges.filter(e => e.from === id).map(e => byId.get(e.to)).filter(Boolean) as AifNode[]
+  const into = (id: string) => aifEdges.filter(e => e.to === id).map(e => byId.get(e.from)).filter(Boolean) as AifNode[]
+  const test = (pattern: string, text: string) => {
+    try { return !!pattern && new RegExp(pattern, 'i').test(text) } catch { return false }
+  }
+
+  // who asserted each I-node: L-node → YA → I, with the speaker from the locutions list
+  const people = new Map(entries<AifParticipant>(raw.participants, 'participants')
+    .map(p => [String(p.participantID), `${p.firstname || ''} ${p.surname || ''}`.trim()]))
+  const locutions = new Map(entries<AifLocution>(raw.locutions, 'locutions').map(l => [String(l.nodeID), l]))
+  const timeOf = (x?: { timestamp?: unknown }) => typeof x?.timestamp === 'string' && x.timestamp ? x.timestamp : undefined
+  const speakerOf = new Map<string, { name?: string, time?: string }>()
+  for (const ya of aifNodes.filter(n => n.type === 'YA')) {
+    const l = into(ya.nodeID).find(n => n.type === 'L')
+    const i = outOf(ya.nodeID).find(n => n.type === 'I')
+    if (!l || !i || speakerOf.has(i.nodeID)) continue
+    const loc = locutions.get(l.nodeID)
+    const name = (loc && people.get(String(loc.personID))) || /^([^:]{1,60}):\s/.exec(l.text || '')?.[1]
+    speakerOf.set(i.nodeID, { name: name || undefined, time: timeOf(loc) || timeOf(l) })
+  }
+
+  // the first inference or conflict an I-node is a premise of decides where it hangs
+  const placement = new Map<string, { parent: string, scheme: AifNode }>()
+  for (const s of aifNodes.filter(n => n.type === 'RA' || n.type === 'CA')) {
+    let conclusion = outOf(s.nodeID).find(n => n.type === 'I')
+    if (!conclusion) {
+      // an undercut (conflict with an inference) is read as an attack on that inference's premise
+      const target = outOf(s.nodeID).find(n => n.type === 'RA')
+      conclusion = target && into(target.nodeID).find(n => n.type === 'I')
+      if (conclusion) errors.push({ line: position.get(s.nodeID)!, message: `${s.type}-node attacks an inference; read as attacking its premise.` })
+    }
+    if (!conclusion) {
+      errors.push({ line: position.get(s.nodeID)!, message: `${s.type}-node has no conclusion and was left out.` })
+      continue
+    }
+    for (const premise of into(s.nodeID).filter(n => n.type === 'I')) {
+      if (placement.has(premise.nodeID)) {
+        errors.push({ line: position.get(premise.nodeID)!, message: `Premise of more than one ${s.type === 'CA' ? 'conflict' : 'inference'}; only the first is kept.` })
+        continue
+      }
+      if (premise.nodeID === conclusion.nodeID) continue
+      placement.set(premise.nodeID, { parent: conclusion.nodeID, scheme: s })
+    }
+  }
+  for (const n of aifNodes) {
+    if (n.type === 'MA' || n.type === 'TA') errors.push({ line: position.get(n.nodeID)!, message: `${n.type}-nodes (${n.type === 'MA' ? 'rephrase' : 'transition'}) have no equivalent and were left out.` })
+  }
+
+  // parents before children, in the order the file lists them
+  const iNodes = aifNodes.filter(n => n.type === 'I')
+  const kidsOf = new Map<string, AifNode[]>()
+  for (const n of iNodes) {
+    const p = placement.get(n.nodeID)
+    if (!p) continue
+    if (!kidsOf.has(p.parent)) kidsOf.set(p.parent, [])
+    kidsOf.get(p.parent)!.push(n)
+  }
+  const items: OutlineItem[] = []
+  const ids = new Map<string, string>()
+  const newId = () => Math.random().toString(36).slice(2, 10)
+  const add = (n: AifNode, parent: number) => {
+    if (ids.has(n.nodeID)) return
+    const text = n.text.trim()
+    const split = text.indexOf('\n\n')
+    const speaker = speakerOf.get(n.nodeID)
+    const place = placement.get(n.nodeID)
+    let kind: StatementKind | undefined
+    if (!place) kind = heuristic.topLevel
+    else if (place.scheme.type === 'CA') kind = 'Counter'
+    else {
+      const scheme = place.scheme.scheme || place.scheme.text || ''
+      if (test(heuristic.evidencePattern, scheme)) kind = 'Evidence'
+      else if (test(heuristic.agreementPattern, scheme)) kind = 'Agreement'
+      else if (test(heuristic.summaryPattern, scheme)) kind = 'Argument Summary'
+      else {
+        const other = speakerOf.get(place.parent)?.name
+        kind = speaker?.name && other && speaker.name !== other ? heuristic.crossSpeakerSupport : 'Argument'
+      }
+    }
+    const id = newId()
+    ids.set(n.nodeID, id)
+    items.push({
+      id, kind, line: position.get(n.nodeID)!, parent,
+      title: split < 0 ? text : text.slice(0, split).trim(),
+      body: split < 0 ? '' : text.slice(split + 2).trim(),
+      participant: speaker?.name,
+      time: speaker?.time,
+    })
+    const index = items.length - 1
+    for (const k of kidsOf.get(n.nodeID) || []) add(k, index)
+  }
+  iNodes.filter(n => !placement.has(n.nodeID)).forEach(n => add(n, -1))
+  for (const n of iNodes) {
+    if (!ids.has(n.nodeID)) errors.push({ line: position.get(n.nodeID)!, message: 'I-node only reachable through a cycle of inferences; left out.' })
+  }
+  if (!iNodes.length) errors.push({ line: 1, message: 'The AIF document has no I-nodes.' })
+
+  const result = buildStatements(items, participants, errors)
+  // premises of one RA are linked: Type 2 statements with Type 2 links between them,
+  // which only join Arguments, Counters or Evidence of the same kind and participant
+  const created = new Map(result.nodes.map(n => [n.id, n]))
+  const linkable = new Set<StatementKind>(['Argument', 'Counter', 'Evidence'])
+  for (const s of aifNodes.filter(n => n.type === 'RA')) {
+    const premises = into(s.nodeID).filter(n => n.type === 'I' && placement.get(n.nodeID)?.scheme === s && created.has(ids.get(n.nodeID)!))
+    if (premises.length < 2) continue
+    const groups = new Map<string, AifNode[]>()
+    for (const p of premises) {
+      const data = created.get(ids.get(p.nodeID)!)!.data
+      const key = linkable.has(data.kind) ? `${data.kind}|${data.participantId}` : ''
+      if (!groups.has(key)) groups.set(key, [])
+      groups.get(key)!.push(p)
+    }
+    for (const [key, group] of groups) {
+      if (!key || group.length < 2) {
+        for (const p of group) errors.push({ line: position.get(p.nodeID)!, message: 'Linked premise of a different kind or participant than the others; imported without its Type 2 link.' })
+        continue
+      }
+      for (const p of group) created.get(ids.get(p.nodeID)!)!.data.strengthType = 'Type 2'
+      for (let i = 1; i < group.length; i++) {
+        result.edges.push({ id: newId(), source: ids.get(group[i - 1].nodeID)!, target: ids.get(group[i].nodeID)!, type: 't2', data: { kind: 't2-link' } })
+      }
+    }
+  }
+  errors.sort((a, b) => a.line - b.line)
+  return result
+}
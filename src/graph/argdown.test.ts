@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import type { DebateEdge, DebateNode, Snapshot, StatementKind } from './types'
+import { buildChildrenPairs } from './tree'
+import { exportArgdown, importArgdown } from './argdown'
+
+const PARTICIPANTS = [{ id: 'A', name: 'Alice' }, { id: 'B', name: 'Bob' }]
+const statement = (id: string, kind: StatementKind, participantId: string, extra: Partial<DebateNode['data']> = {}): DebateNode =>
+  ({ id, type: 'nodeCard', position: { x: 0, y: 0 }, data: { id, title: `About ${id}`, kind, participantId, ...extra } })
+const edge = (kind: NonNullable<DebateEdge['data']>['kind'], source: string, target: string): DebateEdge =>
+  ({ id: `${source}-${target}`, source, target, data: { kind } })
+
+// a thesis, a supporting argument with evidence, an attack on it and an agreement with the attack
+const MAP: Snapshot = {
+  nodes: [
+    statement('t', 'Thesis', 'A', { body: 'Why it matters.\n\nSecond paragraph.' }),
+    statement('a', 'Argument', 'A', { strengthType: 'Type 1', firstMention: '00:01:30' }),
+    statement('e', 'Evidence', 'A', { title: '1.2. A title that looks like a number' }),
+    statement('c', 'Counter', 'B', { strengthType: 'Type 3' }),
+    statement('g', 'Agreement', 'A'),
+  ],
+  edges: [edge('supports', 't', 'a'), edge('evidence-of', 'e', 'a'), edge('attacks', 'c', 'a'), edge('agrees-with', 'g', 'c')],
+  participants: PARTICIPANTS,
+}
+
+// statements by title, with what they respond to; ids differ after an import
+function shape(snap: Pick<Snapshot, 'nodes' | 'edges'>) {
+  const title = new Map(snap.nodes.map(n => [n.id, n.data.title]))
+  const parent = new Map(buildChildrenPairs(snap.edges).map(([p, c]) => [c, title.get(p)]))
+  return snap.nodes
+    .map(n => ({ ...n.data, id: '', collapsed: undefined, selfCollapsed: undefined, parent: parent.get(n.id) }))
+    .map(d => Object.fromEntries(Object.entries(d).filter(([, v]) => v !== undefined && v !== '')))
+    .sort((a, b) => String(a.title).localeCompare(String(b.title)))
+}
+
+describe('Argdown', () => {
+  it('round-trips a map', () => {
+    const res = importArgdown(exportArgdown(MAP).text, PARTICIPANTS)
+    expect(res.errors).toEqual([])
+    expect(shape(res)).toEqual(shape(MAP).map(d => d.title === 'About t' ? { ...d, body: 'Why it matters. Second paragraph.' } : d))
+  })
+
+  it('renames repeated titles and restores them on import', () => {
+    const twins: Snapshot = { ...MAP, nodes: MAP.nodes.map(n => n.id === 'c' ? { ...n, data: { ...n.data, title: 'About a' } } : n) }
+    const { text, notes } = exportArgdown(twins)
+    expect(text).toContain('<About a (2)>')
+    expect(notes).toContainEqual({ nodeId: 'c', message: 'Second “About a” renamed “About a (2)”: Argdown treats equal titles as one statement.' })
+    expect(importArgdown(text, PARTICIPANTS).nodes.filter(n => n.data.title === 'About a')).toHaveLength(2)
+  })
+
+  it('reads a file without data like an outline', () => {
+    const res = importArgdown('[Taxes should rise]\n    + <Services need money>\n        - <Cuts are possible>\n', PARTICIPANTS)
+    expect(res.nodes.map(n => [n.data.title, n.data.kind, n.data.participantId])).toEqual([
+      ['Taxes should rise', 'Thesis', 'A'],
+      ['Services need money', 'Argument', 'A'],
+      ['Cuts are possible', 'Counter', 'B'],
+    ])
+  })
+})
@@ -0,0 +1,176 @@
+// src/graph/argdown.ts
+//
+// Argdown (https://argdown.org) argument maps:
+//
+//   [Taxes should rise]: Public services are underfunded. {kind: "Thesis", participant: "Alice"}
+//       + <Services need money>: … {participant: "Alice", strength: "Type 1", firstMention: "00:01:30"}
+//           - <Cuts are possible>: … {participant: "Bob"}
+//
+// Mapping
+//   Thesis, Evidence, Argument Summary, Agreement ⇄ [statement]
+//   Argument, Counter                             ⇄ <argument>
+//   supports / evidence-of / agrees-with child    ⇄ "+ " (incoming support)
+//   attacks child                                 ⇄ "- " (incoming attack; "_ " undercuts read the same)
+//   body                                          ⇄ text after "title:"
+//   kind, participant, strength, firstMention,
+//   original title when it had to change         ⇄ {…} data on the line
+// Files without data are read like outlines: "+" keeps the parent's speaker,
+// "-" is a Counter by the other speaker. Outgoing ("+>", "->") and
+// contradiction ("><") relations have no equivalent and are skipped.
+// Argdown identifies statements by title, so repeated titles get a suffix
+// (the original is kept in the data).
+import type { DebateNode, Participant, Snapshot, StatementKind, StrengthType } from './types'
+import { outlineTree } from './outline'
+import { buildStatements, OutlineImportResult, OutlineItem } from './outlineImport'
+import { ConversionNote, ExportResult, crossLinkNotes, discussionTitle, documentNotes } from './interchange'
+
+const ARGUMENT_KINDS: StatementKind[] = ['Argument', 'Counter']
+const INDENT = '    '
+
+// titles may not contain the brackets that delimit them
+const cleanTitle = (t: string) => (t || 'Untitled').replace(/[[\]<>{}]/g, '').replace(/\s+/g, ' ').trim() || 'Untitled'
+
+export function exportArgdown(snap: Snapshot): ExportResult {
+  const { children, roots } = outlineTree(snap.nodes, snap.edges)
+  const nameOf = (pid: string) => snap.participants.find(p => p.id === pid)?.name || pid
+  const notes: ConversionNote[] = []
+  const used = new Set<string>()
+  const lines = ['===', `title: ${JSON.stringify(discussionTitle(roots))}`, '===', '']
+  let flattened = 0
+
+  const write = (n: DebateNode, depth: number, parent: DebateNode | undefined, path: Set<string>) => {
+    const d = n.data
+    let title = cleanTitle(d.title)
+    if (title !== (d.title || '').trim()) notes.push({ nodeId: n.id, message: `“${d.title || 'Untitled'}” was written as “${title}”: Argdown titles cannot contain brackets or line breaks.` })
+    for (let i = 2; used.has(title.toLowerCase()); i++) title = `${cleanTitle(d.title)} (${i})`
+    if (title !== cleanTitle(d.title)) notes.push({ nodeId: n.id, message: `Second “${cleanTitle(d.title)}” renamed “${title}”: Argdown treats equal titles as one statement.` })
+    used.add(title.toLowerCase())
+
+    const ref = ARGUMENT_KINDS.includes(d.kind) ? `<${title}>` : `[${title}]`
+    const relation = !parent ? '' : d.kind === 'Counter' ? '- ' : '+ '
+    const body = (d.body || '').trim()
+    if (/\n/.test(body)) flattened++
+    const meta: Array<[string, string | undefined]> = [
+      // the title as it was, when Argdown needed a different one
+      ['title', title !== d.title ? d.title : undefined],
+      ['kind', d.kind],
+      ['participant', nameOf(d.participantId)],
+      ['strength', d.strengthType],
+      ['firstMention', d.firstMention],
+    ]
+    const data = meta.filter(([, v]) => v).map(([k, v]) => `${k}: ${JSON.stringify(v)}`).join(', ')
+    lines.push(`${INDENT.repeat(depth)}${relation}${ref}${body ? ': ' + body.replace(/\s*\n\s*/g, ' ') : ''} {${data}}`)
+
+    path.add(n.id)
+    for (const c of children.get(n.id) || []) if (!path.has(c.id)) write(c, depth + 1, n, path)
+    path.delete(n.id)
+  }
+  roots.forEach(r => { write(r, 0, undefined, new Set()); lines.push('') })
+
+  if (flattened) notes.push({ message: `${flattened} bod${flattened === 1 ? 'y' : 'ies'} with line breaks were written on one line.` })
+  notes.push(...crossLinkNotes(snap, 'Argdown'), ...documentNotes(snap, 'Argdown'))
+  return { text: lines.join('\n'), notes }
+}
+
+const LINE = /^(\s*)(?:(<\+|<-|<_|\+>|->|_>|><|\+|-|_)\s+)?(.*)$/
+const ELEMENT = /^(?:\[([^\]]*)\]|<([^>]*)>)(?::\s*([\s\S]*))?$/
+const DATA = /\s*\{([^{}]*)\}\s*$/
+const DATA_PAIR = /([A-Za-z_][\w-]*)\s*:\s*("(?:[^"\\]|\\.)*"|'[^']*'|[^,]*)/g
+
+/** `{key: "value", other: value}` → record; values may be double-, single- or unquoted */
+function readData(text: string): Record<string, string> {
+  const out: Record<string, string> = {}
+  let m: RegExpExecArray | null
+  DATA_PAIR.lastIndex = 0
+  while ((m = DATA_PAIR.exec(text))) {
+    const raw = m[2].trim()
+    let value = raw
+    if (raw.startsWith('"')) { try { value = JSON.parse(raw) } catch { value = raw.slice(1, -1) } }
+    else if (raw.startsWith("'")) value = raw.slice(1, -1)
+    out[m[1]] = value
+  }
+  return out
+}
+
+const KINDS: StatementKind[] = ['Thesis', 'Argument', 'Argument Summary', 'Counter', 'Evidence', 'Agreement']
+
+export function importArgdown(text: string, participants: Participant[]): OutlineImportResult {
+  const errors: OutlineImportResult['errors'] = []
+  const items: OutlineItem[] = []
+  const byTitle = new Map<string, number>()
+  const stack: Array<{ indent: number, index: number }> = []
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/)
+  let inComment = false
+  let i = 0
+  // front matter
+  if (lines[0]?.trim() === '===') {
+    i = 1
+    while (i < lines.length && lines[i].trim() !== '===') i++
+    i++
+  }
+  for (; i < lines.length; i++) {
+    const raw = lines[i]
+    const lineNo = i + 1
+    const trimmed = raw.trim()
+    if (inComment) { if (trimmed.includes('*/')) inComment = false; continue }
+    if (trimmed.startsWith('/*')) { inComment = !trimmed.includes('*/'); continue }
+    if (!trimmed || trimmed.startsWith('//') || /^#+\s/.test(trimmed)) continue
+
+    const [, ws, relation, rest] = LINE.exec(raw)!
+    const indent = ws.replace(/\t/g, INDENT).length
+    while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop()
+    const parent = stack.length ? stack[stack.length - 1].index : -1
+
+    if (relation && ['+>', '->', '_>', '><'].includes(relation)) {
+      errors.push({ line: lineNo, message: `“${relation}” relations (from the parent to this line) have no equivalent here and were skipped, with anything under them.` })
+      stack.push({ indent, index: -2 })
+      continue
+    }
+    if (parent === -2) { stack.push({ indent, index: -2 }); continue }
+    if (relation && parent < 0) errors.push({ line: lineNo, message: `“${relation}” on a top-level line has nothing to relate to; read as a top-level statement.` })
+    if (!relation && parent >= 0) {
+      // an indented line without a relation continues the text above
+      const last = items[items.length - 1]
+      if (last) last.body += (last.body ? ' ' : '') + trimmed
+      continue
+    }
+
+    const dataMatch = DATA.exec(rest)
+    const data = dataMatch ? readData(dataMatch[1]) : {}
+    const content = dataMatch ? rest.slice(0, dataMatch.index).trim() : rest.trim()
+    const el = ELEMENT.exec(content)
+    const isArgument = !!el && el[2] !== undefined
+    const title = (el ? (el[1] ?? el[2]) : content).trim()
+    const body = el ? (el[3] || '').trim() : ''
+
+    const known = byTitle.get(title.toLowerCase())
+    if (el && known !== undefined) {
+      errors.push({ line: lineNo, message: `“${title}” already appears on line ${items[known].line}; it keeps its first place and this relation was skipped.` })
+      if (body && !items[known].body) items[known].body = body
+      // anything said under the repeat belongs to the first occurrence
+      stack.push({ indent, index: known })
+      continue
+    }
+
+    const kind = KINDS.find(k => k.toLowerCase() === (data.kind || '').toLowerCase())
+    if (data.kind && !kind) errors.push({ line: lineNo, message: `Unknown kind “${data.kind}”; kind inferred instead.` })
+    const strengthMatch = /^(?:t|type)\s*([1-4])$/i.exec(data.strength || '')
+    if (data.strength && !strengthMatch) errors.push({ line: lineNo, message: `Unknown strength “${data.strength}” left out.` })
+
+    items.push({
+      title: data.title || title,
+      body,
+      line: lineNo,
+      parent,
+      participant: data.participant || undefined,
+      kind: kind || (relation && /-|_/.test(relation) ? 'Counter' : parent < 0 ? (isArgument ? 'Argument' : 'Thesis') : undefined),
+      strength: strengthMatch ? `Type ${strengthMatch[1]}` as StrengthType : undefined,
+      // data is explicit, so the time is kept as written
+      time: data.firstMention || undefined,
+    })
+    if (el) byTitle.set(title.toLowerCase(), items.length - 1)
+    stack.push({ indent, index: items.length - 1 })
+  }
+  if (!items.length) errors.push({ line: 1, message: 'No Argdown statements or arguments found.' })
+  return buildStatements(items, participants, errors)
+}
@@ -0,0 +1,43 @@
+// src/graph/comments.ts
+// Review threads on statements and edges. A thread is its first comment (which says what it
+// is about and whether it is resolved) plus the replies pointing to it. Deleting a statement
+// or edge leaves its threads in the store, so undoing the delete brings them back; until
+// then they are not shown, and saving leaves them out.
+import type { Comment, Snapshot } from './types'
+
+export type Thread = { root: Comment, replies: Comment[] }
+export type CommentCount = { comments: number, open: number }
+
+/** Comments whose statement or edge still exists */
+export function liveComments(s: Snapshot): Comment[] {
+  const comments = s.comments || []
+  if (!comments.length) return comments
+  const nodeIds = new Set(s.nodes.map(n => n.id)), edgeIds = new Set(s.edges.map(e => e.id))
+  const roots = new Set(comments
+    .filter(c => !c.threadId && (c.nodeId ? nodeIds.has(c.nodeId) : !!c.edgeId && edgeIds.has(c.edgeId)))
+    .map(c => c.id))
+  const live = comments.filter(c => roots.has(c.threadId || c.id))
+  return live.length === comments.length ? comments : live
+}
+
+/** Threads in the order they were started, replies oldest first */
+export function threadsOf(s: Snapshot): Thread[] {
+  const threads = new Map<string, Thread>()
+  const live = liveComments(s)
+  for (const c of live) if (!c.threadId) threads.set(c.id, { root: c, replies: [] })
+  for (const c of live) if (c.threadId) threads.get(c.threadId)?.replies.push(c)
+  return [...threads.values()]
+}
+
+export const threadTarget = (t: Thread) => t.root.nodeId || t.root.edgeId!
+
+/** Per statement or edge id: how many comments it has, and how many of its threads are open */
+export function commentCounts(threads: Thread[]): Map<string, CommentCount> {
+  const out = new Map<string, CommentCount>()
+  for (const t of threads) {
+    const id = threadTarget(t)
+    const c = out.get(id) || { comments: 0, open: 0 }
+    out.set(id, { comments: c.comments + 1 + t.replies.length, open: c.open + (t.root.resolved ? 0 : 1) })
+  }
+  return out
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import type { DebateEdge, DebateNode, StatementKind } from './types'
+import { allOps, applyRemote, changedKeys, createCrdt, CrdtState, DocPart, EMPTY_DOC, localChanges, materialize, rebaseSnapshot } from './crdt'
+
+const statement = (id: string, kind: StatementKind, participantId = 'A'): DebateNode =>
+  ({ id, type: 'nodeCard', position: { x: 0, y: 0 }, data: { id, title: `About ${id}`, kind, participantId } })
+const supports = (parent: string, child: string, id = `${parent}-${child}`): DebateEdge =>
+  ({ id, source: parent, target: child, type: 'thick', data: { kind: 'supports' } })
+const START: DocPart = {
+  nodes: [statement('t', 'Thesis'), statement('x', 'Argument'), statement('y', 'Argument')],
+  edges: [supports('t', 'x', 'ex'), supports('t', 'y', 'ey')],
+  participants: [{ id: 'A', name: 'Alice' }],
+  comments: [],
+  sources: [],
+}
+
+/** Two replicas of START, as after one seeded the room and the other joined */
+function pair(): [CrdtState, CrdtState] {
+  const a = createCrdt('a'), b = createCrdt('b')
+  localChanges(a, EMPTY_DOC, START)
+  applyRemote(b, allOps(a))
+  return [a, b]
+}
+const edit = (doc: DocPart, id: string, patch: Partial<DebateNode['data']>): DocPart =>
+  ({ ...doc, nodes: doc.nodes.map(n => n.id === id ? { ...n, data: { ...n.data, ...patch } } : n) })
+const titleOf = (doc: DocPart, id: string) => doc.nodes.find(n => n.id === id)?.data.title
+
+describe('CRDT', () => {
+  it('seeds a joining replica with the same document', () => {
+    const [, b] = pair()
+    const doc = materialize(b)
+    expect(doc.nodes.map(n => n.data.title)).toEqual(['About t', 'About x', 'About y'])
+    expect(doc.edges.map(e => [e.source, e.target])).toEqual([['t', 'x'], ['t', 'y']])
+  })
+
+  it('keeps concurrent changes to different fields, in any order of arrival', () => {
+    const [a, b] = pair()
+    const fromA = localChanges(a, START, edit(START, 'x', { title: 'Renamed' }))
+    const fromB = localChanges(b, START, edit(START, 'x', { body: 'Details' }))
+    applyRemote(a, fromB)
+    applyRemote(b, fromA)
+    const docA = materialize(a), docB = materialize(b)
+    expect(docA).toEqual(docB)
+    expect(docA.nodes.find(n => n.id === 'x')?.data).toMatchObject({ title: 'Renamed', body: 'Details' })
+  })
+
+  it('lets the later stamp win on the same field, ties going to the higher client id', () => {
+    const [a, b] = pair()
+    const fromA = localChanges(a, START, edit(START, 'x', { title: 'From a' }))
+    const fromB = localChanges(b, START, edit(START, 'x', { title: 'From b' }))
+    // both stamps have the same clock: client "b" wins everywhere
+    expect(fromA[0].stamp.c).toBe(fromB[0].stamp.c)
+    expect(applyRemote(a, fromB)).toHaveLength(1)
+    expect(applyRemote(b, fromA)).toHaveLength(0)
+    expect(titleOf(materialize(a), 'x')).toBe('From b')
+    expect(titleOf(materialize(b), 'x')).toBe('From b')
+
+    // a change made after seeing the other one is newer
+    const later = localChanges(a, materialize(a), edit(materialize(a), 'x', { title: 'Later' }))
+    applyRemote(b, later)
+    expect(titleOf(materialize(b), 'x')).toBe('Later')
+  })
+
+  it('does not bring back a statement deleted during a concurrent edit, but undoing the delete does', () => {
+    const [a, b] = pair()
+    const deleted = { ...START, nodes: START.nodes.filter(n => n.id !== 'y'), edges: START.edges.filter(e => e.target !== 'y') }
+    const fromA = localChanges(a, START, deleted)
+    const fromB = localChanges(b, START, edit(START, 'y', { title: 'Edited' }))
+    applyRemote(a, fromB)
+    applyRemote(b, fromA)
+    expect(materialize(a).nodes.map(n => n.id)).toEqual(['t', 'x'])
+    expect(materialize(b).nodes.map(n => n.id)).toEqual(['t', 'x'])
+
+    const undo = localChanges(a, deleted, START)
+    applyRemote(b, undo)
+    expect(materialize(b).nodes.map(n => n.id)).toEqual(['t', 'x', 'y'])
+  })
+
+  it('drops the newer of two concurrent reattachments that close a cycle', () => {
+    const [a, b] = pair()
+    const yUnderX = { ...START, edges: [START.edges[0], { ...START.edges[1], source: 'x' }] }
+    const xUnderY = { ...START, edges: [{ ...START.edges[0], source: 'y' }, START.edges[1]] }
+    const fromA = localChanges(a, START, yUnderX)
+    const fromB = localChanges(b, START, xUnderY)
+    applyRemote(a, fromB)
+    applyRemote(b, fromA)
+    const doc = materialize(a)
+    expect(doc).toEqual(materialize(b))
+    // b's change has the same clock and the higher client id, so it is the newer one: its edge
+    // is left out of the view and x shows without a parent until someone reattaches it
+    expect(doc.edges.map(e => [e.source, e.target])).toEqual([['x', 'y']])
+    expect(doc.nodes.map(n => n.id)).toEqual(['t', 'x', 'y'])
+  })
+
+  it('reuses unchanged items, so they keep their identity', () => {
+    const [a, b] = pair()
+    const before = materialize(b)
+    const ops = localChanges(a, START, edit(START, 'x', { title: 'Renamed' }))
+    applyRemote(b, ops)
+    const after = materialize(b, before, changedKeys(ops))
+    expect(after.nodes[0]).toBe(before.nodes[0])
+    expect(after.nodes[1]).not.toBe(before.nodes[1])
+    expect(after.participants).toBe(before.participants)
+  })
+
+  it('carries remote changes into undo snapshots', () => {
+    const [a, b] = pair()
+    // b's undo history holds START; a renames x meanwhile
+    const ops = localChanges(a, START, edit(START, 'x', { title: 'Renamed' }))
+    applyRemote(b, ops)
+    const rebased = rebaseSnapshot(START, ops, materialize(b))
+    expect(titleOf(rebased, 'x')).toBe('Renamed')
+    expect(rebased.nodes[0]).toBe(START.nodes[0])
+    expect(rebased.edges).toBe(START.edges)
+  })
+})
@@ -0,0 +1,268 @@
+// src/graph/crdt.ts
+// Conflict-free replicated copy of a map's statements, edges, participants, review comments
+// and sources, for editing the same map from several places at once.
+//
+// Every item is a set of fields, and every field is a last-writer-wins register stamped with
+// a Lamport clock (ties go to the higher client id). Replicas that received the same
+// operations therefore show the same map, whatever order they arrived in:
+// - two people changing different fields of a statement both keep their change; on the same
+//   field the later stamp wins
+// - reattaching moves an edge's source or target field, so two concurrent reattachments of a
+//   statement leave it under one parent, never two
+// - deleting sets a `$deleted` field; an edit made concurrently does not bring the item back,
+//   undoing the delete (a newer `$deleted: false`) does
+// The view drops what concurrent edits can still leave inconsistent: edges to deleted
+// statements, and the newer of two reattachments that together close a cycle.
+import type { Comment, DebateEdge, DebateNode, Participant, Snapshot, Source } from './types'
+import { buildChildrenPairs } from './tree'
+
+/** Lamport time of a change: `c` orders changes, `by` (the client id) breaks ties */
+export type Stamp = { c: number, by: string }
+export type Collection = 'nodes' | 'edges' | 'participants' | 'comments' | 'sources'
+/** Set one field of one item; `value` null removes the field */
+export type CrdtOp = { coll: Collection, id: string, field: string, value: unknown, stamp: Stamp }
+/** The shared part of a document */
+export type DocPart = Pick<Snapshot, 'nodes' | 'edges' | 'participants' | 'comments' | 'sources'>
+
+type Register = { value: unknown, stamp: Stamp }
+type Item = { fields: Map<string, Register>, created: Stamp }
+export type CrdtState = {
+  client: string
+  clock: number
+  items: Record<Collection, Map<string, Item>>
+}
+
+const COLLECTIONS: Collection[] = ['nodes', 'edges', 'participants', 'comments', 'sources']
+const DELETED = '$deleted'
+// per-user view state and React Flow bookkeeping: never shared
+const LOCAL_FIELDS = new Set(['selected', 'dragging', 'width', 'height', 'positionAbsolute'])
+const LOCAL_DATA = new Set(['collapsed', 'selfCollapsed', 'bodyCollapsed', 'isEditing', 'canBeReparentTarget', 'selectedForReparent'])
+
+export const EMPTY_DOC: DocPart = { nodes: [], edges: [], participants: [], comments: [], sources: [] }
+/** An item of any of the shared collections */
+type SharedItem = NonNullable<DocPart[Collection]>[number]
+const listOf = (doc: DocPart, coll: Collection): SharedItem[] => doc[coll] || []
+/** `doc` with the items of one collection replaced */
+const withList = <S extends DocPart>(doc: S, coll: Collection, list: SharedItem[]): S => ({ ...doc, [coll]: list })
+
+export function createCrdt(client: string): CrdtState {
+  return { client, clock: 0, items: { nodes: new Map(), edges: new Map(), participants: new Map(), comments: new Map(), sources: new Map() } }
+}
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+  return a.c - b.c || (a.by < b.by ? -1 : a.by > b.by ? 1 : 0)
+}
+
+const keyOf = (coll: Collection, id: string) => `${coll}:${id}`
+
+// ---------- Field encoding ----------
+// Nodes and edges are flattened to top-level fields plus `data.<key>` fields; participants,
+// comments and sources to their own keys. Only shared fields are listed, undefined ones left out.
+function fieldsOf(item: Record<string, any>): Record<string, unknown> {
+  const out: Record<string, unknown> = {}
+  for (const [k, v] of Object.entries(item)) {
+    if (k === 'id' || k === 'data' || LOCAL_FIELDS.has(k) || v === undefined) continue
+    out[k] = v
+  }
+  for (const [k, v] of Object.entries(item.data || {})) {
+    if (LOCAL_DATA.has(k) || v === undefined) continue
+    out['data.' + k] = v
+  }
+  return out
+}
+
+function itemFrom(coll: Collection, id: string, fields: Record<string, unknown>): any {
+  const item: Record<string, any> = { id }
+  const data: Record<string, unknown> = {}
+  for (const [k, v] of Object.entries(fields)) {
+    if (v === null || v === undefined || k === DELETED) continue
+    if (k.startsWith('data.')) data[k.slice(5)] = v
+    else item[k] = v
+  }
+  if ((coll === 'nodes' || coll === 'edges') && (Object.keys(data).length || coll === 'nodes')) item.data = data
+  return item
+}
+
+const same = (a: unknown, b: unknown) =>
+  a === b || (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null && JSON.stringify(a) === JSON.stringify(b))
+
+// ---------- Applying changes ----------
+function applyOne(state: CrdtState, op: CrdtOp): boolean {
+  const items = state.items[op.coll]
+  let item = items.get(op.id)
+  if (!item) {
+    item = { fields: new Map(), created: op.stamp }
+    items.set(op.id, item)
+  } else if (compareStamps(op.stamp, item.created) < 0) {
+    item.created = op.stamp
+  }
+  const reg = item.fields.get(op.field)
+  if (reg && compareStamps(op.stamp, reg.stamp) <= 0) return false
+  item.fields.set(op.field, { value: op.value, stamp: op.stamp })
+  return true
+}
+
+/** Merge operations from other replicas; returns the ones that changed something */
+export function applyRemote(state: CrdtState, ops: CrdtOp[]): CrdtOp[] {
+  const applied: CrdtOp[] = []
+  for (const op of ops) {
+    if (!COLLECTIONS.includes(op.coll) || typeof op.id !== 'string' || !op.stamp) continue
+    state.clock = Math.max(state.clock, op.stamp.c)
+    if (applyOne(state, op)) applied.push(op)
+  }
+  return applied
+}
+
+/**
+ * Turn a local edit (`before` → `after`, as the store held them) into operations, apply
+ * them to `state` and return them for sending. Items are matched by id; unchanged objects
+ * are skipped without looking inside.
+ */
+export function localChanges(state: CrdtState, before: DocPart, after: DocPart): CrdtOp[] {
+  const ops: CrdtOp[] = []
+  const emit = (coll: Collection, id: string, field: string, value: unknown) => {
+    const op: CrdtOp = { coll, id, field, value, stamp: { c: ++state.clock, by: state.client } }
+    applyOne(state, op)
+    ops.push(op)
+  }
+  for (const coll of COLLECTIONS) {
+    if (before[coll] === after[coll]) continue
+    const prev = new Map(listOf(before, coll).map(x => [x.id, x]))
+    const seen = new Set<string>()
+    for (const x of listOf(after, coll)) {
+      seen.add(x.id)
+      const old = prev.get(x.id)
+      if (old === x) continue
+      const next = fieldsOf(x)
+      const known = state.items[coll].get(x.id)
+      // new here, or deleted in the shared copy: (re)create with every field
+      const live = known && known.fields.get(DELETED)?.value === false
+      if (!old || !live) emit(coll, x.id, DELETED, false)
+      const oldFields = old && live ? fieldsOf(old) : {}
+      for (const [f, v] of Object.entries(next)) if (!same(oldFields[f], v) || !live) emit(coll, x.id, f, v)
+      for (const f of Object.keys(oldFields)) if (!(f in next)) emit(coll, x.id, f, null)
+    }
+    for (const id of prev.keys()) if (!seen.has(id)) emit(coll, id, DELETED, true)
+  }
+  return ops
+}
+
+/** Every field of every item, e.g. to seed an empty room */
+export function allOps(state: CrdtState, by?: string): CrdtOp[] {
+  const ops: CrdtOp[] = []
+  for (const coll of COLLECTIONS) {
+    for (const [id, item] of state.items[coll]) {
+      for (const [field, reg] of item.fields) {
+        if (!by || reg.stamp.by === by) ops.push({ coll, id, field, value: reg.value, stamp: reg.stamp })
+      }
+    }
+  }
+  return ops
+}
+
+// ---------- Reading the document ----------
+const edgeStamp = (item: Item) => {
+  const s = item.fields.get('source')?.stamp, t = item.fields.get('target')?.stamp
+  return s && t ? (compareStamps(s, t) >= 0 ? s : t) : (s || t || item.created)
+}
+
+/**
+ * The document as the replicas agree on it. Items of `prev` whose key is not in `changed`
+ * are reused as they are, so unchanged statements keep their identity (and their view
+ * flags); pass no `changed` to rebuild everything.
+ */
+export function materialize(state: CrdtState, prev: DocPart = EMPTY_DOC, changed?: Set<string>): DocPart {
+  const read = (coll: Collection) => {
+    const reuse = new Map(listOf(prev, coll).map(x => [x.id, x]))
+    const out: Array<{ item: any, state: Item }> = []
+    for (const [id, st] of state.items[coll]) {
+      if (st.fields.get(DELETED)?.value !== false) continue
+      const old = reuse.get(id)
+      if (old && changed && !changed.has(keyOf(coll, id))) { out.push({ item: old, state: st }); continue }
+      const fields: Record<string, unknown> = {}
+      for (const [f, reg] of st.fields) fields[f] = reg.value
+      out.push({ item: itemFrom(coll, id, fields), state: st })
+    }
+    out.sort((a, b) => compareStamps(a.state.created, b.state.created) || (a.item.id < b.item.id ? -1 : 1))
+    return out
+  }
+  const nodes = read('nodes').filter(x => x.item.data?.kind)
+  const nodeIds = new Set(nodes.map(x => x.item.id))
+  const edges = read('edges').filter(x => nodeIds.has(x.item.source) && nodeIds.has(x.item.target))
+
+  // keep the tree acyclic: add structural edges oldest first and drop one that closes a cycle
+  const parents = new Map<string, string[]>()
+  const isAncestor = (a: string, b: string) => {
+    const stack = [b], seen = new Set<string>()
+    while (stack.length) {
+      const cur = stack.pop()!
+      if (cur === a) return true
+      if (seen.has(cur)) continue
+      seen.add(cur)
+      stack.push(...(parents.get(cur) || []))
+    }
+    return false
+  }
+  const dropped = new Set<string>()
+  for (const x of [...edges].sort((a, b) => compareStamps(edgeStamp(a.state), edgeStamp(b.state)))) {
+    const [pair] = buildChildrenPairs([x.item as DebateEdge])
+    if (!pair) continue
+    const [parent, child] = pair
+    if (isAncestor(child, parent)) { dropped.add(x.item.id); continue }
+    parents.set(child, [...(parents.get(child) || []), parent])
+  }
+
+  const keep = <T>(list: T[], old: T[]) => list.length === old.length && list.every((x, i) => x === old[i]) ? old : list
+  return {
+    nodes: keep(nodes.map(x => x.item as DebateNode), prev.nodes),
+    edges: keep(edges.filter(x => !dropped.has(x.item.id)).map(x => x.item as DebateEdge), prev.edges),
+    participants: keep(read('participants').map(x => x.item as Participant), prev.participants),
+    comments: keep(read('comments').map(x => x.item as Comment), prev.comments || []),
+    sources: keep(read('sources').map(x => x.item as Source), prev.sources || []),
+  }
+}
+
+/** Keys (see `materialize`) of the items touched by `ops` */
+export function changedKeys(ops: CrdtOp[]): Set<string> {
+  return new Set(ops.map(op => keyOf(op.coll, op.id)))
+}
+
+/**
+ * Carry remote changes into an undo/redo snapshot, so undoing a local edit does not also
+ * revert what others did since. Fields touched by `ops` take their value from `view` (the
+ * document after the changes); items created or deleted by `ops` are added or removed.
+ */
+export function rebaseSnapshot<S extends DocPart>(snap: S, ops: CrdtOp[], view: DocPart): S {
+  let out = snap
+  for (const coll of COLLECTIONS) {
+    const touched = new Map<string, CrdtOp[]>()
+    for (const op of ops) if (op.coll === coll) touched.set(op.id, [...(touched.get(op.id) || []), op])
+    if (!touched.size) continue
+    const current = new Map(listOf(view, coll).map(x => [x.id, x]))
+    const list: SharedItem[] = []
+    const present = new Set<string>()
+    for (const x of listOf(snap, coll)) {
+      const its = touched.get(x.id)
+      present.add(x.id)
+      if (!its) { list.push(x); continue }
+      const now = current.get(x.id)
+      if (!now) {
+        if (!its.some(op => op.field === DELETED && op.value === true)) list.push(x)
+        continue
+      }
+      const fields = fieldsOf(x), nowFields = fieldsOf(now)
+      for (const op of its) if (op.field !== DELETED) fields[op.field] = nowFields[op.field]
+      const rebuilt = itemFrom(coll, x.id, fields)
+      // keep the snapshot's own view flags
+      const data: Record<string, unknown> | undefined = 'data' in x ? x.data : undefined
+      if (data) for (const k of LOCAL_DATA) if (k in data) rebuilt.data[k] = data[k]
+      list.push(rebuilt)
+    }
+    for (const [id, its] of touched) {
+      const now = current.get(id)
+      if (!present.has(id) && now && its.some(op => op.field === DELETED && op.value === false)) list.push(now)
+    }
+    out = withList(out, coll, list)
+  }
+  return out
+}
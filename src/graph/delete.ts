@@ -0,0 +1,104 @@
+// src/graph/delete.ts
+import type { DebateEdge, Snapshot, StatementKind } from './types'
+import { childrenMapOf, descendantsOf, edgeKindOf } from './tree'
+import { supportsParentError, targetError } from './rules'
+
+/**
+ * What happens to the statements under a deleted node:
+ * - cascade:  delete the whole descendant subtree
+ * - reparent: move direct children onto the deleted node's parent where the rules allow it
+ * - orphan:   keep children as unattached statements
+ */
+export type DeleteMode = 'cascade' | 'reparent' | 'orphan'
+
+export type DeletePlan = {
+  mode: DeleteMode
+  removedNodeIds: string[]
+  removedEdgeIds: string[]
+  /** Edges that get a new endpoint (the deleted node's parent) */
+  reparented: Array<{ childId: string, edgeId: string, newParentId: string }>
+  /** Children left without a parent, with the reason when re-parenting was refused */
+  orphaned: Array<{ childId: string, reason?: string }>
+}
+
+// The edge that attaches `childId` under `parentId`, per buildChildrenPairs semantics
+function attachingEdge(edges: DebateEdge[], parentId: string, childId: string) {
+  return edges.find(e => {
+    const k = edgeKindOf(e)
+    if (k === 'supports') return e.source === parentId && e.target === childId
+    if (k === 'evidence-of' || k === 'attacks' || k === 'agrees-with') return e.source === childId && e.target === parentId
+    return false
+  })
+}
+
+export function planDelete(s: Snapshot, id: string, mode: DeleteMode): DeletePlan {
+  const childMap = childrenMapOf(s.edges)
+  const byId = new Map(s.nodes.map(n => [n.id, n]))
+  const directChildren = (childMap.get(id) || []).filter(c => c !== id)
+
+  const removed = new Set<string>([id])
+  if (mode === 'cascade') descendantsOf(id, childMap).forEach(d => removed.add(d))
+
+  const reparented: DeletePlan['reparented'] = []
+  const orphaned: DeletePlan['orphaned'] = []
+  if (mode !== 'cascade') {
+    const parentEdge = s.edges.find(e => {
+      const k = edgeKindOf(e)
+      return (k === 'supports' && e.target === id) || ((k === 'evidence-of' || k === 'attacks' || k === 'agrees-with') && e.source === id)
+    })
+    const parentId = parentEdge ? (edgeKindOf(parentEdge) === 'supports' ? parentEdge.source : parentEdge.target) : undefined
+    const parent = parentId ? byId.get(parentId) : undefined
+    // a Thesis may hold only one Argument Summary, even after moving children up
+    let parentHasSummary = !!parent && s.edges.some(e =>
+      edgeKindOf(e) === 'supports' && e.source === parent.id && e.target !== id && byId.get(e.target)?.data.kind === 'Argument Summary')
+
+    for (const childId of directChildren) {
+      const child = byId.get(childId)
+      const edge = attachingEdge(s.edges, id, childId)
+      if (!child || !edge) continue
+      if (mode === 'orphan') { orphaned.push({ childId }); continue }
+      if (!parent) { orphaned.push({ childId, reason: 'The deleted statement has no parent.' }); continue }
+      const k = edgeKindOf(edge)!
+      let reason = k === 'supports' ? supportsParentError(parent, child) : targetError(k, child, parent)
+      if (!reason && child.data.kind === 'Argument Summary' && parentHasSummary) reason = 'That Thesis already has an Argument Summary.'
+      if (reason) { orphaned.push({ childId, reason }); continue }
+      if (child.data.kind === 'Argument Summary') parentHasSummary = true
+      reparented.push({ childId, edgeId: edge.id, newParentId: parent.id })
+    }
+  }
+
+  const movedEdges = new Set(reparented.map(r => r.edgeId))
+  const removedEdgeIds = s.edges
+    .filter(e => !movedEdges.has(e.id) && (removed.has(e.source) || removed.has(e.target)))
+    .map(e => e.id)
+
+  return { mode, removedNodeIds: Array.from(removed), removedEdgeIds, reparented, orphaned }
+}
+
+export function applyDeletePlan(s: Snapshot, plan: DeletePlan): Snapshot {
+  const removedNodes = new Set(plan.removedNodeIds)
+  const removedEdges = new Set(plan.removedEdgeIds)
+  const moves = new Map(plan.reparented.map(r => [r.edgeId, r.newParentId]))
+  return {
+    ...s,
+    nodes: s.nodes.filter(n => !removedNodes.has(n.id)),
+    edges: s.edges
+      .filter(e => !removedEdges.has(e.id))
+      .map(e => {
+        const to = moves.get(e.id)
+        if (!to) return e
+        return edgeKindOf(e) === 'supports' ? { ...e, source: to } : { ...e, target: to }
+      }),
+  }
+}
+
+/** Count of nodes per kind, for the delete preview */
+export function countByKind(s: Snapshot, ids: string[]): Array<[StatementKind, number]> {
+  const byId = new Map(s.nodes.map(n => [n.id, n]))
+  const counts = new Map<StatementKind, number>()
+  for (const id of ids) {
+    const k = byId.get(id)?.data.kind
+    if (k) counts.set(k, (counts.get(k) || 0) + 1)
+  }
+  return Array.from(counts.entries())
+}
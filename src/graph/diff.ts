@@ -0,0 +1,118 @@
+// src/graph/diff.ts
+// What changed between two versions of a map. Statements and edges are matched by id.
+// A statement whose parent edge changed is reported as moved, not as removed and added
+// again: reattaching (setSupportsParent / setEdgeTarget) keeps the edge id and changes its
+// end, and a copy that re-created the edge under a new id is recognised by the statement
+// it attaches.
+import type { DebateEdge, DebateNode, EdgeKind, Snapshot } from './types'
+import { buildChildrenPairs, edgeKindOf } from './tree'
+
+/** The statement fields a diff looks at */
+export const DIFF_FIELDS = ['title', 'body', 'kind', 'participantId', 'strengthType', 'firstMention'] as const
+export type DiffField = typeof DIFF_FIELDS[number]
+export const DIFF_FIELD_LABELS: Record<DiffField, string> = {
+  title: 'Title',
+  body: 'Body',
+  kind: 'Kind',
+  participantId: 'Participant',
+  strengthType: 'Strength',
+  firstMention: 'First mention',
+}
+
+/** Where a statement hangs in the tree: the edge to its parent */
+export type Attachment = { parentId: string, edgeId: string, kind: EdgeKind }
+export type FieldChange = { field: DiffField, before?: string, after?: string }
+export type NodeDiff = {
+  id: string
+  status: 'added' | 'removed' | 'changed'
+  /** Title in the newer version (the older one for removed statements) */
+  title: string
+  fields: FieldChange[]
+  /** Set when the statement was reattached, detached or attached */
+  moved?: { from?: Attachment & { parentTitle: string }, to?: Attachment & { parentTitle: string } }
+}
+export type EdgeDiff = {
+  id: string
+  status: 'added' | 'removed' | 'changed'
+  edge: DebateEdge
+  before?: DebateEdge
+  /** Added or removed together with one of its statements */
+  withNode: boolean
+}
+export type SnapshotDiff = { nodes: NodeDiff[], edges: EdgeDiff[] }
+
+/** Field value as compared: missing and empty are the same */
+export const fieldValue = (n: DebateNode, f: DiffField) => (n.data[f] ?? '') as string
+
+/** Each statement's parent edge; a statement with several keeps the first */
+export function attachmentsOf(edges: DebateEdge[]): Map<string, Attachment> {
+  const out = new Map<string, Attachment>()
+  for (const e of edges) {
+    const [pair] = buildChildrenPairs([e])
+    if (!pair || out.has(pair[1])) continue
+    out.set(pair[1], { parentId: pair[0], edgeId: e.id, kind: edgeKindOf(e)! })
+  }
+  return out
+}
+
+export const sameAttachment = (a?: Attachment, b?: Attachment) =>
+  a === b || (!!a && !!b && a.parentId === b.parentId && a.kind === b.kind)
+
+export function diffSnapshots(before: Snapshot, after: Snapshot): SnapshotDiff {
+  const oldNodes = new Map(before.nodes.map(n => [n.id, n]))
+  const newNodes = new Map(after.nodes.map(n => [n.id, n]))
+  const oldAt = attachmentsOf(before.edges), newAt = attachmentsOf(after.edges)
+  const titled = (a: Attachment | undefined, nodes: Map<string, DebateNode>) =>
+    a && { ...a, parentTitle: nodes.get(a.parentId)?.data.title || a.parentId }
+
+  const nodes: NodeDiff[] = []
+  // structural edges that a move already accounts for
+  const movedEdges = new Set<string>()
+  for (const n of after.nodes) {
+    const old = oldNodes.get(n.id)
+    if (!old) {
+      nodes.push({ id: n.id, status: 'added', title: n.data.title, fields: [] })
+      continue
+    }
+    const fields = DIFF_FIELDS
+      .filter(f => fieldValue(old, f) !== fieldValue(n, f))
+      .map(f => ({ field: f, before: old.data[f] as string | undefined, after: n.data[f] as string | undefined }))
+    const from = oldAt.get(n.id), to = newAt.get(n.id)
+    const moved = !sameAttachment(from, to)
+    if (moved) {
+      if (from) movedEdges.add(from.edgeId)
+      if (to) movedEdges.add(to.edgeId)
+    }
+    if (fields.length || moved) {
+      nodes.push({
+        id: n.id, status: 'changed', title: n.data.title, fields,
+        moved: moved ? { from: titled(from, oldNodes), to: titled(to, newNodes) } : undefined,
+      })
+    }
+  }
+  for (const n of before.nodes) {
+    if (!newNodes.has(n.id)) nodes.push({ id: n.id, status: 'removed', title: n.data.title, fields: [] })
+  }
+
+  const oldEdges = new Map(before.edges.map(e => [e.id, e]))
+  const newIds = new Set(after.edges.map(e => e.id))
+  // an edge re-created under another id between the same statements is not a change
+  const signature = (e: DebateEdge) => `${edgeKindOf(e)}|${e.source}|${e.target}`
+  const oldSignatures = new Set(before.edges.filter(e => !newIds.has(e.id)).map(signature))
+  const newSignatures = new Set(after.edges.filter(e => !oldEdges.has(e.id)).map(signature))
+  const edges: EdgeDiff[] = []
+  for (const e of after.edges) {
+    const old = oldEdges.get(e.id)
+    if (!old) {
+      if (!movedEdges.has(e.id) && !oldSignatures.has(signature(e))) edges.push({ id: e.id, status: 'added', edge: e, withNode: !oldNodes.has(e.source) || !oldNodes.has(e.target) })
+    } else if ((old.source !== e.source || old.target !== e.target || edgeKindOf(old) !== edgeKindOf(e)) && !movedEdges.has(e.id)) {
+      edges.push({ id: e.id, status: 'changed', edge: e, before: old, withNode: false })
+    }
+  }
+  for (const e of before.edges) {
+    if (!newIds.has(e.id) && !movedEdges.has(e.id) && !newSignatures.has(signature(e))) {
+      edges.push({ id: e.id, status: 'removed', edge: e, withNode: !newNodes.has(e.source) || !newNodes.has(e.target) })
+    }
+  }
+  return { nodes, edges }
+}
@@ -0,0 +1,182 @@
+// src/graph/history.ts
+// Revision history kept inside the document: named checkpoints and a revision per save.
+// Revisions are stored as reverse deltas. In memory the newest revision is kept whole and
+// every older one is the change from the revision after it; in a file the newest is the change
+// from the document saved alongside (usually nothing). A file therefore grows by what changed
+// between revisions, not by a copy of the map per revision.
+import type { Comment, DebateEdge, DebateNode, MediaRef, Participant, Snapshot, Source, Transcript } from './types'
+import { SavedSnapshot, toSavedSnapshot } from './snapshot'
+
+/** Turns one list into another: entries added or changed, ids removed, and the order when it moved */
+export type ListDelta<T> = { put?: T[], remove?: string[], order?: string[] }
+export type DocDelta = {
+  nodes?: ListDelta<DebateNode>
+  edges?: ListDelta<DebateEdge>
+  participants?: ListDelta<Participant>
+  comments?: ListDelta<Comment>
+  sources?: ListDelta<Source>
+  /** Present when the transcript differs; no `value` means there was none */
+  transcript?: { value?: Transcript }
+  media?: { value?: MediaRef }
+}
+
+/** auto: added on save (or before a restore); checkpoint: added and named by hand */
+export type RevisionKind = 'auto' | 'checkpoint'
+export type Revision = {
+  id: string
+  kind: RevisionKind
+  /** Always set on checkpoints; on automatic revisions only when renamed or made before a restore */
+  name?: string
+  /** ISO time */
+  at: string
+  /** Turns the next newer revision into this one (see the top of this file) */
+  delta: DocDelta
+}
+/** Revisions oldest first, and the newest one's map in full */
+export type DocHistory = { revisions: Revision[], newest?: Snapshot }
+
+export const EMPTY_HISTORY: DocHistory = { revisions: [] }
+
+function nid() { return Math.random().toString(36).slice(2, 10) }
+
+/** The document part of a snapshot, without view-only flags */
+function contentOf(s: Snapshot): Snapshot {
+  const { version, ...content } = toSavedSnapshot(s)
+  return content
+}
+
+// ---------- deltas ----------
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+// where a card sits only matters when it is pinned; otherwise the layout decides
+const sameNode = (a: DebateNode, b: DebateNode) =>
+  same(a.data, b.data) && a.type === b.type && (!b.data.pinned || same(a.position, b.position))
+
+function listDelta<T extends { id: string }>(from: T[], to: T[], eq: (a: T, b: T) => boolean): ListDelta<T> | undefined {
+  const before = new Map(from.map(x => [x.id, x]))
+  const ids = new Set(to.map(x => x.id))
+  const put = to.filter(x => { const b = before.get(x.id); return !b || !eq(b, x) })
+  const remove = from.filter(x => !ids.has(x.id)).map(x => x.id)
+  // applying put and remove keeps the old order and appends new entries; say so when that is wrong
+  const natural = [...from.filter(x => ids.has(x.id)).map(x => x.id), ...to.filter(x => !before.has(x.id)).map(x => x.id)]
+  const order = natural.some((id, i) => id !== to[i].id) ? to.map(x => x.id) : undefined
+  if (!put.length && !remove.length && !order) return undefined
+  return { ...(put.length ? { put } : {}), ...(remove.length ? { remove } : {}), ...(order ? { order } : {}) }
+}
+
+function applyList<T extends { id: string }>(list: T[], d?: ListDelta<T>): T[] {
+  if (!d) return list
+  const put = new Map((d.put || []).map(x => [x.id, x]))
+  const removed = new Set(d.remove || [])
+  const out = list.filter(x => !removed.has(x.id)).map(x => put.get(x.id) || x)
+  const present = new Set(out.map(x => x.id))
+  for (const x of d.put || []) if (!present.has(x.id)) out.push(x)
+  if (!d.order) return out
+  const byId = new Map(out.map(x => [x.id, x]))
+  return d.order.map(id => byId.get(id)!).filter(Boolean)
+}
+
+/** The change that turns `from` into `to` */
+export function deltaBetween(from: Snapshot, to: Snapshot): DocDelta {
+  const d: DocDelta = {}
+  const nodes = listDelta(from.nodes, to.nodes, sameNode)
+  const edges = listDelta(from.edges, to.edges, same)
+  const participants = listDelta(from.participants, to.participants, same)
+  const comments = listDelta(from.comments || [], to.comments || [], same)
+  const sources = listDelta(from.sources || [], to.sources || [], same)
+  if (nodes) d.nodes = nodes
+  if (edges) d.edges = edges
+  if (participants) d.participants = participants
+  if (comments) d.comments = comments
+  if (sources) d.sources = sources
+  if (!same(from.transcript ?? null, to.transcript ?? null)) d.transcript = to.transcript ? { value: to.transcript } : {}
+  if (!same(from.media ?? null, to.media ?? null)) d.media = to.media ? { value: to.media } : {}
+  return d
+}
+
+export function applyDelta(s: Snapshot, d: DocDelta): Snapshot {
+  return {
+    nodes: applyList(s.nodes, d.nodes),
+    edges: applyList(s.edges, d.edges),
+    participants: applyList(s.participants, d.participants),
+    comments: applyList(s.comments || [], d.comments),
+    sources: applyList(s.sources || [], d.sources),
+    transcript: d.transcript ? d.transcript.value : s.transcript,
+    media: d.media ? d.media.value : s.media,
+  }
+}
+
+export const isEmptyDelta = (d: DocDelta) => Object.keys(d).length === 0
+
+/** Statements added, changed or removed by a delta */
+export const statementsIn = (d: DocDelta) => (d.nodes?.put?.length || 0) + (d.nodes?.remove?.length || 0)
+
+// ---------- history ----------
+
+/** The map as it was at revision `index` */
+export function revisionContent(h: DocHistory, index: number): Snapshot {
+  let s = h.newest!
+  for (let i = h.revisions.length - 2; i >= index; i--) s = applyDelta(s, h.revisions[i].delta)
+  return s
+}
+
+/**
+ * Add the map on screen as the newest revision. An automatic one is skipped when nothing changed
+ * since the newest revision; a checkpoint is always added, since its name marks the moment.
+ */
+export function addRevision(h: DocHistory, snap: Snapshot, meta: { kind: RevisionKind, name?: string }): DocHistory {
+  const content = contentOf(snap)
+  if (meta.kind === 'auto' && h.newest && isEmptyDelta(deltaBetween(h.newest, content))) return h
+  const revisions = h.revisions.slice()
+  if (h.newest) revisions[revisions.length - 1] = { ...revisions[revisions.length - 1], delta: deltaBetween(content, h.newest) }
+  revisions.push({ id: nid(), kind: meta.kind, ...(meta.name ? { name: meta.name } : {}), at: new Date().toISOString(), delta: {} })
+  return { revisions, newest: content }
+}
+
+export function renameRevision(h: DocHistory, id: string, name: string): DocHistory {
+  return { ...h, revisions: h.revisions.map(r => r.id === id ? { ...r, name: name.trim() || undefined } : r) }
+}
+
+export function deleteRevision(h: DocHistory, index: number): DocHistory {
+  const last = h.revisions.length - 1
+  if (index < 0 || index > last) return h
+  if (last === 0) return EMPTY_HISTORY
+  const revisions = h.revisions.slice()
+  if (index === last) {
+    const newest = revisionContent(h, last - 1)
+    revisions.pop()
+    revisions[last - 1] = { ...revisions[last - 1], delta: {} }
+    return { revisions, newest }
+  }
+  // the revision before it is now reached from the one after it
+  if (index > 0) {
+    revisions[index - 1] = { ...revisions[index - 1], delta: deltaBetween(revisionContent(h, index + 1), revisionContent(h, index - 1)) }
+  }
+  revisions.splice(index, 1)
+  return { ...h, revisions }
+}
+
+/** The history up to and including revision `index`, e.g. for a new document branched from it */
+export function historyUntil(h: DocHistory, index: number): DocHistory {
+  const revisions = h.revisions.slice(0, index + 1)
+  revisions[index] = { ...revisions[index], delta: {} }
+  return { revisions, newest: revisionContent(h, index) }
+}
+
+// ---------- files ----------
+
+/** File contents with the history added; the newest revision is stored relative to `saved` */
+export function withHistory(saved: SavedSnapshot, h: DocHistory): SavedSnapshot {
+  if (!h.newest || !h.revisions.length) return saved
+  const revisions = h.revisions.slice()
+  revisions[revisions.length - 1] = { ...revisions[revisions.length - 1], delta: deltaBetween(saved, h.newest) }
+  return { ...saved, history: revisions }
+}
+
+/** The history of a loaded file; `doc` is the map the file holds */
+export function historyFromFile(revisions: Revision[] | undefined, doc: Snapshot): DocHistory {
+  if (!revisions?.length) return EMPTY_HISTORY
+  const last = revisions.length - 1
+  const newest = applyDelta(contentOf(doc), revisions[last].delta)
+  return { revisions: revisions.map((r, i) => i === last ? { ...r, delta: {} } : r), newest }
+}
@@ -0,0 +1,50 @@
+// src/graph/importFormats.ts
+import type { Participant } from './types'
+import { importOutline, OutlineFormat, OutlineImportResult } from './outlineImport'
+import { importKialo } from './kialo'
+import { importArgdown } from './argdown'
+import { AifKindHeuristic, importAif, isAifDocument } from './aif'
+
+/** Formats that become statements through the outline importer */
+export type ImportFormat = OutlineFormat | 'kialo' | 'argdown' | 'aif'
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  markdown: 'Markdown outline',
+  opml: 'OPML outline',
+  kialo: 'Kialo export',
+  argdown: 'Argdown',
+  aif: 'AIF JSON',
+}
+
+/** Is this JSON text an AIF document rather than a saved map? */
+export function looksLikeAif(text: string): boolean {
+  try { return isAifDocument(JSON.parse(text.replace(/^\uFEFF/, ''))) } catch { return false }
+}
+
+/** Guess the format from the file name, falling back to the content */
+export function importFormatOf(fileName: string, text: string): ImportFormat {
+  if (/\.(opml|xml)$/i.test(fileName)) return 'opml'
+  if (/\.(argdown|ad)$/i.test(fileName)) return 'argdown'
+  if (/^\s*\{/.test(text) && looksLikeAif(text)) return 'aif'
+  if (/^\s*(<\?xml[^>]*>\s*)?<opml\b/i.test(text)) return 'opml'
+  const first = text.split(/\r?\n/).map(l => l.trim()).find(l => l && !l.startsWith('//')) || ''
+  // a Markdown list may start with "1." too; Kialo numbers its replies 1.1., 1.2., …
+  if (/^Discussion Title:/i.test(first) || (/^1\.\s/.test(first) && /^\s*1\.1\.\s/m.test(text))) return 'kialo'
+  if (first === '===' || /^(?:[+-]\s+)?(?:\[[^\]]+\]|<[^>]+>)(?::|\s*\{|$)/.test(first)) return 'argdown'
+  return 'markdown'
+}
+
+export function importText(text: string, format: ImportFormat, participants: Participant[], aif?: AifKindHeuristic): OutlineImportResult {
+  switch (format) {
+    case 'aif': {
+      let raw: unknown
+      try { raw = JSON.parse(text.replace(/^\uFEFF/, '')) } catch (err: any) {
+        return { nodes: [], edges: [], newParticipants: [], errors: [{ line: 1, message: `Not valid JSON: ${err?.message || err}` }] }
+      }
+      return importAif(raw, participants, aif)
+    }
+    case 'kialo': return importKialo(text, participants)
+    case 'argdown': return importArgdown(text, participants)
+    default: return importOutline(text, format, participants)
+  }
+}
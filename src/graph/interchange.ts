@@ -0,0 +1,37 @@
+// src/graph/interchange.ts
+import type { DebateEdge, DebateNode, Snapshot } from './types'
+
+/** Something the target format could not hold */
+export type ConversionNote = { nodeId?: string, message: string }
+
+export type ExportResult = { text: string, notes: ConversionNote[] }
+
+const title = (n?: DebateNode) => `“${n?.data.title || 'Untitled'}”`
+
+/** Type 2 and refers-to pairs: neither Kialo nor Argdown trees have a place for them */
+export function crossLinkNotes(snap: Snapshot, format: string): ConversionNote[] {
+  const byId = new Map(snap.nodes.map(n => [n.id, n]))
+  return (snap.edges as DebateEdge[])
+    .filter(e => e.data?.kind === 't2-link' || e.data?.kind === 'refers-to')
+    .map(e => ({
+      nodeId: e.source,
+      message: `${e.data?.kind === 't2-link' ? 'Type 2 link' : 'Refers-to link'} between ${title(byId.get(e.source))} and ${title(byId.get(e.target))} has no ${format} equivalent and was left out.`,
+    }))
+}
+
+/** Document parts outside the argument tree */
+export function documentNotes(snap: Snapshot, format: string): ConversionNote[] {
+  const notes: ConversionNote[] = []
+  if (snap.transcript) notes.push({ message: `The transcript is not part of a ${format} file.` })
+  if (snap.media) notes.push({ message: `The attached recording is not part of a ${format} file.` })
+  const sources = snap.sources?.length || 0
+  if (sources) notes.push({ message: `The bibliography (${sources} source${sources === 1 ? '' : 's'}) and the citations of it are not part of a ${format} file.` })
+  const pinned = snap.nodes.filter(n => n.data.pinned).length
+  if (pinned) notes.push({ message: `${pinned} pinned position${pinned === 1 ? '' : 's'} left out; the map is laid out again on import.` })
+  return notes
+}
+
+/** Title for the whole discussion: the first thesis, else the first top-level statement */
+export function discussionTitle(roots: DebateNode[]): string {
+  return roots.find(r => r.data.kind === 'Thesis')?.data.title || roots[0]?.data.title || 'Debate map'
+}
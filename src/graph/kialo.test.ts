@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import type { DebateEdge, DebateNode, Snapshot, StatementKind } from './types'
+import { buildChildrenPairs } from './tree'
+import { exportKialo, importKialo } from './kialo'
+
+const PARTICIPANTS = [{ id: 'A', name: 'Alice' }, { id: 'B', name: 'Bob' }]
+const statement = (id: string, kind: StatementKind, participantId: string, extra: Partial<DebateNode['data']> = {}): DebateNode =>
+  ({ id, type: 'nodeCard', position: { x: 0, y: 0 }, data: { id, title: `About ${id}`, kind, participantId, ...extra } })
+const edge = (kind: NonNullable<DebateEdge['data']>['kind'], source: string, target: string): DebateEdge =>
+  ({ id: `${source}-${target}`, source, target, data: { kind } })
+
+// a thesis, a supporting argument with evidence, an attack on it and an agreement with the attack
+const MAP: Snapshot = {
+  nodes: [
+    statement('t', 'Thesis', 'A', { body: 'Why it matters.\n\nSecond paragraph.' }),
+    statement('a', 'Argument', 'A', { strengthType: 'Type 1', firstMention: '00:01:30' }),
+    statement('e', 'Evidence', 'A', { title: '1.2. A title that looks like a number' }),
+    statement('c', 'Counter', 'B', { strengthType: 'Type 3' }),
+    statement('g', 'Agreement', 'A'),
+  ],
+  edges: [edge('supports', 't', 'a'), edge('evidence-of', 'e', 'a'), edge('attacks', 'c', 'a'), edge('agrees-with', 'g', 'c')],
+  participants: PARTICIPANTS,
+}
+
+// statements by title, with what they respond to; ids differ after an import
+function shape(snap: Pick<Snapshot, 'nodes' | 'edges'>) {
+  const title = new Map(snap.nodes.map(n => [n.id, n.data.title]))
+  const parent = new Map(buildChildrenPairs(snap.edges).map(([p, c]) => [c, title.get(p)]))
+  return snap.nodes
+    .map(n => ({ ...n.data, id: '', collapsed: undefined, selfCollapsed: undefined, parent: parent.get(n.id) }))
+    .map(d => Object.fromEntries(Object.entries(d).filter(([, v]) => v !== undefined && v !== '')))
+    .sort((a, b) => String(a.title).localeCompare(String(b.title)))
+}
+
+describe('Kialo', () => {
+  it('round-trips a map with tags', () => {
+    const res = importKialo(exportKialo(MAP).text, PARTICIPANTS)
+    expect(res.errors).toEqual([])
+    expect(res.newParticipants).toEqual([])
+    expect(shape(res)).toEqual(shape(MAP))
+  })
+
+  it('writes plain Pro/Con claims without tags and notes what was lost', () => {
+    const { text, notes } = exportKialo(MAP, { tags: false })
+    expect(text).not.toContain('[')
+    const back = importKialo(text, PARTICIPANTS)
+    expect(back.nodes.map(n => n.data.kind).sort()).toEqual(['Argument', 'Argument', 'Argument', 'Counter', 'Thesis'])
+    expect(notes.map(n => n.message)).toEqual(expect.arrayContaining([expect.stringContaining('strength types left out')]))
+  })
+
+  it('reports claims that come before their parent and links', () => {
+    const res = importKialo('Discussion Title: T\n\n1. T\n1.2.1. Pro: orphan\n1.1. Con: -> See 1.\n', PARTICIPANTS)
+    expect(res.nodes.map(n => n.data.title)).toEqual(['T'])
+    expect(res.errors.map(e => e.line)).toEqual([4, 5])
+  })
+})
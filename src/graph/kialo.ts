@@ -0,0 +1,140 @@
+// src/graph/kialo.ts
+//
+// Kialo's plain-text discussion export:
+//
+//   Discussion Title: Should taxes rise?
+//
+//   1. Should taxes rise?
+//   1.1. Pro: Public services need money.
+//   1.1.1. Con: Services can be cut instead.
+//
+// Mapping
+//   Thesis (top level)            ⇄ 1., 2., … (Kialo itself has one thesis per discussion)
+//   Argument, Argument Summary,
+//   Evidence, Agreement           → Pro:        Pro: ← Argument, or as tagged
+//   Counter                       → Con:        Con: ← Counter, or as tagged
+//   body                          ⇄ lines following the claim line
+// Kialo has no speakers, kinds beyond pro/con, strength types or times. With
+// `tags` on they are written into the claim text in the outline importer's
+// syntax, "[Speaker][Evidence][T2] title @00:12:34", but only where the
+// reader could not infer them: a Pro claim is read as its parent's speaker,
+// a Con claim as the other speaker. Type 2 and refers-to links are left out.
+import type { DebateNode, Participant, Snapshot } from './types'
+import { outlineTree } from './outline'
+import { buildStatements, parseItemTags, OutlineImportResult, OutlineItem } from './outlineImport'
+import { ConversionNote, ExportResult, crossLinkNotes, discussionTitle, documentNotes } from './interchange'
+
+export type KialoExportOptions = {
+  /** Keep speaker, kind, strength and time as [tags] in the claim text */
+  tags?: boolean
+}
+
+const CLAIM_LINE = /^(\d+(?:\.\d+)*)\.\s+(?:(Pro|Con):\s*)?(.*)$/
+const SEE_LINK = /^->\s*See\s+([\d.]+)/i
+
+export function exportKialo(snap: Snapshot, opts: KialoExportOptions = {}): ExportResult {
+  const tags = opts.tags ?? true
+  const { children, roots } = outlineTree(snap.nodes, snap.edges)
+  const nameOf = (pid: string) => snap.participants.find(p => p.id === pid)?.name || pid
+  const notes: ConversionNote[] = []
+  const lines = [`Discussion Title: ${discussionTitle(roots)}`, '']
+
+  // speakers the importer will know, in the order it meets them
+  const known: string[] = []
+  const inferredSpeaker = (n: DebateNode, parent?: DebateNode): string | undefined => {
+    if (!parent) return known[0]
+    const pp = parent.data.participantId
+    if (n.data.kind === 'Counter' || n.data.kind === 'Agreement') {
+      const others = known.filter(id => id !== pp)
+      return others.length === 1 ? others[0] : undefined
+    }
+    return pp
+  }
+  const inferredKind = (n: DebateNode, parent: DebateNode | undefined, speaker: string) =>
+    !parent ? 'Thesis' : n.data.kind === 'Counter' ? 'Counter' : speaker === parent.data.participantId ? 'Argument' : 'Counter'
+
+  const lost = { speaker: 0, kind: 0, strength: 0, time: 0 }
+  const write = (n: DebateNode, number: string, parent: DebateNode | undefined, path: Set<string>) => {
+    const d = n.data
+    const stance = !parent ? '' : d.kind === 'Counter' ? 'Con: ' : 'Pro: '
+    const speakerShown = inferredSpeaker(n, parent) !== d.participantId
+    const kindShown = inferredKind(n, parent, d.participantId) !== d.kind
+    if (!known.includes(d.participantId)) known.push(d.participantId)
+    let prefix = ''
+    if (tags) {
+      if (speakerShown) prefix += `[${nameOf(d.participantId)}]`
+      if (kindShown) prefix += `[${d.kind}]`
+      if (d.strengthType) prefix += `[T${d.strengthType.slice(-1)}]`
+    } else {
+      if (speakerShown) lost.speaker++
+      if (kindShown) lost.kind++
+      if (d.strengthType) lost.strength++
+      if (d.firstMention) lost.time++
+    }
+    const time = tags && d.firstMention ? ` @${d.firstMention}` : ''
+    lines.push(`${number}. ${stance}${prefix ? prefix + ' ' : ''}${(d.title || 'Untitled').replace(/\s+/g, ' ').trim()}${time}`)
+    // a body line that looks like a claim number is escaped with a backslash
+    if (d.body?.trim()) lines.push(...d.body.trim().split(/\r?\n/).map(l => l.trim().replace(/^(?=\\|\d+(?:\.\d+)*\.\s)/, '\\')))
+
+    path.add(n.id)
+    let i = 0
+    for (const c of children.get(n.id) || []) {
+      if (path.has(c.id)) continue
+      write(c, `${number}.${++i}`, n, path)
+    }
+    path.delete(n.id)
+  }
+  roots.forEach((r, i) => write(r, String(i + 1), undefined, new Set()))
+
+  if (roots.filter(r => r.data.kind === 'Thesis').length > 1) {
+    notes.push({ message: 'Kialo discussions have a single thesis; the other theses were written as further top-level claims (1., 2., …), which only this app reads back.' })
+  }
+  if (!tags) {
+    if (lost.speaker) notes.push({ message: `${lost.speaker} speaker${lost.speaker === 1 ? '' : 's'} that cannot be told from Pro/Con were left out.` })
+    if (lost.kind) notes.push({ message: `${lost.kind} Evidence, Agreement or Argument Summary statement${lost.kind === 1 ? '' : 's'} became plain Pro claims.` })
+    if (lost.strength) notes.push({ message: `${lost.strength} strength type${lost.strength === 1 ? '' : 's'} left out.` })
+    if (lost.time) notes.push({ message: `${lost.time} first-mention time${lost.time === 1 ? '' : 's'} left out.` })
+  } else if (snap.nodes.some(n => n.data.strengthType || n.data.firstMention)) {
+    notes.push({ message: 'Speakers, kinds, strength types and times are kept as [tags] and @times in the claim text; Kialo will show them as part of the claim.' })
+  }
+  notes.push(...crossLinkNotes(snap, 'Kialo'), ...documentNotes(snap, 'Kialo'))
+  return { text: lines.join('\n') + '\n', notes }
+}
+
+/** Read a Kialo text export; claims may carry the tags exportKialo writes */
+export function importKialo(text: string, participants: Participant[]): OutlineImportResult {
+  const errors: OutlineImportResult['errors'] = []
+  const items: OutlineItem[] = []
+  const indexOf = new Map<string, number>()
+  let blank = false
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim()
+    if (!line) { blank = true; return }
+    const m = line.startsWith('\\') ? null : CLAIM_LINE.exec(line)
+    const last = items[items.length - 1]
+    if (!m) {
+      if (last) last.body += (last.body ? (blank ? '\n\n' : '\n') : '') + line.replace(/^\\/, '')
+      blank = false
+      return
+    }
+    blank = false
+    const [, number, stance, claim] = m
+    const see = SEE_LINK.exec(claim)
+    if (see) {
+      errors.push({ line: i + 1, message: `Link to claim ${see[1].replace(/\.$/, '')} has no equivalent here and was left out.` })
+      return
+    }
+    const parentNumber = number.includes('.') ? number.slice(0, number.lastIndexOf('.')) : ''
+    const parent = parentNumber ? indexOf.get(parentNumber) : -1
+    if (parent === undefined) {
+      errors.push({ line: i + 1, message: `Claim ${number} comes before its parent claim ${parentNumber}.` })
+      return
+    }
+    const tags = parseItemTags(claim)
+    if (stance === 'Con' && !tags.kind) tags.kind = 'Counter'
+    indexOf.set(number, items.length)
+    items.push({ ...tags, line: i + 1, body: '', parent })
+  })
+  if (!items.length) errors.push({ line: 1, message: 'No numbered Kialo claims found (e.g. "1.1. Pro: …").' })
+  return buildStatements(items, participants, errors)
+}
@@ -1,14 +1,38 @@
 import type { Node, Edge } from 'reactflow'
 
-type Pos = { x: number, y: number }
+export type Pos = { x: number, y: number }
 type DebateNode = Node & { data: any }
 type DebateEdge = Edge & { data?: any }
 
-const NODE_W = 320
-const NODE_H = 120
+export type NodeSize = { width: number, height: number }
+/** TB: parents above children; LR: parents left of children */
+export type LayoutDirection = 'TB' | 'LR'
+export type LayoutOptions = {
+  direction?: LayoutDirection
+  /** Measured card sizes from React Flow; falls back to node.width/height, then defaults */
+  sizes?: Map<string, NodeSize>
+  /**
+   * Incremental mode: the previous layout and the parent of each node at that time.
+   * Only subtrees whose children changed are re-laid out; everything else keeps its position.
+   */
+  previous?: { positions: Map<string, Pos>, parents: Map<string, string> }
+  /** User-pinned positions; a pinned node's subtree moves with it */
+  pinned?: Map<string, Pos>
+}
+
+export const NODE_W = 320
+export const NODE_H = 120
 const X_GAP = 60
 const Y_GAP = 180
 
+export function sizeOf(n: DebateNode | undefined, sizes?: Map<string, NodeSize>): NodeSize {
+  const measured = n ? sizes?.get(n.id) : undefined
+  return {
+    width: measured?.width || n?.width || NODE_W,
+    height: measured?.height || n?.height || NODE_H,
+  }
+}
+
 function tierFor(node: DebateNode): number {
   const kind = node.data?.kind
   if (kind === 'Evidence') return 0
@@ -42,13 +66,24 @@ function pairsFromEdges(edges: DebateEdge[]): Array<[string, string]> {
   return pairs
 }
 
-export function computeLayout(nodes: DebateNode[], edges: DebateEdge[]): Map<string, Pos> {
+export type LayoutTree = {
+  idToNode: Map<string, DebateNode>
+  /** Children in display order: tiers (Evidence, Arguments, Counters, Agreements), then strength, then title */
+  children: Map<string, string[]>
+  parentOf: Map<string, string>
+  /** Theses first, then other parentless nodes */
+  roots: DebateNode[]
+}
+
+/** The ordered tree every layout engine works from. */
+export function buildLayoutTree(nodes: DebateNode[], edges: DebateEdge[]): LayoutTree {
   const idToNode = new Map<string, DebateNode>()
   nodes.forEach(n => idToNode.set(n.id, n))
 
   const children = new Map<string, string[]>()
   const parentOf = new Map<string, string>()
   for (const [p, c] of pairsFromEdges(edges)) {
+    if (!idToNode.has(p) || !idToNode.has(c)) continue
     if (!children.has(p)) children.set(p, [])
     if (!parentOf.has(c)) { children.get(p)!.push(c); parentOf.set(c, p) }
   }
@@ -76,93 +111,128 @@ export function computeLayout(nodes: DebateNode[], edges: DebateEdge[]): Map<str
     })
   }
 
+  return { idToNode, children, parentOf, roots }
+}
+
+/**
+ * Children of `id` in placement order. A Thesis's Argument Summary goes in the
+ * middle, with the other children split half to its left and half to its right.
+ */
+export function placementOrder(tree: LayoutTree, id: string): { left: string[], summary?: string, right: string[] } {
+  const chAll = (tree.children.get(id) || []).slice()
+  let summary: string | undefined
+  if (tree.idToNode.get(id)?.data?.kind === 'Thesis') {
+    summary = chAll.find(cid => tree.idToNode.get(cid)?.data?.kind === 'Argument Summary')
+  }
+  const ch = summary ? chAll.filter(cid => cid !== summary) : chAll
+  if (!summary) return { left: ch, right: [] }
+  return { left: ch.slice(0, Math.ceil(ch.length / 2)), summary, right: ch.slice(Math.ceil(ch.length / 2)) }
+}
+
+/** Depth-first order of the layout tree, siblings in placement order (summary between its left and right siblings) */
+export function treeOrder(tree: LayoutTree): string[] {
+  const out: string[] = []
+  const seen = new Set<string>()
+  const visit = (id: string) => {
+    if (seen.has(id)) return
+    seen.add(id); out.push(id)
+    const { left, summary, right } = placementOrder(tree, id)
+    for (const c of [...left, ...(summary ? [summary] : []), ...right]) visit(c)
+  }
+  tree.roots.forEach(r => visit(r.id))
+  for (const id of tree.idToNode.keys()) visit(id)
+  return out
+}
+
+export function computeLayout(nodes: DebateNode[], edges: DebateEdge[], opts: LayoutOptions = {}): Map<string, Pos> {
+  const tree = buildLayoutTree(nodes, edges)
+  const { idToNode, roots } = tree
+  const horizontal = opts.direction === 'LR'
+
+  // "breadth" runs across siblings, "depth" from parent to child
+  const breadthOf = (id: string) => {
+    const sz = sizeOf(idToNode.get(id), opts.sizes)
+    return horizontal ? sz.height : sz.width
+  }
+  const depthSizeOf = (id: string) => {
+    const sz = sizeOf(idToNode.get(id), opts.sizes)
+    return horizontal ? sz.width : sz.height
+  }
+  const B_GAP = horizontal ? X_GAP / 2 : X_GAP
+  const D_GAP = horizontal ? X_GAP * 2 : Y_GAP
+
   const layout = new Map<string, Pos>()
+  const depthOf = new Map<string, number>()
+  const measured = new Map<string, number>()
 
   function measureList(list: string[]): number {
     if (list.length === 0) return 0
     const widths = list.map(measure)
-    return widths.reduce((a,b)=>a+b,0) + X_GAP*(list.length-1)
+    return widths.reduce((a,b)=>a+b,0) + B_GAP*(list.length-1)
   }
 
   function measure(id: string): number {
-    const chAll = (children.get(id) || []).slice()
-    const node = idToNode.get(id)!
-    let summary: string | undefined
-    if (node?.data?.kind === 'Thesis') {
-      summary = chAll.find(cid => idToNode.get(cid)?.data?.kind === 'Argument Summary')
-    }
-    const ch = summary ? chAll.filter(cid => cid !== summary) : chAll
-
-    if (ch.length === 0 && !summary) return NODE_W
-
-    if (summary) {
+    const cached = measured.get(id)
+    if (cached !== undefined) return cached
+    measured.set(id, breadthOf(id)) // guards against cycles in malformed maps
+    const { left, summary, right } = placementOrder(tree, id)
+    const own = breadthOf(id)
+    let total: number
+    if (!left.length && !right.length && !summary) total = own
+    else if (summary) {
       // split others half to left, half to right
-      const left = ch.slice(0, Math.ceil(ch.length / 2))
-      const right = ch.slice(Math.ceil(ch.length / 2))
       const leftW = measureList(left)
       const rightW = measureList(right)
-      let total = leftW + rightW + NODE_W
-      if (left.length) total += X_GAP
-      if (right.length) total += X_GAP
-      return Math.max(NODE_W, total)
+      total = leftW + rightW + measure(summary)
+      if (left.length) total += B_GAP
+      if (right.length) total += B_GAP
     } else {
-      const total = measureList(ch)
-      return Math.max(NODE_W, total)
+      total = measureList(left)
     }
+    const w = Math.max(own, total)
+    measured.set(id, w)
+    return w
   }
 
-  function place(id: string, xLeft: number, depth: number) {
+  function place(id: string, bLeft: number, depth: number) {
+    if (depthOf.has(id)) return
     const w = measure(id)
-    const xCenter = xLeft + w / 2
-
-    const node = idToNode.get(id)!
-    const isSummary = node?.data?.kind === 'Argument Summary'
-    const yBase = depth * (NODE_H + Y_GAP)
-    const y = yBase + (isSummary ? -30 : 0)  // raise summaries a bit
+    const bCenter = bLeft + w / 2
 
-    layout.set(id, { x: xCenter - NODE_W / 2, y })
-
-    let chAll = (children.get(id) || []).slice()
-    let summary: string | undefined
-    if (node?.data?.kind === 'Thesis') {
-      summary = chAll.find(cid => idToNode.get(cid)?.data?.kind === 'Argument Summary')
-    }
-    let ch = summary ? chAll.filter(cid => cid !== summary) : chAll
+    depthOf.set(id, depth)
+    layout.set(id, { x: bCenter - breadthOf(id) / 2, y: 0 }) // depth coordinate filled in below
 
-    if (!ch.length && !summary) return
+    const { left, summary, right } = placementOrder(tree, id)
+    if (!left.length && !right.length && !summary) return
 
     if (summary) {
-      const left = ch.slice(0, Math.ceil(ch.length / 2))
-      const right = ch.slice(Math.ceil(ch.length / 2))
-
       // center summary
-      const sx = xCenter - NODE_W / 2
-      place(summary, sx, depth + 1)
+      const sw = measure(summary)
+      place(summary, bCenter - sw / 2, depth + 1)
 
       // lay out right children from summary's right edge
-      let rx = xCenter + NODE_W / 2 + (right.length ? X_GAP : 0)
+      let rx = bCenter + sw / 2 + (right.length ? B_GAP : 0)
       for (const cid of right) {
         const cw = measure(cid)
         place(cid, rx, depth + 1)
-        rx += cw + X_GAP
+        rx += cw + B_GAP
       }
 
       // lay out left children from summary's left edge going outward
-      let lx = xCenter - NODE_W / 2 - (left.length ? X_GAP : 0)
+      let lx = bCenter - sw / 2 - (left.length ? B_GAP : 0)
       for (let i = left.length - 1; i >= 0; i--) {
         const cid = left[i]
         const cw = measure(cid)
         place(cid, lx - cw, depth + 1)
-        lx -= cw + X_GAP
+        lx -= cw + B_GAP
       }
     } else {
       // no summary: standard left-to-right
-      ch = ch || []
-      let cursor = xLeft
-      for (const cid of ch) {
+      let cursor = bLeft
+      for (const cid of left) {
         const cw = measure(cid)
         place(cid, cursor, depth + 1)
-        cursor += cw + X_GAP
+        cursor += cw + B_GAP
       }
     }
   }
@@ -171,16 +241,193 @@ export function computeLayout(nodes: DebateNode[], edges: DebateEdge[]): Map<str
   for (const r of roots) {
     const w = measure(r.id)
     place(r.id, cursor, 0)
-    cursor += w + 2 * X_GAP
+    cursor += w + 2 * B_GAP
   }
 
   // place unconnected nodes if any
-  const placed = new Set(layout.keys())
-  for (const n of nodes) if (!placed.has(n.id)) {
-    place(n.id, cursor, 0); cursor += NODE_W + 2*X_GAP
+  for (const n of nodes) if (!layout.has(n.id)) {
+    const w = measure(n.id)
+    place(n.id, cursor, 0); cursor += w + 2*B_GAP
+  }
+
+  // rows (columns when LR) are as deep as their deepest card
+  const rowSize: number[] = []
+  for (const [id, d] of depthOf) rowSize[d] = Math.max(rowSize[d] || 0, depthSizeOf(id))
+  const rowStart: number[] = []
+  let acc = 0
+  for (let d = 0; d < rowSize.length; d++) { rowStart[d] = acc; acc += (rowSize[d] || 0) + D_GAP }
+
+  for (const [id, p] of layout) {
+    const isSummary = idToNode.get(id)?.data?.kind === 'Argument Summary'
+    const dPos = rowStart[depthOf.get(id)!] + (isSummary ? -30 : 0)  // raise summaries a bit
+    layout.set(id, horizontal ? { x: dPos, y: p.x } : { x: p.x, y: dPos })
+  }
+
+  const result = opts.previous ? keepStable(tree, layout, opts.previous, opts) : layout
+  if (opts.pinned) applyPins(tree, result, opts.pinned)
+  return result
+}
+
+function subtreeOf(tree: LayoutTree, id: string): string[] {
+  const out: string[] = []
+  const seen = new Set<string>()
+  const stack = [id]
+  while (stack.length) {
+    const cur = stack.pop()!
+    if (seen.has(cur)) continue
+    seen.add(cur); out.push(cur)
+    for (const c of tree.children.get(cur) || []) stack.push(c)
   }
+  return out
+}
+
+function shift(layout: Map<string, Pos>, ids: string[], dx: number, dy: number) {
+  for (const id of ids) {
+    const p = layout.get(id)
+    if (p) layout.set(id, { x: p.x + dx, y: p.y + dy })
+  }
+}
+
+/**
+ * Merge a fresh layout into the previous one: nodes whose children were added,
+ * removed or reattached get their subtree re-laid out around their old position,
+ * and branches beside them are pushed aside only if they would now overlap it.
+ */
+function keepStable(tree: LayoutTree, fresh: Map<string, Pos>, previous: NonNullable<LayoutOptions['previous']>, opts: LayoutOptions): Map<string, Pos> {
+  const prev = previous.positions
+  const horizontal = opts.direction === 'LR'
+  const bPos = (p: Pos) => horizontal ? p.y : p.x
+  const bSize = (id: string) => {
+    const sz = sizeOf(tree.idToNode.get(id), opts.sizes)
+    return horizontal ? sz.height : sz.width
+  }
+
+  const dirty = new Set<string>()
+  for (const id of tree.idToNode.keys()) {
+    const parent = tree.parentOf.get(id)
+    const oldParent = previous.parents.get(id)
+    if (prev.has(id) && parent === oldParent) continue
+    if (parent) dirty.add(parent); else dirty.add(id)
+    if (oldParent && tree.idToNode.has(oldParent)) dirty.add(oldParent)
+  }
+  for (const [id, oldParent] of previous.parents) {
+    if (!tree.idToNode.has(id) && tree.idToNode.has(oldParent)) dirty.add(oldParent)
+  }
+  // only the top-most dirty node of each branch matters; its subtree is redone anyway
+  const ancestorDirty = (id: string) => {
+    const seen = new Set<string>([id])
+    for (let p = tree.parentOf.get(id); p && !seen.has(p); p = tree.parentOf.get(p)) {
+      if (dirty.has(p)) return true
+      seen.add(p)
+    }
+    return false
+  }
+  const roots = Array.from(dirty).filter(id => !ancestorDirty(id))
+
+  const out = new Map<string, Pos>()
+  for (const id of tree.idToNode.keys()) {
+    const p = prev.get(id)
+    if (p) out.set(id, { ...p })
+  }
+
+  const extent = (ids: string[], layout: Map<string, Pos>) => {
+    let lo = Infinity, hi = -Infinity
+    for (const id of ids) {
+      const p = layout.get(id)
+      if (!p) continue
+      lo = Math.min(lo, bPos(p)); hi = Math.max(hi, bPos(p) + bSize(id))
+    }
+    return { lo, hi }
+  }
+
+  for (const d of roots) {
+    const sub = subtreeOf(tree, d)
+    const f = fresh.get(d)
+    if (!f) continue
+    const anchor = prev.get(d)
+    if (!anchor) {
+      // a brand-new root: put its fresh subtree to the right of (below, when LR) everything else
+      const all = extent(Array.from(out.keys()), out)
+      const freshExt = extent(sub, fresh)
+      const db = (Number.isFinite(all.hi) ? all.hi + 2 * X_GAP : 0) - freshExt.lo
+      for (const id of sub) {
+        const p = fresh.get(id)!
+        out.set(id, horizontal ? { x: p.x, y: p.y + db } : { x: p.x + db, y: p.y })
+      }
+      continue
+    }
+    for (const id of sub) {
+      const p = fresh.get(id)
+      if (p) out.set(id, { x: p.x - f.x + anchor.x, y: p.y - f.y + anchor.y })
+    }
 
-  return layout
+    // make room: neighbouring branches move only as far as needed to clear the re-laid subtree
+    const center = bPos(anchor) + bSize(d) / 2
+    const inSub = new Set(sub)
+    const lower: string[] = [], higher: string[] = []
+    const split = (ids: string[]) => {
+      for (const sib of ids) {
+        const sp = out.get(sib)
+        if (!sp) continue
+        const moved = subtreeOf(tree, sib).filter(id => !inSub.has(id))
+        if (bPos(sp) + bSize(sib) / 2 > center) higher.push(...moved); else lower.push(...moved)
+      }
+    }
+    const seen = new Set<string>([d])
+    let cur = d
+    for (let p = tree.parentOf.get(cur); p && !seen.has(p); cur = p, p = tree.parentOf.get(p)) {
+      seen.add(p)
+      split((tree.children.get(p) || []).filter(c => c !== cur))
+    }
+    split(tree.roots.map(r => r.id).filter(id => id !== cur && !tree.parentOf.has(id)))
+    // overlap only counts between cards that share a row (column, when LR)
+    const dPos = (p: Pos) => horizontal ? p.x : p.y
+    const dSize = (id: string) => {
+      const sz = sizeOf(tree.idToNode.get(id), opts.sizes)
+      return horizontal ? sz.width : sz.height
+    }
+    const gap = horizontal ? X_GAP / 2 : X_GAP
+    let needHi = 0, needLo = 0
+    for (const a of sub) {
+      const pa = out.get(a)
+      if (!pa) continue
+      const rowOf = (b: string) => {
+        const pb = out.get(b)
+        return pb && dPos(pb) < dPos(pa) + dSize(a) && dPos(pa) < dPos(pb) + dSize(b) ? pb : undefined
+      }
+      for (const b of higher) {
+        const pb = rowOf(b)
+        if (pb) needHi = Math.max(needHi, bPos(pa) + bSize(a) + gap - bPos(pb))
+      }
+      for (const b of lower) {
+        const pb = rowOf(b)
+        if (pb) needLo = Math.max(needLo, bPos(pb) + bSize(b) + gap - bPos(pa))
+      }
+    }
+    if (needHi > 0) horizontal ? shift(out, higher, 0, needHi) : shift(out, higher, needHi, 0)
+    if (needLo > 0) horizontal ? shift(out, lower, 0, -needLo) : shift(out, lower, -needLo, 0)
+  }
+
+  // anything still unplaced (shouldn't happen) falls back to the fresh layout
+  for (const [id, p] of fresh) if (!out.has(id)) out.set(id, p)
+  return out
+}
+
+/** Move each pinned node to its pinned position, carrying its subtree along (ancestors first). */
+export function applyPins(tree: LayoutTree, layout: Map<string, Pos>, pinned: Map<string, Pos>) {
+  if (!pinned.size) return
+  const depth = (id: string) => {
+    let d = 0
+    const seen = new Set<string>([id])
+    for (let p = tree.parentOf.get(id); p && !seen.has(p); p = tree.parentOf.get(p)) { seen.add(p); d++ }
+    return d
+  }
+  const ids = Array.from(pinned.keys()).filter(id => layout.has(id)).sort((a, b) => depth(a) - depth(b))
+  for (const id of ids) {
+    const cur = layout.get(id)!
+    const target = pinned.get(id)!
+    shift(layout, subtreeOf(tree, id), target.x - cur.x, target.y - cur.y)
+  }
 }
 
 export const LEGEND_KIND_ORDER = ['Thesis','Argument','Argument Summary','Counter','Evidence','Agreement']
\ No newline at end of file
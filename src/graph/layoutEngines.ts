@@ -0,0 +1,167 @@
+// src/graph/layoutEngines.ts
+import type { Node, Edge } from 'reactflow'
+import type { ELK as ElkApi, ElkNode, ElkExtendedEdge } from 'elkjs/lib/elk-api'
+import { computeLayout, buildLayoutTree, placementOrder, treeOrder, sizeOf, applyPins, LayoutOptions, Pos } from './layout'
+
+type DebateNode = Node & { data: any }
+type DebateEdge = Edge & { data?: any }
+
+export type LayoutEngineId = 'tree' | 'elk-layered' | 'radial'
+
+export type LayoutEngine = {
+  id: LayoutEngineId
+  label: string
+  /** Whether the engine honours LayoutOptions.direction */
+  directional: boolean
+  run: (nodes: DebateNode[], edges: DebateEdge[], opts: LayoutOptions) => Promise<Map<string, Pos>>
+}
+
+// ---------- ELK layered ----------
+
+// elkjs is large; load it the first time an ELK layout is requested
+let elkInstance: Promise<ElkApi> | undefined
+function getElk() {
+  if (!elkInstance) elkInstance = import('elkjs/lib/elk.bundled.js').then(m => new m.default())
+  return elkInstance
+}
+
+async function elkLayered(nodes: DebateNode[], edges: DebateEdge[], opts: LayoutOptions): Promise<Map<string, Pos>> {
+  const tree = buildLayoutTree(nodes, edges)
+  const order = treeOrder(tree)
+  const children: ElkNode[] = order.map(id => {
+    const sz = sizeOf(tree.idToNode.get(id), opts.sizes)
+    return { id, width: sz.width, height: sz.height }
+  })
+  const elkEdges: ElkExtendedEdge[] = []
+  for (const p of order) {
+    const { left, summary, right } = placementOrder(tree, p)
+    for (const c of [...left, ...(summary ? [summary] : []), ...right]) {
+      elkEdges.push({
+        id: `${p}->${c}`, sources: [p], targets: [c],
+        // keep the Thesis → Argument Summary edge straight so the summary sits centered under its thesis
+        layoutOptions: c === summary ? { 'elk.layered.priority.straightness': '20' } : undefined,
+      })
+    }
+  }
+  const graph: ElkNode = {
+    id: 'root',
+    layoutOptions: {
+      'elk.algorithm': 'layered',
+      'elk.direction': opts.direction === 'LR' ? 'RIGHT' : 'DOWN',
+      'elk.spacing.nodeNode': '60',
+      'elk.layered.spacing.nodeNodeBetweenLayers': opts.direction === 'LR' ? '120' : '180',
+      // tier ordering (Evidence, Arguments, Counters, Agreements) comes from the model order
+      'elk.layered.considerModelOrder.strategy': 'NODES_AND_EDGES',
+      'elk.layered.crossingMinimization.forceNodeModelOrder': 'true',
+      'elk.layered.nodePlacement.strategy': 'NETWORK_SIMPLEX',
+    },
+    children,
+    edges: elkEdges,
+  }
+  const elk = await getElk()
+  const res = await elk.layout(graph)
+  const layout = new Map<string, Pos>()
+  for (const c of res.children || []) layout.set(c.id, { x: c.x || 0, y: c.y || 0 })
+
+  // ELK only approximates the centering; snap each Thesis over its summary (theses sit alone on the first layer)
+  for (const r of tree.roots) {
+    const { summary } = placementOrder(tree, r.id)
+    const tp = layout.get(r.id), sp = summary && layout.get(summary)
+    if (!tp || !sp) continue
+    const ts = sizeOf(r, opts.sizes), ss = sizeOf(tree.idToNode.get(summary), opts.sizes)
+    if (opts.direction === 'LR') tp.y = sp.y + ss.height / 2 - ts.height / 2
+    else tp.x = sp.x + ss.width / 2 - ts.width / 2
+  }
+  if (opts.pinned) applyPins(tree, layout, opts.pinned)
+  return layout
+}
+
+// ---------- radial ----------
+
+const RING_GAP = 140
+
+/**
+ * One radial cluster per root. Each subtree gets an angular wedge proportional to
+ * its leaf count, in tier order; a Thesis's Argument Summary is centered straight below it.
+ */
+async function radial(nodes: DebateNode[], edges: DebateEdge[], opts: LayoutOptions): Promise<Map<string, Pos>> {
+  const tree = buildLayoutTree(nodes, edges)
+  const ordered = (id: string) => {
+    const { left, summary, right } = placementOrder(tree, id)
+    return [...left, ...(summary ? [summary] : []), ...right]
+  }
+  const maxSide = Math.max(...nodes.map(n => {
+    const sz = sizeOf(n, opts.sizes)
+    return Math.max(sz.width, sz.height)
+  }), 1)
+  const ring = maxSide + RING_GAP
+
+  const leaves = new Map<string, number>()
+  const countLeaves = (id: string, seen: Set<string>): number => {
+    if (seen.has(id)) return 1
+    seen.add(id)
+    const kids = ordered(id)
+    const n = kids.length ? kids.reduce((a, c) => a + countLeaves(c, seen), 0) : 1
+    leaves.set(id, n)
+    return n
+  }
+
+  const centers = new Map<string, Pos>()
+  let clusterX = 0
+  const placed = new Set<string>()
+  const roots = [...tree.roots.map(r => r.id), ...nodes.map(n => n.id).filter(id => !tree.parentOf.has(id))]
+  for (const rootId of roots) {
+    if (placed.has(rootId)) continue
+    countLeaves(rootId, new Set())
+    const polar = new Map<string, { depth: number, angle: number }>()
+    const visit = (id: string, depth: number, a0: number, a1: number) => {
+      if (placed.has(id)) return
+      placed.add(id)
+      polar.set(id, { depth, angle: (a0 + a1) / 2 })
+      const kids = ordered(id).filter(c => !placed.has(c))
+      const total = kids.reduce((a, c) => a + (leaves.get(c) || 1), 0)
+      let a = a0
+      for (const c of kids) {
+        const span = (a1 - a0) * (leaves.get(c) || 1) / total
+        visit(c, depth + 1, a, a + span)
+        a += span
+      }
+    }
+    // full circle for a root; rotate it so a Thesis's summary points straight down (π/2)
+    let start = Math.PI / 2 - Math.PI
+    const { left, summary } = placementOrder(tree, rootId)
+    if (summary) {
+      const total = leaves.get(rootId) || 1
+      const before = left.reduce((a, c) => a + (leaves.get(c) || 1), 0)
+      start = Math.PI / 2 - 2 * Math.PI * (before + (leaves.get(summary) || 1) / 2) / total
+    }
+    visit(rootId, 0, start, start + 2 * Math.PI)
+
+    // each ring is at least one step out from the previous and wide enough for the cards on it
+    const perDepth: number[] = []
+    for (const { depth } of polar.values()) perDepth[depth] = (perDepth[depth] || 0) + 1
+    const radii: number[] = [0]
+    for (let d = 1; d < perDepth.length; d++) {
+      radii[d] = Math.max(radii[d - 1] + ring, (perDepth[d] || 0) * maxSide / (2 * Math.PI))
+    }
+    const radius = radii[radii.length - 1] + maxSide / 2
+    for (const [id, { depth, angle }] of polar) {
+      centers.set(id, { x: Math.cos(angle) * radii[depth] + clusterX + radius, y: Math.sin(angle) * radii[depth] })
+    }
+    clusterX += 2 * radius + RING_GAP
+  }
+
+  const layout = new Map<string, Pos>()
+  for (const [id, c] of centers) {
+    const sz = sizeOf(tree.idToNode.get(id), opts.sizes)
+    layout.set(id, { x: c.x - sz.width / 2, y: c.y - sz.height / 2 })
+  }
+  if (opts.pinned) applyPins(tree, layout, opts.pinned)
+  return layout
+}
+
+export const LAYOUT_ENGINES: Record<LayoutEngineId, LayoutEngine> = {
+  tree: { id: 'tree', label: 'Tree (default)', directional: true, run: async (n, e, o) => computeLayout(n, e, o) },
+  'elk-layered': { id: 'elk-layered', label: 'ELK layered', directional: true, run: elkLayered },
+  radial: { id: 'radial', label: 'Radial', directional: false, run: radial },
+}
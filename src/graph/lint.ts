@@ -0,0 +1,155 @@
+// src/graph/lint.ts
+import type { DebateNode, DebateEdge, Snapshot, StatementKind } from './types'
+import { supportsParentError, targetError } from './rules'
+import { edgeKindOf } from './tree'
+
+export type LintSeverity = 'error' | 'warning'
+
+export type LintFix = {
+  label: string
+  apply: (s: Snapshot) => Snapshot
+}
+
+export type LintIssue = {
+  /** Stable per (rule, subject) so the panel can key rows */
+  id: string
+  rule: string
+  severity: LintSeverity
+  message: string
+  /** Nodes involved; the first one is focused when the issue is clicked */
+  nodeIds: string[]
+  edgeId?: string
+  fix?: LintFix
+}
+
+const STRENGTH_KINDS: StatementKind[] = ['Argument', 'Counter', 'Evidence']
+
+const label = (n: DebateNode) => `“${n.data.title || 'Untitled'}” (${n.data.kind})`
+
+const removeEdges = (ids: string[]) => (s: Snapshot): Snapshot => {
+  const drop = new Set(ids)
+  return { ...s, edges: s.edges.filter(e => !drop.has(e.id)) }
+}
+
+/** Check a snapshot against the structural rules of a debate map. */
+export function lintSnapshot(s: Snapshot): LintIssue[] {
+  const issues: LintIssue[] = []
+  const byId = new Map(s.nodes.map(n => [n.id, n]))
+  const participantIds = new Set(s.participants.map(p => p.id))
+
+  // ---- edges: dangling, self loops, duplicates, attachment rules ----
+  const seenPairs = new Map<string, string>()
+  for (const e of s.edges) {
+    const kind = edgeKindOf(e) || ''
+    const src = byId.get(e.source)
+    const trg = byId.get(e.target)
+    if (!src || !trg) {
+      issues.push({
+        id: `dangling:${e.id}`, rule: 'dangling-edge', severity: 'error', edgeId: e.id,
+        nodeIds: [src?.id, trg?.id].filter(Boolean) as string[],
+        message: `A ${kind || 'link'} edge points to a deleted statement.`,
+        fix: { label: 'Remove edge', apply: removeEdges([e.id]) },
+      })
+      continue
+    }
+    if (e.source === e.target) {
+      issues.push({
+        id: `self:${e.id}`, rule: 'self-edge', severity: 'error', edgeId: e.id, nodeIds: [src.id],
+        message: `${label(src)} has a ${kind} edge to itself.`,
+        fix: { label: 'Remove edge', apply: removeEdges([e.id]) },
+      })
+      continue
+    }
+    const a = e.source < e.target ? e.source : e.target
+    const b = e.source < e.target ? e.target : e.source
+    const undirected = kind === 't2-link' || kind === 'refers-to'
+    const pairKey = `${kind}|${undirected ? a : e.source}|${undirected ? b : e.target}`
+    if (seenPairs.has(pairKey)) {
+      issues.push({
+        id: `dup:${e.id}`, rule: 'duplicate-edge', severity: 'warning', edgeId: e.id, nodeIds: [src.id, trg.id],
+        message: `Duplicate ${kind} edge between ${label(src)} and ${label(trg)}.`,
+        fix: { label: 'Remove duplicate', apply: removeEdges([e.id]) },
+      })
+      continue
+    }
+    seenPairs.set(pairKey, e.id)
+
+    if (kind === 'supports') {
+      const err = supportsParentError(src, trg)
+      if (err) issues.push({ id: `attach:${e.id}`, rule: 'invalid-attachment', severity: 'error', edgeId: e.id, nodeIds: [trg.id, src.id], message: `${label(trg)}: ${err}` })
+    } else if (kind === 'evidence-of' || kind === 'attacks' || kind === 'agrees-with') {
+      const err = targetError(kind, src, trg)
+      if (err) issues.push({ id: `attach:${e.id}`, rule: 'invalid-attachment', severity: 'error', edgeId: e.id, nodeIds: [src.id, trg.id], message: `${label(src)}: ${err}` })
+    } else if (kind === 't2-link') {
+      const ok = STRENGTH_KINDS.includes(src.data.kind) && src.data.kind === trg.data.kind &&
+        src.data.participantId === trg.data.participantId &&
+        src.data.strengthType === 'Type 2' && trg.data.strengthType === 'Type 2'
+      if (!ok) {
+        issues.push({
+          id: `t2:${e.id}`, rule: 'invalid-t2-link', severity: 'warning', edgeId: e.id, nodeIds: [src.id, trg.id],
+          message: `Type 2 link between ${label(src)} and ${label(trg)} must join same-kind, same-participant Type 2 statements.`,
+          fix: { label: 'Remove link', apply: removeEdges([e.id]) },
+        })
+      }
+    }
+  }
+
+  // ---- per node: parent edges, summaries, strength, participants ----
+  const liveEdges = s.edges.filter(e => byId.has(e.source) && byId.has(e.target) && e.source !== e.target)
+  for (const n of s.nodes) {
+    const k = n.data.kind
+    if (!participantIds.has(n.data.participantId)) {
+      issues.push({ id: `participant:${n.id}`, rule: 'unknown-participant', severity: 'error', nodeIds: [n.id], message: `${label(n)} belongs to unknown participant “${n.data.participantId}”.` })
+    }
+
+    const outKind = k === 'Counter' ? 'attacks' : k === 'Evidence' ? 'evidence-of' : k === 'Agreement' ? 'agrees-with' : ''
+    const parentEdges = outKind
+      ? liveEdges.filter(e => edgeKindOf(e) === outKind && e.source === n.id)
+      : liveEdges.filter(e => edgeKindOf(e) === 'supports' && e.target === n.id)
+    if (parentEdges.length === 0 && (outKind || k === 'Argument Summary')) {
+      issues.push({ id: `orphan:${n.id}`, rule: 'orphan', severity: 'error', nodeIds: [n.id], message: `${label(n)} is not attached to anything.` })
+    }
+    if (parentEdges.length > 1) {
+      const extra = parentEdges.slice(1).map(e => e.id)
+      issues.push({
+        id: `parents:${n.id}`, rule: 'multiple-parents', severity: 'warning', nodeIds: [n.id],
+        message: `${label(n)} is attached in ${parentEdges.length} places; only the first is used for layout.`,
+        fix: { label: 'Keep first attachment', apply: removeEdges(extra) },
+      })
+    }
+
+    if (k === 'Thesis') {
+      const summaries = liveEdges.filter(e => edgeKindOf(e) === 'supports' && e.source === n.id && byId.get(e.target)?.data.kind === 'Argument Summary')
+      if (summaries.length > 1) {
+        issues.push({
+          id: `summaries:${n.id}`, rule: 'multiple-summaries', severity: 'error',
+          nodeIds: [n.id, ...summaries.map(e => e.target)],
+          message: `${label(n)} has ${summaries.length} Argument Summaries; only one is allowed.`,
+        })
+      }
+    }
+
+    if (STRENGTH_KINDS.includes(k)) {
+      if (!n.data.strengthType) {
+        issues.push({ id: `strength:${n.id}`, rule: 'missing-strength', severity: 'warning', nodeIds: [n.id], message: `${label(n)} has no statement Type (1–4).` })
+      } else if (n.data.strengthType === 'Type 2') {
+        const hasSister = liveEdges.some(e => edgeKindOf(e) === 't2-link' && (e.source === n.id || e.target === n.id))
+        if (!hasSister) {
+          issues.push({ id: `sister:${n.id}`, rule: 't2-without-sister', severity: 'warning', nodeIds: [n.id], message: `${label(n)} is Type 2 but has no linked sister statement.` })
+        }
+      }
+    } else if (n.data.strengthType) {
+      const id = n.id
+      issues.push({
+        id: `strength-kind:${n.id}`, rule: 'unexpected-strength', severity: 'warning', nodeIds: [n.id],
+        message: `${label(n)} carries a statement Type, which only Arguments, Counters and Evidence use.`,
+        fix: {
+          label: 'Clear Type',
+          apply: st => ({ ...st, nodes: st.nodes.map(m => m.id === id ? { ...m, data: { ...m.data, strengthType: undefined } } : m) }),
+        },
+      })
+    }
+  }
+
+  return issues
+}
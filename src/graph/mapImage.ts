@@ -0,0 +1,359 @@
+// src/graph/mapImage.ts
+//
+// Draws the map as a standalone SVG: cards styled like NodeCard, thick edges
+// like ThickEdge and dashed Type 2 / refers-to links like LinkEdge, with an
+// optional legend. Nothing is fetched, so the image (and a PNG rasterized from
+// it) works offline; text is wrapped with a caller-supplied measure.
+import { getBezierPath, Position } from 'reactflow'
+import type { Participant, StatementKind, StrengthType } from './types'
+import { KIND_COLORS } from './types'
+import { kindColor, participantColor } from '../components/NodeCard'
+import { colorFor, labelFor } from '../components/ThickEdge'
+import { NODE_W } from './layout'
+
+/** Width of `text` in pixels when drawn in the CSS font `font` */
+export type TextMeasure = (text: string, font: string) => number
+
+export type ImageRect = { x: number, y: number, width: number, height: number }
+
+/** A node as React Flow renders it: position and measured width in flow coordinates */
+export type ImageNode = {
+  id: string
+  position: { x: number, y: number }
+  width?: number | null
+  data: {
+    title: string
+    body?: string
+    kind: StatementKind
+    participantId: string
+    strengthType?: StrengthType
+    firstMention?: string
+    collapsed?: boolean
+    argLabel?: 'IN' | 'OUT' | 'UNDEC'
+    score?: number
+  }
+}
+export type ImageEdge = { id: string, source: string, target: string, data?: { kind?: string } }
+
+export type MapImageOptions = {
+  participants: Participant[]
+  measure: TextMeasure
+  /** Edges leave cards on the right instead of the bottom */
+  horizontal?: boolean
+  /** Draw only this part of the canvas (flow coordinates) */
+  clip?: ImageRect
+  legend?: boolean
+  /** Output pixels per flow pixel */
+  scale?: number
+}
+
+export type MapImage = { svg: string, width: number, height: number }
+
+const FONT_FAMILY = "Inter, ui-sans-serif, system-ui, sans-serif"
+const font = (size: number, weight = 400) => `${weight} ${size}px ${FONT_FAMILY}`
+const MARGIN = 24
+const BORDER = 5
+const PAD_X = 14
+const PAD_Y = 12
+
+// the .badge, .strength-*, .arg-* and .first-mention rules in styles.css
+const KIND_BADGE_BORDERS: Record<StatementKind, string> = {
+  Thesis: '#93c5fd',
+  Argument: '#c4b5fd',
+  'Argument Summary': '#6ee7b7',
+  Counter: '#fca5a5',
+  Evidence: '#fcd34d',
+  Agreement: '#67e8f9',
+}
+const STRENGTH_BADGES: Record<StrengthType, { fill: string, color: string, border: string }> = {
+  'Type 1': { fill: '#ecfdf5', color: '#065f46', border: '#a7f3d0' },
+  'Type 2': { fill: '#eff6ff', color: '#1e40af', border: '#bfdbfe' },
+  'Type 3': { fill: '#f8fafc', color: '#334155', border: '#cbd5e1' },
+  'Type 4': { fill: 'url(#type4-hatch)', color: '#374151', border: '#9ca3af' },
+}
+const ARG_BADGES = {
+  IN: { fill: '#ecfdf5', color: '#065f46', border: '#a7f3d0' },
+  OUT: { fill: '#fef2f2', color: '#991b1b', border: '#fecaca' },
+  UNDEC: { fill: '#fffbeb', color: '#92400e', border: '#fde68a' },
+}
+const KINDS: StatementKind[] = ['Thesis', 'Argument', 'Argument Summary', 'Counter', 'Evidence', 'Agreement']
+const STRENGTHS: StrengthType[] = ['Type 1', 'Type 2', 'Type 3', 'Type 4']
+const STRENGTH_KINDS: StatementKind[] = ['Argument', 'Counter', 'Evidence']
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+const num = (n: number) => String(Math.round(n * 100) / 100)
+
+type Run = { text: string, link?: boolean }
+type Line = Run[]
+
+/** Greedy word wrap; `[[id|label]]` links become underlined runs showing the label */
+function wrap(text: string, maxWidth: number, f: string, measure: TextMeasure, links = false): Line[] {
+  const lines: Line[] = []
+  for (const paragraph of text.split(/\r?\n/)) {
+    const runs: Run[] = []
+    for (const part of links ? paragraph.split(/(\[\[[^\]]+\]\])/g) : [paragraph]) {
+      if (!part) continue
+      if (links && part.startsWith('[[') && part.endsWith(']]')) {
+        const [id, label] = part.slice(2, -2).split('|')
+        runs.push({ text: label || id, link: true })
+      } else runs.push({ text: part })
+    }
+    // split into words that keep their run's styling
+    const words: Run[] = []
+    for (const r of runs) for (const w of r.text.split(/(?<=\s)/)) if (w) words.push({ text: w, link: r.link })
+    let line: Line = []
+    let width = 0
+    const flush = () => { lines.push(line); line = []; width = 0 }
+    for (const w of words) {
+      let ww = measure(w.text.trimEnd(), f)
+      if (width && width + ww > maxWidth) flush()
+      if (!width && !w.text.trim()) continue
+      // a word wider than the card is broken between characters
+      let rest = w.text
+      while (ww > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1
+        while (cut > 1 && measure(rest.slice(0, cut), f) > maxWidth) cut--
+        line.push({ text: rest.slice(0, cut), link: w.link }); flush()
+        rest = rest.slice(cut)
+        ww = measure(rest.trimEnd(), f)
+      }
+      line.push({ text: rest, link: w.link })
+      width += measure(rest, f)
+    }
+    flush()
+  }
+  return lines
+}
+
+type Badge = { text: string, fill: string, color: string, border: string, size: number, padX: number }
+
+function badge(b: Badge, x: number, y: number, measure: TextMeasure): { svg: string, width: number } {
+  const w = measure(b.text, font(b.size, 800)) + b.text.length * 0.25 + b.padX * 2 + 2
+  const h = b.size + 10
+  return {
+    width: w,
+    svg: `<rect x="${num(x)}" y="${num(y)}" width="${num(w)}" height="${h}" rx="${h / 2}" fill="${b.fill}" stroke="${b.border}"/>` +
+      `<text x="${num(x + w / 2)}" y="${num(y + h / 2)}" text-anchor="middle" dominant-baseline="central" font-size="${b.size}" font-weight="800" letter-spacing=".25" fill="${b.color}">${esc(b.text)}</text>`,
+  }
+}
+
+type Card = { id: string, x: number, y: number, width: number, height: number, svg: string }
+
+function drawCard(n: ImageNode, opts: MapImageOptions): Card {
+  const { measure } = opts
+  const d = n.data
+  const width = n.width || NODE_W
+  const x = n.position.x, y = n.position.y
+  const inner = width - 2 * (BORDER + PAD_X)
+  const left = x + BORDER + PAD_X
+  const parts: string[] = []
+  let cy = y + BORDER + PAD_Y
+
+  // meta row: kind, speaker, then strength/label/score pushed right like the flex row
+  const speakerCol = participantColor(d.participantId, opts.participants.map(p => p.id))
+  const speaker = opts.participants.find(p => p.id === d.participantId)?.name || d.participantId
+  const leftBadges: Badge[] = [
+    { text: d.kind, fill: KIND_COLORS[d.kind], color: '#0f172a', border: KIND_BADGE_BORDERS[d.kind], size: 11, padX: 9 },
+    { text: speaker, fill: speakerCol, color: '#fff', border: 'rgba(0,0,0,.08)', size: 11, padX: 9 },
+  ]
+  const rightBadges: Badge[] = []
+  if (STRENGTH_KINDS.includes(d.kind) && d.strengthType) rightBadges.push({ text: d.strengthType, ...STRENGTH_BADGES[d.strengthType], size: 11, padX: 9 })
+  if (d.argLabel) rightBadges.push({ text: d.argLabel, ...ARG_BADGES[d.argLabel], size: 10, padX: 7 })
+  if (d.score !== undefined) rightBadges.push({ text: String(Math.round(d.score * 100)), fill: '#f1f5f9', color: '#0f172a', border: '#cbd5e1', size: 10, padX: 7 })
+  let bx = left
+  for (const b of leftBadges) { const r = badge(b, bx, cy, measure); parts.push(r.svg); bx += r.width + 10 }
+  const rightWidths = rightBadges.map(b => badge(b, 0, 0, measure).width)
+  let rx = Math.max(bx, left + inner - rightWidths.reduce((s, w) => s + w + 10, -10))
+  rightBadges.forEach((b, i) => { parts.push(badge(b, rx, cy, measure).svg); rx += rightWidths[i] + 10 })
+  if (d.collapsed) {
+    parts.push(`<text x="${num(left + inner)}" y="${num(cy + 10.5)}" text-anchor="end" dominant-baseline="central" font-size="12" fill="#5b6473" opacity=".7">(collapsed)</text>`)
+  }
+  cy += 21
+
+  // title
+  const summary = d.kind === 'Argument Summary'
+  const titleSize = summary ? 22 : 17
+  const titleFont = font(titleSize, summary ? 800 : 700)
+  cy += 6
+  for (const line of wrap(d.title || 'Untitled', inner, titleFont, measure)) {
+    parts.push(`<text x="${num(left)}" y="${num(cy + titleSize * 0.95)}" font-size="${titleSize}" font-weight="${summary ? 800 : 700}" fill="#0f172a">${esc(line.map(r => r.text).join(''))}</text>`)
+    cy += titleSize * 1.2
+  }
+  cy += 6
+
+  if (d.firstMention) {
+    const label = `First mention: ${d.firstMention}`
+    const w = measure(label, font(11)) + 18
+    cy += 6
+    parts.push(`<rect x="${num(left)}" y="${num(cy)}" width="${num(w)}" height="19" rx="8" fill="#f1f5f9" stroke="#cbd5e1"/>`)
+    parts.push(`<text x="${num(left + 9)}" y="${num(cy + 9.5)}" dominant-baseline="central" font-size="11" fill="#334155">${esc(label)}</text>`)
+    cy += 19
+  }
+
+  if (d.body?.trim()) {
+    const lines = wrap(d.body, inner, font(13), measure, true)
+    const height = Math.max(80, lines.length * 16)
+    for (const [i, line] of lines.entries()) {
+      const spans = line.map(r => r.link
+        ? `<tspan fill="#2563eb" text-decoration="underline">${esc(r.text)}</tspan>`
+        : esc(r.text)).join('')
+      parts.push(`<text x="${num(left)}" y="${num(cy + i * 16 + 12.5)}" font-size="13" fill="#374151" xml:space="preserve">${spans}</text>`)
+    }
+    cy += height
+  }
+
+  const height = cy + PAD_Y + BORDER - y
+  const speakerBorder = `<path d="M${num(x + BORDER / 2)} ${num(y + height - 16)} V${num(y + 16)} Q${num(x + BORDER / 2)} ${num(y + BORDER / 2)} ${num(x + 16)} ${num(y + BORDER / 2)} H${num(x + width - 16)}" fill="none" stroke="${speakerCol}" stroke-width="${BORDER}"/>`
+  const kindBorder = `<path d="M${num(x + width - 16)} ${num(y + BORDER / 2)} Q${num(x + width - BORDER / 2)} ${num(y + BORDER / 2)} ${num(x + width - BORDER / 2)} ${num(y + 16)} V${num(y + height - 16)} Q${num(x + width - BORDER / 2)} ${num(y + height - BORDER / 2)} ${num(x + width - 16)} ${num(y + height - BORDER / 2)} H${num(x + 16)} Q${num(x + BORDER / 2)} ${num(y + height - BORDER / 2)} ${num(x + BORDER / 2)} ${num(y + height - 16)}" fill="none" stroke="${kindColor(d.kind)}" stroke-width="${BORDER}"/>`
+  const svg = `<g data-id="${esc(n.id)}">` +
+    `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" rx="16" fill="#FFF7E6" filter="url(#card-shadow)"/>` +
+    kindBorder + speakerBorder + parts.join('') + '</g>'
+  return { id: n.id, x, y, width, height, svg }
+}
+
+function drawLegend(x: number, y: number, maxWidth: number, opts: MapImageOptions): { svg: string, height: number, width: number } {
+  const { measure } = opts
+  const parts: string[] = []
+  const items: Array<{ swatch: string, label: string }> = []
+  for (const k of KINDS) items.push({ swatch: `<rect width="22" height="14" rx="4" fill="${kindColor(k)}"/>`, label: k })
+  for (const k of ['supports', 'evidence-of', 'attacks', 'agrees-with']) {
+    items.push({ swatch: `<line x1="0" y1="7" x2="22" y2="7" stroke="${colorFor(k)}" stroke-width="5" stroke-linecap="round"/>`, label: labelFor(k) })
+  }
+  items.push({ swatch: `<line x1="0" y1="7" x2="22" y2="7" stroke="#64748b" stroke-width="3" stroke-dasharray="6 6"/>`, label: 'Type 2 / refers-to link' })
+  for (const s of STRENGTHS) {
+    const b = STRENGTH_BADGES[s]
+    items.push({ swatch: `<rect width="22" height="14" rx="7" fill="${b.fill}" stroke="${b.border}"/>`, label: s })
+  }
+  opts.participants.forEach(p => items.push({
+    swatch: `<rect width="22" height="14" rx="7" fill="${participantColor(p.id, opts.participants.map(q => q.id))}"/>`, label: p.name,
+  }))
+
+  parts.push(`<text x="${num(x)}" y="${num(y + 12)}" font-size="13" font-weight="700" fill="#2b2b2b">Legend</text>`)
+  let cx = x, cy = y + 24, widest = 0
+  for (const item of items) {
+    const w = 22 + 6 + measure(item.label, font(13)) + 18
+    if (cx > x && cx + w > x + maxWidth) { cx = x; cy += 22 }
+    parts.push(`<g transform="translate(${num(cx)} ${num(cy)})">${item.swatch}<text x="28" y="7" dominant-baseline="central" font-size="13" fill="#374151">${esc(item.label)}</text></g>`)
+    cx += w
+    widest = Math.max(widest, cx - x)
+  }
+  return { svg: parts.join(''), height: cy + 14 - y, width: widest }
+}
+
+export function renderMapSvg(nodes: ImageNode[], edges: ImageEdge[], opts: MapImageOptions): MapImage {
+  const scale = opts.scale || 1
+  const cards = nodes.map(n => drawCard(n, opts))
+  const byId = new Map(cards.map(c => [c.id, c]))
+  const sourcePos = opts.horizontal ? Position.Right : Position.Bottom
+  const targetPos = opts.horizontal ? Position.Left : Position.Top
+
+  const edgeParts: string[] = []
+  const labelParts: string[] = []
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
+  const grow = (x0: number, y0: number, x1: number, y1: number) => {
+    minX = Math.min(minX, x0); minY = Math.min(minY, y0); maxX = Math.max(maxX, x1); maxY = Math.max(maxY, y1)
+  }
+  for (const c of cards) grow(c.x, c.y, c.x + c.width, c.y + c.height)
+
+  for (const e of edges) {
+    const s = byId.get(e.source), t = byId.get(e.target)
+    if (!s || !t) continue
+    const kind = e.data?.kind || 'supports'
+    const [path, labelX, labelY] = getBezierPath({
+      sourceX: opts.horizontal ? s.x + s.width : s.x + s.width / 2,
+      sourceY: opts.horizontal ? s.y + s.height / 2 : s.y + s.height,
+      targetX: opts.horizontal ? t.x : t.x + t.width / 2,
+      targetY: opts.horizontal ? t.y + t.height / 2 : t.y,
+      sourcePosition: sourcePos,
+      targetPosition: targetPos,
+    })
+    if (kind === 't2-link' || kind === 'refers-to') {
+      edgeParts.push(`<path d="${path}" fill="none" stroke="#64748b" stroke-width="3" stroke-dasharray="6 6"/>`)
+      continue
+    }
+    edgeParts.push(`<path d="${path}" fill="none" stroke="${colorFor(kind)}" stroke-width="5" stroke-linecap="round"/>`)
+    const label = labelFor(kind)
+    if (!label) continue
+    const w = measure12(label, opts.measure) + 20
+    labelParts.push(`<rect x="${num(labelX - w / 2)}" y="${num(labelY - 11)}" width="${num(w)}" height="22" rx="11" fill="#f8fafc" stroke="#94a3b8"/>` +
+      `<text x="${num(labelX)}" y="${num(labelY)}" text-anchor="middle" dominant-baseline="central" font-size="12" font-weight="700" fill="#0f172a">${esc(label)}</text>`)
+    grow(labelX - w / 2, labelY - 11, labelX + w / 2, labelY + 11)
+  }
+
+  let view: ImageRect = cards.length
+    ? { x: minX - MARGIN, y: minY - MARGIN, width: maxX - minX + 2 * MARGIN, height: maxY - minY + 2 * MARGIN }
+    : { x: 0, y: 0, width: 400, height: 200 }
+  if (opts.clip) view = opts.clip
+
+  let legend = ''
+  let height = view.height
+  let width = view.width
+  if (opts.legend) {
+    const l = drawLegend(view.x + MARGIN, view.y + view.height + MARGIN / 2, Math.max(view.width - 2 * MARGIN, 560), opts)
+    legend = `<g>${l.svg}</g>`
+    width = Math.max(width, l.width + 2 * MARGIN)
+    height += l.height + MARGIN * 1.5
+  }
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width * scale)}" height="${num(height * scale)}" viewBox="${num(view.x)} ${num(view.y)} ${num(width)} ${num(height)}" font-family="${FONT_FAMILY}">`,
+    '<defs>',
+    '<pattern id="type4-hatch" patternUnits="userSpaceOnUse" width="17" height="17" patternTransform="rotate(45)"><rect width="8.5" height="17" fill="#f3f4f6"/><rect x="8.5" width="8.5" height="17" fill="#e5e7eb"/></pattern>',
+    '<filter id="card-shadow" x="-10%" y="-10%" width="120%" height="130%"><feDropShadow dx="0" dy="8" stdDeviation="11" flood-color="#000" flood-opacity=".16"/></filter>',
+    `<clipPath id="view"><rect x="${num(view.x)}" y="${num(view.y)}" width="${num(view.width)}" height="${num(view.height)}"/></clipPath>`,
+    '</defs>',
+    `<rect x="${num(view.x)}" y="${num(view.y)}" width="${num(width)}" height="${num(height)}" fill="#EDE3D5"/>`,
+    `<g clip-path="url(#view)">`,
+    edgeParts.join(''),
+    labelParts.join(''),
+    cards.map(c => c.svg).join(''),
+    '</g>',
+    legend,
+    '</svg>',
+  ].join('\n')
+  return { svg, width: width * scale, height: height * scale }
+}
+
+const measure12 = (text: string, measure: TextMeasure) => measure(text, font(12, 700))
+
+/** Canvas-backed TextMeasure for the browser and Electron */
+export function canvasMeasure(): TextMeasure {
+  const ctx = document.createElement('canvas').getContext('2d')
+  const cache = new Map<string, number>()
+  return (text, f) => {
+    const key = f + '\u0000' + text
+    let w = cache.get(key)
+    if (w === undefined) {
+      if (ctx) { ctx.font = f; w = ctx.measureText(text).width } else w = text.length * parseFloat(/(\d+(?:\.\d+)?)px/.exec(f)?.[1] || '13') * 0.55
+      cache.set(key, w)
+    }
+    return w
+  }
+}
+
+/** Rasterize an SVG from renderMapSvg; browsers cap canvas sides, so big maps may come out smaller */
+export async function svgToPng(image: MapImage): Promise<{ blob: Blob, scaledDown: boolean }> {
+  const MAX_SIDE = 16384
+  const MAX_AREA = 16384 * 16384 / 2
+  const factor = Math.min(1, MAX_SIDE / image.width, MAX_SIDE / image.height, Math.sqrt(MAX_AREA / (image.width * image.height)))
+  const url = URL.createObjectURL(new Blob([image.svg], { type: 'image/svg+xml' }))
+  try {
+    const img = new Image()
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve()
+      img.onerror = () => reject(new Error('the SVG could not be drawn'))
+      img.src = url
+    })
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.floor(image.width * factor))
+    canvas.height = Math.max(1, Math.floor(image.height * factor))
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('no 2D canvas available')
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+    if (!blob) throw new Error('the image is too large for this browser')
+    return { blob, scaledDown: factor < 1 }
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
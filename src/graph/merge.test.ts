@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import type { DebateEdge, DebateNode, Snapshot, StatementKind } from './types'
+import { mergeSnapshots } from './merge'
+
+const statement = (id: string, kind: StatementKind, participantId = 'A'): DebateNode =>
+  ({ id, type: 'nodeCard', position: { x: 0, y: 0 }, data: { id, title: `About ${id}`, kind, participantId } })
+const supports = (parent: string, child: string, id = `${parent}-${child}`): DebateEdge =>
+  ({ id, source: parent, target: child, type: 'thick', data: { kind: 'supports' } })
+const BASE: Snapshot = {
+  nodes: [statement('t', 'Thesis'), statement('x', 'Argument'), statement('y', 'Argument')],
+  edges: [supports('t', 'x', 'ex'), supports('t', 'y', 'ey'), { id: 'link', source: 'x', target: 'y', type: 't2', data: { kind: 't2-link' } }],
+  participants: [{ id: 'A', name: 'Alice' }, { id: 'B', name: 'Bob' }],
+}
+const edit = (doc: Snapshot, id: string, patch: Partial<DebateNode['data']>): Snapshot =>
+  ({ ...doc, nodes: doc.nodes.map(n => n.id === id ? { ...n, data: { ...n.data, ...patch } } : n) })
+const without = (doc: Snapshot, id: string): Snapshot =>
+  ({ ...doc, nodes: doc.nodes.filter(n => n.id !== id), edges: doc.edges.filter(e => e.source !== id && e.target !== id) })
+const dataOf = (doc: Snapshot, id: string) => doc.nodes.find(n => n.id === id)?.data
+
+describe('mergeSnapshots', () => {
+  it('takes changes each side made alone', () => {
+    const ours = edit(BASE, 'x', { title: 'Ours' })
+    const edited = edit(BASE, 'y', { body: 'Their body' })
+    const theirs = { ...edited, nodes: [...edited.nodes, statement('z', 'Argument')], edges: [...BASE.edges, supports('t', 'z')] }
+    const res = mergeSnapshots(BASE, ours, theirs)
+    expect(res.conflicts).toEqual([])
+    expect(res.fromTheirs).toBe(2)
+    expect(dataOf(res.merged, 'x')?.title).toBe('Ours')
+    expect(dataOf(res.merged, 'y')?.body).toBe('Their body')
+    expect(res.merged.edges.map(e => e.id)).toEqual(['ex', 'ey', 'link', 't-z'])
+  })
+
+  it('reports a field both sides changed, keeps ours, and takes theirs when chosen', () => {
+    const ours = edit(BASE, 'x', { title: 'Ours' }), theirs = edit(BASE, 'x', { title: 'Theirs' })
+    const res = mergeSnapshots(BASE, ours, theirs)
+    expect(res.conflicts).toEqual([{ key: 'field:x:title', what: 'field', id: 'x', title: 'Ours', field: 'title', base: 'About x', ours: 'Ours', theirs: 'Theirs' }])
+    expect(dataOf(res.merged, 'x')?.title).toBe('Ours')
+
+    const chosen = mergeSnapshots(BASE, ours, theirs, { 'field:x:title': 'theirs' })
+    expect(chosen.conflicts).toHaveLength(1)
+    expect(dataOf(chosen.merged, 'x')?.title).toBe('Theirs')
+  })
+
+  it('reports a statement one side deleted and the other changed', () => {
+    const ours = edit(BASE, 'y', { title: 'Still needed' }), theirs = without(BASE, 'y')
+    const res = mergeSnapshots(BASE, ours, theirs)
+    expect(res.conflicts).toEqual([expect.objectContaining({ key: 'deleted:y', ours: 'changed', theirs: 'deleted' })])
+    expect(dataOf(res.merged, 'y')?.title).toBe('Still needed')
+    // the Type 2 link was removed with it on their side
+    expect(res.merged.edges.map(e => e.id)).toEqual(['ex', 'ey'])
+
+    const chosen = mergeSnapshots(BASE, ours, theirs, { 'deleted:y': 'theirs' })
+    expect(chosen.merged.nodes.map(n => n.id)).toEqual(['t', 'x'])
+    expect(chosen.merged.edges.map(e => e.id)).toEqual(['ex'])
+  })
+
+  it('drops an unchanged statement the other side deleted without a conflict', () => {
+    const res = mergeSnapshots(BASE, BASE, without(BASE, 'y'))
+    expect(res.conflicts).toEqual([])
+    expect(res.merged.nodes.map(n => n.id)).toEqual(['t', 'x'])
+  })
+
+  it('reports conflicting reattachments and keeps the tree free of loops', () => {
+    const ours = { ...BASE, edges: [BASE.edges[0], supports('x', 'y', 'ey'), BASE.edges[2]] }
+    const theirs = { ...BASE, edges: [supports('y', 'x', 'ex'), BASE.edges[1], BASE.edges[2]] }
+    const res = mergeSnapshots(BASE, ours, theirs)
+    // each side moved a different statement, so neither is a conflict on its own
+    expect(res.conflicts).toEqual([])
+    // but together they would loop x and y: both keep ours
+    expect(res.merged.edges.filter(e => e.data?.kind === 'supports').map(e => [e.source, e.target])).toEqual([['t', 'x'], ['x', 'y']])
+
+    const moved = { ...BASE, edges: [BASE.edges[0], supports('x', 'y', 'ey'), BASE.edges[2]] }
+    const elsewhere = { ...BASE, nodes: [...BASE.nodes, statement('w', 'Argument')], edges: [...BASE.edges.filter(e => e.id !== 'ey'), supports('t', 'w'), supports('w', 'y', 'ey')] }
+    const conflict = mergeSnapshots(BASE, moved, elsewhere)
+    expect(conflict.conflicts).toEqual([expect.objectContaining({ key: 'attachment:y', ours: 'supports “About x”', theirs: 'supports “About w”' })])
+    const chosen = mergeSnapshots(BASE, moved, elsewhere, { 'attachment:y': 'theirs' })
+    expect(chosen.merged.edges.find(e => e.id === 'ey')?.source).toBe('w')
+  })
+
+  it('reports participants renamed differently on both sides', () => {
+    const rename = (name: string): Snapshot => ({ ...BASE, participants: [{ id: 'A', name }, BASE.participants[1]] })
+    const res = mergeSnapshots(BASE, rename('Ali'), rename('Alicia'))
+    expect(res.conflicts).toEqual([{ key: 'participant:A', what: 'participant', id: 'A', title: 'Participant A', base: 'Alice', ours: 'Ali', theirs: 'Alicia' }])
+    expect(mergeSnapshots(BASE, rename('Ali'), rename('Alicia'), { 'participant:A': 'theirs' }).merged.participants[0].name).toBe('Alicia')
+  })
+
+  it('merges the transcript and recording as whole values', () => {
+    const transcript = { cues: [{ id: 'c1', start: 0, text: 'Hello' }], speakers: {}, source: 'talk.srt' }
+    const ours = { ...BASE, media: { name: 'ours.mp3', type: 'audio/mpeg' } }
+    const theirs = { ...BASE, transcript, media: { name: 'theirs.mp3', type: 'audio/mpeg' } }
+    const res = mergeSnapshots(BASE, ours, theirs)
+    expect(res.merged.transcript).toEqual(transcript)
+    expect(res.conflicts).toEqual([{ key: 'document:media', what: 'document', id: 'media', title: 'Recording', base: undefined, ours: 'ours.mp3', theirs: 'theirs.mp3' }])
+    expect(mergeSnapshots(BASE, ours, theirs, { 'document:media': 'theirs' }).merged.media?.name).toBe('theirs.mp3')
+  })
+})
@@ -0,0 +1,219 @@
+// src/graph/merge.ts
+// Three-way merge of two edited copies of a map ("ours", "theirs") against the version
+// both started from ("base"). Per statement, each field of DIFF_FIELDS and the parent
+// attachment merge on their own: a side that left a value as it was in base takes the other
+// side's change. When both changed it differently the merge keeps ours and reports a
+// conflict; `choices` picks a side per conflict, and merging again applies them.
+import type { Comment, DebateData, DebateEdge, DebateNode, MediaRef, Participant, Snapshot, Source, Transcript } from './types'
+import { attachmentsOf, Attachment, DIFF_FIELDS, DiffField, fieldValue, sameAttachment } from './diff'
+import { edgeKindOf } from './tree'
+
+export type MergeSide = 'ours' | 'theirs'
+export type MergeConflict = {
+  /** Stable key for `choices` */
+  key: string
+  what: 'field' | 'attachment' | 'deleted' | 'participant' | 'document'
+  /** Statement or participant the conflict is about */
+  id: string
+  title: string
+  field?: DiffField
+  /** Readable values */
+  base?: string
+  ours?: string
+  theirs?: string
+}
+export type MergeResult = {
+  merged: Snapshot
+  conflicts: MergeConflict[]
+  /** Changes taken from theirs without conflict, for the summary */
+  fromTheirs: number
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+/** Copy one merged field of a statement from the other side */
+const takeField = <F extends DiffField>(data: DebateData, from: DebateData, f: F) => { data[f] = from[f] }
+/** Parts of the document merged as whole values */
+type DocumentParts = Pick<Snapshot, 'transcript' | 'media'>
+
+export function mergeSnapshots(base: Snapshot, ours: Snapshot, theirs: Snapshot, choices: Record<string, MergeSide> = {}): MergeResult {
+  const conflicts: MergeConflict[] = []
+  let fromTheirs = 0
+  const pick = (key: string) => choices[key] || 'ours'
+
+  const B = new Map(base.nodes.map(n => [n.id, n]))
+  const O = new Map(ours.nodes.map(n => [n.id, n]))
+  const T = new Map(theirs.nodes.map(n => [n.id, n]))
+  const atB = attachmentsOf(base.edges), atO = attachmentsOf(ours.edges), atT = attachmentsOf(theirs.edges)
+  const titleOf = (id: string) => (O.get(id) || T.get(id) || B.get(id))?.data.title || id
+  const describe = (a?: Attachment) => a ? `${a.kind} “${titleOf(a.parentId)}”` : 'not attached'
+  const changedFromBase = (id: string, side: Map<string, DebateNode>, at: Map<string, Attachment>) => {
+    const b = B.get(id)!, s = side.get(id)!
+    return DIFF_FIELDS.some(f => fieldValue(b, f) !== fieldValue(s, f)) || !sameAttachment(atB.get(id), at.get(id))
+  }
+
+  // ---------- Statements ----------
+  const kept = new Map<string, DebateNode>()
+  const attachFrom = new Map<string, MergeSide>()
+  const order = [...ours.nodes.map(n => n.id), ...theirs.nodes.filter(n => !O.has(n.id)).map(n => n.id)]
+  for (const id of order) {
+    const b = B.get(id), o = O.get(id), t = T.get(id)
+    if (b && (!o || !t)) {
+      // deleted on one side: fine unless the other side changed it
+      const survivor = o ? 'ours' : t ? 'theirs' : undefined
+      if (!survivor) continue
+      if (!changedFromBase(id, survivor === 'ours' ? O : T, survivor === 'ours' ? atO : atT)) {
+        if (survivor === 'ours') fromTheirs++
+        continue
+      }
+      const key = `deleted:${id}`
+      conflicts.push({
+        key, what: 'deleted', id, title: titleOf(id),
+        base: 'present', ours: o ? 'changed' : 'deleted', theirs: t ? 'changed' : 'deleted',
+      })
+      const keep = pick(key) === survivor
+      if (!keep) continue
+      kept.set(id, (o || t)!)
+      attachFrom.set(id, survivor)
+      continue
+    }
+    if (!o || !t) {
+      // new on one side only
+      kept.set(id, (o || t)!)
+      attachFrom.set(id, o ? 'ours' : 'theirs')
+      if (!o) fromTheirs++
+      continue
+    }
+    // on both sides: merge field by field (a statement added on both sides merges against nothing)
+    const data = { ...o.data }
+    for (const f of DIFF_FIELDS) {
+      const bv = b ? fieldValue(b, f) : undefined, ov = fieldValue(o, f), tv = fieldValue(t, f)
+      if (ov === tv || tv === bv) continue
+      if (ov === bv) { takeField(data, t.data, f); fromTheirs++; continue }
+      const key = `field:${id}:${f}`
+      conflicts.push({ key, what: 'field', id, title: o.data.title || t.data.title, field: f, base: bv, ours: ov, theirs: tv })
+      if (pick(key) === 'theirs') takeField(data, t.data, f)
+    }
+    // a pin (and where it holds the card) follows the side that moved it
+    const pinChanged = (n: DebateNode) => !b || n.data.pinned !== b.data.pinned || !sameJson(n.position, b.position)
+    const pinFromTheirs = !pinChanged(o) && pinChanged(t)
+    if (pinFromTheirs) data.pinned = t.data.pinned
+    // citations are one list; theirs is taken when only they changed it
+    if (!sameJson(o.data.citations, t.data.citations) && b && sameJson(o.data.citations, b.data.citations)) {
+      data.citations = t.data.citations
+      fromTheirs++
+    }
+    kept.set(id, { ...o, position: pinFromTheirs ? t.position : o.position, data })
+
+    const ba = atB.get(id), oa = atO.get(id), ta = atT.get(id)
+    let side: MergeSide = 'ours'
+    if (!sameAttachment(oa, ta) && (b ? !sameAttachment(ta, ba) : true)) {
+      if (b && sameAttachment(oa, ba)) { side = 'theirs'; fromTheirs++ }
+      else {
+        const key = `attachment:${id}`
+        conflicts.push({ key, what: 'attachment', id, title: data.title, base: b ? describe(ba) : undefined, ours: describe(oa), theirs: describe(ta) })
+        side = pick(key)
+      }
+    }
+    attachFrom.set(id, side)
+  }
+
+  // ---------- Tree edges: each statement's parent edge from the side its attachment came from ----------
+  const edgeOf = (side: MergeSide, id: string): DebateEdge | undefined => {
+    const a = (side === 'ours' ? atO : atT).get(id)
+    return a && (side === 'ours' ? ours : theirs).edges.find(e => e.id === a.edgeId)
+  }
+  // two reattachments taken from different sides can close a loop; those statements keep ours
+  const parentIn = (id: string) => { const e = edgeOf(attachFrom.get(id)!, id); return e && (attachmentsOf([e]).get(id)?.parentId) }
+  for (let guard = 0; guard < kept.size; guard++) {
+    let loop: string[] | undefined
+    for (const start of kept.keys()) {
+      const path: string[] = []
+      let cur: string | undefined = start
+      while (cur && kept.has(cur) && !path.includes(cur)) { path.push(cur); cur = parentIn(cur) }
+      if (cur && path.includes(cur)) { loop = path.slice(path.indexOf(cur)); break }
+    }
+    if (!loop) break
+    const flip = loop.find(id => attachFrom.get(id) === 'theirs')
+    if (!flip) break
+    for (const id of loop) attachFrom.set(id, 'ours')
+  }
+  const edges: DebateEdge[] = []
+  const used = new Set<string>()
+  for (const id of kept.keys()) {
+    const e = edgeOf(attachFrom.get(id)!, id)
+    if (e && !used.has(e.id) && kept.has(e.source) && kept.has(e.target)) { edges.push(e); used.add(e.id) }
+  }
+
+  // ---------- Links (Type 2, refers-to): kept unless a side removed them ----------
+  const isLink = (e: DebateEdge) => { const k = edgeKindOf(e); return k === 't2-link' || k === 'refers-to' }
+  const baseLinks = new Set(base.edges.filter(isLink).map(e => e.id))
+  const theirLinks = new Set(theirs.edges.filter(isLink).map(e => e.id))
+  const ourLinks = new Set(ours.edges.filter(isLink).map(e => e.id))
+  for (const e of [...ours.edges.filter(isLink), ...theirs.edges.filter(e => isLink(e) && !ourLinks.has(e.id))]) {
+    const keep = baseLinks.has(e.id) ? ourLinks.has(e.id) && theirLinks.has(e.id) : true
+    if (keep && !used.has(e.id) && kept.has(e.source) && kept.has(e.target)) { edges.push(e); used.add(e.id) }
+  }
+
+  // in the order ours has them, then theirs
+  const rank = new Map([...ours.edges, ...theirs.edges].map((e, i) => [e.id, i]).reverse() as Array<[string, number]>)
+  edges.sort((a, b) => rank.get(a.id)! - rank.get(b.id)!)
+
+  // ---------- Participants ----------
+  const PB = new Map(base.participants.map(p => [p.id, p]))
+  const PT = new Map(theirs.participants.map(p => [p.id, p]))
+  const participants: Participant[] = []
+  for (const p of [...ours.participants, ...theirs.participants.filter(p => !ours.participants.some(q => q.id === p.id))]) {
+    const b = PB.get(p.id), t = PT.get(p.id)
+    const fromOurs = ours.participants.includes(p)
+    if (!fromOurs || !t || !b || t.name === p.name || t.name === b.name) { participants.push(p); continue }
+    if (p.name === b.name) { participants.push(t); fromTheirs++; continue }
+    const key = `participant:${p.id}`
+    conflicts.push({ key, what: 'participant', id: p.id, title: `Participant ${p.id}`, base: b.name, ours: p.name, theirs: t.name })
+    participants.push(pick(key) === 'theirs' ? t : p)
+  }
+
+  // ---------- Review comments: kept unless a side deleted them; an edit on one side is taken ----------
+  const CB = new Map((base.comments || []).map(c => [c.id, c]))
+  const CO = new Map((ours.comments || []).map(c => [c.id, c]))
+  const CT = new Map((theirs.comments || []).map(c => [c.id, c]))
+  const comments: Comment[] = []
+  for (const c of [...CO.values(), ...[...CT.values()].filter(c => !CO.has(c.id))]) {
+    const b = CB.get(c.id), o = CO.get(c.id), t = CT.get(c.id)
+    if (b && (!o || !t)) continue
+    if (o && t && !sameJson(o, t) && sameJson(o, b)) { comments.push(t); fromTheirs++; continue }
+    if (!o) fromTheirs++
+    comments.push(c)
+  }
+
+  // ---------- Sources: as comments, but a source still cited in the merged map is kept ----------
+  const cited = new Set([...kept.values()].flatMap(n => (n.data.citations || []).map(c => c.sourceId)))
+  const SB = new Map((base.sources || []).map(x => [x.id, x]))
+  const SO = new Map((ours.sources || []).map(x => [x.id, x]))
+  const ST = new Map((theirs.sources || []).map(x => [x.id, x]))
+  const sources: Source[] = []
+  for (const x of [...SO.values(), ...[...ST.values()].filter(x => !SO.has(x.id))]) {
+    const b = SB.get(x.id), o = SO.get(x.id), t = ST.get(x.id)
+    if (b && (!o || !t) && !cited.has(x.id)) continue
+    if (o && t && !sameJson(o, t) && sameJson(o, b)) { sources.push(t); fromTheirs++; continue }
+    if (!o) fromTheirs++
+    sources.push(x)
+  }
+
+  // ---------- Transcript and recording: whole values ----------
+  const doc: DocumentParts = { transcript: ours.transcript, media: ours.media }
+  const takeTheirs = <P extends keyof DocumentParts>(part: P) => { doc[part] = theirs[part] }
+  for (const part of ['transcript', 'media'] as const) {
+    if (sameJson(ours[part], theirs[part]) || sameJson(theirs[part], base[part])) continue
+    if (sameJson(ours[part], base[part])) { takeTheirs(part); fromTheirs++; continue }
+    const key = `document:${part}`
+    const label = (v?: Transcript | MediaRef) => !v ? undefined : 'cues' in v ? `${v.cues.length} lines${v.source ? ` from ${v.source}` : ''}` : v.name
+    conflicts.push({ key, what: 'document', id: part, title: part === 'transcript' ? 'Transcript' : 'Recording', base: label(base[part]), ours: label(ours[part]), theirs: label(theirs[part]) })
+    if (pick(key) === 'theirs') takeTheirs(part)
+  }
+
+  return {
+    merged: { nodes: [...kept.values()], edges, participants, comments, sources, ...doc },
+    conflicts,
+    fromTheirs,
+  }
+}
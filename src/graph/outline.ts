@@ -0,0 +1,164 @@
+// src/graph/outline.ts
+import type { DebateEdge, DebateNode, Snapshot, StatementKind } from './types'
+import { buildChildrenPairs } from './tree'
+
+export type OutlineOptions = {
+  /** Only this participant's statements, plus the statements they respond to as context */
+  participantId?: string
+  /** Deepest level written, theses being level 1; 0 or undefined for no limit */
+  maxDepth?: number
+}
+
+/** Children in the order the outline lists them */
+export const OUTLINE_KIND_ORDER: StatementKind[] = ['Thesis', 'Argument Summary', 'Argument', 'Evidence', 'Counter', 'Agreement']
+
+const STRENGTH_ORDER = ['Type 1', 'Type 2', 'Type 3', 'Type 4']
+
+/** Anchor id of a statement inside the exported document */
+export const anchorOf = (id: string) => `n-${id.replace(/[^A-Za-z0-9_-]/g, '-')}`
+
+const escapeInline = (t: string) => t.replace(/([\\`*_[\]<>])/g, '\\$1')
+
+function sortKey(n: DebateNode): [number, number, string] {
+  const k = OUTLINE_KIND_ORDER.indexOf(n.data.kind)
+  const s = n.data.strengthType ? STRENGTH_ORDER.indexOf(n.data.strengthType) : STRENGTH_ORDER.length
+  return [k < 0 ? OUTLINE_KIND_ORDER.length : k, s, (n.data.title || '').toLowerCase()]
+}
+function compareNodes(a: DebateNode, b: DebateNode): number {
+  const ka = sortKey(a), kb = sortKey(b)
+  return ka[0] - kb[0] || ka[1] - kb[1] || ka[2].localeCompare(kb[2])
+}
+
+export type OutlineTree = {
+  byId: Map<string, DebateNode>
+  /** Children in outline order */
+  children: Map<string, DebateNode[]>
+  roots: DebateNode[]
+}
+
+/** The argument tree (buildChildrenPairs semantics) in the order outlines list it */
+export function outlineTree(nodes: DebateNode[], edges: DebateEdge[]): OutlineTree {
+  const byId = new Map(nodes.map(n => [n.id, n]))
+  const children = new Map<string, DebateNode[]>()
+  const hasParent = new Set<string>()
+  for (const [p, c] of buildChildrenPairs(edges)) {
+    const child = byId.get(c)
+    if (!byId.has(p) || !child) continue
+    if (!children.has(p)) children.set(p, [])
+    children.get(p)!.push(child)
+    hasParent.add(c)
+  }
+  children.forEach(list => list.sort(compareNodes))
+  const roots = nodes.filter(n => !hasParent.has(n.id)).sort(compareNodes)
+  return { byId, children, roots }
+}
+
+/**
+ * The argument tree as a nested Markdown list: one line per statement with kind,
+ * strength, speaker and first mention; bodies as indented paragraphs; body links
+ * and Type 2 / refers-to links as anchors inside the document.
+ */
+export function exportMarkdownOutline(snap: Snapshot, opts: OutlineOptions = {}): string {
+  const { nodes, edges, participants } = snap
+  const { byId, children, roots } = outlineTree(nodes, edges)
+  const nameOf = (pid: string) => participants.find(p => p.id === pid)?.name || pid || 'Unknown'
+
+  // per participant: keep their statements and every ancestor leading to one
+  const keep = new Set<string>()
+  const walkKeep = (n: DebateNode, seen: Set<string>): boolean => {
+    if (seen.has(n.id)) return keep.has(n.id)
+    seen.add(n.id)
+    let any = !opts.participantId || n.data.participantId === opts.participantId
+    for (const c of children.get(n.id) || []) if (walkKeep(c, seen)) any = true
+    if (any) keep.add(n.id)
+    return any
+  }
+  const seenKeep = new Set<string>()
+  roots.forEach(r => walkKeep(r, seenKeep))
+
+  const crossRefs = new Map<string, Array<{ label: string, id: string }>>()
+  for (const e of edges as DebateEdge[]) {
+    const kind = e.data?.kind
+    if (kind !== 't2-link' && kind !== 'refers-to') continue
+    const label = kind === 't2-link' ? 'Type 2 link' : 'Refers to'
+    for (const [from, to] of [[e.source, e.target], [e.target, e.source]]) {
+      if (!crossRefs.has(from)) crossRefs.set(from, [])
+      crossRefs.get(from)!.push({ label, id: to })
+    }
+  }
+
+  // the written set is only known after the walk, so links are resolved at the end
+  const written = new Set<string>()
+  const LINK = '\u0000link:'
+  const link = (id: string, label?: string) => `${LINK}${id}\u0000${label ?? ''}\u0000`
+  const bodyText = (body: string) => body.replace(/\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g, (_, id: string, label?: string) => link(id.trim(), label))
+
+  const out: string[] = []
+  const title = roots.find(r => r.data.kind === 'Thesis')?.data.title
+  out.push(`# ${escapeInline(title || 'Debate map')}`, '')
+  out.push(`Participants: ${participants.map(p => p.name).join(', ') || '—'}`)
+  if (opts.participantId) out.push(`Statements by ${nameOf(opts.participantId)}, with the statements they respond to.`)
+  out.push('')
+
+  const writeNode = (n: DebateNode, depth: number, path: Set<string>) => {
+    const indent = '  '.repeat(depth - 1)
+    const pad = indent + '  '
+    const d = n.data
+    const meta = [
+      d.strengthType ? `${d.kind}, ${d.strengthType}` : d.kind,
+      nameOf(d.participantId),
+      d.firstMention ? `@ ${d.firstMention}` : '',
+    ].filter(Boolean).join(' · ')
+    const context = opts.participantId && d.participantId !== opts.participantId
+    const heading = context ? `_${escapeInline(d.title || 'Untitled')}_` : `**${escapeInline(d.title || 'Untitled')}**`
+    out.push(`${indent}- <a id="${anchorOf(n.id)}"></a>${heading} — ${meta}`)
+    written.add(n.id)
+
+    if (d.body?.trim() && !context) {
+      for (const para of d.body.trim().split(/\n\s*\n/)) {
+        out.push('', ...bodyText(para).split('\n').map(l => pad + l.trim()))
+      }
+    }
+    const refs = crossRefs.get(n.id) || []
+    if (refs.length) {
+      out.push('')
+      for (const label of ['Type 2 link', 'Refers to']) {
+        const ids = refs.filter(r => r.label === label).map(r => link(r.id))
+        if (ids.length) out.push(`${pad}${label}: ${ids.join(', ')}`)
+      }
+    }
+    if (d.body?.trim() || refs.length) out.push('')
+
+    const kids = (children.get(n.id) || []).filter(c => keep.has(c.id) && !path.has(c.id))
+    if (!kids.length) return
+    if (opts.maxDepth && depth >= opts.maxDepth) {
+      out.push(`${pad}- _… ${countBelow(kids, children, keep)} more statement(s) below_`)
+      return
+    }
+    path.add(n.id)
+    kids.forEach(c => writeNode(c, depth + 1, path))
+    path.delete(n.id)
+  }
+  for (const r of roots) if (keep.has(r.id)) writeNode(r, 1, new Set())
+
+  return out.join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(new RegExp(`${LINK}([^\\u0000]*)\\u0000([^\\u0000]*)\\u0000`, 'g'), (_, id: string, label: string) => {
+      const text = escapeInline(label || byId.get(id)?.data.title || id)
+      return written.has(id) ? `[${text}](#${anchorOf(id)})` : text
+    })
+    .trimEnd() + '\n'
+}
+
+function countBelow(kids: DebateNode[], children: Map<string, DebateNode[]>, keep: Set<string>): number {
+  const seen = new Set<string>()
+  const stack = [...kids]
+  while (stack.length) {
+    const n = stack.pop()!
+    if (seen.has(n.id)) continue
+    seen.add(n.id)
+    for (const c of children.get(n.id) || []) if (keep.has(c.id)) stack.push(c)
+  }
+  return seen.size
+}
+
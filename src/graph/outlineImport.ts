@@ -0,0 +1,266 @@
+// src/graph/outlineImport.ts
+import type { DebateData, DebateEdge, DebateNode, EdgeKind, Participant, StatementKind, StrengthType } from './types'
+import { supportsParentError, targetError } from './rules'
+import { parseTimestamp } from './transcript'
+
+export type OutlineFormat = 'markdown' | 'opml'
+
+export type OutlineImportResult = {
+  nodes: DebateNode[]
+  edges: DebateEdge[]
+  /** Participants the outline names that the base document does not have yet */
+  newParticipants: Participant[]
+  /** Problems by source line (1-based); lines with a problem are skipped unless the message says otherwise */
+  errors: Array<{ line: number, message: string }>
+}
+
+/** What an item's text says about its statement */
+export type ItemTags = { kind?: StatementKind, participant?: string, strength?: StrengthType, title: string, time?: string, timeError?: string }
+
+/**
+ * One outline entry before it is turned into a statement; `parent` indexes the item
+ * list (-1 for top level) and `id`, when given, becomes the statement's id
+ */
+export type OutlineItem = ItemTags & { line: number, body: string, parent: number, id?: string }
+
+const KIND_TAGS: Record<string, StatementKind> = {
+  thesis: 'Thesis',
+  argument: 'Argument', arg: 'Argument',
+  'argument summary': 'Argument Summary', summary: 'Argument Summary',
+  counter: 'Counter',
+  evidence: 'Evidence', ev: 'Evidence',
+  agreement: 'Agreement', agree: 'Agreement',
+}
+const STRENGTH_TAG = /^(?:t|type)\s*([1-4])$/i
+const WITH_STRENGTH: StatementKind[] = ['Argument', 'Counter', 'Evidence']
+const TAG = /^\[([^\[\]]+)\]\s*/
+const TIME_SUFFIX = /\s+@\s*(\S+)\s*$/
+
+// ---------- readers: text → outline items ----------
+
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/
+const indentOf = (ws: string) => ws.replace(/\t/g, '    ').length
+
+/**
+ * Markdown list items nest by indentation; indented non-item lines after an
+ * item are its body. Anything before the first item (a title, notes) is ignored.
+ */
+function readMarkdown(text: string): OutlineItem[] {
+  const items: OutlineItem[] = []
+  const stack: Array<{ indent: number, index: number }> = []
+  let blank = false
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, i) => {
+    if (!raw.trim()) { blank = true; return }
+    const m = LIST_ITEM.exec(raw)
+    const last = items[items.length - 1]
+    if (!m) {
+      // a body line belongs to the item above it
+      if (last && indentOf(/^\s*/.exec(raw)![0]) > (stack[stack.length - 1]?.indent ?? -1)) {
+        last.body += (last.body ? (blank ? '\n\n' : '\n') : '') + raw.trim()
+      }
+      blank = false
+      return
+    }
+    const indent = indentOf(m[1])
+    while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop()
+    items.push({ ...parseItemTags(m[2].trim()), line: i + 1, body: '', parent: stack.length ? stack[stack.length - 1].index : -1 })
+    stack.push({ indent, index: items.length - 1 })
+    blank = false
+  })
+  return items
+}
+
+/** OPML `<outline text="…" _note="…">` elements; line numbers are found in the source text */
+function readOpml(text: string, errors: OutlineImportResult['errors']): OutlineItem[] {
+  const doc = new DOMParser().parseFromString(text, 'text/xml')
+  if (doc.getElementsByTagName('parsererror').length) {
+    errors.push({ line: 1, message: 'Not a well-formed OPML file.' })
+    return []
+  }
+  const body = doc.getElementsByTagName('body')[0]
+  if (!body) {
+    errors.push({ line: 1, message: 'OPML file has no <body>.' })
+    return []
+  }
+  // the n-th <outline> tag in the source is the n-th element in document order
+  const lineStarts: number[] = []
+  const tag = /<outline\b/g
+  let m: RegExpExecArray | null
+  while ((m = tag.exec(text))) lineStarts.push(text.slice(0, m.index).split('\n').length)
+
+  const items: OutlineItem[] = []
+  let ordinal = 0
+  const walk = (el: Element, parent: number) => {
+    for (const child of Array.from(el.children)) {
+      if (child.tagName !== 'outline') continue
+      const line = lineStarts[ordinal++] ?? 1
+      items.push({ ...parseItemTags((child.getAttribute('text') || '').trim()), line, body: (child.getAttribute('_note') || '').trim(), parent })
+      walk(child, items.length - 1)
+    }
+  }
+  walk(body, -1)
+  return items
+}
+
+// ---------- items → statements ----------
+
+/** "[A][Counter][T2] title @12:34" → tags, title and time */
+export function parseItemTags(text: string): ItemTags {
+  const out: ItemTags = { title: '' }
+  let rest = text
+  let m: RegExpExecArray | null
+  while ((m = TAG.exec(rest))) {
+    const tag = m[1].trim()
+    const kind = KIND_TAGS[tag.toLowerCase().replace(/\s+/g, ' ')]
+    const strength = STRENGTH_TAG.exec(tag)
+    if (kind) out.kind = kind
+    else if (strength) out.strength = `Type ${strength[1]}` as StrengthType
+    else out.participant = tag
+    rest = rest.slice(m[0].length)
+  }
+  const t = TIME_SUFFIX.exec(rest)
+  if (t) {
+    const sec = parseTimestamp(t[1])
+    if (sec === undefined) out.timeError = `Unreadable time "@${t[1]}"; use @MM:SS or @HH:MM:SS.`
+    else out.time = t[1]
+    rest = rest.slice(0, t.index)
+  }
+  out.title = rest.trim()
+  return out
+}
+
+function edgeKindFor(kind: StatementKind): EdgeKind | undefined {
+  switch (kind) {
+    case 'Argument':
+    case 'Argument Summary': return 'supports'
+    case 'Counter': return 'attacks'
+    case 'Evidence': return 'evidence-of'
+    case 'Agreement': return 'agrees-with'
+    default: return undefined
+  }
+}
+
+const newId = () => Math.random().toString(36).slice(2, 10)
+
+/**
+ * Turn an indented outline into statements and edges, applying the same
+ * attachment rules as the store's add* actions. `participants` are those of
+ * the document the result will be added to (empty for a new document).
+ *
+ * Per item: `[participant]`, `[Kind]` and `[T1]`..`[T4]` tags in any order, the
+ * title, then an optional `@MM:SS` time. Without tags a top-level item is a
+ * Thesis of the first participant; a nested one keeps its parent's participant
+ * and is an Argument (or a Counter when its participant differs).
+ */
+export function importOutline(text: string, format: OutlineFormat, participants: Participant[]): OutlineImportResult {
+  const errors: OutlineImportResult['errors'] = []
+  const items = format === 'opml' ? readOpml(text, errors) : readMarkdown(text)
+  if (!items.length && !errors.length) errors.push({ line: 1, message: 'No outline items found.' })
+  return buildStatements(items, participants, errors)
+}
+
+/**
+ * Statements and edges for outline items (in document order, parents first).
+ * A Counter or Agreement without a participant belongs to the other participant;
+ * when there is none yet, one is added.
+ */
+export function buildStatements(items: OutlineItem[], participants: Participant[], errors: OutlineImportResult['errors'] = []): OutlineImportResult {
+  const known = [...participants]
+  const newParticipants: Participant[] = []
+  const addParticipant = (name?: string): string => {
+    // same scheme as the store's addParticipant: the next letter after the highest id
+    const maxCode = known.length ? Math.max(...known.map(p => p.id.charCodeAt(0))) : 64
+    const id = String.fromCharCode(maxCode + 1)
+    const created = { id, name: name || id }
+    known.push(created); newParticipants.push(created)
+    return id
+  }
+  const resolveParticipant = (tag: string): string => {
+    const t = tag.toLowerCase()
+    const p = known.find(p => p.id.toLowerCase() === t) || known.find(p => p.name.toLowerCase() === t)
+    return p ? p.id : addParticipant(tag)
+  }
+  const defaultParticipant = () => known[0]?.id ?? addParticipant()
+  const otherParticipant = (pid: string) => {
+    const others = known.filter(p => p.id !== pid)
+    return others.length === 1 ? others[0].id : others.length ? undefined : addParticipant()
+  }
+
+  const nodes: DebateNode[] = []
+  const edges: DebateEdge[] = []
+  const created: Array<DebateNode | undefined> = []
+  /** Line of the skipped item that hides each skipped descendant */
+  const skippedUnder: number[] = []
+  /** Theses that already have their Argument Summary */
+  const summarized = new Set<string>()
+
+  items.forEach((item, i) => {
+    const skip = (message?: string) => {
+      created[i] = undefined
+      if (message) errors.push({ line: item.line, message })
+      skippedUnder[i] = message ? item.line : skippedUnder[item.parent]
+    }
+    const parent = item.parent >= 0 ? created[item.parent] : undefined
+    if (item.parent >= 0 && !parent) return skip()
+
+    if (!item.title) return skip('Statement has no title.')
+    if (item.timeError) errors.push({ line: item.line, message: item.timeError + ' The time was left out.' })
+
+    let participantId = item.participant ? resolveParticipant(item.participant) : undefined
+    let kind = item.kind
+    if (!parent) {
+      kind = kind || 'Thesis'
+      participantId = participantId || defaultParticipant()
+    } else {
+      const pp = parent.data.participantId
+      if (!participantId) {
+        participantId = kind === 'Counter' || kind === 'Agreement' ? otherParticipant(pp) : pp
+        if (!participantId) return skip(`Say whose ${kind} this is, e.g. [Name][${kind}].`)
+      }
+      kind = kind || (participantId === pp ? 'Argument' : 'Counter')
+    }
+
+    const data: DebateData = {
+      id: '', title: item.title, body: item.body || undefined, kind, participantId,
+      collapsed: false, selfCollapsed: false, firstMention: item.time,
+    }
+    if (item.strength) {
+      if (WITH_STRENGTH.includes(kind)) data.strengthType = item.strength
+      else errors.push({ line: item.line, message: `A ${kind} has no strength type; ${item.strength} was left out.` })
+    }
+    const n: DebateNode = { id: item.id || newId(), type: 'nodeCard', position: { x: 0, y: 0 }, data }
+
+    const edgeKind = edgeKindFor(kind)
+    if (parent) {
+      if (!edgeKind) return skip(`A ${kind} cannot be nested under another statement.`)
+      const problem = edgeKind === 'supports' ? supportsParentError(parent, n) : targetError(edgeKind, n, parent)
+      if (problem) return skip(problem)
+      if (kind === 'Argument Summary') {
+        // like the store's setSupportsParent: one summary per Thesis
+        if (summarized.has(parent.id)) return skip('That Thesis already has an Argument Summary; this one was left out.')
+        summarized.add(parent.id)
+      }
+      const [source, target] = edgeKind === 'supports' ? [parent.id, n.id] : [n.id, parent.id]
+      edges.push({ id: newId(), source, target, type: 'thick', data: { kind: edgeKind } })
+    } else if (kind !== 'Thesis' && kind !== 'Argument') {
+      return skip(`A ${kind} needs a statement to respond to; indent it under one.`)
+    }
+    nodes.push(n)
+    created[i] = n
+  })
+
+  // one note per skipped item about what went with it
+  const hidden = new Map<number, number>()
+  items.forEach((item, i) => {
+    if (!created[i] && skippedUnder[i] !== undefined && skippedUnder[i] !== item.line) {
+      hidden.set(skippedUnder[i], (hidden.get(skippedUnder[i]) || 0) + 1)
+    }
+  })
+  for (const err of [...errors].reverse()) {
+    const count = hidden.get(err.line)
+    if (count) { err.message += ` The ${count} item${count === 1 ? '' : 's'} under it ${count === 1 ? 'was' : 'were'} skipped too.`; hidden.delete(err.line) }
+  }
+  errors.sort((a, b) => a.line - b.line)
+
+  return { nodes, edges, newParticipants, errors }
+}
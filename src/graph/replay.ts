@@ -0,0 +1,25 @@
+// src/graph/replay.ts
+import type { DebateEdge, DebateNode } from './types'
+import { buildLayoutTree, treeOrder } from './layout'
+import { parseTimestamp } from './transcript'
+
+/**
+ * The order statements are revealed in a replay: by firstMention, ties (and
+ * statements sharing a time) in tree order; statements without a time come last.
+ */
+export function replayOrder(nodes: DebateNode[], edges: DebateEdge[]): string[] {
+  const rank = new Map(treeOrder(buildLayoutTree(nodes, edges)).map((id, i) => [id, i]))
+  const timeOf = (n: DebateNode) => {
+    const t = n.data.firstMention ? parseTimestamp(n.data.firstMention) : undefined
+    return t === undefined ? Infinity : t
+  }
+  return nodes
+    .map(n => ({ id: n.id, t: timeOf(n), r: rank.get(n.id) ?? Infinity }))
+    .sort((a, b) => a.t !== b.t ? a.t - b.t : a.r - b.r)
+    .map(x => x.id)
+}
+
+/** Edges whose endpoints have both been revealed */
+export function revealedEdges(edges: DebateEdge[], revealed: Set<string>): DebateEdge[] {
+  return edges.filter(e => revealed.has(e.source) && revealed.has(e.target))
+}
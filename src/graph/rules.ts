@@ -0,0 +1,38 @@
+// src/graph/rules.ts
+import type { DebateNode, StatementKind } from './types'
+
+// Attachment rules, mirroring setSupportsParent / setEdgeTarget in the store.
+// Each check returns a human-readable reason when the attachment is not allowed.
+
+/** Can `child` hang under `parent` through a supports edge (parent → child)? */
+export function supportsParentError(parent: DebateNode, child: DebateNode): string | undefined {
+  if (child.data.kind === 'Argument') {
+    if (parent.data.participantId !== child.data.participantId) return 'Argument supports a statement of another participant.'
+    if (!(['Thesis', 'Argument', 'Counter', 'Evidence'] as StatementKind[]).includes(parent.data.kind)) {
+      return `Argument is attached under a ${parent.data.kind}; only Thesis, Argument, Counter or Evidence are allowed.`
+    }
+  } else if (child.data.kind === 'Argument Summary') {
+    if (parent.data.kind !== 'Thesis') return `Argument Summary is attached under a ${parent.data.kind} instead of a Thesis.`
+  } else {
+    return `${child.data.kind} is attached with a supports edge; only Arguments and Argument Summaries can be.`
+  }
+}
+
+/** Can `node` point its evidence-of / attacks / agrees-with edge at `target`? */
+export function targetError(kind: string, node: DebateNode, target: DebateNode): string | undefined {
+  const same = node.data.participantId === target.data.participantId
+  const tk = target.data.kind
+  if (kind === 'evidence-of') {
+    if (node.data.kind !== 'Evidence') return `${node.data.kind} uses an evidence-of edge; only Evidence can.`
+    if (!same) return 'Evidence points at a statement of another participant.'
+    if (!(tk === 'Argument' || tk === 'Counter' || tk === 'Argument Summary')) return `Evidence targets a ${tk}; only Argument, Counter or Argument Summary are allowed.`
+  } else if (kind === 'attacks') {
+    if (node.data.kind !== 'Counter') return `${node.data.kind} uses an attacks edge; only Counters can.`
+    if (same) return 'Counter attacks a statement of its own participant.'
+    if (!(tk === 'Argument' || tk === 'Counter' || tk === 'Evidence')) return `Counter targets a ${tk}; only Argument, Counter or Evidence are allowed.`
+  } else if (kind === 'agrees-with') {
+    if (node.data.kind !== 'Agreement') return `${node.data.kind} uses an agrees-with edge; only Agreements can.`
+    if (same) return 'Agreement agrees with its own participant.'
+    if (!(tk === 'Argument' || tk === 'Counter')) return `Agreement targets a ${tk}; only Argument or Counter are allowed.`
+  }
+}
@@ -0,0 +1,140 @@
+// src/graph/scoring.ts
+import type { DebateEdge, DebateNode, StatementKind, StrengthType } from './types'
+import { childrenMapOf, edgeKindOf } from './tree'
+
+/**
+ * Weights and combination rules for the support score. Every statement scores in [0, 1]:
+ *
+ *   score = (base + (1 - base) × support) × attack factor
+ *
+ * - base: how much a statement stands on its own, per kind (a Thesis stands on nothing)
+ * - support: its supporters' contributions (weight × supporter score), combined per `combine`;
+ *   Type 2 sisters joined by `t2-link` under the same parent count once, as a conjunction
+ * - attack factor: Π (1 − attackDiscount × weight × score) over the Counters attacking it,
+ *   so a Counter that has itself been rebutted (low score) barely discounts its target
+ */
+export type ScoringRules = {
+  weights: Record<StrengthType, number>
+  /** Weight of supporters and Counters without a statement Type */
+  untypedWeight: number
+  /** Weight of an Agreement backing its target */
+  agreementWeight: number
+  /** Weight of an Argument Summary backing its Thesis */
+  summaryWeight: number
+  /** Share of the Type 2 weight a sister-less Type 2 statement still gets */
+  loneType2Factor: number
+  base: Record<StatementKind, number>
+  attackDiscount: number
+  /** noisy-or: 1 − Π(1 − c); max: strongest contribution; sum: total, capped at 1 */
+  combine: 'noisy-or' | 'max' | 'sum'
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  weights: { 'Type 1': 1, 'Type 2': 1, 'Type 3': 0.4, 'Type 4': 0 },
+  untypedWeight: 0.4,
+  agreementWeight: 0.5,
+  summaryWeight: 1,
+  loneType2Factor: 0.5,
+  base: { 'Thesis': 0, 'Argument Summary': 0, 'Argument': 0.3, 'Counter': 0.3, 'Evidence': 0.6, 'Agreement': 1 },
+  attackDiscount: 0.8,
+  combine: 'noisy-or',
+}
+
+export type Contribution = {
+  /** Supporting statements; more than one for a Type 2 conjunction */
+  ids: string[]
+  role: 'support' | 'conjunction' | 'attack'
+  weight: number
+  /** weight × score (× attackDiscount for attacks) */
+  value: number
+}
+
+export type NodeScore = {
+  id: string
+  score: number
+  base: number
+  support: number
+  attackFactor: number
+  contributions: Contribution[]
+}
+
+function combine(values: number[], how: ScoringRules['combine']) {
+  if (!values.length) return 0
+  if (how === 'max') return Math.max(...values)
+  if (how === 'sum') return Math.min(1, values.reduce((a, v) => a + v, 0))
+  return 1 - values.reduce((a, v) => a * (1 - v), 1)
+}
+
+export function scoreMap(nodes: DebateNode[], edges: DebateEdge[], rules: ScoringRules = DEFAULT_SCORING_RULES): Map<string, NodeScore> {
+  const byId = new Map(nodes.map(n => [n.id, n]))
+  const childMap = childrenMapOf(edges)
+  const sisters = new Map<string, string[]>()
+  for (const e of edges) {
+    if (edgeKindOf(e) !== 't2-link') continue
+    sisters.set(e.source, [...(sisters.get(e.source) || []), e.target])
+    sisters.set(e.target, [...(sisters.get(e.target) || []), e.source])
+  }
+  const weightOf = (n: DebateNode) => {
+    if (n.data.kind === 'Agreement') return rules.agreementWeight
+    if (n.data.kind === 'Argument Summary') return rules.summaryWeight
+    return n.data.strengthType ? rules.weights[n.data.strengthType] : rules.untypedWeight
+  }
+
+  const out = new Map<string, NodeScore>()
+  const visiting = new Set<string>()
+  const visit = (id: string): number => {
+    const done = out.get(id)
+    if (done) return done.score
+    // a cycle contributes nothing rather than looping
+    if (visiting.has(id)) return 0
+    const n = byId.get(id)
+    if (!n) return 0
+    visiting.add(id)
+
+    const kids = (childMap.get(id) || []).filter(c => c !== id && byId.has(c))
+    const supporters = kids.filter(c => byId.get(c)!.data.kind !== 'Counter')
+    const counters = kids.filter(c => byId.get(c)!.data.kind === 'Counter')
+    const contributions: Contribution[] = []
+
+    // Type 2 sisters under this parent form conjunctions (connected through t2-links)
+    const grouped = new Set<string>()
+    for (const c of supporters) {
+      if (grouped.has(c) || byId.get(c)!.data.strengthType !== 'Type 2') continue
+      const group: string[] = []
+      const stack = [c]
+      while (stack.length) {
+        const cur = stack.pop()!
+        if (grouped.has(cur)) continue
+        grouped.add(cur); group.push(cur)
+        for (const s of sisters.get(cur) || []) {
+          if (supporters.includes(s) && byId.get(s)!.data.strengthType === 'Type 2') stack.push(s)
+        }
+      }
+      const scores = group.map(visit)
+      const weight = rules.weights['Type 2'] * (group.length > 1 ? 1 : rules.loneType2Factor)
+      contributions.push({ ids: group, role: group.length > 1 ? 'conjunction' : 'support', weight, value: weight * Math.min(...scores) })
+    }
+    for (const c of supporters) {
+      if (grouped.has(c)) continue
+      const weight = weightOf(byId.get(c)!)
+      contributions.push({ ids: [c], role: 'support', weight, value: weight * visit(c) })
+    }
+    let attackFactor = 1
+    for (const c of counters) {
+      const weight = weightOf(byId.get(c)!)
+      const value = rules.attackDiscount * weight * visit(c)
+      attackFactor *= 1 - Math.min(1, value)
+      contributions.push({ ids: [c], role: 'attack', weight, value })
+    }
+
+    const base = rules.base[n.data.kind] ?? 0
+    const support = combine(contributions.filter(c => c.role !== 'attack').map(c => c.value), rules.combine)
+    const score = (base + (1 - base) * support) * attackFactor
+    visiting.delete(id)
+    out.set(id, { id, score, base, support, attackFactor, contributions })
+    return score
+  }
+
+  nodes.forEach(n => visit(n.id))
+  return out
+}
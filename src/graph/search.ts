@@ -0,0 +1,31 @@
+// src/graph/search.ts
+import type { DebateNode } from './types'
+
+/** Lower-case search terms; "quoted phrases" stay one term */
+export function parseQuery(q: string): string[] {
+  const terms: string[] = [];
+  const lower = q.toLowerCase();
+  let i = 0;
+  while (i < lower.length) {
+    if (lower[i] === ' ') { i++; continue; }
+    if (lower[i] === '"') {
+      const start = ++i;
+      while (i < lower.length && lower[i] !== '"') i++;
+      if (i > start) terms.push(lower.slice(start, i));
+      if (lower[i] === '"') i++;
+    } else {
+      const start = i;
+      while (i < lower.length && lower[i] !== ' ' && lower[i] !== '"') i++;
+      if (i > start) terms.push(lower.slice(start, i));
+    }
+  }
+  return terms;
+}
+
+/** Does the title or body contain any of the terms? */
+export function matches(node: DebateNode, terms: string[]): boolean {
+  if (terms.length === 0) return false
+  const title = (node.data.title || '').toLowerCase()
+  const body = (node.data.body || '').toLowerCase()
+  return terms.some(t => title.includes(t) || body.includes(t))
+}
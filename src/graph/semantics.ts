@@ -0,0 +1,162 @@
+// src/graph/semantics.ts
+import type { DebateEdge, DebateNode } from './types'
+import { edgeKindOf } from './tree'
+
+/**
+ * Abstract argumentation over the map: every statement is an argument, `attacks`
+ * edges are Dung attacks, and `supports` / `evidence-of` / `agrees-with` edges are
+ * supports, folded into extra attacks before the Dung semantics run.
+ */
+export type ArgLabel = 'IN' | 'OUT' | 'UNDEC'
+export type ArgSemantics = 'grounded' | 'preferred'
+
+/**
+ * How a support "a supports b" constrains acceptance (Cayrol & Lagasquie-Schiex):
+ * - deductive: if a is accepted, b must be (supported + mediated attacks)
+ * - necessary: b can only be accepted if a is (secondary + extended attacks)
+ * - ignore:    supports play no part; only direct attacks count
+ */
+export type SupportReading = 'deductive' | 'necessary' | 'ignore'
+
+export type AttackGraph = {
+  ids: string[]
+  /** attacked id → ids attacking it, derived attacks included */
+  attackers: Map<string, Set<string>>
+}
+
+export type ArgumentationResult = {
+  labels: Map<string, ArgLabel>
+  /** Preferred semantics only: number of preferred extensions found */
+  extensions?: number
+  /** Preferred semantics only: the search hit its limit, undecided labels were left as grounded */
+  truncated?: boolean
+}
+
+/** [supporter, supported] pairs; `supports` edges run parent → child, the others child → parent */
+function supportPairs(edges: DebateEdge[]): Array<[string, string]> {
+  const out: Array<[string, string]> = []
+  for (const e of edges) {
+    const k = edgeKindOf(e)
+    if (k === 'supports') out.push([e.target, e.source])
+    else if (k === 'evidence-of' || k === 'agrees-with') out.push([e.source, e.target])
+  }
+  return out
+}
+
+// ids reachable from `id` along `next`, `id` included
+function reach(id: string, next: Map<string, string[]>) {
+  const seen = new Set<string>([id])
+  const stack = [id]
+  while (stack.length) {
+    for (const n of next.get(stack.pop()!) || []) {
+      if (!seen.has(n)) { seen.add(n); stack.push(n) }
+    }
+  }
+  return seen
+}
+
+export function buildAttackGraph(nodes: DebateNode[], edges: DebateEdge[], support: SupportReading): AttackGraph {
+  const ids = nodes.map(n => n.id)
+  const known = new Set(ids)
+  const attackers = new Map<string, Set<string>>(ids.map(id => [id, new Set<string>()]))
+  const direct = edges.filter(e => edgeKindOf(e) === 'attacks' && known.has(e.source) && known.has(e.target))
+  for (const e of direct) attackers.get(e.target)!.add(e.source)
+  if (support === 'ignore') return { ids, attackers }
+
+  // a necessary support a → b behaves like a deductive support b → a
+  const supports = supportPairs(edges)
+    .filter(([a, b]) => known.has(a) && known.has(b) && a !== b)
+    .map(([a, b]) => support === 'necessary' ? [b, a] : [a, b])
+  const down = new Map<string, string[]>()  // a → what a supports
+  const up = new Map<string, string[]>()    // b → what supports b
+  for (const [a, b] of supports) {
+    down.set(a, [...(down.get(a) || []), b])
+    up.set(b, [...(up.get(b) || []), a])
+  }
+
+  for (const e of direct) {
+    // supported attack: whatever (transitively) supports the attacker attacks the target too
+    for (const a of reach(e.source, up)) attackers.get(e.target)!.add(a)
+    // mediated attack: the attacker also attacks everything that (transitively) supports the target
+    for (const c of reach(e.target, up)) attackers.get(c)!.add(e.source)
+  }
+  return { ids, attackers }
+}
+
+/** Least fixed point: IN once every attacker is OUT, OUT once some attacker is IN. */
+export function groundedLabelling(g: AttackGraph): Map<string, ArgLabel> {
+  const labels = new Map<string, ArgLabel>(g.ids.map(id => [id, 'UNDEC']))
+  let changed = true
+  while (changed) {
+    changed = false
+    for (const id of g.ids) {
+      if (labels.get(id) !== 'UNDEC') continue
+      const att = Array.from(g.attackers.get(id) || [])
+      if (att.every(a => labels.get(a) === 'OUT')) { labels.set(id, 'IN'); changed = true }
+      else if (att.some(a => labels.get(a) === 'IN')) { labels.set(id, 'OUT'); changed = true }
+    }
+  }
+  return labels
+}
+
+/**
+ * Preferred extensions (maximal admissible sets). Every one contains the grounded
+ * extension and avoids what it defeats, so only the grounded-UNDEC arguments are searched.
+ */
+export function preferredExtensions(g: AttackGraph, limit = 200000): { extensions: Set<string>[], complete: boolean } {
+  const grounded = groundedLabelling(g)
+  const base = g.ids.filter(id => grounded.get(id) === 'IN')
+  const open = g.ids.filter(id => grounded.get(id) === 'UNDEC')
+  const attacks = (a: string, b: string) => !!g.attackers.get(b)?.has(a)
+
+  const admissible = (set: Set<string>) => {
+    for (const x of set) {
+      for (const a of g.attackers.get(x) || []) {
+        if (!Array.from(g.attackers.get(a) || []).some(d => set.has(d))) return false
+      }
+    }
+    return true
+  }
+
+  const found: Set<string>[] = []
+  let steps = 0
+  let complete = true
+  const chosen = new Set<string>(base)
+  const search = (i: number) => {
+    if (++steps > limit) { complete = false; return }
+    if (i === open.length) {
+      if (admissible(chosen)) found.push(new Set(chosen))
+      return
+    }
+    const x = open[i]
+    if (!attacks(x, x) && !Array.from(chosen).some(y => attacks(x, y) || attacks(y, x))) {
+      chosen.add(x)
+      search(i + 1)
+      chosen.delete(x)
+    }
+    search(i + 1)
+  }
+  search(0)
+
+  const isSubset = (a: Set<string>, b: Set<string>) => a.size < b.size && Array.from(a).every(x => b.has(x))
+  const extensions = found.filter(a => !found.some(b => isSubset(a, b)))
+  return { extensions, complete }
+}
+
+export function labelArguments(nodes: DebateNode[], edges: DebateEdge[], semantics: ArgSemantics, support: SupportReading): ArgumentationResult {
+  const g = buildAttackGraph(nodes, edges, support)
+  const grounded = groundedLabelling(g)
+  if (semantics === 'grounded') return { labels: grounded }
+
+  const { extensions, complete } = preferredExtensions(g)
+  if (!complete || !extensions.length) return { labels: grounded, extensions: extensions.length, truncated: !complete }
+  // sceptical reading: IN if in every preferred extension, OUT if every one defeats it
+  const labels = new Map<string, ArgLabel>()
+  for (const id of g.ids) {
+    const att = g.attackers.get(id) || new Set<string>()
+    if (extensions.every(ext => ext.has(id))) labels.set(id, 'IN')
+    else if (extensions.every(ext => Array.from(att).some(a => ext.has(a)))) labels.set(id, 'OUT')
+    else labels.set(id, 'UNDEC')
+  }
+  return { labels, extensions: extensions.length }
+}
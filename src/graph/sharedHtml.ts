@@ -0,0 +1,38 @@
+// src/graph/sharedHtml.ts
+//
+// A shared map is one .html file: the read-only viewer (src/viewer.tsx, built
+// with its styles into a single inline script by the viewer-html plugin in
+// vite.config.ts) plus the map itself as JSON in <script id="map-data">.
+import type { LayoutDirection, Pos } from './layout'
+import type { LayoutEngineId } from './layoutEngines'
+import type { SavedSnapshot } from './snapshot'
+
+export type SharedMap = {
+  title: string
+  /** ISO time of the export */
+  exportedAt: string
+  snapshot: SavedSnapshot
+  /** Card positions as laid out in the editor when the map was exported */
+  positions: Record<string, Pos>
+  direction: LayoutDirection
+  engine: LayoutEngineId
+}
+
+export const MAP_DATA_ID = 'map-data'
+const TITLE_SLOT = '<!--map-title-->'
+const DATA_SLOT = '<!--map-data-->'
+
+const escapeHtml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+/** Fill the viewer template; the JSON cannot close its script tag because every "<" is escaped */
+export function buildSharedHtml(template: string, map: SharedMap): string {
+  const data = JSON.stringify(map).replace(/</g, '\\u003c')
+  return template.replace(TITLE_SLOT, () => escapeHtml(map.title)).replace(DATA_SLOT, () => data)
+}
+
+/** The map embedded in the current page, as written by buildSharedHtml */
+export function readSharedMap(doc: Document): SharedMap | undefined {
+  const text = doc.getElementById(MAP_DATA_ID)?.textContent
+  if (!text) return undefined
+  try { return JSON.parse(text) as SharedMap } catch { return undefined }
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { readSnapshot, SNAPSHOT_VERSION } from './snapshot'
+
+const doc = (version: number) => ({ version, nodes: [], edges: [], participants: [] })
+
+describe('readSnapshot version check', () => {
+  it('reads the current version', () => {
+    expect(readSnapshot(doc(SNAPSHOT_VERSION)).ok).toBe(true)
+  })
+
+  for (const version of [0, -2, 1.5]) {
+    it(`reports version ${version} as an issue instead of throwing`, () => {
+      const res = readSnapshot(doc(version))
+      expect(res.ok).toBe(false)
+      if (!res.ok) expect(res.issues).toEqual([expect.objectContaining({ path: 'version', field: 'version' })])
+    })
+  }
+})
@@ -0,0 +1,344 @@
+// src/graph/snapshot.ts
+import type { Comment, DebateNode, DebateEdge, DebateData, EdgeKind, Participant, Snapshot, Source, SourceKind, StatementKind, StrengthType, Transcript, MediaRef } from './types'
+import type { Revision } from './history'
+import { liveComments } from './comments'
+
+/**
+ * Version of the saved-file format. Files without a `version` field predate
+ * versioning and are treated as version 1.
+ */
+export const SNAPSHOT_VERSION = 6
+
+export type SavedSnapshot = Snapshot & { version: number, history?: Revision[] }
+
+export type SnapshotIssue = {
+  /** Where the problem is, e.g. `nodes[3].data.kind` */
+  path: string
+  nodeId?: string
+  edgeId?: string
+  field: string
+  problem: string
+}
+
+export type SnapshotLoadResult =
+  | { ok: true, snapshot: Snapshot, history?: Revision[], migratedFrom?: number }
+  | { ok: false, issues: SnapshotIssue[], migratedFrom?: number }
+
+const STATEMENT_KINDS: StatementKind[] = ['Thesis', 'Argument', 'Argument Summary', 'Counter', 'Evidence', 'Agreement']
+const STRENGTH_TYPES: StrengthType[] = ['Type 1', 'Type 2', 'Type 3', 'Type 4']
+const EDGE_KINDS: EdgeKind[] = ['supports', 'evidence-of', 'attacks', 't2-link', 'agrees-with', 'refers-to']
+const SOURCE_KINDS: SourceKind[] = ['article', 'book', 'web', 'video', 'report', 'other']
+
+// View state that older files persisted inside node data; it is not part of the document
+const VIEW_FIELDS = ['collapsed', 'selfCollapsed', 'bodyCollapsed', 'isEditing', 'canBeReparentTarget', 'selectedForReparent',
+  'hit', 'dimmed', 'edgeActive', 'searchTerms']
+
+const isObject = (v: unknown): v is Record<string, any> => !!v && typeof v === 'object' && !Array.isArray(v)
+
+function edgeKindFromLegacy(e: Record<string, any>): string | undefined {
+  const label = typeof e.label === 'string' ? e.label.toLowerCase() : ''
+  if ((EDGE_KINDS as string[]).includes(label)) return label
+  if (label === 'counter') return 'attacks'
+  if (label === 'evidence of') return 'evidence-of'
+  if (label === 'agrees') return 'agrees-with'
+  if (e.type === 't2') return 't2-link'
+  return undefined
+}
+
+// ---------- migrations: MIGRATIONS[n] upgrades a version-n file to version n + 1 ----------
+
+const MIGRATIONS: Record<number, (raw: Record<string, any>) => Record<string, any>> = {
+  1: raw => {
+    const nodes: any[] = Array.isArray(raw.nodes) ? raw.nodes : []
+    const edges: any[] = Array.isArray(raw.edges) ? raw.edges : []
+    let participants: any[] = Array.isArray(raw.participants) ? raw.participants : []
+    // very early files had no participants list; rebuild it from the nodes
+    if (!Array.isArray(raw.participants)) {
+      const ids = Array.from(new Set(nodes.map(n => n?.data?.participantId).filter((id: unknown) => typeof id === 'string')))
+      participants = ids.map(id => ({ id, name: id }))
+    }
+    return {
+      version: 2,
+      participants: participants.map(p => isObject(p) ? { id: p.id, name: p.name ?? p.id } : p),
+      nodes: nodes.map(n => {
+        if (!isObject(n) || !isObject(n.data)) return n
+        const data: Record<string, any> = { ...n.data }
+        for (const f of VIEW_FIELDS) delete data[f]
+        if (data.supportType && !data.strengthType) data.strengthType = data.supportType
+        delete data.supportType
+        if (typeof data.id !== 'string') data.id = ''
+        return { id: n.id, type: 'nodeCard', position: isObject(n.position) ? n.position : { x: 0, y: 0 }, data }
+      }),
+      // drop React Flow styling that older exports carried (smoothstep type, label styles, markers)
+      edges: edges.map(e => {
+        if (!isObject(e)) return e
+        const kind = isObject(e.data) && e.data.kind ? e.data.kind : edgeKindFromLegacy(e)
+        return {
+          id: e.id, source: e.source, target: e.target,
+          type: kind === 't2-link' || kind === 'refers-to' ? 't2' : 'thick',
+          data: { kind },
+        }
+      }),
+    }
+  },
+  // v3 adds the optional transcript; v2 files need no changes
+  2: raw => ({ ...raw, version: 3 }),
+  // v4 adds the optional revision history; v3 files need no changes
+  3: raw => ({ ...raw, version: 4 }),
+  // v5 adds the optional review comments; v4 files need no changes
+  4: raw => ({ ...raw, version: 5 }),
+  // v6 adds the optional bibliography and citations; v5 files need no changes
+  5: raw => ({ ...raw, version: 6 }),
+}
+
+/** Upgrade a parsed file to SNAPSHOT_VERSION. Returns the input version alongside the result. */
+export function migrateSnapshot(raw: Record<string, any>): { migrated: Record<string, any>, from: number } {
+  const from = typeof raw.version === 'number' ? raw.version : 1
+  let cur = raw
+  for (let v = from; v < SNAPSHOT_VERSION; v++) {
+    const step = MIGRATIONS[v]
+    if (!step) throw new Error(`No migration from snapshot version ${v}.`)
+    cur = step(cur)
+  }
+  return { migrated: cur, from }
+}
+
+// ---------- validation ----------
+
+/** Check a current-version snapshot; returns one issue per problem found (empty when valid). */
+export function validateSnapshot(raw: Record<string, any>): SnapshotIssue[] {
+  const issues: SnapshotIssue[] = []
+  for (const key of ['nodes', 'edges', 'participants']) {
+    if (!Array.isArray(raw[key])) issues.push({ path: key, field: key, problem: 'missing or not a list' })
+  }
+  if (issues.length) return issues
+
+  // read first: statements cite sources by id
+  const sourceIds = raw.sources !== undefined ? validateSources(raw.sources, issues) : new Set<string>()
+
+  const participantIds = new Set<string>()
+  raw.participants.forEach((p: any, i: number) => {
+    const path = `participants[${i}]`
+    if (!isObject(p)) { issues.push({ path, field: 'participant', problem: 'not an object' }); return }
+    if (typeof p.id !== 'string' || !p.id) issues.push({ path: path + '.id', field: 'id', problem: 'missing participant id' })
+    else if (participantIds.has(p.id)) issues.push({ path: path + '.id', field: 'id', problem: `duplicate participant id "${p.id}"` })
+    else participantIds.add(p.id)
+    if (typeof p.name !== 'string') issues.push({ path: path + '.name', field: 'name', problem: 'name must be text' })
+  })
+
+  const nodeIds = new Set<string>()
+  raw.nodes.forEach((n: any, i: number) => {
+    const path = `nodes[${i}]`
+    if (!isObject(n)) { issues.push({ path, field: 'node', problem: 'not an object' }); return }
+    const nodeId = typeof n.id === 'string' ? n.id : undefined
+    if (!nodeId) { issues.push({ path: path + '.id', field: 'id', problem: 'missing node id' }) }
+    else if (nodeIds.has(nodeId)) issues.push({ path: path + '.id', nodeId, field: 'id', problem: 'duplicate node id' })
+    else nodeIds.add(nodeId)
+    if (!isObject(n.position) || typeof n.position.x !== 'number' || typeof n.position.y !== 'number') {
+      issues.push({ path: path + '.position', nodeId, field: 'position', problem: 'position must have numeric x and y' })
+    }
+    const d = n.data
+    if (!isObject(d)) { issues.push({ path: path + '.data', nodeId, field: 'data', problem: 'missing statement data' }); return }
+    if (!STATEMENT_KINDS.includes(d.kind)) {
+      issues.push({ path: path + '.data.kind', nodeId, field: 'kind', problem: `unknown kind ${JSON.stringify(d.kind)}` })
+    }
+    if (typeof d.title !== 'string') issues.push({ path: path + '.data.title', nodeId, field: 'title', problem: 'title must be text' })
+    if (d.body !== undefined && typeof d.body !== 'string') issues.push({ path: path + '.data.body', nodeId, field: 'body', problem: 'body must be text' })
+    if (typeof d.participantId !== 'string' || !participantIds.has(d.participantId)) {
+      issues.push({ path: path + '.data.participantId', nodeId, field: 'participantId', problem: `unknown participant ${JSON.stringify(d.participantId)}` })
+    }
+    if (d.strengthType !== undefined && !STRENGTH_TYPES.includes(d.strengthType)) {
+      issues.push({ path: path + '.data.strengthType', nodeId, field: 'strengthType', problem: `unknown strength ${JSON.stringify(d.strengthType)}` })
+    }
+    if (d.firstMention !== undefined && typeof d.firstMention !== 'string') {
+      issues.push({ path: path + '.data.firstMention', nodeId, field: 'firstMention', problem: 'firstMention must be text' })
+    }
+    if (d.pinned !== undefined && typeof d.pinned !== 'boolean') {
+      issues.push({ path: path + '.data.pinned', nodeId, field: 'pinned', problem: 'pinned must be true or false' })
+    }
+    if (d.citations !== undefined) {
+      if (!Array.isArray(d.citations)) issues.push({ path: path + '.data.citations', nodeId, field: 'citations', problem: 'citations must be a list' })
+      else d.citations.forEach((c: any, j: number) => {
+        const cpath = `${path}.data.citations[${j}]`
+        if (!isObject(c) || !sourceIds.has(c.sourceId)) {
+          issues.push({ path: cpath, nodeId, field: 'citations', problem: `cites missing source ${JSON.stringify(isObject(c) ? c.sourceId : c)}` })
+          return
+        }
+        for (const f of ['locator', 'quote']) {
+          if (c[f] !== undefined && typeof c[f] !== 'string') issues.push({ path: `${cpath}.${f}`, nodeId, field: 'citations', problem: `${f} must be text` })
+        }
+      })
+    }
+  })
+
+  const edgeIds = new Set<string>()
+  raw.edges.forEach((e: any, i: number) => {
+    const path = `edges[${i}]`
+    if (!isObject(e)) { issues.push({ path, field: 'edge', problem: 'not an object' }); return }
+    const edgeId = typeof e.id === 'string' ? e.id : undefined
+    if (!edgeId) issues.push({ path: path + '.id', field: 'id', problem: 'missing edge id' })
+    else if (edgeIds.has(edgeId)) issues.push({ path: path + '.id', edgeId, field: 'id', problem: 'duplicate edge id' })
+    else edgeIds.add(edgeId)
+    if (!nodeIds.has(e.source)) issues.push({ path: path + '.source', edgeId, field: 'source', problem: `points to missing node ${JSON.stringify(e.source)}` })
+    if (!nodeIds.has(e.target)) issues.push({ path: path + '.target', edgeId, field: 'target', problem: `points to missing node ${JSON.stringify(e.target)}` })
+    if (!EDGE_KINDS.includes(e.data?.kind)) {
+      issues.push({ path: path + '.data.kind', edgeId, field: 'kind', problem: `unknown edge kind ${JSON.stringify(e.data?.kind)}` })
+    }
+  })
+  if (raw.transcript !== undefined) validateTranscript(raw.transcript, participantIds, issues)
+  if (raw.media !== undefined) {
+    const m = raw.media
+    if (!isObject(m) || typeof m.name !== 'string' || typeof m.type !== 'string' || (m.path !== undefined && typeof m.path !== 'string')) {
+      issues.push({ path: 'media', field: 'media', problem: 'media must have a name and type (and optionally a path)' })
+    }
+  }
+  if (raw.comments !== undefined) validateComments(raw.comments, nodeIds, edgeIds, issues)
+  if (raw.history !== undefined) validateHistory(raw.history, issues)
+  return issues
+}
+
+function validateComments(list: any, nodeIds: Set<string>, edgeIds: Set<string>, issues: SnapshotIssue[]) {
+  if (!Array.isArray(list)) {
+    issues.push({ path: 'comments', field: 'comments', problem: 'comments must be a list' })
+    return
+  }
+  const ids = new Set<string>()
+  const roots = new Set(list.filter(c => isObject(c) && !c.threadId && typeof c.id === 'string').map(c => c.id))
+  list.forEach((c: any, i: number) => {
+    const path = `comments[${i}]`
+    if (!isObject(c)) { issues.push({ path, field: 'comment', problem: 'not an object' }); return }
+    if (typeof c.id !== 'string' || !c.id) issues.push({ path: path + '.id', field: 'id', problem: 'missing comment id' })
+    else if (ids.has(c.id)) issues.push({ path: path + '.id', field: 'id', problem: `duplicate comment id "${c.id}"` })
+    else ids.add(c.id)
+    for (const f of ['author', 'at', 'text']) {
+      if (typeof c[f] !== 'string') issues.push({ path: `${path}.${f}`, field: f, problem: `${f} must be text` })
+    }
+    if (c.threadId !== undefined) {
+      if (!roots.has(c.threadId)) issues.push({ path: path + '.threadId', field: 'threadId', problem: `reply to missing comment ${JSON.stringify(c.threadId)}` })
+    } else if (c.nodeId !== undefined) {
+      if (!nodeIds.has(c.nodeId)) issues.push({ path: path + '.nodeId', nodeId: c.nodeId, field: 'nodeId', problem: `comment on missing node ${JSON.stringify(c.nodeId)}` })
+    } else if (c.edgeId !== undefined) {
+      if (!edgeIds.has(c.edgeId)) issues.push({ path: path + '.edgeId', edgeId: c.edgeId, field: 'edgeId', problem: `comment on missing edge ${JSON.stringify(c.edgeId)}` })
+    } else {
+      issues.push({ path, field: 'comment', problem: 'comment is not on a node or an edge' })
+    }
+    if (c.resolved !== undefined && typeof c.resolved !== 'boolean') issues.push({ path: path + '.resolved', field: 'resolved', problem: 'resolved must be true or false' })
+  })
+}
+
+/** Returns the ids of the valid sources */
+function validateSources(list: any, issues: SnapshotIssue[]): Set<string> {
+  const ids = new Set<string>()
+  if (!Array.isArray(list)) {
+    issues.push({ path: 'sources', field: 'sources', problem: 'sources must be a list' })
+    return ids
+  }
+  list.forEach((s: any, i: number) => {
+    const path = `sources[${i}]`
+    if (!isObject(s)) { issues.push({ path, field: 'source', problem: 'not an object' }); return }
+    if (typeof s.id !== 'string' || !s.id) issues.push({ path: path + '.id', field: 'id', problem: 'missing source id' })
+    else if (ids.has(s.id)) issues.push({ path: path + '.id', field: 'id', problem: `duplicate source id "${s.id}"` })
+    else ids.add(s.id)
+    if (typeof s.title !== 'string') issues.push({ path: path + '.title', field: 'title', problem: 'title must be text' })
+    for (const f of ['author', 'publisher', 'date', 'url', 'key']) {
+      if (s[f] !== undefined && typeof s[f] !== 'string') issues.push({ path: `${path}.${f}`, field: f, problem: `${f} must be text` })
+    }
+    if (s.kind !== undefined && !SOURCE_KINDS.includes(s.kind)) issues.push({ path: path + '.kind', field: 'kind', problem: `unknown source kind ${JSON.stringify(s.kind)}` })
+  })
+  return ids
+}
+
+// revisions are checked for shape only; their contents are read when one is restored
+function validateHistory(h: any, issues: SnapshotIssue[]) {
+  if (!Array.isArray(h)) {
+    issues.push({ path: 'history', field: 'history', problem: 'history must be a list of revisions' })
+    return
+  }
+  h.forEach((r: any, i: number) => {
+    const path = `history[${i}]`
+    if (!isObject(r)) { issues.push({ path, field: 'revision', problem: 'not an object' }); return }
+    if (typeof r.id !== 'string' || !r.id) issues.push({ path: path + '.id', field: 'id', problem: 'missing revision id' })
+    if (r.kind !== 'auto' && r.kind !== 'checkpoint') issues.push({ path: path + '.kind', field: 'kind', problem: `unknown revision kind ${JSON.stringify(r.kind)}` })
+    if (typeof r.at !== 'string') issues.push({ path: path + '.at', field: 'at', problem: 'time must be text' })
+    if (r.name !== undefined && typeof r.name !== 'string') issues.push({ path: path + '.name', field: 'name', problem: 'name must be text' })
+    if (!isObject(r.delta)) issues.push({ path: path + '.delta', field: 'delta', problem: 'missing changes' })
+  })
+}
+
+function validateTranscript(t: any, participantIds: Set<string>, issues: SnapshotIssue[]) {
+  if (!isObject(t) || !Array.isArray(t.cues)) {
+    issues.push({ path: 'transcript', field: 'transcript', problem: 'transcript must have a list of cues' })
+    return
+  }
+  t.cues.forEach((c: any, i: number) => {
+    const path = `transcript.cues[${i}]`
+    if (!isObject(c)) { issues.push({ path, field: 'cue', problem: 'not an object' }); return }
+    if (typeof c.start !== 'number' || c.start < 0) issues.push({ path: path + '.start', field: 'start', problem: 'start must be seconds (a number ≥ 0)' })
+    if (c.end !== undefined && typeof c.end !== 'number') issues.push({ path: path + '.end', field: 'end', problem: 'end must be seconds' })
+    if (typeof c.text !== 'string') issues.push({ path: path + '.text', field: 'text', problem: 'text must be text' })
+    if (c.speaker !== undefined && typeof c.speaker !== 'string') issues.push({ path: path + '.speaker', field: 'speaker', problem: 'speaker must be text' })
+  })
+  if (!isObject(t.speakers)) {
+    issues.push({ path: 'transcript.speakers', field: 'speakers', problem: 'speaker mapping must be an object' })
+    return
+  }
+  for (const [label, pid] of Object.entries(t.speakers)) {
+    if (typeof pid !== 'string' || !participantIds.has(pid)) {
+      issues.push({ path: `transcript.speakers.${label}`, field: 'speakers', problem: `speaker "${label}" maps to unknown participant ${JSON.stringify(pid)}` })
+    }
+  }
+}
+
+// ---------- load / save ----------
+
+/** Migrate and validate parsed JSON. Only a valid result should be handed to `loadSnapshot`. */
+export function readSnapshot(raw: unknown): SnapshotLoadResult {
+  if (!isObject(raw)) return { ok: false, issues: [{ path: '', field: 'file', problem: 'not a debate map (expected a JSON object)' }] }
+  if (typeof raw.version === 'number' && !(Number.isInteger(raw.version) && raw.version >= 1)) {
+    return { ok: false, issues: [{ path: 'version', field: 'version', problem: `not a valid snapshot version (${raw.version}); expected a whole number from 1 to ${SNAPSHOT_VERSION}` }] }
+  }
+  if (typeof raw.version === 'number' && raw.version > SNAPSHOT_VERSION) {
+    return { ok: false, issues: [{ path: 'version', field: 'version', problem: `written by a newer version of the app (file v${raw.version}, app v${SNAPSHOT_VERSION})` }] }
+  }
+  const { migrated, from } = migrateSnapshot(raw)
+  const migratedFrom = from < SNAPSHOT_VERSION ? from : undefined
+  const issues = validateSnapshot(migrated)
+  if (issues.length) return { ok: false, issues, migratedFrom }
+  const snapshot: Snapshot = {
+    nodes: migrated.nodes as DebateNode[],
+    edges: migrated.edges as DebateEdge[],
+    participants: migrated.participants as Participant[],
+  }
+  if (migrated.transcript) snapshot.transcript = migrated.transcript as Transcript
+  if (migrated.media) snapshot.media = migrated.media as MediaRef
+  if (migrated.comments?.length) snapshot.comments = migrated.comments as Comment[]
+  if (migrated.sources?.length) snapshot.sources = migrated.sources as Source[]
+  const history = migrated.history as Revision[] | undefined
+  return { ok: true, snapshot, ...(history?.length ? { history } : {}), migratedFrom }
+}
+
+/** Current-version file contents for a snapshot, with view-only flags left out. */
+export function toSavedSnapshot(s: Snapshot): SavedSnapshot {
+  // threads on deleted statements or edges are kept only for undo
+  const comments = liveComments(s)
+  // a source deleted by a collaborator while someone else cited it leaves a citation behind
+  const sourceIds = new Set((s.sources || []).map(x => x.id))
+  return {
+    version: SNAPSHOT_VERSION,
+    participants: s.participants,
+    nodes: s.nodes.map(n => {
+      const data: Record<string, any> = { ...n.data }
+      for (const f of VIEW_FIELDS) delete data[f]
+      if (data.citations) {
+        data.citations = data.citations.filter((c: { sourceId: string }) => sourceIds.has(c.sourceId))
+        if (!data.citations.length) delete data.citations
+      }
+      return { id: n.id, type: n.type, position: n.position, data: data as DebateData }
+    }),
+    edges: s.edges.map(e => ({ id: e.id, source: e.source, target: e.target, type: e.type, data: e.data })),
+    ...(s.transcript ? { transcript: s.transcript } : {}),
+    ...(s.media ? { media: s.media } : {}),
+    ...(comments.length ? { comments } : {}),
+    ...(s.sources?.length ? { sources: s.sources } : {}),
+  }
+}
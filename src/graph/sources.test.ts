@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import type { Snapshot, Source } from './types'
+import { exportBibtex, exportCslJson, importBibtex, importCslJson, newSources, shortCitation, sourceFormatOf } from './sources'
+
+const SOURCES: Source[] = [
+  { id: 's1', kind: 'article', title: 'Rates & Risks', author: 'Doe, Jane; Roe, Richard', publisher: 'Journal of Things', date: '2021-03', url: 'https://example.org/a', key: 'doe2021' },
+  { id: 's2', kind: 'book', title: 'A Long Book', author: 'World Health Organization', publisher: 'Big Press', date: '1999', key: 'who1999' },
+  { id: 's3', kind: 'web', title: 'A Post', author: 'Poe, Edgar', publisher: 'Some Blog', date: '2024-05-17', url: 'https://example.org/post', key: 'poe2024' },
+]
+const snap = (sources: Source[]): Snapshot => ({ nodes: [], edges: [], participants: [], sources })
+const withoutIds = (list: Source[]) => list.map(({ id, ...rest }) => rest)
+
+describe('BibTeX', () => {
+  it('round-trips the bibliography', () => {
+    const res = importBibtex(exportBibtex(snap(SOURCES)).text)
+    expect(res.problems).toEqual([])
+    expect(withoutIds(res.sources)).toEqual(withoutIds(SOURCES))
+  })
+
+  it('reads string macros, month macros, DOIs and TeX escapes', () => {
+    const res = importBibtex(`
+      @string{jt = "Journal of Things"}
+      @article{k1, title = {Caf\\'e {Society}}, author = {Smith, Ann and others}, journal = jt, year = 2020, month = mar, doi = {10.1/xyz}}
+    `)
+    expect(res.sources).toEqual([expect.objectContaining({
+      kind: 'article', title: 'Café Society', author: 'Smith, Ann; et al.', publisher: 'Journal of Things',
+      date: '2020-03', url: 'https://doi.org/10.1/xyz', key: 'k1',
+    })])
+  })
+
+  it('reports entries without a title and unclosed entries', () => {
+    const res = importBibtex('@misc{notitle, year = 2000}\n@book{open, title = {Never closed}')
+    expect(res.sources).toEqual([])
+    expect(res.problems).toHaveLength(2)
+  })
+})
+
+describe('CSL-JSON', () => {
+  it('round-trips the bibliography', () => {
+    const res = importCslJson(exportCslJson(snap(SOURCES)).text)
+    expect(res.problems).toEqual([])
+    expect(withoutIds(res.sources)).toEqual(withoutIds(SOURCES))
+  })
+
+  it('reports invalid JSON and items without a title', () => {
+    expect(importCslJson('[{').problems).toHaveLength(1)
+    const res = importCslJson(JSON.stringify([{ id: 'x', type: 'book' }, 3]))
+    expect(res.sources).toEqual([])
+    expect(res.problems).toEqual(['x: no title, skipped.', 'Item 2: not a reference, skipped.'])
+  })
+})
+
+describe('helpers', () => {
+  it('cites by family names and year', () => {
+    expect(SOURCES.map(shortCitation)).toEqual(['Doe & Roe 2021', 'World Health Organization 1999', 'Poe 2024'])
+  })
+
+  it('skips sources that are already in the bibliography', () => {
+    const res = newSources(SOURCES, [{ ...SOURCES[0], id: 'other' }, { id: 'n', title: 'New' }])
+    expect(res.duplicates).toBe(1)
+    expect(res.added.map(s => s.title)).toEqual(['New'])
+  })
+
+  it('tells the formats apart', () => {
+    expect(sourceFormatOf('refs.bib', '[]')).toBe('bibtex')
+    expect(sourceFormatOf('refs.txt', ' [{"id": 1}]')).toBe('csl-json')
+    expect(sourceFormatOf('refs.txt', '@book{x, title={T}}')).toBe('bibtex')
+  })
+})
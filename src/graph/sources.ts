@@ -0,0 +1,395 @@
+// src/graph/sources.ts
+// The document's bibliography. Sources are kept once per document and statements cite them
+// (DebateData.citations) with the page or timecode and the quote they draw on, so the same
+// article is not pasted into a dozen bodies in slightly different words.
+//
+// Reference collections come in as BibTeX or CSL-JSON (what Zotero, Mendeley and most
+// reference managers export) and the bibliography goes out the same ways, plus a plain
+// reference list. Only what a Source holds survives the trip: abstracts, keywords, volume
+// and issue numbers and the like are not kept.
+import type { DebateNode, Snapshot, Source, SourceKind } from './types'
+import type { ExportResult } from './interchange'
+
+export type SourceFormat = 'bibtex' | 'csl-json'
+
+export const SOURCE_FORMAT_LABELS: Record<SourceFormat, string> = {
+  'bibtex': 'BibTeX',
+  'csl-json': 'CSL-JSON',
+}
+
+export const SOURCE_KIND_LABELS: Record<SourceKind, string> = {
+  article: 'Article',
+  book: 'Book',
+  web: 'Web page',
+  video: 'Video / broadcast',
+  report: 'Report',
+  other: 'Other',
+}
+
+export type SourceImportResult = {
+  sources: Source[]
+  /** Entries that were skipped, and why */
+  problems: string[]
+}
+
+function nid() { return Math.random().toString(36).slice(2, 10) }
+
+// ---------- reading sources ----------
+
+/** "Family, Given" → "Family"; a name without a comma is an organisation and used whole */
+const familyOf = (name: string) => name.split(',')[0].trim()
+export const authorsOf = (s: Pick<Source, 'author'>) => (s.author || '').split(';').map(a => a.trim()).filter(Boolean)
+export const yearOf = (s: Pick<Source, 'date'>) => /\b(\d{4})\b/.exec(s.date || '')?.[1]
+
+/** Short form for chips and lists, e.g. "Smith & Jones 2020" or "Smith et al. 2020" */
+export function shortCitation(s: Source): string {
+  const listed = authorsOf(s)
+  const authors = listed.filter(a => a !== 'et al.').map(familyOf)
+  const who = authors.length > 2 || (authors.length && listed.length > authors.length) ? `${authors[0]} et al.`
+    : authors.length === 2 ? `${authors[0]} & ${authors[1]}`
+      : authors[0] || (s.title.length > 32 ? s.title.slice(0, 30).trimEnd() + '…' : s.title) || 'Untitled'
+  const year = yearOf(s)
+  return year ? `${who} ${year}` : who
+}
+
+const sentence = (text: string) => /[.?!]$/.test(text) ? text : text + '.'
+
+/** One line of a reference list: authors (year). Title. Publisher. URL */
+export function referenceText(s: Source): string {
+  const parts: string[] = []
+  const authors = authorsOf(s)
+  if (authors.length) parts.push(`${authors.join('; ')} (${yearOf(s) || 'n.d.'}).`)
+  parts.push(sentence(s.title || 'Untitled'))
+  if (!authors.length && s.date) parts.push(`(${s.date}).`)
+  if (s.publisher) parts.push(sentence(s.publisher))
+  if (s.url) parts.push(s.url)
+  return parts.join(' ')
+}
+
+/** Statements citing each source, in map order */
+export function citingNodes(nodes: DebateNode[]): Map<string, DebateNode[]> {
+  const out = new Map<string, DebateNode[]>()
+  for (const n of nodes) {
+    for (const sourceId of new Set((n.data.citations || []).map(c => c.sourceId))) {
+      out.set(sourceId, [...(out.get(sourceId) || []), n])
+    }
+  }
+  return out
+}
+
+// ---------- matching ----------
+
+const plain = (t: string) => t.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '')
+const plainUrl = (u: string) => u.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '')
+
+/** Same work: same citation key, same URL, or the same title in the same year */
+export function sameSource(a: Source, b: Source): boolean {
+  if (a.key && b.key && a.key === b.key) return true
+  if (a.url && b.url && plainUrl(a.url) === plainUrl(b.url)) return true
+  return !!a.title && plain(a.title) === plain(b.title) && yearOf(a) === yearOf(b)
+}
+
+/** Incoming sources the bibliography does not have yet; the rest count as duplicates */
+export function newSources(existing: Source[], incoming: Source[]): { added: Source[], duplicates: number } {
+  const added: Source[] = []
+  for (const s of incoming) if (![...existing, ...added].some(x => sameSource(x, s))) added.push(s)
+  return { added, duplicates: incoming.length - added.length }
+}
+
+// ---------- BibTeX ----------
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const BIBTEX_KINDS: Record<string, SourceKind> = {
+  article: 'article', inproceedings: 'article', conference: 'article',
+  book: 'book', mvbook: 'book', inbook: 'book', incollection: 'book', booklet: 'book', proceedings: 'book',
+  online: 'web', www: 'web', webpage: 'web', electronic: 'web',
+  techreport: 'report', report: 'report', thesis: 'report', phdthesis: 'report', mastersthesis: 'report', manual: 'report',
+  video: 'video', movie: 'video', audio: 'video',
+}
+
+// accents as BibTeX writes them, e.g. {\"o} or \'{e}, as combining marks
+const ACCENTS: Record<string, string> = {
+  '`': '\u0300', "'": '\u0301', '^': '\u0302', '~': '\u0303', '=': '\u0304', 'u': '\u0306', '.': '\u0307',
+  '"': '\u0308', 'H': '\u030b', 'v': '\u030c', 'c': '\u0327', 'k': '\u0328',
+}
+const LETTERS: Record<string, string> = { ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'ı' }
+
+/** TeX markup to plain text */
+function untex(v: string): string {
+  let out = v
+    .replace(/\\([`'^~=."])\s*\{?\\?([A-Za-z])\}?/g, (_, a, c) => c + ACCENTS[a])
+    .replace(/\\([uHvck])(?:\s*\{\\?([A-Za-z])\}|\s+([A-Za-z]))/g, (_, a, c1, c2) => (c1 || c2) + ACCENTS[a])
+    .replace(/\\(ss|ae|AE|oe|OE|aa|AA|[oOlLi])(?![A-Za-z])\s*/g, (_, l) => LETTERS[l])
+  // commands that only style their argument: \emph{x}, \textit{x}, \url{x}, …
+  for (let guard = 0; guard < 10 && /\\[A-Za-z]+\*?\s*\{[^{}]*\}/.test(out); guard++) {
+    out = out.replace(/\\[A-Za-z]+\*?\s*\{([^{}]*)\}/g, '$1')
+  }
+  return out
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/---/g, '—').replace(/--/g, '–')
+    .replace(/(^|[^\\])~/g, '$1 ')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .normalize('NFC')
+}
+
+/** Index of the bracket closing the one at `open`, or -1 */
+function closingBracket(text: string, open: number): number {
+  const round = text[open] === '('
+  let depth = 0
+  for (let i = open + 1; i < text.length; i++) {
+    const c = text[i]
+    if (c === '\\') { i++; continue }
+    if (c === '{') depth++
+    else if (c === '}') { if (depth === 0) return round ? -1 : i; depth-- }
+    else if (round && c === ')' && depth === 0) return i
+  }
+  return -1
+}
+
+/** `name = {value} # "value" # macro, …` → raw (still TeX) values by lower-case name */
+function bibFields(body: string, strings: Record<string, string>): Record<string, string> {
+  const fields: Record<string, string> = {}
+  let i = 0
+  const skip = () => { while (i < body.length && /[\s,]/.test(body[i])) i++ }
+  while (true) {
+    skip()
+    const name = /^[A-Za-z][\w\-:.+]*/.exec(body.slice(i))
+    if (!name) break
+    i += name[0].length
+    while (/\s/.test(body[i] || '')) i++
+    if (body[i] !== '=') break
+    i++
+    let value = ''
+    while (true) {
+      while (/\s/.test(body[i] || '')) i++
+      if (body[i] === '{') {
+        const end = closingBracket(body, i)
+        if (end < 0) return fields
+        value += body.slice(i + 1, end)
+        i = end + 1
+      } else if (body[i] === '"') {
+        let j = i + 1, depth = 0
+        for (; j < body.length; j++) {
+          if (body[j] === '\\') { j++; continue }
+          if (body[j] === '{') depth++
+          else if (body[j] === '}') depth--
+          else if (body[j] === '"' && depth === 0) break
+        }
+        value += body.slice(i + 1, j)
+        i = j + 1
+      } else {
+        const word = /^[\w\-:.+]+/.exec(body.slice(i))
+        if (!word) break
+        const w = word[0].toLowerCase()
+        value += strings[w] ?? word[0]
+        i += word[0].length
+      }
+      while (/\s/.test(body[i] || '')) i++
+      if (body[i] !== '#') break
+      i++
+    }
+    fields[name[0].toLowerCase()] = value
+  }
+  return fields
+}
+
+/** Split a BibTeX name list on "and", leaving braced names such as {Barnes and Noble} whole */
+function bibNames(raw: string): string[] {
+  const names: string[] = []
+  let depth = 0, start = 0
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] === '{') depth++
+    else if (raw[i] === '}') depth--
+    else if (depth === 0 && /^\sand\s/i.test(raw.slice(i, i + 5))) { names.push(raw.slice(start, i)); start = i + 5 }
+  }
+  names.push(raw.slice(start))
+  return names.map(n => n.trim()).filter(Boolean).map(n => {
+    if (n.toLowerCase() === 'others') return 'et al.'
+    // {World Health Organization}: an organisation, written as is
+    if (/^\{.*\}$/.test(n) && closingBracket(n, 0) === n.length - 1) return untex(n)
+    // "von Last, Jr, First" keeps the last name and the first
+    if (n.includes(',')) { const parts = n.split(',').map(untex); return `${parts[0]}, ${parts[parts.length - 1]}` }
+    const words = untex(n).split(' ')
+    return words.length > 1 ? `${words[words.length - 1]}, ${words.slice(0, -1).join(' ')}` : words[0]
+  })
+}
+
+const pad = (n: string) => n.padStart(2, '0')
+
+export function importBibtex(text: string): SourceImportResult {
+  const sources: Source[] = [], problems: string[] = []
+  const strings: Record<string, string> = {}
+  let at = text.indexOf('@')
+  while (at >= 0) {
+    const head = /^@\s*([A-Za-z]+)\s*([{(])/.exec(text.slice(at))
+    if (!head) { at = text.indexOf('@', at + 1); continue }
+    const open = at + head[0].length - 1
+    const close = closingBracket(text, open)
+    if (close < 0) { problems.push(`@${head[1]} entry near character ${at} is not closed; the rest of the file was skipped.`); break }
+    const type = head[1].toLowerCase()
+    const body = text.slice(open + 1, close)
+    at = text.indexOf('@', close + 1)
+    if (type === 'comment' || type === 'preamble') continue
+    if (type === 'string') { Object.assign(strings, bibFields(body, strings)); continue }
+
+    const comma = body.indexOf(',')
+    const key = (comma < 0 ? body : body.slice(0, comma)).trim()
+    const f = bibFields(comma < 0 ? '' : body.slice(comma + 1), strings)
+    const title = untex(f.title || f.booktitle || '')
+    if (!title) { problems.push(`${key || '@' + head[1]}: no title, skipped.`); continue }
+
+    const names = f.author || f.editor
+    const howUrl = /\\url\{([^}]*)\}/.exec(f.howpublished || '')?.[1]
+    const container = f.journal || f.journaltitle || (f.title ? f.booktitle : undefined)
+      || f.publisher || f.institution || f.organization || f.school || (howUrl ? undefined : f.howpublished)
+    let date = f.date ? untex(f.date) : f.year ? untex(f.year) : undefined
+    // month = 3, {March} or the mar macro
+    const month = f.month && (/^\d{1,2}$/.test(f.month.trim()) ? Number(f.month) : MONTHS.indexOf(f.month.trim().slice(0, 3).toLowerCase()) + 1)
+    if (date && !f.date && month) date += '-' + pad(String(month))
+    const url = f.url ? f.url.trim() : f.doi ? `https://doi.org/${f.doi.trim().replace(/^https?:\/\/(dx\.)?doi\.org\//, '')}` : howUrl
+    const kind = BIBTEX_KINDS[type] || (url ? 'web' : 'other')
+    sources.push({
+      id: nid(), kind, title,
+      ...(names ? { author: bibNames(names).join('; ') } : {}),
+      ...(container ? { publisher: untex(container) } : {}),
+      ...(date ? { date } : {}),
+      ...(url ? { url } : {}),
+      ...(key ? { key } : {}),
+    })
+  }
+  return { sources, problems }
+}
+
+const bibEscape = (v: string) => v.replace(/([&%$#_])/g, '\\$1')
+
+function bibKeyFor(s: Source, taken: Set<string>): string {
+  let base = s.key || (plain(familyOf(authorsOf(s)[0] || '') || s.title.split(/\s+/)[0] || 'source') + (yearOf(s) || ''))
+  base = base.replace(/[^A-Za-z0-9_:\-./]/g, '') || 'source'
+  let key = base
+  for (let i = 0; taken.has(key); i++) key = base + String.fromCharCode(97 + (i % 26)) + (i >= 26 ? Math.floor(i / 26) : '')
+  taken.add(key)
+  return key
+}
+
+export function exportBibtex(snap: Snapshot): ExportResult {
+  const taken = new Set<string>()
+  const entries = (snap.sources || []).map(s => {
+    const type = s.kind === 'article' ? 'article' : s.kind === 'book' ? 'book' : s.kind === 'report' ? 'techreport' : 'misc'
+    const fields: Array<[string, string]> = [['title', s.title]]
+    const authors = authorsOf(s)
+    // names without a comma are organisations; braces keep BibTeX from splitting them
+    if (authors.length) fields.push(['author', authors.map(a => a === 'et al.' ? 'others' : a.includes(',') ? a : `{${a}}`).join(' and ')])
+    if (s.publisher) fields.push([type === 'article' ? 'journal' : type === 'techreport' ? 'institution' : type === 'misc' ? 'howpublished' : 'publisher', s.publisher])
+    const ymd = /^(\d{4})(?:-(\d{2}))?(-\d{2})?/.exec(s.date || '')
+    if (ymd) {
+      fields.push(['year', ymd[1]])
+      if (ymd[2]) fields.push(['month', MONTHS[Number(ymd[2]) - 1] || ymd[2]])
+      // biblatex reads the full date; BibTeX keeps year and month
+      if (ymd[3]) fields.push(['date', ymd[0]])
+    } else if (s.date) fields.push(['note', s.date])
+    if (s.url) fields.push(['url', s.url])
+    const lines = fields.map(([k, v]) => k === 'month' && MONTHS.includes(v) ? `  ${k} = ${v}` : `  ${k} = {${k === 'url' ? v : bibEscape(v)}}`)
+    return `@${type}{${bibKeyFor(s, taken)},\n${lines.join(',\n')}\n}`
+  })
+  return { text: entries.join('\n\n') + '\n', notes: [] }
+}
+
+// ---------- CSL-JSON ----------
+
+const CSL_KINDS: Record<string, SourceKind> = {
+  'article': 'article', 'article-journal': 'article', 'article-magazine': 'article', 'article-newspaper': 'article', 'paper-conference': 'article',
+  'book': 'book', 'chapter': 'book',
+  'webpage': 'web', 'post': 'web', 'post-weblog': 'web',
+  'motion_picture': 'video', 'broadcast': 'video', 'song': 'video', 'interview': 'video',
+  'report': 'report', 'thesis': 'report',
+}
+const CSL_TYPE_OF: Record<SourceKind, string> = {
+  article: 'article-journal', book: 'book', web: 'webpage', video: 'motion_picture', report: 'report', other: 'document',
+}
+
+const cslText = (v: unknown) => typeof v === 'string' ? v.trim() : typeof v === 'number' ? String(v) : ''
+
+function cslNames(list: unknown): string | undefined {
+  if (!Array.isArray(list)) return undefined
+  const names = list.map((n: any) => n && typeof n === 'object'
+    ? cslText(n.literal) || [cslText(n.family), cslText(n.given)].filter(Boolean).join(', ')
+    : '').filter(Boolean)
+  return names.length ? names.join('; ') : undefined
+}
+
+function cslDate(d: any): string | undefined {
+  if (!d || typeof d !== 'object') return cslText(d) || undefined
+  const parts = Array.isArray(d['date-parts']) && Array.isArray(d['date-parts'][0]) ? d['date-parts'][0] : undefined
+  if (parts?.length && Number.isFinite(Number(parts[0]))) return parts.slice(0, 3).map((p: unknown, i: number) => i ? pad(String(p)) : String(p)).join('-')
+  return cslText(d.raw) || cslText(d.literal) || undefined
+}
+
+export function importCslJson(text: string): SourceImportResult {
+  let raw: unknown
+  try { raw = JSON.parse(text.replace(/^\uFEFF/, '')) }
+  catch (e) { return { sources: [], problems: ['Not valid JSON: ' + ((e as any)?.message || String(e))] } }
+  const items = Array.isArray(raw) ? raw : raw && typeof raw === 'object' ? (Array.isArray((raw as any).items) ? (raw as any).items : [raw]) : []
+  const sources: Source[] = [], problems: string[] = []
+  items.forEach((it: any, i: number) => {
+    const label = cslText(it?.id) || `Item ${i + 1}`
+    if (!it || typeof it !== 'object') { problems.push(`${label}: not a reference, skipped.`); return }
+    const title = cslText(it.title)
+    if (!title) { problems.push(`${label}: no title, skipped.`); return }
+    const author = cslNames(it.author) || cslNames(it.editor)
+    const publisher = cslText(it['container-title']) || cslText(it.publisher)
+    const date = cslDate(it.issued)
+    const doi = cslText(it.DOI)
+    const url = cslText(it.URL) || (doi ? `https://doi.org/${doi}` : '')
+    const key = cslText(it.id)
+    sources.push({
+      id: nid(), kind: CSL_KINDS[it.type] || (url ? 'web' : 'other'), title,
+      ...(author ? { author } : {}),
+      ...(publisher ? { publisher } : {}),
+      ...(date ? { date } : {}),
+      ...(url ? { url } : {}),
+      ...(key ? { key } : {}),
+    })
+  })
+  return { sources, problems }
+}
+
+export function exportCslJson(snap: Snapshot): ExportResult {
+  const taken = new Set<string>()
+  const items = (snap.sources || []).map(s => {
+    const kind = s.kind || 'other'
+    const item: Record<string, unknown> = { id: bibKeyFor(s, taken), type: CSL_TYPE_OF[kind], title: s.title }
+    const authors = authorsOf(s).filter(a => a !== 'et al.')
+    if (authors.length) {
+      item.author = authors.map(a => a.includes(',') ? { family: familyOf(a), given: a.slice(a.indexOf(',') + 1).trim() } : { literal: a })
+    }
+    if (s.publisher) item[kind === 'article' || kind === 'web' ? 'container-title' : 'publisher'] = s.publisher
+    const ymd = /^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/.exec(s.date || '')
+    if (ymd) item.issued = { 'date-parts': [ymd.slice(1).filter(Boolean).map(Number)] }
+    else if (s.date) item.issued = { raw: s.date }
+    if (s.url) item.URL = s.url
+    return item
+  })
+  return { text: JSON.stringify(items, null, 2), notes: [] }
+}
+
+// ---------- reference list ----------
+
+/** The bibliography as a Markdown list, sorted as a reference list is */
+export function exportReferenceList(snap: Snapshot): ExportResult {
+  const lines = (snap.sources || []).map(referenceText).sort((a, b) => a.localeCompare(b))
+  return { text: ['# References', '', ...lines.map(l => `- ${l}`)].join('\n') + '\n', notes: [] }
+}
+
+/** Guess the format from the file name, falling back to the content */
+export function sourceFormatOf(fileName: string, text: string): SourceFormat {
+  if (/\.(bib|bibtex)$/i.test(fileName)) return 'bibtex'
+  if (/\.(json|csl)$/i.test(fileName)) return 'csl-json'
+  return /^\uFEFF?\s*[[{]/.test(text) ? 'csl-json' : 'bibtex'
+}
+
+export function importSources(text: string, format: SourceFormat): SourceImportResult {
+  return format === 'bibtex' ? importBibtex(text) : importCslJson(text)
+}
@@ -0,0 +1,103 @@
+// src/graph/timeline.ts
+import type { DebateEdge, DebateNode, EdgeKind, Participant } from './types'
+import { parseTimestamp } from './transcript'
+import { edgeKindOf } from './tree'
+
+export const TIMELINE_CARD_W = 170
+export const TIMELINE_CARD_H = 44
+const ROW_GAP = 8
+const LANE_PAD = 14
+export const TIMELINE_GUTTER = 140
+
+/** Edge kinds drawn between lanes */
+export const TIMELINE_EDGE_KINDS: EdgeKind[] = ['attacks', 'supports', 'evidence-of']
+
+export type TimelineCard = { id: string, x: number, y: number, seconds: number }
+export type TimelineLane = { participant: Participant, y: number, height: number }
+/** `from` is the responding statement, `to` the one it responds to */
+export type TimelineEdge = { id: string, kind: EdgeKind, from: TimelineCard, to: TimelineCard }
+
+export type TimelineLayout = {
+  lanes: TimelineLane[]
+  cards: Map<string, TimelineCard>
+  edges: TimelineEdge[]
+  /** Statements without a usable firstMention (missing, or a calendar date rather than a time) */
+  untimed: DebateNode[]
+  width: number
+  height: number
+  /** Time at x = TIMELINE_GUTTER */
+  start: number
+  end: number
+  x: (seconds: number) => number
+}
+
+/**
+ * Place every timed statement at x = its firstMention, in its participant's lane.
+ * Cards that would overlap inside a lane go to the first free row below.
+ */
+export function layoutTimeline(nodes: DebateNode[], edges: DebateEdge[], participants: Participant[], pxPerSecond: number): TimelineLayout {
+  const timed: Array<{ n: DebateNode, seconds: number }> = []
+  const untimed: DebateNode[] = []
+  for (const n of nodes) {
+    const seconds = n.data.firstMention ? parseTimestamp(n.data.firstMention) : undefined
+    if (seconds === undefined) untimed.push(n)
+    else timed.push({ n, seconds })
+  }
+  timed.sort((a, b) => a.seconds - b.seconds)
+
+  const start = timed.length ? Math.floor(timed[0].seconds / 60) * 60 : 0
+  const end = timed.length ? timed[timed.length - 1].seconds : 0
+  const x = (seconds: number) => TIMELINE_GUTTER + (seconds - start) * pxPerSecond
+
+  // participants without statements still get a lane; statements of unknown participants get one too
+  const laneParticipants = [...participants]
+  for (const { n } of timed) {
+    if (!laneParticipants.some(p => p.id === n.data.participantId)) laneParticipants.push({ id: n.data.participantId, name: n.data.participantId })
+  }
+
+  const cards = new Map<string, TimelineCard>()
+  const lanes: TimelineLane[] = []
+  let y = 0
+  for (const participant of laneParticipants) {
+    const rowEnds: number[] = []
+    const placed: Array<{ id: string, x: number, row: number, seconds: number }> = []
+    for (const { n, seconds } of timed) {
+      if (n.data.participantId !== participant.id) continue
+      const cx = x(seconds)
+      let row = rowEnds.findIndex(endX => endX + ROW_GAP <= cx)
+      if (row < 0) { row = rowEnds.length; rowEnds.push(0) }
+      rowEnds[row] = cx + TIMELINE_CARD_W
+      placed.push({ id: n.id, x: cx, row, seconds })
+    }
+    const rows = Math.max(1, rowEnds.length)
+    const height = LANE_PAD * 2 + rows * TIMELINE_CARD_H + (rows - 1) * ROW_GAP
+    for (const p of placed) {
+      cards.set(p.id, { id: p.id, x: p.x, y: y + LANE_PAD + p.row * (TIMELINE_CARD_H + ROW_GAP), seconds: p.seconds })
+    }
+    lanes.push({ participant, y, height })
+    y += height
+  }
+
+  const lineEdges: TimelineEdge[] = []
+  for (const e of edges) {
+    const kind = edgeKindOf(e)
+    if (!kind || !TIMELINE_EDGE_KINDS.includes(kind)) continue
+    // always point from the responding statement to the one it responds to (supports runs parent → child)
+    const [a, b] = kind === 'supports' ? [e.target, e.source] : [e.source, e.target]
+    const from = cards.get(a), to = cards.get(b)
+    if (from && to) lineEdges.push({ id: e.id, kind, from, to })
+  }
+
+  return {
+    lanes, cards, edges: lineEdges, untimed,
+    width: x(end) + TIMELINE_CARD_W + 40,
+    height: y,
+    start, end, x,
+  }
+}
+
+/** Tick spacing (seconds) that keeps labels at least `minPx` apart */
+export function tickStep(pxPerSecond: number, minPx = 90): number {
+  const steps = [5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600]
+  return steps.find(s => s * pxPerSecond >= minPx) ?? 7200
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { formatClock, guessSpeakers, parseTimestamp, parseTranscript, speakerLabels } from './transcript'
+
+describe('parseTranscript', () => {
+  it('reads SRT cues with speakers and markup', () => {
+    const res = parseTranscript([
+      '1',
+      '00:00:01,500 --> 00:00:04,000',
+      'Alice: We should <i>start</i>',
+      'with the budget.',
+      '',
+      '2',
+      '00:00:05,000 --> 00:00:07,250',
+      'No speaker here.',
+      '',
+    ].join('\r\n'))
+    expect(res.format).toBe('srt')
+    expect(res.errors).toEqual([])
+    expect(res.cues).toEqual([
+      { id: 'c1', start: 1.5, end: 4, speaker: 'Alice', text: 'We should start with the budget.' },
+      { id: 'c2', start: 5, end: 7.25, text: 'No speaker here.' },
+    ])
+  })
+
+  it('reads WebVTT voices and skips the header and notes', () => {
+    const res = parseTranscript([
+      'WEBVTT',
+      'Kind: captions',
+      '',
+      'NOTE produced by hand',
+      '',
+      'intro',
+      '00:10.000 --> 00:12.000',
+      '<v Bob Smith>Thanks for having me.',
+      '',
+      '01:00:00.000 --> 01:00:02.000',
+      '<v.loud Alice>Closing.',
+    ].join('\n'))
+    expect(res.format).toBe('vtt')
+    expect(res.errors).toEqual([])
+    expect(res.cues.map(c => [c.start, c.speaker, c.text])).toEqual([[10, 'Bob Smith', 'Thanks for having me.'], [3600, 'Alice', 'Closing.']])
+  })
+
+  it('reports blocks without a timing line by line number', () => {
+    const res = parseTranscript('1\n00:00:01,000 --> 00:00:02,000\nok\n\n2\njust text\nmore\n')
+    expect(res.cues).toHaveLength(1)
+    expect(res.errors).toEqual([{ line: 5, message: 'Cue has no "start --> end" timing line.' }])
+  })
+
+  it('reads plain timed lines, joins untimed ones and ends each cue at the next', () => {
+    const res = parseTranscript('[00:01] Alice: First point\nstill the first\n00:00:09 - Bob: Reply\n')
+    expect(res.format).toBe('plain')
+    expect(res.cues).toEqual([
+      { id: 'c1', start: 1, end: 9, speaker: 'Alice', text: 'First point still the first' },
+      { id: 'c2', start: 9, speaker: 'Bob', text: 'Reply' },
+    ])
+    expect(parseTranscript('no time here').errors).toHaveLength(1)
+  })
+})
+
+describe('timestamps and speakers', () => {
+  it('parses and formats times', () => {
+    expect(parseTimestamp('1:02:03,5')).toBe(3723.5)
+    expect(parseTimestamp('2024-01-01')).toBeUndefined()
+    expect(formatClock(3723.9)).toBe('01:02:03')
+  })
+
+  it('matches speaker labels to participants by name', () => {
+    const cues = parseTranscript('00:01 Dr. Alice Jones: hi\n00:02 BOB: hey\n00:03 Carol: hello\n').cues
+    const labels = speakerLabels(cues)
+    expect(labels).toEqual(['Dr. Alice Jones', 'BOB', 'Carol'])
+    expect(guessSpeakers(labels, [{ id: 'A', name: 'Alice' }, { id: 'B', name: 'Bob' }])).toEqual({ 'Dr. Alice Jones': 'A', BOB: 'B' })
+  })
+})
@@ -0,0 +1,158 @@
+// src/graph/transcript.ts
+import type { DebateNode, Participant, Transcript, TranscriptCue } from './types'
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'plain'
+
+export type TranscriptParseResult = {
+  format: TranscriptFormat
+  cues: TranscriptCue[]
+  /** Lines that could not be read, 1-based */
+  errors: Array<{ line: number, message: string }>
+}
+
+const TIME = String.raw`(?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?`
+const CUE_TIMING = new RegExp(String.raw`^\s*(${TIME})\s*-->\s*(${TIME})`)
+const PLAIN_LINE = new RegExp(String.raw`^\s*\[?(${TIME})\]?\s*(?:-\s*)?(?:([^:]{1,60}?):\s+)?(.*)$`)
+const VOICE = /^<v(?:\.[^\s>]+)?\s+([^>]+)>/
+
+/**
+ * Seconds for "HH:MM:SS", "MM:SS", "HH:MM:SS,mmm" or "HH:MM:SS.mmm";
+ * undefined for anything else (e.g. a calendar date).
+ */
+export function parseTimestamp(t: string): number | undefined {
+  const m = /^\s*(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?\s*$/.exec(t || '')
+  if (!m) return undefined
+  const [, h, min, s, ms] = m
+  return Number(h || 0) * 3600 + Number(min) * 60 + Number(s) + (ms ? Number(ms.padEnd(3, '0')) / 1000 : 0)
+}
+
+/** "H:MM:SS" (or "M:SS" under an hour) for display */
+export function formatTimestamp(sec: number): string {
+  const total = Math.max(0, Math.floor(sec))
+  const h = Math.floor(total / 3600), m = Math.floor(total / 60) % 60, s = total % 60
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return h ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`
+}
+
+/** "HH:MM:SS", the form firstMention uses */
+export function formatClock(sec: number): string {
+  const total = Math.max(0, Math.floor(sec))
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`
+}
+
+// "Speaker: text" or a WebVTT voice tag; markup is dropped
+function splitSpeaker(text: string): { speaker?: string, text: string } {
+  const voice = VOICE.exec(text)
+  if (voice) return { speaker: voice[1].trim(), text: stripTags(text.slice(voice[0].length)) }
+  const m = /^([^:]{1,60}?):\s+([\s\S]*)$/.exec(text)
+  if (m && !/\d$/.test(m[1])) return { speaker: m[1].trim(), text: stripTags(m[2]) }
+  return { text: stripTags(text) }
+}
+const stripTags = (t: string) => t.replace(/<[^>]+>/g, '').trim()
+
+function detectFormat(text: string): TranscriptFormat {
+  if (/^\uFEFF?WEBVTT/.test(text)) return 'vtt'
+  if (text.split(/\r?\n/).some(l => CUE_TIMING.test(l))) return 'srt'
+  return 'plain'
+}
+
+// SRT and WebVTT: blank-line separated blocks with a "start --> end" timing line
+function parseBlocks(lines: string[], format: 'srt' | 'vtt', out: TranscriptParseResult) {
+  let i = format === 'vtt' ? 1 : 0
+  // WebVTT header lines run until the first blank line
+  if (format === 'vtt') while (i < lines.length && lines[i].trim()) i++
+  while (i < lines.length) {
+    while (i < lines.length && !lines[i].trim()) i++
+    if (i >= lines.length) break
+    const blockStart = i
+    const block: string[] = []
+    while (i < lines.length && lines[i].trim()) block.push(lines[i++])
+    if (format === 'vtt' && /^(NOTE|STYLE|REGION)\b/.test(block[0])) continue
+    const timingAt = block.findIndex(l => CUE_TIMING.test(l))
+    if (timingAt < 0 || timingAt > 1) {
+      out.errors.push({ line: blockStart + 1, message: 'Cue has no "start --> end" timing line.' })
+      continue
+    }
+    const [, from, to] = CUE_TIMING.exec(block[timingAt])!
+    const start = parseTimestamp(from), end = parseTimestamp(to)
+    if (start === undefined || end === undefined) {
+      out.errors.push({ line: blockStart + timingAt + 1, message: `Unreadable time "${block[timingAt].trim()}".` })
+      continue
+    }
+    const body = block.slice(timingAt + 1).join(' ')
+    if (!body.trim()) continue
+    out.cues.push({ id: `c${out.cues.length + 1}`, start, end, ...splitSpeaker(body) })
+  }
+}
+
+// "HH:MM:SS speaker: text" per line; untimed lines continue the previous cue
+function parsePlain(lines: string[], out: TranscriptParseResult) {
+  lines.forEach((line, i) => {
+    if (!line.trim()) return
+    const m = PLAIN_LINE.exec(line)
+    const start = m ? parseTimestamp(m[1]) : undefined
+    if (!m || start === undefined) {
+      const prev = out.cues[out.cues.length - 1]
+      if (prev) prev.text += ' ' + line.trim()
+      else out.errors.push({ line: i + 1, message: 'Expected a line starting with a time, e.g. "00:12:34 Speaker: text".' })
+      return
+    }
+    const text = m[3].trim()
+    out.cues.push({ id: `c${out.cues.length + 1}`, start, speaker: m[2]?.trim() || undefined, text })
+  })
+  // a plain line lasts until the next one starts
+  out.cues.forEach((c, i) => { if (out.cues[i + 1]) c.end = out.cues[i + 1].start })
+}
+
+export function parseTranscript(text: string): TranscriptParseResult {
+  const format = detectFormat(text)
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const out: TranscriptParseResult = { format, cues: [], errors: [] }
+  if (format === 'plain') parsePlain(lines, out)
+  else parseBlocks(lines, format, out)
+  out.cues.sort((a, b) => a.start - b.start)
+  return out
+}
+
+/** Distinct speaker labels in order of first appearance */
+export function speakerLabels(cues: TranscriptCue[]): string[] {
+  return Array.from(new Set(cues.map(c => c.speaker).filter(Boolean) as string[]))
+}
+
+/** Map each speaker label to the participant whose name it matches, if any */
+export function guessSpeakers(labels: string[], participants: Participant[], current: Record<string, string> = {}): Record<string, string> {
+  const out: Record<string, string> = {}
+  const norm = (t: string) => t.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+  for (const label of labels) {
+    if (current[label] && participants.some(p => p.id === current[label])) { out[label] = current[label]; continue }
+    const l = norm(label)
+    const p = participants.find(p => norm(p.name) === l) ||
+      participants.find(p => l && (norm(p.name).split(' ').includes(l) || l.split(' ').includes(norm(p.name))))
+    if (p) out[label] = p.id
+  }
+  return out
+}
+
+/** Time window a cue stands for: until the next cue starts (gaps included), or its own end for the last */
+export function cueWindow(t: Transcript, index: number): { start: number, end: number } {
+  const c = t.cues[index]
+  const next = t.cues[index + 1]
+  return { start: c.start, end: next ? Math.max(next.start, c.start + 1) : Math.max(c.end ?? 0, c.start + 1) }
+}
+
+/** Index of the cue playing at `sec` (the last one starting at or before it), or -1 */
+export function cueIndexAt(t: Transcript, sec: number): number {
+  let found = -1
+  t.cues.forEach((c, i) => { if (c.start <= sec) found = i })
+  return found
+}
+
+/** Statements whose firstMention falls in [start, end) */
+export function nodesMentionedBetween(nodes: DebateNode[], start: number, end: number): DebateNode[] {
+  return nodes
+    .map(n => ({ n, sec: n.data.firstMention ? parseTimestamp(n.data.firstMention) : undefined }))
+    .filter(x => x.sec !== undefined && x.sec >= start && x.sec < end)
+    .sort((a, b) => a.sec! - b.sec!)
+    .map(x => x.n)
+}
@@ -0,0 +1,40 @@
+// src/graph/tree.ts
+import type { DebateEdge, EdgeKind } from './types'
+
+export const edgeKindOf = (e: DebateEdge): EdgeKind | undefined => e.data?.kind
+
+/**
+ * Parent/child pairs of the argument tree: supports edges point parent → child,
+ * while evidence-of, agrees-with and attacks point child → parent.
+ */
+export function buildChildrenPairs(edges: DebateEdge[]) {
+  const pairs: Array<[string, string]> = []
+  edges.forEach(e => {
+    const kind = edgeKindOf(e)
+    if (kind === 'supports') pairs.push([e.source, e.target])
+    else if (kind === 'evidence-of' || kind === 'agrees-with') pairs.push([e.target, e.source])
+    else if (kind === 'attacks') pairs.push([e.target, e.source])
+    // t2-link has no parent/child relation
+  })
+  return pairs
+}
+
+export function childrenMapOf(edges: DebateEdge[]) {
+  const m = new Map<string, string[]>()
+  for (const [p, c] of buildChildrenPairs(edges)) {
+    if (!m.has(p)) m.set(p, [])
+    m.get(p)!.push(c)
+  }
+  return m
+}
+
+export function descendantsOf(id: string, childMap: Map<string, string[]>): Set<string> {
+  const seen = new Set<string>()
+  const stack = [id]
+  while (stack.length) {
+    const cur = stack.pop()!
+    const kids = childMap.get(cur) || []
+    for (const k of kids) if (!seen.has(k) && k !== id) { seen.add(k); stack.push(k) }
+  }
+  return seen
+}
@@ -23,6 +23,10 @@ export type DebateData = {
   /** Only for Argument, Counter, Evidence */
   strengthType?: StrengthType
   firstMention?: string
+  /** Position set by hand; layouts keep the node (and its subtree) there */
+  pinned?: boolean
+  /** Sources from the document's bibliography this statement draws on (mostly Evidence) */
+  citations?: Citation[]
 
   // UI-only transient flags (optional)
   canBeReparentTarget?: boolean
@@ -31,7 +35,83 @@ export type DebateData = {
 }
 
 export type DebateNode = Node<DebateData>
-export type DebateEdge = Edge & { data?: { kind: 'supports'|'evidence-of'|'attacks'|'t2-link'|'agrees-with'|'refers-to' } }
+export type EdgeKind = 'supports'|'evidence-of'|'attacks'|'t2-link'|'agrees-with'|'refers-to'
+export type DebateEdge = Edge & { data?: { kind: EdgeKind } }
+
+export type Participant = { id: string, name: string }
+
+/** One transcript line; times are in seconds from the start of the recording */
+export type TranscriptCue = { id: string, start: number, end?: number, speaker?: string, text: string }
+export type Transcript = {
+  cues: TranscriptCue[]
+  /** Speaker label as written in the transcript → participant id */
+  speakers: Record<string, string>
+  /** File the transcript was imported from */
+  source?: string
+}
+
+/** Audio/video recording of the debate; only a reference is stored, never the media itself */
+export type MediaRef = {
+  name: string
+  /** MIME type, e.g. audio/mpeg */
+  type: string
+  /** Absolute path on disk, known only in the desktop app */
+  path?: string
+}
+
+/**
+ * A review comment on a statement or an edge. The first comment of a thread names what it is
+ * about and carries the resolved state; replies point to it.
+ */
+export type Comment = {
+  id: string
+  nodeId?: string
+  edgeId?: string
+  /** The thread's first comment; unset on that comment */
+  threadId?: string
+  author: string
+  /** ISO time */
+  at: string
+  text: string
+  resolved?: boolean
+  resolvedBy?: string
+}
+
+export type SourceKind = 'article' | 'book' | 'web' | 'video' | 'report' | 'other'
+
+/** An entry in the document's bibliography; many statements can cite the same one */
+export type Source = {
+  id: string
+  kind?: SourceKind
+  title: string
+  /** "Family, Given", several separated by "; " */
+  author?: string
+  /** Publisher, journal, site or channel */
+  publisher?: string
+  /** As written; YYYY, YYYY-MM or YYYY-MM-DD read best in exports */
+  date?: string
+  url?: string
+  /** Citation key, kept from an imported reference collection */
+  key?: string
+}
+
+/** A statement's use of a source: which part of it, and what it says there */
+export type Citation = {
+  sourceId: string
+  /** Page, section or timecode */
+  locator?: string
+  quote?: string
+}
+
+export type Snapshot = {
+  nodes: DebateNode[]
+  edges: DebateEdge[]
+  participants: Participant[]
+  transcript?: Transcript
+  media?: MediaRef
+  comments?: Comment[]
+  sources?: Source[]
+}
 
 export const KIND_COLORS: Record<StatementKind, string> = {
   Thesis: '#DBEAFE',
@@ -0,0 +1,121 @@
+// src/library.ts
+// Maps saved in the browser (IndexedDB), so work survives closing the tab or window.
+// Each document is stored whole; the library list only reads the summary fields.
+import type { Snapshot } from './graph/types'
+import { SavedSnapshot, toSavedSnapshot } from './graph/snapshot'
+import { DocHistory, EMPTY_HISTORY, withHistory } from './graph/history'
+
+export type LibraryEntry = {
+  id: string
+  /** Name given by the user, else the first thesis title at the last save */
+  title: string
+  /** True once the user renamed the document; saves then keep the title */
+  named?: boolean
+  participants: string[]
+  nodeCount: number
+  createdAt: string
+  modifiedAt: string
+}
+type LibraryRecord = LibraryEntry & { snapshot: SavedSnapshot }
+
+const DB_NAME = 'debate-map'
+const STORE = 'documents'
+// the document open when the app was last used, for crash recovery
+const LAST_DOCUMENT_KEY = 'debate-map:last-document'
+
+let db: Promise<IDBDatabase> | undefined
+function openDb(): Promise<IDBDatabase> {
+  if (!db) {
+    db = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') return reject(new Error('this browser has no IndexedDB'))
+      const req = indexedDB.open(DB_NAME, 1)
+      req.onupgradeneeded = () => { req.result.createObjectStore(STORE, { keyPath: 'id' }) }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    db.catch(() => { db = undefined })
+  }
+  return db
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const store = (await openDb()).transaction(STORE, mode).objectStore(STORE)
+  return new Promise((resolve, reject) => {
+    const req = fn(store)
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+const newId = () => Math.random().toString(36).slice(2, 10) + Date.now().toString(36)
+const summary = ({ snapshot, ...entry }: LibraryRecord): LibraryEntry => entry
+
+export function documentTitle(snap: Snapshot): string {
+  return snap.nodes.find(n => n.data.kind === 'Thesis')?.data.title?.trim() || snap.nodes[0]?.data.title?.trim() || 'Untitled map'
+}
+
+/** Saved documents, most recently changed first */
+export async function listDocuments(): Promise<LibraryEntry[]> {
+  const all = await run<LibraryRecord[]>('readonly', s => s.getAll())
+  return all.map(summary).sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt))
+}
+
+export async function loadDocument(id: string): Promise<SavedSnapshot | undefined> {
+  return (await run<LibraryRecord | undefined>('readonly', s => s.get(id)))?.snapshot
+}
+
+/** Create or overwrite a document, with its revision history; `id` undefined creates one. Returns the id. */
+export async function saveDocument(id: string | undefined, snap: Snapshot, history: DocHistory = EMPTY_HISTORY): Promise<string> {
+  const prev = id ? await run<LibraryRecord | undefined>('readonly', s => s.get(id)) : undefined
+  const now = new Date().toISOString()
+  const record: LibraryRecord = {
+    id: id || newId(),
+    title: prev?.named ? prev.title : documentTitle(snap),
+    named: prev?.named,
+    participants: snap.participants.map(p => p.name),
+    nodeCount: snap.nodes.length,
+    createdAt: prev?.createdAt || now,
+    modifiedAt: now,
+    snapshot: withHistory(toSavedSnapshot(snap), history),
+  }
+  await run('readwrite', s => s.put(record))
+  return record.id
+}
+
+export async function renameDocument(id: string, title: string): Promise<void> {
+  const prev = await run<LibraryRecord | undefined>('readonly', s => s.get(id))
+  if (!prev) return
+  const named = !!title.trim()
+  await run('readwrite', s => s.put({ ...prev, title: named ? title.trim() : documentTitle(prev.snapshot), named }))
+}
+
+export async function duplicateDocument(id: string): Promise<string | undefined> {
+  const prev = await run<LibraryRecord | undefined>('readonly', s => s.get(id))
+  if (!prev) return undefined
+  const now = new Date().toISOString()
+  const copy: LibraryRecord = { ...prev, id: newId(), title: `${prev.title} (copy)`, named: true, createdAt: now, modifiedAt: now }
+  await run('readwrite', s => s.put(copy))
+  return copy.id
+}
+
+export async function deleteDocument(id: string): Promise<void> {
+  await run('readwrite', s => s.delete(id))
+  if (lastDocument()?.id === id) setLastDocument(undefined)
+}
+
+/** The document being edited, and whether the session ended cleanly */
+export type LastDocument = { id: string, closedCleanly: boolean }
+
+export function lastDocument(): LastDocument | undefined {
+  try {
+    const raw = localStorage.getItem(LAST_DOCUMENT_KEY)
+    return raw ? JSON.parse(raw) as LastDocument : undefined
+  } catch { return undefined }
+}
+
+export function setLastDocument(doc: LastDocument | undefined) {
+  try {
+    if (doc) localStorage.setItem(LAST_DOCUMENT_KEY, JSON.stringify(doc))
+    else localStorage.removeItem(LAST_DOCUMENT_KEY)
+  } catch { /* storage disabled: recovery is simply not offered */ }
+}
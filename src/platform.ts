@@ -0,0 +1,58 @@
+// src/platform.ts
+// What the Electron shell adds on top of the browser (see electron/preload.cjs).
+
+/** A document on disk, as the desktop shell reports it */
+export type DesktopFile = { path: string, name: string }
+export type OpenedFile = DesktopFile & { text: string }
+
+/** Native file handling (electron/main.cjs); every call goes through IPC */
+export type FileBridge = {
+  /** Open dialog; null when cancelled */
+  open: () => Promise<OpenedFile | null>
+  openPath: (path: string) => Promise<OpenedFile>
+  /** Writes to `path`, or asks where first when it is missing; null when cancelled */
+  save: (request: { path?: string, text: string, suggestedName: string }) => Promise<DesktopFile | null>
+  /** A file the app was started with (e.g. a double-clicked .debatemap), once */
+  takePending: () => Promise<OpenedFile | null>
+  /** Paths, most recent first; files that no longer exist are left out */
+  recent: () => Promise<string[]>
+  clearRecent: () => Promise<void>
+  setWindowState: (state: { title: string, dirty: boolean, path?: string }) => void
+  /** Answer to onSaveBeforeClose: the window closes only if the save went through */
+  closeAfterSave: (saved: boolean) => void
+  /** Files opened from the OS while the app runs; returns the unsubscribe function */
+  onOpened: (cb: (file: OpenedFile) => void) => () => void
+  /** The user chose Save in the close prompt */
+  onSaveBeforeClose: (cb: () => void) => () => void
+}
+
+type AppBridge = {
+  version: string
+  /** Absolute path of a file picked in an <input type="file"> */
+  getPathForFile?: (file: File) => string
+  /** Missing in the browser and in shells older than the file bridge */
+  files?: FileBridge
+}
+
+declare global {
+  interface Window { __app?: AppBridge }
+}
+
+export const isElectron = typeof window !== 'undefined' && !!window.__app
+
+/** Native open/save when running in the desktop shell; undefined in the browser */
+export const desktopFiles = typeof window !== 'undefined' ? window.__app?.files : undefined
+
+/** Path of a picked file on disk; undefined in the browser, which never exposes it */
+export function pathForFile(file: File): string | undefined {
+  try { return window.__app?.getPathForFile?.(file) || undefined }
+  catch { return undefined }
+}
+
+/** file:// URL for an absolute path (Windows or POSIX) */
+export function fileUrl(path: string): string {
+  const p = path.replace(/\\/g, '/')
+  const encoded = (p.startsWith('/') ? p : '/' + p).split('/').map(encodeURIComponent).join('/')
+  // keep a Windows drive letter readable: /C%3A/… → /C:/…
+  return 'file://' + encoded.replace(/^\/([A-Za-z])%3A/, '/$1:')
+}
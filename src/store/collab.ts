@@ -0,0 +1,179 @@
+// src/store/collab.ts
+// Live collaboration: keeps the document part of useGraphStore (statements, edges,
+// participants, comments, sources) in a CRDT replica (graph/crdt.ts) shared through a relay (relay/relay.mjs).
+// Local edits become operations as the store changes; operations from others are merged
+// into the replica and written back to the store without entering the undo history.
+import { useGraphStore } from './useGraphStore'
+import { applyRemote, allOps, changedKeys, createCrdt, CrdtOp, DocPart, EMPTY_DOC, localChanges, materialize, rebaseSnapshot } from '../graph/crdt'
+import type { DebateNode } from '../graph/types'
+
+/** What others see of you: who you are and which statement you are on */
+export type Presence = { name: string, color: string, nodeId?: string, editing?: boolean }
+export type Peer = Presence & { client: string }
+export type CollabStatus = 'connecting' | 'live' | 'offline'
+
+export type CollabOptions = {
+  /** Relay address, e.g. ws://localhost:8787 */
+  url: string
+  room: string
+  presence: Presence
+  onStatus: (status: CollabStatus, error?: string) => void
+  onPeers: (peers: Peer[]) => void
+  /** The room already had a map, which replaced the one in the store */
+  onJoined: (replaced: boolean) => void
+  /** Changes from others reached the store */
+  onRemoteChange: () => void
+}
+
+export type CollabSession = {
+  setPresence: (p: Partial<Presence>) => void
+  stop: () => void
+}
+
+// relay ↔ client messages (see relay/relay.mjs)
+type ServerMessage =
+  | { type: 'sync', ops: CrdtOp[] }
+  | { type: 'ops', ops: CrdtOp[] }
+  | { type: 'presence', client: string, presence: Presence }
+  | { type: 'leave', client: string }
+
+const RETRY_MAX_MS = 30000
+const docOf = (s: DocPart): DocPart => ({ nodes: s.nodes, edges: s.edges, participants: s.participants, comments: s.comments, sources: s.sources })
+const clientId = () => Math.random().toString(36).slice(2, 10) + Date.now().toString(36)
+
+// statements rebuilt from the replica keep this user's folding and editing state
+function withLocalFlags(nodes: DebateNode[], current: DebateNode[]): DebateNode[] {
+  const byId = new Map(current.map(n => [n.id, n]))
+  return nodes.map(n => {
+    const cur = byId.get(n.id)
+    if (!cur || cur === n) return n
+    const { collapsed, selfCollapsed, bodyCollapsed, isEditing } = cur.data
+    return { ...n, data: { ...n.data, collapsed, selfCollapsed, bodyCollapsed, isEditing } }
+  })
+}
+
+export function startCollab(opts: CollabOptions): CollabSession {
+  const state = createCrdt(clientId())
+  // the document as last exchanged with the replica; local edits are diffed against it
+  let view: DocPart = docOf(useGraphStore.getState())
+  let presence = opts.presence
+  let socket: WebSocket | undefined
+  let synced = false, joined = false, stopped = false, applying = false
+  let retries = 0, retryTimer: number | undefined
+  const peers = new Map<string, Peer>()
+
+  const send = (msg: unknown) => { if (socket?.readyState === WebSocket.OPEN && synced) socket.send(JSON.stringify(msg)) }
+
+  const unsubscribe = useGraphStore.subscribe(st => {
+    if (applying) return
+    const doc = docOf(st)
+    if (doc.nodes === view.nodes && doc.edges === view.edges && doc.participants === view.participants && doc.comments === view.comments && doc.sources === view.sources) return
+    // until the room answered, the map on screen is not shared yet
+    if (!joined) { view = doc; return }
+    const ops = localChanges(state, view, doc)
+    view = doc
+    if (ops.length) send({ type: 'ops', ops })
+  })
+
+  const writeToStore = (applied: CrdtOp[], replace: boolean) => {
+    const st = useGraphStore.getState()
+    const next = replace ? materialize(state) : materialize(state, view, changedKeys(applied))
+    applying = true
+    try {
+      useGraphStore.setState({
+        nodes: withLocalFlags(next.nodes, st.nodes),
+        edges: next.edges,
+        participants: next.participants,
+        comments: next.comments,
+        sources: next.sources,
+        // joining starts a new history; later changes are carried into it
+        past: replace ? [] : st.past.map(s => rebaseSnapshot(s, applied, next)),
+        future: replace ? [] : st.future.map(s => rebaseSnapshot(s, applied, next)),
+      })
+    } finally { applying = false }
+    view = docOf(useGraphStore.getState())
+  }
+
+  const receive = (msg: ServerMessage) => {
+    if (msg.type === 'sync') {
+      const applied = applyRemote(state, msg.ops)
+      if (!joined) {
+        joined = true
+        synced = true
+        if (!msg.ops.length) {
+          // an empty room takes this map
+          const ops = localChanges(state, EMPTY_DOC, view)
+          send({ type: 'ops', ops })
+          opts.onJoined(false)
+        } else {
+          writeToStore(applied, true)
+          opts.onJoined(true)
+        }
+      } else {
+        // reconnected: take what others did meanwhile, hand over what we did
+        synced = true
+        if (applied.length) { writeToStore(applied, false); opts.onRemoteChange() }
+        const mine = allOps(state, state.client)
+        if (mine.length) send({ type: 'ops', ops: mine })
+      }
+      send({ type: 'presence', presence })
+    } else if (msg.type === 'ops') {
+      const applied = applyRemote(state, msg.ops)
+      if (applied.length) { writeToStore(applied, false); opts.onRemoteChange() }
+    } else if (msg.type === 'presence') {
+      peers.set(msg.client, { ...msg.presence, client: msg.client })
+      opts.onPeers([...peers.values()])
+    } else if (msg.type === 'leave') {
+      peers.delete(msg.client)
+      opts.onPeers([...peers.values()])
+    }
+  }
+
+  const connect = () => {
+    opts.onStatus('connecting')
+    const base = opts.url.replace(/\/+$/, '')
+    let ws: WebSocket
+    try { ws = new WebSocket(`${base}/${encodeURIComponent(opts.room)}?client=${encodeURIComponent(state.client)}`) }
+    catch (e) {
+      opts.onStatus('offline', (e as any)?.message || String(e))
+      return
+    }
+    socket = ws
+    ws.onopen = () => { retries = 0; opts.onStatus('live') }
+    ws.onmessage = ev => {
+      let msg: ServerMessage
+      try { msg = JSON.parse(String(ev.data)) }
+      catch { return } // not JSON: not a relay message, dropped
+      // a failure to apply a real message is a bug; it must not go unnoticed
+      receive(msg)
+    }
+    ws.onclose = () => {
+      if (socket !== ws) return
+      socket = undefined
+      synced = false
+      peers.clear()
+      opts.onPeers([])
+      if (stopped) return
+      // keep editing offline; changes go out on reconnect
+      const delay = Math.min(RETRY_MAX_MS, 1000 * 2 ** retries++)
+      opts.onStatus('offline', `relay unreachable, retrying in ${Math.round(delay / 1000)} s`)
+      retryTimer = window.setTimeout(connect, delay)
+    }
+  }
+  connect()
+
+  return {
+    setPresence(p) {
+      presence = { ...presence, ...p }
+      send({ type: 'presence', presence })
+    },
+    stop() {
+      stopped = true
+      window.clearTimeout(retryTimer)
+      unsubscribe()
+      socket?.close()
+      socket = undefined
+      opts.onStatus('offline')
+    },
+  }
+}
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { useGraphStore } from './useGraphStore'
+import type { DebateNode, StatementKind } from '../graph/types'
+
+const statement = (id: string, kind: StatementKind, strengthType?: 'Type 2'): DebateNode =>
+  ({ id, type: 'nodeCard', position: { x: 0, y: 0 }, data: { id, title: id, kind, participantId: 'A', strengthType } })
+
+const linkKinds = () => useGraphStore.getState().edges.map(e => e.data?.kind)
+
+describe('link editing history', () => {
+  beforeEach(() => {
+    useGraphStore.getState().loadSnapshot({
+      nodes: [statement('a1', 'Argument', 'Type 2'), statement('a2', 'Argument', 'Type 2')],
+      edges: [],
+      participants: [{ id: 'A', name: 'A' }],
+    })
+  })
+
+  it('undoes removing Type 2 links', () => {
+    const store = useGraphStore.getState()
+    store.addT2Links('a1', ['a2'])
+    expect(linkKinds()).toEqual(['t2-link'])
+
+    store.setT2Links('a1', [])
+    expect(linkKinds()).toEqual([])
+
+    useGraphStore.getState().undo()
+    expect(linkKinds()).toEqual(['t2-link'])
+  })
+
+  it('undoes removing refers-to links', () => {
+    const store = useGraphStore.getState()
+    store.addRefLinks('a1', ['a2'])
+    expect(linkKinds()).toEqual(['refers-to'])
+
+    store.setRefLinks('a1', [])
+    expect(linkKinds()).toEqual([])
+
+    useGraphStore.getState().undo()
+    expect(linkKinds()).toEqual(['refers-to'])
+  })
+})
+
+describe('inline edit sessions', () => {
+  const body = () => useGraphStore.getState().nodes.find(n => n.id === 'a1')?.data.body
+
+  beforeEach(() => {
+    useGraphStore.getState().loadSnapshot({ nodes: [statement('a1', 'Argument')], edges: [], participants: [{ id: 'A', name: 'A' }] })
+    useGraphStore.setState({ past: [], future: [] })
+  })
+
+  it('undoes each session as one step', () => {
+    const store = useGraphStore.getState()
+    store.updateNode('a1', { body: 'o' }, { coalesceKey: 'inline-body:a1:one' })
+    store.updateNode('a1', { body: 'one' }, { coalesceKey: 'inline-body:a1:one' })
+    store.updateNode('a1', { body: 'two' }, { coalesceKey: 'inline-body:a1:two' })
+    expect(useGraphStore.getState().past).toHaveLength(2)
+
+    useGraphStore.getState().undo()
+    expect(body()).toBe('one')
+  })
+
+  it('leaves no history entry behind when a session is cancelled', () => {
+    const store = useGraphStore.getState()
+    store.updateNode('a1', { body: 'draft' }, { coalesceKey: 'inline-body:a1:s' })
+    store.revertNode('a1', { body: undefined }, 'inline-body:a1:s')
+    expect(body()).toBeUndefined()
+    expect(useGraphStore.getState().past).toHaveLength(0)
+  })
+
+  it('records the revert when other edits came in between', () => {
+    const store = useGraphStore.getState()
+    store.updateNode('a1', { body: 'draft' }, { coalesceKey: 'inline-body:a1:s' })
+    store.updateNode('a1', { title: 'Renamed' })
+    store.revertNode('a1', { body: undefined }, 'inline-body:a1:s')
+    expect(useGraphStore.getState().past).toHaveLength(3)
+
+    useGraphStore.getState().undo()
+    expect(body()).toBe('draft')
+  })
+})
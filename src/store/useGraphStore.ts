@@ -1,13 +1,13 @@
 import { create } from 'zustand'
-import type { DebateNode, DebateEdge, DebateData, StatementKind, StrengthType } from '../graph/types'
-import { computeLayout } from '../graph/layout'
+import type { Comment, Source, DebateNode, DebateEdge, DebateData, StatementKind, StrengthType, Snapshot, Transcript, MediaRef } from '../graph/types'
+import { computeLayout, LayoutDirection } from '../graph/layout'
+import type { LayoutEngineId } from '../graph/layoutEngines'
+import { planDelete, applyDeletePlan, DeleteMode } from '../graph/delete'
+import type { ArgLabel, ArgSemantics, SupportReading } from '../graph/semantics'
+import { DEFAULT_SCORING_RULES, ScoringRules } from '../graph/scoring'
+import { DocHistory, EMPTY_HISTORY } from '../graph/history'
+import { newSources } from '../graph/sources'
 function nid() { return Math.random().toString(36).slice(2, 10) }
-type Participant = { id: string, name: string }
-type Snapshot = {
-  nodes: DebateNode[]
-  edges: DebateEdge[]
-  participants: Participant[]
-}
 type Store = Snapshot & {
   addThesis: (participantId: string, title: string, body?: string, firstMention?: string) => string
   addArgument: (participantId: string, title: string, body?: string, parentId?: string, strengthType?: StrengthType, firstMention?: string) => string
@@ -15,10 +15,19 @@ type Store = Snapshot & {
   addEvidence: (participantId: string, targetId: string, title: string, body?: string, strengthType?: StrengthType, firstMention?: string) => string
   addAgreement: (participantId: string, targetId: string, title: string, body?: string, firstMention?: string) => string
   addArgumentSummary: (participantId: string, thesisId: string, title: string, body?: string, firstMention?: string) => string
-  updateNode: (id: string, patch: Partial<DebateData>) => void
-  deleteNode: (id: string) => void
+  updateNode: (id: string, patch: Partial<DebateData>, opts?: UpdateOptions) => void
+  /**
+   * Take back a coalesced edit session of one statement by applying `patch` (its values from
+   * before the session). The session's history entry is dropped while it is still the latest,
+   * rather than left behind as an undo step that changes nothing.
+   */
+  revertNode: (id: string, patch: Partial<DebateData>, coalesceKey: string) => void
+  /** Delete a statement; `mode` decides what happens to the statements under it (default: orphan) */
+  deleteNode: (id: string, mode?: DeleteMode) => void
   setAllCollapsed: (v: boolean) => void
   loadSnapshot: (s: Snapshot) => void
+  /** Add statements, edges and participants to the current document as one undoable step */
+  mergeIntoDocument: (part: Pick<Snapshot, 'nodes' | 'edges' | 'participants'>) => void
   getSnapshot: () => Snapshot
   updateParticipant: (id: string, name: string) => void
   setSupportsParent: (childId: string, newParentId: string) => void
@@ -40,13 +49,67 @@ type Store = Snapshot & {
     participants: Set<string>;
     kinds: Set<StatementKind>;
     strengths: Set<StrengthType>;
+    labels: Set<ArgLabel>;
   };
   setParticipantFilter: (id: string, active: boolean) => void;
   setKindFilter: (kind: StatementKind, active: boolean) => void;
   setStrengthFilter: (strength: StrengthType, active: boolean) => void;
+  setLabelFilter: (label: ArgLabel, active: boolean) => void;
   clearFilters: () => void;
   filterMode: 'dim' | 'hide';
   setFilterMode: (mode: 'dim' | 'hide') => void;
+  // Layout engine + orientation used by Auto-layout
+  layoutEngine: LayoutEngineId
+  setLayoutEngine: (engine: LayoutEngineId) => void
+  layoutDirection: LayoutDirection
+  setLayoutDirection: (direction: LayoutDirection) => void
+  // Argumentation analysis: IN/OUT/UNDEC labels per statement ('off' hides them)
+  argSemantics: ArgSemantics | 'off'
+  setArgSemantics: (semantics: ArgSemantics | 'off') => void
+  supportReading: SupportReading
+  setSupportReading: (reading: SupportReading) => void
+  // Transcript of the debate (part of the document)
+  setTranscript: (t: Transcript | undefined) => void
+  setSpeakerParticipant: (label: string, participantId: string) => void
+  /** Last request to scroll the transcript to a time; a new object each time so repeats still scroll */
+  transcriptReveal: { seconds: number } | null
+  revealInTranscript: (seconds: number) => void
+  // Review comments (part of the document, see graph/comments.ts)
+  comments: Comment[]
+  /** Start a thread on a statement or an edge, or reply to one; returns the comment's id */
+  addComment: (on: { nodeId: string } | { edgeId: string } | { threadId: string }, author: string, text: string) => string
+  editComment: (id: string, text: string) => void
+  /** Deleting a thread's first comment deletes the thread */
+  deleteComment: (id: string) => void
+  setThreadResolved: (threadId: string, resolved: boolean, by?: string) => void
+  // Bibliography (part of the document, see graph/sources.ts); statements cite through updateNode
+  sources: Source[]
+  addSource: (fields: Omit<Source, 'id'>) => string
+  updateSource: (id: string, patch: Partial<Omit<Source, 'id'>>) => void
+  /** Also removes every citation of it */
+  deleteSource: (id: string) => void
+  /** Add imported sources, skipping ones already in the bibliography */
+  importSources: (list: Source[]) => { added: number, duplicates: number }
+  /** Checkpoints and saved revisions; saved with the document but not undoable */
+  history: DocHistory
+  setHistory: (h: DocHistory) => void
+  // Recording of the debate: the reference is part of the document, the loaded source is not
+  setMedia: (m: MediaRef | undefined) => void
+  mediaSrc: string | null
+  setMediaSrc: (src: string | null) => void
+  /** Last request to move the player to a time; a new object each time so repeats still seek */
+  mediaSeek: { seconds: number } | null
+  seekMedia: (seconds: number) => void
+  // Strength-weighted support scores
+  showScores: boolean
+  setShowScores: (v: boolean) => void
+  scoringRules: ScoringRules
+  setScoringRules: (rules: ScoringRules) => void
+  /** Re-layout only the parts of the map that changed */
+  incrementalLayout: boolean
+  setIncrementalLayout: (v: boolean) => void
+  /** Pin a node at `position` (or where it is), or release it to the layout */
+  setPinned: (id: string, pinned: boolean, position?: { x: number, y: number }) => void
   // Convenience: return the current participants + kind list for UIs
   getLegendKinds: () => string[]
   // New: add participant
@@ -54,6 +117,17 @@ type Store = Snapshot & {
   // New: for refers-to links
   addRefLinks: (sourceId: string, targets: string[]) => void
   setRefLinks: (sourceId: string, targets: string[]) => void
+  // Undo / redo history of document (nodes, edges, participants) states
+  past: Snapshot[]
+  future: Snapshot[]
+  undo: () => void
+  redo: () => void
+  /** Run several mutations as a single history entry */
+  transact: (fn: () => void) => void
+}
+type UpdateOptions = {
+  /** Consecutive updates with the same key collapse into one history entry */
+  coalesceKey?: string
 }
 function node(kind: StatementKind, participantId: string, title: string, body?: string, strengthType?: StrengthType, firstMention?: string): DebateNode {
   return {
@@ -73,6 +147,43 @@ function node(kind: StatementKind, participantId: string, title: string, body?:
     } as DebateData
   }
 }
+// View-only flags: changing them is not an undoable edit, and undo/redo keeps their current values
+const VIEW_KEYS: Array<keyof DebateData> = ['collapsed', 'selfCollapsed', 'bodyCollapsed', 'isEditing', 'canBeReparentTarget', 'selectedForReparent']
+const HISTORY_LIMIT = 200
+let historyDepth = 0 // > 0 while inside transact(); only the first mutation of a batch records
+let batchRecorded = false
+let lastCoalesceKey = ''
+function docOf(s: Snapshot): Snapshot {
+  return { nodes: s.nodes, edges: s.edges, participants: s.participants, transcript: s.transcript, media: s.media, comments: s.comments, sources: s.sources }
+}
+function changesDoc(data: DebateData, patch: Partial<DebateData>) {
+  return (Object.keys(patch) as Array<keyof DebateData>).some(k => !VIEW_KEYS.includes(k) && data[k] !== patch[k])
+}
+function withViewFlags(nodes: DebateNode[], current: DebateNode[]): DebateNode[] {
+  const byId = new Map(current.map(n => [n.id, n]))
+  return nodes.map(n => {
+    const cur = byId.get(n.id)
+    const data = { ...n.data, isEditing: false }
+    if (cur) {
+      data.collapsed = cur.data.collapsed
+      data.selfCollapsed = cur.data.selfCollapsed
+      data.bodyCollapsed = cur.data.bodyCollapsed
+    }
+    return { ...n, data }
+  })
+}
+// Push the current document onto the undo stack; call right before a mutation
+function record(coalesceKey?: string) {
+  if (historyDepth > 0) {
+    if (batchRecorded) return
+    batchRecorded = true
+    lastCoalesceKey = ''
+  } else {
+    if (coalesceKey && coalesceKey === lastCoalesceKey) return
+    lastCoalesceKey = coalesceKey || ''
+  }
+  useGraphStore.setState(st => ({ past: [...st.past, docOf(st)].slice(-HISTORY_LIMIT), future: [] }))
+}
 function edge(kind: 'supports'|'evidence-of'|'attacks'|'agrees-with'|'t2-link'|'refers-to', source: string, target: string): DebateEdge {
   return { id: nid(), source, target, type: kind === 't2-link' || kind === 'refers-to' ? 't2' : 'thick', data: { kind } as any }
 }
@@ -87,6 +198,37 @@ export const useGraphStore = create<Store>((set, get) => ({
     { id: 'A', name: 'A' },
     { id: 'B', name: 'B' },
   ],
+  past: [],
+  future: [],
+  undo() {
+    const st = get()
+    if (!st.past.length) return
+    const prev = st.past[st.past.length - 1]
+    lastCoalesceKey = ''
+    set({
+      ...prev,
+      nodes: withViewFlags(prev.nodes, st.nodes),
+      past: st.past.slice(0, -1),
+      future: [docOf(st), ...st.future],
+    })
+  },
+  redo() {
+    const st = get()
+    if (!st.future.length) return
+    const next = st.future[0]
+    lastCoalesceKey = ''
+    set({
+      ...next,
+      nodes: withViewFlags(next.nodes, st.nodes),
+      past: [...st.past, docOf(st)],
+      future: st.future.slice(1),
+    })
+  },
+  transact(fn) {
+    if (historyDepth === 0) batchRecorded = false
+    historyDepth++
+    try { fn() } finally { historyDepth-- }
+  },
   // UI reattach helpers (defaults)
   selectedNodeId: '',
   reparentTargetId: '',
@@ -102,6 +244,7 @@ export const useGraphStore = create<Store>((set, get) => ({
     participants: new Set<string>(),
     kinds: new Set<StatementKind>(),
     strengths: new Set<StrengthType>(),
+    labels: new Set<ArgLabel>(),
   },
   setParticipantFilter(id, active) {
     set(st => {
@@ -127,11 +270,122 @@ export const useGraphStore = create<Store>((set, get) => ({
       return { filters: { ...st.filters, strengths } }
     })
   },
+  setLabelFilter(label, active) {
+    set(st => {
+      const labels = new Set(st.filters.labels)
+      if (active) labels.add(label)
+      else labels.delete(label)
+      return { filters: { ...st.filters, labels } }
+    })
+  },
   clearFilters() {
-    set({ filters: { participants: new Set(), kinds: new Set(), strengths: new Set() } })
+    set({ filters: { participants: new Set(), kinds: new Set(), strengths: new Set(), labels: new Set() } })
   },
   filterMode: 'dim',
   setFilterMode(mode) { set({ filterMode: mode }) },
+  layoutEngine: 'tree',
+  setLayoutEngine(engine) { set({ layoutEngine: engine }) },
+  layoutDirection: 'TB',
+  setLayoutDirection(direction) { set({ layoutDirection: direction }) },
+  argSemantics: 'off',
+  setArgSemantics(semantics) { set({ argSemantics: semantics }) },
+  supportReading: 'deductive',
+  setSupportReading(reading) { set({ supportReading: reading }) },
+  setTranscript(t) {
+    record()
+    set({ transcript: t })
+  },
+  setSpeakerParticipant(label, participantId) {
+    const t = get().transcript
+    if (!t) return
+    record('speaker:' + label)
+    const speakers = { ...t.speakers }
+    if (participantId) speakers[label] = participantId
+    else delete speakers[label]
+    set({ transcript: { ...t, speakers } })
+  },
+  comments: [],
+  addComment(on, author, text) {
+    const id = nid()
+    record()
+    set(st => ({ comments: [...st.comments, { id, ...on, author, at: new Date().toISOString(), text }] }))
+    return id
+  },
+  editComment(id, text) {
+    record('comment:' + id)
+    set(st => ({ comments: st.comments.map(c => c.id === id ? { ...c, text } : c) }))
+  },
+  deleteComment(id) {
+    record()
+    set(st => ({ comments: st.comments.filter(c => c.id !== id && c.threadId !== id) }))
+  },
+  setThreadResolved(threadId, resolved, by) {
+    record()
+    set(st => ({
+      comments: st.comments.map(c => c.id === threadId ? { ...c, resolved: resolved || undefined, resolvedBy: resolved ? by : undefined } : c)
+    }))
+  },
+  sources: [],
+  addSource(fields) {
+    const id = nid()
+    record()
+    set(st => ({ sources: [...st.sources, { id, ...fields }] }))
+    return id
+  },
+  updateSource(id, patch) {
+    record('source:' + id)
+    set(st => ({ sources: st.sources.map(x => x.id === id ? { ...x, ...patch } : x) }))
+  },
+  deleteSource(id) {
+    record()
+    set(st => ({
+      sources: st.sources.filter(x => x.id !== id),
+      nodes: st.nodes.map(n => {
+        if (!n.data.citations?.some(c => c.sourceId === id)) return n
+        const citations = n.data.citations.filter(c => c.sourceId !== id)
+        return { ...n, data: { ...n.data, citations: citations.length ? citations : undefined } }
+      }),
+    }))
+  },
+  importSources(list) {
+    const { added, duplicates } = newSources(get().sources, list)
+    if (added.length) {
+      record()
+      set(st => ({ sources: [...st.sources, ...added] }))
+    }
+    return { added: added.length, duplicates }
+  },
+  history: EMPTY_HISTORY,
+  setHistory(h) { set({ history: h }) },
+  transcriptReveal: null,
+  revealInTranscript(seconds) { set({ transcriptReveal: { seconds } }) },
+  setMedia(m) {
+    record()
+    set({ media: m })
+  },
+  mediaSrc: null,
+  setMediaSrc(src) {
+    const prev = get().mediaSrc
+    if (prev && prev !== src && prev.startsWith('blob:')) URL.revokeObjectURL(prev)
+    set({ mediaSrc: src })
+  },
+  mediaSeek: null,
+  seekMedia(seconds) { set({ mediaSeek: { seconds } }) },
+  showScores: false,
+  setShowScores(v) { set({ showScores: v }) },
+  scoringRules: DEFAULT_SCORING_RULES,
+  setScoringRules(rules) { set({ scoringRules: rules }) },
+  incrementalLayout: true,
+  setIncrementalLayout(v) { set({ incrementalLayout: v }) },
+  setPinned(id, pinned, position) {
+    if (!get().nodes.some(n => n.id === id)) return
+    record()
+    set(st => ({
+      nodes: st.nodes.map(n => n.id === id
+        ? { ...n, position: position ? { ...position } : n.position, data: { ...n.data, pinned: pinned || undefined } }
+        : n)
+    }))
+  },
   // Convenience: return the current participants + kind list for UIs
   getLegendKinds() {
     return ['Thesis','Argument','Argument Summary','Counter','Evidence','Agreement']
@@ -143,15 +397,18 @@ export const useGraphStore = create<Store>((set, get) => ({
     const maxCharCode = existingIds.length > 0 ? Math.max(...existingIds.map(id => id.charCodeAt(0))) : 64 // 'A' - 1
     const nextId = String.fromCharCode(maxCharCode + 1)
     const newParticipant = { id: nextId, name: nextId }
+    record()
     set(st => ({ participants: [...st.participants, newParticipant] }))
     return nextId
   },
   addThesis(participantId, title, body, firstMention) {
+    record()
     const n = node('Thesis', participantId, title, body, undefined, firstMention)
     set(st => ({ nodes: [...st.nodes, n] }))
     return n.id
   },
   addArgument(participantId, title, body, parentId, strengthType, firstMention) {
+    record()
     const n = node('Argument', participantId, title, body, strengthType, firstMention)
     set(st => ({ nodes: [...st.nodes, n] }))
     if (parentId) {
@@ -161,6 +418,7 @@ export const useGraphStore = create<Store>((set, get) => ({
     return n.id
   },
   addCounter(participantId, targetId, title, body, strengthType, firstMention) {
+    record()
     const n = node('Counter', participantId, title, body, strengthType, firstMention)
     set(st => ({ nodes: [...st.nodes, n] }))
     const e = edge('attacks', n.id, targetId)
@@ -168,6 +426,7 @@ export const useGraphStore = create<Store>((set, get) => ({
     return n.id
   },
   addEvidence(participantId, targetId, title, body, strengthType, firstMention) {
+    record()
     const n = node('Evidence', participantId, title, body, strengthType, firstMention)
     set(st => ({ nodes: [...st.nodes, n] }))
     const e = edge('evidence-of', n.id, targetId)
@@ -175,6 +434,7 @@ export const useGraphStore = create<Store>((set, get) => ({
     return n.id
   },
   addAgreement(participantId, targetId, title, body, firstMention) {
+    record()
     const n = node('Agreement', participantId, title, body, undefined, firstMention)
     set(st => ({ nodes: [...st.nodes, n] }))
     const e = edge('agrees-with', n.id, targetId)
@@ -182,24 +442,35 @@ export const useGraphStore = create<Store>((set, get) => ({
     return n.id
   },
   addArgumentSummary(participantId, thesisId, title, body, firstMention) {
+    record()
     const n = node('Argument Summary', participantId, title, body, undefined, firstMention)
     set(st => ({ nodes: [...st.nodes, n] }))
     const e = edge('supports', thesisId, n.id)
     set(st => ({ edges: [...st.edges, e] }))
     return n.id
   },
-  updateNode(id, patch) {
+  updateNode(id, patch, opts) {
+    const current = get().nodes.find(n => n.id === id)
+    if (current && changesDoc(current.data, patch)) record(opts?.coalesceKey)
     set(st => ({
       nodes: st.nodes.map(n => n.id === id ? { ...n, data: { ...n.data, ...patch } } : n)
     }))
   },
-  deleteNode(id) {
+  revertNode(id, patch, coalesceKey) {
+    if (coalesceKey !== lastCoalesceKey || historyDepth > 0 || !get().past.length) return get().updateNode(id, patch)
+    lastCoalesceKey = ''
+    set(st => ({
+      past: st.past.slice(0, -1),
+      nodes: st.nodes.map(n => n.id === id ? { ...n, data: { ...n.data, ...patch } } : n)
+    }))
+  },
+  deleteNode(id, mode = 'orphan') {
     const s = get()
-    // remove node
-    const keptNodes = s.nodes.filter(n => n.id !== id)
-    // remove edges connected to it
-    const keptEdges = s.edges.filter(e => e.source !== id && e.target !== id)
-    set({ nodes: keptNodes, edges: keptEdges })
+    if (!s.nodes.some(n => n.id === id)) return
+    const plan = planDelete(s, id, mode)
+    const { nodes, edges } = applyDeletePlan(s, plan)
+    record()
+    set({ nodes, edges })
   },
   setAllCollapsed(v) {
     set(st => ({
@@ -207,13 +478,24 @@ export const useGraphStore = create<Store>((set, get) => ({
     }))
   },
   loadSnapshot(snap) {
-    set(snap)
+    record()
+    // a document without a transcript, media, comments or sources must not keep the previous one's
+    set({ ...snap, transcript: snap.transcript, media: snap.media, comments: snap.comments || [], sources: snap.sources || [] })
+  },
+  mergeIntoDocument(part) {
+    if (!part.nodes.length && !part.edges.length && !part.participants.length) return
+    record()
+    set(st => ({
+      nodes: [...st.nodes, ...part.nodes],
+      edges: [...st.edges, ...part.edges],
+      participants: [...st.participants, ...part.participants.filter(p => !st.participants.some(q => q.id === p.id))],
+    }))
   },
   getSnapshot() {
-    const s = get()
-    return { nodes: s.nodes, edges: s.edges, participants: s.participants }
+    return docOf(get())
   },
   updateParticipant(id, name) {
+    record('participant:' + id)
     set(st => ({
       participants: st.participants.map(p => p.id === id ? { ...p, name } : p)
     }))
@@ -242,6 +524,7 @@ export const useGraphStore = create<Store>((set, get) => ({
     }
     const hasEdge = s.edges.find(e => (e.data as any)?.kind === 'supports' && e.target === childId)
     if (!hasEdge) throw new Error('Could not find parent edge to update.')
+    record()
     set(st => ({
       edges: st.edges.map(e => (e.id === hasEdge.id ? { ...e, source: newParentId } : e))
     }))
@@ -270,6 +553,7 @@ export const useGraphStore = create<Store>((set, get) => ({
     }
     const ed = s.edges.find(e => (e.data as any)?.kind === edgeKind && e.source === nodeId)
     if (!ed) throw new Error('Could not find the edge to retarget.')
+    record()
     set(st => ({
       edges: st.edges.map(e => e.id === ed.id ? { ...e, target: newTargetId } : e)
     }))
@@ -296,6 +580,7 @@ export const useGraphStore = create<Store>((set, get) => ({
       const exists = res.some(e => (e.data as any)?.kind === 't2-link' && ((e.source === a && e.target === b) || (e.source === b && e.target === a)))
       if (!exists) res.push(edge('t2-link', a, b))
     }
+    record()
     set({ edges: res })
   },
   setT2Links(sourceId, targets) {
@@ -305,9 +590,13 @@ export const useGraphStore = create<Store>((set, get) => ({
     const okKinds = new Set(['Argument','Counter','Evidence'])
     // remove any existing t2 links that involve this node
     const kept = s.edges.filter(e => !((e.data as any)?.kind === 't2-link' && (e.source === sourceId || e.target === sourceId)))
-    set({ edges: kept })
-    if (!okKinds.has(src.data.kind) || src.data.strengthType !== 'Type 2') return
-    get().addT2Links(sourceId, targets)
+    get().transact(() => {
+      // record before removing, so undo brings the old links back even when none are added
+      if (kept.length !== s.edges.length) record()
+      set({ edges: kept })
+      if (!okKinds.has(src.data.kind) || src.data.strengthType !== 'Type 2') return
+      get().addT2Links(sourceId, targets)
+    })
   },
   // ----- Refers-to peer links (visual-only dashed links) -----
   addRefLinks(sourceId, targets) {
@@ -326,6 +615,7 @@ export const useGraphStore = create<Store>((set, get) => ({
       const exists = res.some(e => (e.data as any)?.kind === 'refers-to' && ((e.source === a && e.target === b) || (e.source === b && e.target === a)))
       if (!exists) res.push(edge('refers-to', a, b))
     }
+    record()
     set({ edges: res })
   },
   setRefLinks(sourceId, targets) {
@@ -334,7 +624,11 @@ export const useGraphStore = create<Store>((set, get) => ({
     if (!src) return
     // remove any existing refers-to links that involve this node
     const kept = s.edges.filter(e => !((e.data as any)?.kind === 'refers-to' && (e.source === sourceId || e.target === sourceId)))
-    set({ edges: kept })
-    get().addRefLinks(sourceId, targets)
+    get().transact(() => {
+      // record before removing, so undo brings the old links back even when none are added
+      if (kept.length !== s.edges.length) record()
+      set({ edges: kept })
+      get().addRefLinks(sourceId, targets)
+    })
   },
 }))
\ No newline at end of file
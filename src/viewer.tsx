@@ -0,0 +1,24 @@
+// Entry of the read-only viewer that shared .html files carry (see graph/sharedHtml.ts)
+import React from 'react'
+import { createRoot } from 'react-dom/client'
+import MapViewer from './components/MapViewer'
+import { readSharedMap } from './graph/sharedHtml'
+import { readSnapshot } from './graph/snapshot'
+import { useGraphStore } from './store/useGraphStore'
+import './styles.css'
+import 'reactflow/dist/style.css'
+
+const container = document.getElementById('root')!
+const root = createRoot(container)
+const shared = readSharedMap(document)
+const loaded = shared && readSnapshot(shared.snapshot)
+if (shared && loaded?.ok) {
+  const store = useGraphStore.getState()
+  store.loadSnapshot(loaded.snapshot)
+  store.setLayoutDirection(shared.direction)
+  store.setLayoutEngine(shared.engine)
+  document.title = shared.title
+  root.render(<React.StrictMode><MapViewer title={shared.title} exportedAt={shared.exportedAt} positions={shared.positions} /></React.StrictMode>)
+} else {
+  root.render(<div className="small" style={{ padding: 24 }}>This file does not contain a readable debate map.</div>)
+}
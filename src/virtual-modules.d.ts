@@ -0,0 +1,7 @@
+// Modules generated by the plugins in vite.config.ts
+
+/** Shared-map viewer page with the map title and data left as slots (see graph/sharedHtml.ts) */
+declare module 'virtual:viewer-html' {
+  const html: string
+  export default html
+}
@@ -1,8 +1,64 @@
-import { defineConfig } from 'vite'
+import { defineConfig, build, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const VIEWER_HTML = 'virtual:viewer-html'
+
+// Builds src/viewer.tsx into one self-contained page for shared .html exports:
+// script and styles inline, web fonts dropped so the file opens without network
+function viewerHtml(): Plugin {
+  let html: Promise<string> | undefined
+  return {
+    name: 'viewer-html',
+    resolveId(id) {
+      if (id === VIEWER_HTML) return '\0' + VIEWER_HTML
+    },
+    async load(id) {
+      if (id !== '\0' + VIEWER_HTML) return
+      if (!html) html = buildViewer()
+      return `export default ${JSON.stringify(await html)}`
+    },
+  }
+}
+
+async function buildViewer(): Promise<string> {
+  const out = await build({
+    configFile: false,
+    logLevel: 'warn',
+    plugins: [react()],
+    build: {
+      write: false,
+      cssCodeSplit: false,
+      modulePreload: false,
+      assetsInlineLimit: Number.MAX_SAFE_INTEGER,
+      rollupOptions: {
+        input: 'src/viewer.tsx',
+        output: { format: 'iife', inlineDynamicImports: true },
+      },
+    },
+  })
+  const outputs = (Array.isArray(out) ? out : [out]).flatMap(o => 'output' in o ? o.output : [])
+  const js = outputs.filter(o => o.type === 'chunk').map(o => (o as { code: string }).code).join('\n')
+  const css = outputs.filter(o => o.type === 'asset' && o.fileName.endsWith('.css')).map(o => String((o as { source: string | Uint8Array }).source)).join('\n')
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="UTF-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+    '<title><!--map-title--></title>',
+    `<style>${css.replace(/@import\s*(?:url\([^)]*\)|"[^"]*"|'[^']*')[^;]*;/g, '').replace(/<\/style/gi, '<\\/style')}</style>`,
+    '</head>',
+    '<body>',
+    '<div id="root"></div>',
+    '<script type="application/json" id="map-data"><!--map-data--></script>',
+    `<script>${js.replace(/<\/script/gi, '<\\/script')}</script>`,
+    '</body>',
+    '</html>',
+  ].join('\n')
+}
+
 // Use relative asset URLs so the app runs from any subpath (e.g. /<repo>/ on GitHub Pages)
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), viewerHtml()],
   base: './',
 })